@@ -2,42 +2,55 @@
  * Transaction History Screen
  *
  * List payments with filters (type, status) and pagination (load more).
+ * The category filter applies to local payment labels, so it narrows the loaded pages.
+ * Search runs against the local payment index, so it covers every page and works offline.
  */
 
-import React, { useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback } from 'react';
 import { View, StyleSheet, TouchableOpacity } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Text } from '@/components/ui';
+import { Ionicons } from '@expo/vector-icons';
+import { Text, Input } from '@/components/ui';
 import { TransactionList } from '@/components/wallet';
 import { useWalletStore } from '@/stores/walletStore';
+import { usePaymentLabelStore, PAYMENT_CATEGORIES, PAYMENT_CATEGORY_LABELS } from '@/stores/paymentLabelStore';
+import { usePaymentIndexStore, searchPayments } from '@/stores/paymentIndexStore';
 import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
 import { spacing, layout } from '@/theme';
-import type { LightningPayment, ListPaymentsFilter } from '@/types/wallet';
+import type { MessageKey } from '@/i18n';
+import type { LightningPayment, ListPaymentsFilter, PaymentCategory } from '@/types/wallet';
 
-const TYPE_OPTIONS: { value: 'all' | 'send' | 'receive'; label: string }[] = [
-  { value: 'all', label: 'All' },
-  { value: 'send', label: 'Sent' },
-  { value: 'receive', label: 'Received' },
+const TYPE_OPTIONS: { value: 'all' | 'send' | 'receive'; label: MessageKey }[] = [
+  { value: 'all', label: 'history.all' },
+  { value: 'send', label: 'payment.sent' },
+  { value: 'receive', label: 'payment.received' },
 ];
 
-const STATUS_OPTIONS: { value: 'all' | 'completed' | 'pending' | 'failed'; label: string }[] = [
-  { value: 'all', label: 'All' },
-  { value: 'completed', label: 'Completed' },
-  { value: 'pending', label: 'Pending' },
-  { value: 'failed', label: 'Failed' },
+const STATUS_OPTIONS: { value: 'all' | 'completed' | 'pending' | 'failed'; label: MessageKey }[] = [
+  { value: 'all', label: 'history.all' },
+  { value: 'completed', label: 'payment.status.completed' },
+  { value: 'pending', label: 'payment.status.pending' },
+  { value: 'failed', label: 'payment.status.failed' },
 ];
 
-const DATE_OPTIONS: { value: 'all' | '7' | '30'; label: string; fromTimestamp?: number }[] = [
-  { value: 'all', label: 'All time' },
-  { value: '7', label: 'Last 7 days', fromTimestamp: Math.floor(Date.now() / 1000) - 7 * 24 * 3600 },
-  { value: '30', label: 'Last 30 days', fromTimestamp: Math.floor(Date.now() / 1000) - 30 * 24 * 3600 },
+const DATE_OPTIONS: { value: 'all' | '7' | '30'; label: MessageKey; fromTimestamp?: number }[] = [
+  { value: 'all', label: 'history.allTime' },
+  { value: '7', label: 'history.last7Days', fromTimestamp: Math.floor(Date.now() / 1000) - 7 * 24 * 3600 },
+  { value: '30', label: 'history.last30Days', fromTimestamp: Math.floor(Date.now() / 1000) - 30 * 24 * 3600 },
+];
+
+const CATEGORY_OPTIONS: { value: 'all' | PaymentCategory; label: MessageKey }[] = [
+  { value: 'all', label: 'history.all' },
+  ...PAYMENT_CATEGORIES.map((value) => ({ value, label: PAYMENT_CATEGORY_LABELS[value] })),
 ];
 
 export default function HistoryScreen() {
   const router = useRouter();
   const colors = useColors();
+  const { t } = useTranslation();
   const {
     payments,
     isLoadingPayments,
@@ -46,6 +59,28 @@ export default function HistoryScreen() {
     paymentFilter,
     listPayments,
   } = useWalletStore();
+  const labels = usePaymentLabelStore((s) => s.labels);
+  const indexedPayments = usePaymentIndexStore((s) => s.payments);
+  const syncIndex = usePaymentIndexStore((s) => s.syncIndex);
+  const [category, setCategory] = useState<'all' | PaymentCategory>('all');
+  const [query, setQuery] = useState('');
+  const isSearching = query.trim().length > 0;
+
+  // While searching, the type/status/date chips filter the index locally
+  const searchResults = useMemo(() => {
+    if (!isSearching) return [];
+    const { typeFilter, statusFilter, fromTimestamp } = paymentFilter;
+    return searchPayments(indexedPayments, labels, query).filter((p) =>
+      (!typeFilter?.length || typeFilter.includes(p.type))
+      && (!statusFilter?.length || statusFilter.includes(p.status))
+      && (fromTimestamp == null || p.timestamp.getTime() >= fromTimestamp * 1000)
+    );
+  }, [isSearching, indexedPayments, labels, query, paymentFilter]);
+
+  const visiblePayments = useMemo(() => {
+    const source = isSearching ? searchResults : payments;
+    return category === 'all' ? source : source.filter((p) => labels[p.id]?.category === category);
+  }, [isSearching, searchResults, payments, labels, category]);
 
   useFocusEffect(
     useCallback(() => {
@@ -92,10 +127,10 @@ export default function HistoryScreen() {
   }, [paymentFilter.fromTimestamp]);
 
   const currentType = useMemo(() => {
-    const t = paymentFilter.typeFilter;
-    if (!t || t.length === 0) return 'all';
-    if (t.includes('send') && !t.includes('receive')) return 'send';
-    if (t.includes('receive') && !t.includes('send')) return 'receive';
+    const types = paymentFilter.typeFilter;
+    if (!types || types.length === 0) return 'all';
+    if (types.includes('send') && !types.includes('receive')) return 'send';
+    if (types.includes('receive') && !types.includes('send')) return 'receive';
     return 'all';
   }, [paymentFilter.typeFilter]);
 
@@ -137,6 +172,8 @@ export default function HistoryScreen() {
           paddingVertical: spacing.md,
           gap: spacing.xxs,
         },
+        titleRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+        search: { paddingHorizontal: spacing.lg, paddingBottom: spacing.sm },
         filterSection: {
           paddingHorizontal: spacing.lg,
           paddingBottom: spacing.sm,
@@ -163,18 +200,41 @@ export default function HistoryScreen() {
     <View style={styles.container}>
       <SafeAreaView style={styles.safeArea}>
         <View style={styles.header}>
-          <Text variant="headlineMedium" color={colors.text.primary}>
-            Transaction history
-          </Text>
+          <View style={styles.titleRow}>
+            <Text variant="headlineMedium" color={colors.text.primary}>
+              {t('history.title')}
+            </Text>
+            <TouchableOpacity onPress={() => router.push('/export')} hitSlop={8}>
+              <Ionicons name="share-outline" size={22} color={colors.gold.pure} />
+            </TouchableOpacity>
+          </View>
           <Text variant="bodyMedium" color={colors.text.secondary}>
-            {payments.length} transaction{payments.length !== 1 ? 's' : ''}
+            {t(isSearching ? 'history.matchCount' : 'history.transactionCount', { count: visiblePayments.length })}
           </Text>
         </View>
 
+        <View style={styles.search}>
+          <Input
+            placeholder={t('history.searchPlaceholder')}
+            value={query}
+            onChangeText={setQuery}
+            leftIcon={<Ionicons name="search" size={18} color={colors.text.muted} />}
+            rightIcon={
+              isSearching ? (
+                <TouchableOpacity onPress={() => setQuery('')}>
+                  <Ionicons name="close-circle" size={18} color={colors.text.muted} />
+                </TouchableOpacity>
+              ) : undefined
+            }
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+        </View>
+
         {/* Filters */}
         <View style={styles.filterSection}>
           <Text variant="labelMedium" color={colors.text.muted}>
-            Type
+            {t('history.filterType')}
           </Text>
           <View style={styles.filterRow}>
             {TYPE_OPTIONS.map((opt) => {
@@ -195,14 +255,14 @@ export default function HistoryScreen() {
                     variant="labelMedium"
                     color={active ? colors.gold.pure : colors.text.secondary}
                   >
-                    {opt.label}
+                    {t(opt.label)}
                   </Text>
                 </TouchableOpacity>
               );
             })}
           </View>
           <Text variant="labelMedium" color={colors.text.muted} style={{ marginTop: spacing.xs }}>
-            Status
+            {t('history.filterStatus')}
           </Text>
           <View style={styles.filterRow}>
             {STATUS_OPTIONS.map((opt) => {
@@ -223,14 +283,14 @@ export default function HistoryScreen() {
                     variant="labelMedium"
                     color={active ? colors.gold.pure : colors.text.secondary}
                   >
-                    {opt.label}
+                    {t(opt.label)}
                   </Text>
                 </TouchableOpacity>
               );
             })}
           </View>
           <Text variant="labelMedium" color={colors.text.muted} style={{ marginTop: spacing.xs }}>
-            Date range
+            {t('history.filterDate')}
           </Text>
           <View style={styles.filterRow}>
             {DATE_OPTIONS.map((opt) => {
@@ -251,7 +311,35 @@ export default function HistoryScreen() {
                     variant="labelMedium"
                     color={active ? colors.gold.pure : colors.text.secondary}
                   >
-                    {opt.label}
+                    {t(opt.label)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <Text variant="labelMedium" color={colors.text.muted} style={{ marginTop: spacing.xs }}>
+            {t('history.filterCategory')}
+          </Text>
+          <View style={styles.filterRow}>
+            {CATEGORY_OPTIONS.map((opt) => {
+              const active = category === opt.value;
+              return (
+                <TouchableOpacity
+                  key={opt.value}
+                  style={[
+                    styles.chip,
+                    {
+                      backgroundColor: active ? colors.gold.glow : colors.background.secondary,
+                      borderColor: active ? colors.gold.pure : colors.border.subtle,
+                    },
+                  ]}
+                  onPress={() => setCategory(opt.value)}
+                >
+                  <Text
+                    variant="labelMedium"
+                    color={active ? colors.gold.pure : colors.text.secondary}
+                  >
+                    {t(opt.label)}
                   </Text>
                 </TouchableOpacity>
               );
@@ -261,13 +349,13 @@ export default function HistoryScreen() {
 
         <View style={styles.listContainer}>
           <TransactionList
-            transactions={payments}
+            transactions={visiblePayments}
             onTransactionPress={handleTransactionPress}
-            onRefresh={() => listPayments()}
-            onEndReached={() => listPayments({ append: true })}
+            onRefresh={() => (isSearching ? syncIndex() : listPayments())}
+            onEndReached={isSearching ? undefined : () => listPayments({ append: true })}
             isLoading={isLoadingPayments}
             isLoadingMore={isLoadingMorePayments}
-            hasMore={hasMorePayments}
+            hasMore={!isSearching && hasMorePayments}
           />
         </View>
       </SafeAreaView>
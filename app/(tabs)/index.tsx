@@ -16,16 +16,18 @@ import { useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
-import { formatDistanceToNow } from 'date-fns';
 import { Text, FiatAmount } from '@/components/ui';
 import { KeychainService } from '@/services/keychain';
 import { BalanceCard } from '@/components/wallet';
 import { useWalletStore } from '@/stores/walletStore';
 import { useColors } from '@/contexts';
 import { spacing, layout } from '@/theme';
-import { formatSignedAmountStr } from '@/utils/format';
+import { usePrimaryAmount, useTranslation } from '@/hooks';
+import { formatTokenAmount } from '@/utils/format';
+import { formatDate, formatTimeAgo } from '@/utils/locale';
+import { isBackupCheckDue } from '@/utils/mnemonic';
 import type { ColorTheme } from '@/theme/colors';
-import type { LightningPayment, BitcoinUnit } from '@/types/wallet';
+import type { LightningPayment } from '@/types/wallet';
 
 // Styles function - defined before component to ensure it's available
 const getStyles = (colors: ColorTheme) => StyleSheet.create({
@@ -63,6 +65,19 @@ const getStyles = (colors: ColorTheme) => StyleSheet.create({
     padding: spacing.lg,
     paddingBottom: layout.tabBarHeight + spacing.xl,
   },
+  backupReminder: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    borderRadius: layout.radius.lg,
+    borderWidth: 1,
+  },
+  backupReminderText: {
+    flex: 1,
+    gap: spacing.xxs,
+  },
   actionsContainer: {
     flexDirection: 'row',
     gap: spacing.md,
@@ -148,7 +163,6 @@ export default function HomeScreen() {
   const {
     balance,
     recentPayments,
-    settings,
     isLoadingBalance,
     isInitializing,
     initError,
@@ -157,11 +171,15 @@ export default function HomeScreen() {
     fetchBtcPrice,
     initializeWallet,
     isInitialized,
+    settings,
   } = useWalletStore();
+  const { t } = useTranslation();
 
-  const tryInitialize = useCallback(() =>
-    KeychainService.getMnemonic().then(initializeWallet),
-  [initializeWallet]);
+  const tryInitialize = useCallback(async () => {
+    const mnemonic = await KeychainService.getMnemonic();
+    const passphrase = await KeychainService.getPassphrase();
+    await initializeWallet(mnemonic, passphrase);
+  }, [initializeWallet]);
 
   useEffect(() => {
     if (!isInitialized && !isInitializing && !initError) {
@@ -197,7 +215,7 @@ export default function HomeScreen() {
           <View style={styles.errorContainer}>
             <Ionicons name="warning" size={64} color={colors.status.error} />
             <Text variant="headlineSmall" color={colors.text.primary} align="center">
-              Failed to Initialize Wallet
+              {t('home.initFailed')}
             </Text>
             <Text variant="bodyMedium" color={colors.text.secondary} align="center">
               {initError}
@@ -207,7 +225,7 @@ export default function HomeScreen() {
               onPress={tryInitialize}
             >
               <Text variant="titleSmall" color={colors.gold.pure}>
-                Retry
+                {t('common.retry')}
               </Text>
             </TouchableOpacity>
             {initError?.includes('corrupted') && (
@@ -216,7 +234,7 @@ export default function HomeScreen() {
                 onPress={() => router.replace('/onboarding')}
               >
                 <Text variant="titleSmall" color={colors.text.secondary}>
-                  Create New Wallet
+                  {t('home.createNew')}
                 </Text>
               </TouchableOpacity>
             )}
@@ -234,7 +252,7 @@ export default function HomeScreen() {
           <View style={styles.loadingContainer}>
             <Ionicons name="logo-bitcoin" size={48} color={colors.gold.pure} />
             <Text variant="titleMedium" color={colors.text.primary}>
-              Connecting to Lightning Network...
+              {t('home.connecting')}
             </Text>
           </View>
         </SafeAreaView>
@@ -256,6 +274,8 @@ export default function HomeScreen() {
           <TouchableOpacity
             style={[styles.notificationButton, { backgroundColor: colors.background.secondary }]}
             onPress={() => router.push('/notifications')}
+            accessibilityRole="button"
+            accessibilityLabel={t('notifications.title')}
           >
             <Ionicons name="notifications-outline" size={24} color={colors.text.primary} />
           </TouchableOpacity>
@@ -273,6 +293,28 @@ export default function HomeScreen() {
             />
           }
         >
+          {/* Backup reminder */}
+          {isBackupCheckDue(settings.lastBackupCheckAt) && (
+            <TouchableOpacity
+              style={[styles.backupReminder, { backgroundColor: colors.gold.glow, borderColor: colors.gold.pure }]}
+              onPress={() => router.push('/backup-check')}
+              accessibilityRole="button"
+            >
+              <Ionicons name="shield-half" size={24} color={colors.gold.pure} />
+              <View style={styles.backupReminderText}>
+                <Text variant="titleSmall" color={colors.text.primary}>
+                  {t('backupCheck.reminderTitle')}
+                </Text>
+                <Text variant="bodySmall" color={colors.text.secondary}>
+                  {settings.lastBackupCheckAt == null
+                    ? t('backupCheck.reminderNever')
+                    : t('backupCheck.reminderStale', { date: formatDate(new Date(settings.lastBackupCheckAt), 'PP') })}
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={colors.text.muted} />
+            </TouchableOpacity>
+          )}
+
           {/* Balance Card */}
           <BalanceCard
             balance={balance}
@@ -288,7 +330,7 @@ export default function HomeScreen() {
                   <Ionicons name="arrow-up" size={24} color={colors.text.primary} />
                 </View>
                 <Text variant="titleMedium" color={colors.text.primary}>
-                  Send
+                  {t('home.send')}
                 </Text>
               </View>
             </TouchableOpacity>
@@ -299,7 +341,7 @@ export default function HomeScreen() {
                   <Ionicons name="arrow-down" size={24} color="#FFFFFF" />
                 </View>
                 <Text variant="titleMedium" color="#FFFFFF">
-                  Receive
+                  {t('home.receive')}
                 </Text>
               </View>
             </TouchableOpacity>
@@ -309,12 +351,12 @@ export default function HomeScreen() {
           <View style={styles.recentSection}>
             <View style={styles.sectionHeader}>
               <Text variant="titleMedium" color={colors.text.primary}>
-                Recent Activity
+                {t('home.recentActivity')}
               </Text>
               {recentPayments.length > 0 && (
                 <TouchableOpacity onPress={() => router.push('/(tabs)/history')}>
                   <Text variant="labelMedium" color={colors.gold.pure}>
-                    See All
+                    {t('home.seeAll')}
                   </Text>
                 </TouchableOpacity>
               )}
@@ -323,17 +365,17 @@ export default function HomeScreen() {
             {recentPayments.length > 0 ? (
               <View style={styles.paymentsList}>
                 {recentPayments.map((payment) => (
-                  <PaymentItem key={payment.id} payment={payment} currency={settings.bitcoinUnit} />
+                  <PaymentItem key={payment.id} payment={payment} />
                 ))}
               </View>
             ) : (
               <View style={styles.emptyState}>
                 <Ionicons name="flash-outline" size={48} color={colors.text.muted} />
                 <Text variant="bodyMedium" color={colors.text.secondary} align="center">
-                  No payments yet
+                  {t('home.empty')}
                 </Text>
                 <Text variant="bodySmall" color={colors.text.muted} align="center">
-                  Send or receive your first Lightning payment
+                  {t('home.emptyHint')}
                 </Text>
               </View>
             )}
@@ -344,12 +386,17 @@ export default function HomeScreen() {
   );
 }
 
-const PaymentItem: React.FC<{ payment: LightningPayment; currency: BitcoinUnit }> = ({ payment, currency }) => {
+const PaymentItem: React.FC<{ payment: LightningPayment }> = ({ payment }) => {
   const router = useRouter();
   const colors = useColors();
+  const primaryAmount = usePrimaryAmount();
+  const { t } = useTranslation();
   const isReceive = payment.type === 'receive';
+  const direction = t(isReceive ? 'payment.received' : 'payment.sent');
   const styles = getStyles(colors);
-  const formattedAmount = formatSignedAmountStr(payment.amountSats, isReceive ? '+' : '-', currency);
+  const formattedAmount = payment.token
+    ? `${isReceive ? '+' : '-'}${formatTokenAmount(payment.token.amount, payment.token.decimals, payment.token.ticker)}`
+    : primaryAmount.formatStr(payment.amountSats, isReceive ? '+' : '-');
 
   const handlePress = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -362,7 +409,7 @@ const PaymentItem: React.FC<{ payment: LightningPayment; currency: BitcoinUnit }
       onPress={handlePress}
       activeOpacity={0.7}
       accessibilityRole="button"
-      accessibilityLabel={`${isReceive ? 'Received' : 'Sent'} ${payment.description ?? ''}, ${formattedAmount}`}
+      accessibilityLabel={[direction, payment.description, formattedAmount].filter(Boolean).join(', ')}
     >
       <View style={[
         styles.paymentIcon,
@@ -376,10 +423,10 @@ const PaymentItem: React.FC<{ payment: LightningPayment; currency: BitcoinUnit }
       </View>
       <View style={styles.paymentDetails}>
         <Text variant="titleSmall" numberOfLines={1} color={colors.text.primary}>
-          {payment.description || (isReceive ? 'Received' : 'Sent')}
+          {payment.description || direction}
         </Text>
         <Text variant="bodySmall" color={colors.text.muted}>
-          {formatDistanceToNow(payment.timestamp, { addSuffix: true })}
+          {formatTimeAgo(payment.timestamp)}
         </Text>
       </View>
       <View style={{ alignItems: 'flex-end', flexShrink: 0 }}>
@@ -389,7 +436,7 @@ const PaymentItem: React.FC<{ payment: LightningPayment; currency: BitcoinUnit }
         >
           {formattedAmount}
         </Text>
-        <FiatAmount sats={payment.amountSats} style={{ textAlign: 'right' }} />
+        {!payment.token && <FiatAmount sats={payment.amountSats} style={{ textAlign: 'right' }} />}
       </View>
     </TouchableOpacity>
   );
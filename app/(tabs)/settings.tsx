@@ -2,7 +2,7 @@
  * Settings Screen
  */
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
   View,
   StyleSheet,
@@ -11,6 +11,7 @@ import {
   Alert,
   Modal,
   Linking,
+  FlatList,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
@@ -18,32 +19,39 @@ import { Ionicons } from '@expo/vector-icons';
 import Constants from 'expo-constants';
 import * as Haptics from 'expo-haptics';
 import { Text, Input } from '@/components/ui';
-import type { BitcoinUnit, FiatCurrency, MaxDepositClaimFeeSetting } from '@/types/wallet';
+import type { AppLanguage, BitcoinUnit, FiatCurrency, MaxDepositClaimFeeSetting } from '@/types/wallet';
 import { useWalletStore } from '@/stores/walletStore';
+import { useLnurlAuthStore } from '@/stores/lnurlAuthStore';
+import { useContactsStore } from '@/stores/contactsStore';
+import { RateService } from '@/services/prices';
+import { fiatCurrencyName, fiatCurrencySymbol } from '@/utils/format';
+import { formatDate } from '@/utils/locale';
 import { useTheme, useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
+import { LANGUAGE_NAMES, SUPPORTED_LANGUAGES } from '@/i18n';
+import type { MessageKey, Translate } from '@/i18n';
 import { spacing, layout } from '@/theme';
 import type { ColorTheme } from '@/theme/colors';
 
 // Currency options
-const BITCOIN_UNITS = [
-  { value: 'BTC', label: 'Bitcoin', symbol: '₿', description: 'Display as BTC (0.00100000)' },
-  { value: 'SATS', label: 'Satoshis', symbol: 'sats', description: 'Display as sats (100,000)' },
+const BITCOIN_UNITS: { value: BitcoinUnit; label: MessageKey; symbol: string; description: MessageKey }[] = [
+  { value: 'BTC', label: 'settings.unit.BTC', symbol: '₿', description: 'settings.unit.BTC.description' },
+  { value: 'SATS', label: 'settings.unit.SATS', symbol: 'sats', description: 'settings.unit.SATS.description' },
+  { value: 'BIP177', label: 'settings.unit.BIP177', symbol: '₿', description: 'settings.unit.BIP177.description' },
 ];
 
-const FIAT_CURRENCIES = [
-  { value: 'USD', label: 'US Dollar', symbol: '$' },
-  { value: 'EUR', label: 'Euro', symbol: '€' },
-  { value: 'GBP', label: 'British Pound', symbol: '£' },
-  { value: 'JPY', label: 'Japanese Yen', symbol: '¥' },
-  { value: 'CAD', label: 'Canadian Dollar', symbol: 'C$' },
-  { value: 'AUD', label: 'Australian Dollar', symbol: 'A$' },
-  { value: 'CHF', label: 'Swiss Franc', symbol: 'CHF' },
-  { value: 'CNY', label: 'Chinese Yuan', symbol: '¥' },
-  { value: 'INR', label: 'Indian Rupee', symbol: '₹' },
-  { value: 'MXN', label: 'Mexican Peso', symbol: '$' },
-  { value: 'BRL', label: 'Brazilian Real', symbol: 'R$' },
-  { value: 'KRW', label: 'South Korean Won', symbol: '₩' },
-];
+const THEME_LABELS: Record<'dark' | 'light' | 'system', MessageKey> = {
+  dark: 'settings.theme.dark',
+  light: 'settings.theme.light',
+  system: 'settings.theme.system',
+};
+
+const LNURL_LAST_LABELS: Record<string, MessageKey> = {
+  register: 'settings.lnurlLast.register',
+  login: 'settings.lnurlLast.login',
+  link: 'settings.lnurlLast.link',
+  auth: 'settings.lnurlLast.auth',
+};
 
 // External links - replace these with your actual URLs
 const EXTERNAL_LINKS = {
@@ -58,20 +66,20 @@ const EXTERNAL_LINKS = {
 // Get app version from expo constants
 const APP_VERSION = Constants.expoConfig?.version || '1.0.0';
 
-function getMaxDepositClaimFeeSubtitle(setting: MaxDepositClaimFeeSetting): string {
+function getMaxDepositClaimFeeSubtitle(setting: MaxDepositClaimFeeSetting, t: Translate): string {
   switch (setting.type) {
     case 'conservative':
-      return 'Conservative (1 sats/vbyte)';
+      return t('settings.fee.conservative.subtitle');
     case 'network_recommended':
-      return `Network recommended (+${setting.leewaySatPerVbyte ?? 1} sats/vbyte)`;
+      return t('settings.fee.network_recommended.subtitle', { leeway: setting.leewaySatPerVbyte ?? 1 });
     case 'rate':
-      return `Custom rate (${setting.satPerVbyte ?? 10} sats/vbyte)`;
+      return t('settings.fee.rate.subtitle', { rate: setting.satPerVbyte ?? 10 });
     case 'fixed':
-      return `Custom max (${setting.amountSats ?? 1000} sats)`;
+      return t('settings.fee.fixed.subtitle', { amount: setting.amountSats ?? 1000 });
     case 'disabled':
-      return 'No automatic claiming';
+      return t('settings.fee.disabled.description');
     default:
-      return 'Conservative (1 sats/vbyte)';
+      return t('settings.fee.conservative.subtitle');
   }
 }
 
@@ -80,11 +88,19 @@ export default function SettingsScreen() {
   const { settings, updateSettings } = useWalletStore();
   const { mode: themeMode, setMode: setThemeMode, isDark } = useTheme();
   const colors = useColors();
+  const { t } = useTranslation();
   const styles = useMemo(() => createSettingsStyles(colors), [colors]);
   const [showBitcoinUnitModal, setShowBitcoinUnitModal] = useState(false);
   const [showFiatCurrencyModal, setShowFiatCurrencyModal] = useState(false);
+  const [fiatCurrencies, setFiatCurrencies] = useState<FiatCurrency[]>([]);
+  const [fiatQuery, setFiatQuery] = useState('');
   const [showThemeModal, setShowThemeModal] = useState(false);
+  const [showLanguageModal, setShowLanguageModal] = useState(false);
   const [showMaxDepositClaimFeeModal, setShowMaxDepositClaimFeeModal] = useState(false);
+  const [showLnurlAuthModal, setShowLnurlAuthModal] = useState(false);
+  const lnurlAuthDomains = useLnurlAuthStore((s) => s.domains);
+  const contactCount = useContactsStore((s) => s.contacts.length);
+  const revokeLnurlAuthDomain = useLnurlAuthStore((s) => s.revokeDomain);
 
   const handleBitcoinUnitSelect = (unit: BitcoinUnit) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -92,10 +108,55 @@ export default function SettingsScreen() {
     setShowBitcoinUnitModal(false);
   };
 
+  // The currency list comes from the rate providers, so load it when the picker opens
+  useEffect(() => {
+    if (!showFiatCurrencyModal) return;
+    let cancelled = false;
+    RateService.listCurrencies().then((codes) => {
+      if (!cancelled) setFiatCurrencies(codes);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [showFiatCurrencyModal]);
+
+  const visibleFiatCurrencies = useMemo(() => {
+    const q = fiatQuery.trim().toLowerCase();
+    if (!q) return fiatCurrencies;
+    return fiatCurrencies.filter((code) =>
+      code.toLowerCase().includes(q) || fiatCurrencyName(code).toLowerCase().includes(q)
+    );
+  }, [fiatCurrencies, fiatQuery]);
+
   const handleFiatCurrencySelect = (currency: FiatCurrency) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     updateSettings({ fiatCurrency: currency });
     setShowFiatCurrencyModal(false);
+    setFiatQuery('');
+  };
+
+  const handleLanguageSelect = (language: AppLanguage) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    updateSettings({ language });
+    setShowLanguageModal(false);
+  };
+
+  const handleRevokeLnurlAuthDomain = (domain: string) => {
+    Alert.alert(
+      t('settings.forgetService'),
+      t('settings.forgetServiceBody', { domain }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('settings.forget'),
+          style: 'destructive',
+          onPress: () => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            revokeLnurlAuthDomain(domain);
+          },
+        },
+      ]
+    );
   };
 
   const openExternalLink = async (url: string) => {
@@ -104,36 +165,36 @@ export default function SettingsScreen() {
       if (supported) {
         await Linking.openURL(url);
       } else {
-        Alert.alert('Error', 'Unable to open this link.');
+        Alert.alert(t('common.error'), t('settings.linkUnsupported'));
       }
     } catch (error) {
       console.error('Failed to open link:', error);
-      Alert.alert('Error', 'Failed to open link.');
+      Alert.alert(t('common.error'), t('settings.linkFailed'));
     }
   };
 
   const handleAbout = () => {
     Alert.alert(
-      'About Starr',
-      `Version ${APP_VERSION}\n\nStarr is a non-custodial Lightning wallet built for simplicity and security.`,
+      t('settings.aboutStarr'),
+      t('settings.aboutBody', { version: APP_VERSION }),
       [
-        { text: 'About', onPress: () => openExternalLink(EXTERNAL_LINKS.ABOUT) },
-        { text: 'Careers', onPress: () => openExternalLink(EXTERNAL_LINKS.CAREERS) },
-        { text: 'View on GitHub', onPress: () => openExternalLink(EXTERNAL_LINKS.GITHUB) },
-        { text: 'OK' },
+        { text: t('settings.about'), onPress: () => openExternalLink(EXTERNAL_LINKS.ABOUT) },
+        { text: t('settings.careers'), onPress: () => openExternalLink(EXTERNAL_LINKS.CAREERS) },
+        { text: t('settings.viewOnGithub'), onPress: () => openExternalLink(EXTERNAL_LINKS.GITHUB) },
+        { text: t('common.ok') },
       ]
     );
   };
 
   const handleSupport = () => {
     Alert.alert(
-      'Get Support',
-      'How would you like to get help?',
+      t('settings.getSupport'),
+      t('settings.supportBody'),
       [
-        { text: 'Visit Support Page', onPress: () => openExternalLink(EXTERNAL_LINKS.SUPPORT) },
-        { text: 'Email Support', onPress: () => Linking.openURL('mailto:support@starr.app') },
-        { text: 'Careers', onPress: () => openExternalLink(EXTERNAL_LINKS.CAREERS) },
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('settings.supportPage'), onPress: () => openExternalLink(EXTERNAL_LINKS.SUPPORT) },
+        { text: t('settings.emailSupport'), onPress: () => Linking.openURL('mailto:support@starr.app') },
+        { text: t('settings.careers'), onPress: () => openExternalLink(EXTERNAL_LINKS.CAREERS) },
+        { text: t('common.cancel'), style: 'cancel' },
       ]
     );
   };
@@ -144,7 +205,7 @@ export default function SettingsScreen() {
         {/* Header */}
         <View style={styles.header}>
           <Text variant="headlineMedium" color={colors.text.primary}>
-            Settings
+            {t('settings.title')}
           </Text>
         </View>
 
@@ -156,40 +217,124 @@ export default function SettingsScreen() {
           {/* Display Section */}
           <View style={styles.section}>
             <Text variant="labelMedium" color={colors.text.muted} style={styles.sectionLabel}>
-              Display
+              {t('settings.display')}
             </Text>
 
             <SettingsItem
               icon="logo-bitcoin"
-              title="Bitcoin Unit"
-              subtitle={BITCOIN_UNITS.find(u => u.value === settings.bitcoinUnit)?.label ?? settings.bitcoinUnit}
+              title={t('settings.bitcoinUnit')}
+              subtitle={(() => {
+                const unit = BITCOIN_UNITS.find(u => u.value === settings.bitcoinUnit);
+                return unit ? t(unit.label) : settings.bitcoinUnit;
+              })()}
               onPress={() => setShowBitcoinUnitModal(true)}
             />
 
             <SettingsItem
               icon="cash"
-              title="Fiat Currency"
-              subtitle={FIAT_CURRENCIES.find(c => c.value === settings.fiatCurrency)?.label ?? settings.fiatCurrency}
+              title={t('settings.fiatCurrency')}
+              subtitle={`${fiatCurrencyName(settings.fiatCurrency)} (${settings.fiatCurrency})`}
               onPress={() => setShowFiatCurrencyModal(true)}
             />
 
             <SettingsItem
               icon={isDark ? 'moon' : 'sunny'}
-              title="Theme"
-              subtitle={themeMode === 'system' ? 'System' : themeMode === 'dark' ? 'Dark' : 'Light'}
+              title={t('settings.theme')}
+              subtitle={t(THEME_LABELS[themeMode])}
               onPress={() => setShowThemeModal(true)}
             />
+
+            <SettingsItem
+              icon="language"
+              title={t('settings.language')}
+              subtitle={
+                settings.language === 'system'
+                  ? t('settings.language.system')
+                  : LANGUAGE_NAMES[settings.language]
+              }
+              onPress={() => setShowLanguageModal(true)}
+            />
+          </View>
+
+          {/* Contacts */}
+          <View style={styles.section}>
+            <Text variant="labelMedium" color={colors.text.muted} style={styles.sectionLabel}>
+              {t('settings.contacts')}
+            </Text>
+            <SettingsItem
+              icon="people"
+              title={t('settings.addressBook')}
+              subtitle={
+                contactCount === 0
+                  ? t('settings.noContacts')
+                  : t('settings.contactCount', { count: contactCount })
+              }
+              onPress={() => router.push('/contacts')}
+            />
+          </View>
+
+          {/* Security */}
+          <View style={styles.section}>
+            <Text variant="labelMedium" color={colors.text.muted} style={styles.sectionLabel}>
+              {t('settings.security')}
+            </Text>
+            <SettingsItem
+              icon="eye"
+              title={t('settings.viewPhrase')}
+              subtitle={t('settings.viewPhraseSubtitle')}
+              onPress={() => router.push('/recovery-phrase')}
+            />
+            <SettingsItem
+              icon="shield-checkmark"
+              title={t('settings.backupCheck')}
+              subtitle={
+                settings.lastBackupCheckAt == null
+                  ? t('settings.backupCheckNever')
+                  : t('settings.backupCheckLast', { date: formatDate(new Date(settings.lastBackupCheckAt), 'PP') })
+              }
+              onPress={() => router.push('/backup-check')}
+            />
+          </View>
+
+          {/* Backup */}
+          <View style={styles.section}>
+            <Text variant="labelMedium" color={colors.text.muted} style={styles.sectionLabel}>
+              {t('settings.backup')}
+            </Text>
+            <SettingsItem
+              icon="document-lock"
+              title={t('settings.encryptedBackup')}
+              subtitle={t('settings.encryptedBackupSubtitle')}
+              onPress={() => router.push('/wallet-backup')}
+            />
+          </View>
+
+          {/* Connected services (LNURL-Auth) */}
+          <View style={styles.section}>
+            <Text variant="labelMedium" color={colors.text.muted} style={styles.sectionLabel}>
+              {t('settings.connectedServices')}
+            </Text>
+            <SettingsItem
+              icon="key"
+              title={t('settings.lnurlLogins')}
+              subtitle={
+                lnurlAuthDomains.length === 0
+                  ? t('settings.noServices')
+                  : t('settings.serviceCount', { count: lnurlAuthDomains.length })
+              }
+              onPress={() => setShowLnurlAuthModal(true)}
+            />
           </View>
 
           {/* Deposits / On-chain Section */}
           <View style={styles.section}>
             <Text variant="labelMedium" color={colors.text.muted} style={styles.sectionLabel}>
-              Deposits
+              {t('settings.deposits')}
             </Text>
             <SettingsItem
               icon="cash-outline"
-              title="Max fee for auto-claim"
-              subtitle={getMaxDepositClaimFeeSubtitle(settings.maxDepositClaimFee)}
+              title={t('settings.maxClaimFee')}
+              subtitle={getMaxDepositClaimFeeSubtitle(settings.maxDepositClaimFee, t)}
               onPress={() => setShowMaxDepositClaimFeeModal(true)}
             />
           </View>
@@ -197,7 +342,7 @@ export default function SettingsScreen() {
           {/* Developer Section */}
           <View style={styles.section}>
             <Text variant="labelMedium" color={colors.text.muted} style={styles.sectionLabel}>
-              Developer
+              {t('settings.developer')}
             </Text>
 
           </View>
@@ -205,32 +350,32 @@ export default function SettingsScreen() {
           {/* About Section */}
           <View style={styles.section}>
             <Text variant="labelMedium" color={colors.text.muted} style={styles.sectionLabel}>
-              About
+              {t('settings.about')}
             </Text>
 
             <SettingsItem
               icon="information-circle"
-              title="About Starr"
-              subtitle={`Version ${APP_VERSION}`}
+              title={t('settings.aboutStarr')}
+              subtitle={t('settings.version', { version: APP_VERSION })}
               onPress={handleAbout}
             />
 
             <SettingsItem
               icon="document-text"
-              title="Terms of Service"
+              title={t('settings.terms')}
               onPress={() => openExternalLink(EXTERNAL_LINKS.TERMS)}
             />
 
             <SettingsItem
               icon="shield"
-              title="Privacy Policy"
+              title={t('settings.privacy')}
               onPress={() => openExternalLink(EXTERNAL_LINKS.PRIVACY)}
             />
 
             <SettingsItem
               icon="help-circle"
-              title="Support"
-              subtitle="Get help with Starr"
+              title={t('settings.support')}
+              subtitle={t('settings.supportSubtitle')}
               onPress={handleSupport}
             />
           </View>
@@ -238,7 +383,7 @@ export default function SettingsScreen() {
           {/* Danger Zone */}
           <View style={styles.section}>
             <Text variant="labelMedium" color={colors.status.error} style={styles.sectionLabel}>
-              Danger zone
+              {t('settings.dangerZone')}
             </Text>
 
             <TouchableOpacity
@@ -247,7 +392,7 @@ export default function SettingsScreen() {
             >
               <Ionicons name="trash" size={20} color={colors.status.error} />
               <Text variant="titleSmall" color={colors.status.error}>
-                Delete Wallet
+                {t('settings.deleteWallet')}
               </Text>
             </TouchableOpacity>
           </View>
@@ -265,7 +410,7 @@ export default function SettingsScreen() {
           <SafeAreaView style={styles.modalSafeArea}>
             <View style={styles.modalHeader}>
               <Text variant="headlineSmall" color={colors.text.primary}>
-                Bitcoin Unit
+                {t('settings.bitcoinUnit')}
               </Text>
               <TouchableOpacity
                 style={styles.modalCloseButton}
@@ -284,19 +429,19 @@ export default function SettingsScreen() {
                       styles.currencyOption,
                       settings.bitcoinUnit === unit.value && styles.currencyOptionSelected,
                     ]}
-                    onPress={() => handleBitcoinUnitSelect(unit.value as BitcoinUnit)}
+                    onPress={() => handleBitcoinUnitSelect(unit.value)}
                   >
                     <View style={styles.currencyInfo}>
                       <View style={styles.currencyHeader}>
                         <Text variant="titleMedium" color={colors.text.primary}>
-                          {unit.label}
+                          {t(unit.label)}
                         </Text>
                         <Text variant="titleSmall" color={colors.gold.pure}>
                           {unit.symbol}
                         </Text>
                       </View>
                       <Text variant="bodySmall" color={colors.text.muted}>
-                        {unit.description}
+                        {t(unit.description)}
                       </Text>
                     </View>
                     {settings.bitcoinUnit === unit.value && (
@@ -321,7 +466,7 @@ export default function SettingsScreen() {
           <SafeAreaView style={styles.modalSafeArea}>
             <View style={styles.modalHeader}>
               <Text variant="headlineSmall" color={colors.text.primary}>
-                Fiat Currency
+                {t('settings.fiatCurrency')}
               </Text>
               <TouchableOpacity
                 style={styles.modalCloseButton}
@@ -331,34 +476,52 @@ export default function SettingsScreen() {
               </TouchableOpacity>
             </View>
 
-            <ScrollView style={styles.modalScroll} showsVerticalScrollIndicator={false}>
-              <View style={styles.modalSection}>
-                {FIAT_CURRENCIES.map((currency) => (
-                  <TouchableOpacity
-                    key={currency.value}
-                    style={[
-                      styles.currencyOption,
-                      settings.fiatCurrency === currency.value && styles.currencyOptionSelected,
-                    ]}
-                    onPress={() => handleFiatCurrencySelect(currency.value as FiatCurrency)}
-                  >
-                    <View style={styles.currencyInfo}>
-                      <View style={styles.currencyHeader}>
-                        <Text variant="titleMedium" color={colors.text.primary}>
-                          {currency.label}
-                        </Text>
-                        <Text variant="bodyMedium" color={colors.text.secondary}>
-                          {currency.symbol} ({currency.value})
-                        </Text>
-                      </View>
+            <View style={styles.modalSearch}>
+              <Input
+                placeholder={t('settings.searchCurrencies')}
+                value={fiatQuery}
+                onChangeText={setFiatQuery}
+                leftIcon={<Ionicons name="search" size={18} color={colors.text.muted} />}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+
+            <FlatList
+              style={styles.modalScroll}
+              data={visibleFiatCurrencies}
+              keyExtractor={(code) => code}
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+              renderItem={({ item: code }) => (
+                <TouchableOpacity
+                  style={[
+                    styles.currencyOption,
+                    settings.fiatCurrency === code && styles.currencyOptionSelected,
+                  ]}
+                  onPress={() => handleFiatCurrencySelect(code)}
+                >
+                  <View style={styles.currencyInfo}>
+                    <View style={styles.currencyHeader}>
+                      <Text variant="titleMedium" color={colors.text.primary}>
+                        {fiatCurrencyName(code)}
+                      </Text>
+                      <Text variant="bodyMedium" color={colors.text.secondary}>
+                        {fiatCurrencySymbol(code)} ({code})
+                      </Text>
                     </View>
-                    {settings.fiatCurrency === currency.value && (
-                      <Ionicons name="checkmark-circle" size={24} color={colors.accent.cyan} />
-                    )}
-                  </TouchableOpacity>
-                ))}
-              </View>
-            </ScrollView>
+                  </View>
+                  {settings.fiatCurrency === code && (
+                    <Ionicons name="checkmark-circle" size={24} color={colors.accent.cyan} />
+                  )}
+                </TouchableOpacity>
+              )}
+              ListEmptyComponent={
+                <Text variant="bodyMedium" color={colors.text.secondary} align="center">
+                  {fiatCurrencies.length === 0 ? t('settings.loadingCurrencies') : t('settings.noMatchingCurrencies')}
+                </Text>
+              }
+            />
           </SafeAreaView>
         </View>
       </Modal>
@@ -375,7 +538,7 @@ export default function SettingsScreen() {
             {/* Modal Header */}
             <View style={styles.modalHeader}>
               <Text variant="headlineSmall" color={colors.text.primary}>
-                Select Theme
+                {t('settings.selectTheme')}
               </Text>
               <TouchableOpacity
                 style={styles.modalCloseButton}
@@ -389,9 +552,9 @@ export default function SettingsScreen() {
               {/* Theme Options */}
               <View style={styles.modalSection}>
                 {[
-                  { value: 'dark' as const, label: 'Dark', icon: 'moon' as const, description: 'Deep space dark theme' },
-                  { value: 'light' as const, label: 'Light', icon: 'sunny' as const, description: 'Clean and bright theme' },
-                  { value: 'system' as const, label: 'System', icon: 'phone-portrait' as const, description: 'Follow device settings' },
+                  { value: 'dark' as const, label: t('settings.theme.dark'), icon: 'moon' as const, description: t('settings.theme.dark.description') },
+                  { value: 'light' as const, label: t('settings.theme.light'), icon: 'sunny' as const, description: t('settings.theme.light.description') },
+                  { value: 'system' as const, label: t('settings.theme.system'), icon: 'phone-portrait' as const, description: t('settings.theme.system.description') },
                 ].map((option) => (
                   <TouchableOpacity
                     key={option.value}
@@ -431,6 +594,124 @@ export default function SettingsScreen() {
         </View>
       </Modal>
 
+      {/* Language Selection Modal */}
+      <Modal
+        visible={showLanguageModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowLanguageModal(false)}
+      >
+        <View style={styles.modalContainer}>
+          <SafeAreaView style={styles.modalSafeArea}>
+            <View style={styles.modalHeader}>
+              <Text variant="headlineSmall" color={colors.text.primary}>
+                {t('settings.language')}
+              </Text>
+              <TouchableOpacity
+                style={styles.modalCloseButton}
+                onPress={() => setShowLanguageModal(false)}
+              >
+                <Ionicons name="close" size={24} color={colors.text.primary} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalScroll} showsVerticalScrollIndicator={false}>
+              <View style={styles.modalSection}>
+                {[
+                  {
+                    value: 'system' as AppLanguage,
+                    label: t('settings.language.system'),
+                    description: t('settings.language.systemDescription'),
+                  },
+                  ...SUPPORTED_LANGUAGES.map((language) => ({
+                    value: language as AppLanguage,
+                    label: LANGUAGE_NAMES[language],
+                    description: undefined,
+                  })),
+                ].map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.currencyOption,
+                      settings.language === option.value && styles.currencyOptionSelected,
+                    ]}
+                    onPress={() => handleLanguageSelect(option.value)}
+                  >
+                    <View style={styles.currencyInfo}>
+                      <Text variant="titleMedium" color={colors.text.primary}>
+                        {option.label}
+                      </Text>
+                      {option.description && (
+                        <Text variant="bodySmall" color={colors.text.muted}>
+                          {option.description}
+                        </Text>
+                      )}
+                    </View>
+                    {settings.language === option.value && (
+                      <Ionicons name="checkmark-circle" size={24} color={colors.gold.pure} />
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </ScrollView>
+          </SafeAreaView>
+        </View>
+      </Modal>
+
+      {/* LNURL-Auth login history Modal */}
+      <Modal
+        visible={showLnurlAuthModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowLnurlAuthModal(false)}
+      >
+        <View style={styles.modalContainer}>
+          <SafeAreaView style={styles.modalSafeArea}>
+            <View style={styles.modalHeader}>
+              <Text variant="headlineSmall" color={colors.text.primary}>
+                {t('settings.lnurlLogins')}
+              </Text>
+              <TouchableOpacity
+                style={styles.modalCloseButton}
+                onPress={() => setShowLnurlAuthModal(false)}
+              >
+                <Ionicons name="close" size={24} color={colors.text.primary} />
+              </TouchableOpacity>
+            </View>
+            <Text variant="bodySmall" color={colors.text.muted} style={styles.modalHint}>
+              {t('settings.lnurlHint')}
+            </Text>
+            <ScrollView style={styles.modalScroll} showsVerticalScrollIndicator={false}>
+              <View style={styles.modalSection}>
+                {lnurlAuthDomains.length === 0 ? (
+                  <Text variant="bodyMedium" color={colors.text.secondary}>
+                    {t('settings.lnurlEmpty')}
+                  </Text>
+                ) : (
+                  lnurlAuthDomains.map((entry) => (
+                    <View key={entry.domain} style={styles.currencyOption}>
+                      <View style={styles.currencyInfo}>
+                        <Text variant="titleMedium" color={colors.text.primary}>
+                          {entry.domain}
+                        </Text>
+                        <Text variant="bodySmall" color={colors.text.muted}>
+                          {t(LNURL_LAST_LABELS[entry.lastAction] ?? 'settings.lnurlLast.auth', {
+                            date: formatDate(new Date(entry.lastAuthAt), 'PPp'),
+                          })}
+                        </Text>
+                      </View>
+                      <TouchableOpacity onPress={() => handleRevokeLnurlAuthDomain(entry.domain)}>
+                        <Ionicons name="trash-outline" size={22} color={colors.status.error} />
+                      </TouchableOpacity>
+                    </View>
+                  ))
+                )}
+              </View>
+            </ScrollView>
+          </SafeAreaView>
+        </View>
+      </Modal>
+
       {/* Max deposit claim fee Modal */}
       <Modal
         visible={showMaxDepositClaimFeeModal}
@@ -442,7 +723,7 @@ export default function SettingsScreen() {
           <SafeAreaView style={styles.modalSafeArea}>
             <View style={styles.modalHeader}>
               <Text variant="headlineSmall" color={colors.text.primary}>
-                Max fee for auto-claim
+                {t('settings.maxClaimFee')}
               </Text>
               <TouchableOpacity
                 style={styles.modalCloseButton}
@@ -452,17 +733,17 @@ export default function SettingsScreen() {
               </TouchableOpacity>
             </View>
             <Text variant="bodySmall" color={colors.text.muted} style={styles.modalHint}>
-              Maximum fee the wallet will pay to automatically claim on-chain deposits. Takes effect after next unlock.
+              {t('settings.maxClaimFeeHint')}
             </Text>
             <ScrollView style={styles.modalScroll} showsVerticalScrollIndicator={false}>
               <View style={styles.modalSection}>
                 {(
                   [
-                    { type: 'conservative' as const, label: 'Conservative', description: '1 sats/vbyte (default)' },
-                    { type: 'network_recommended' as const, label: 'Network recommended', description: 'Fastest fee + leeway' },
-                    { type: 'rate' as const, label: 'Custom rate', description: 'Max sats per vbyte' },
-                    { type: 'fixed' as const, label: 'Custom max sats', description: 'Max total fee in sats' },
-                    { type: 'disabled' as const, label: 'Disabled', description: 'No automatic claiming' },
+                    { type: 'conservative' as const, label: t('settings.fee.conservative'), description: t('settings.fee.conservative.description') },
+                    { type: 'network_recommended' as const, label: t('settings.fee.network_recommended'), description: t('settings.fee.network_recommended.description') },
+                    { type: 'rate' as const, label: t('settings.fee.rate'), description: t('settings.fee.rate.description') },
+                    { type: 'fixed' as const, label: t('settings.fee.fixed'), description: t('settings.fee.fixed.description') },
+                    { type: 'disabled' as const, label: t('settings.fee.disabled'), description: t('settings.fee.disabled.description') },
                   ] as const
                 ).map(({ type, label, description }) => (
                   <TouchableOpacity
@@ -517,7 +798,7 @@ export default function SettingsScreen() {
               {settings.maxDepositClaimFee.type === 'network_recommended' && (
                 <View style={styles.modalSection}>
                   <Text variant="labelMedium" color={colors.gold.pure} style={styles.modalSectionLabel}>
-                    Leeway (sats/vbyte)
+                    {t('settings.leeway')}
                   </Text>
                   <View style={styles.leewayRow}>
                     {[0, 1, 2].map((leeway) => (
@@ -551,7 +832,7 @@ export default function SettingsScreen() {
               {settings.maxDepositClaimFee.type === 'rate' && (
                 <View style={styles.modalSection}>
                   <Input
-                    label="Sats per vbyte"
+                    label={t('settings.satsPerVbyte')}
                     keyboardType="number-pad"
                     value={String(settings.maxDepositClaimFee.satPerVbyte ?? 10)}
                     onChangeText={(t) => {
@@ -573,7 +854,7 @@ export default function SettingsScreen() {
               {settings.maxDepositClaimFee.type === 'fixed' && (
                 <View style={styles.modalSection}>
                   <Input
-                    label="Max fee (sats)"
+                    label={t('settings.maxFeeSats')}
                     keyboardType="number-pad"
                     value={String(settings.maxDepositClaimFee.amountSats ?? 1000)}
                     onChangeText={(t) => {
@@ -739,6 +1020,10 @@ const createSettingsStyles = (colors: ColorTheme) => StyleSheet.create({
     flex: 1,
     padding: spacing.lg,
   },
+  modalSearch: {
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
   modalHint: {
     paddingHorizontal: spacing.lg,
     paddingBottom: spacing.sm,
@@ -7,6 +7,7 @@
 // Polyfills must be imported first
 import '@/polyfills';
 
+import { useEffect } from 'react';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import * as SplashScreen from 'expo-splash-screen';
@@ -16,6 +17,7 @@ import { ThemeProvider, useTheme } from '@/contexts';
 import { AuthGate } from '@/components';
 import { IncomingPaymentOverlay } from '@/components/wallet';
 import { useWalletStore } from '@/stores/walletStore';
+import { setLanguage } from '@/i18n';
 // Keep splash screen visible while we load resources
 SplashScreen.preventAutoHideAsync();
 
@@ -24,6 +26,12 @@ function RootLayoutInner() {
   const incomingPayment = useWalletStore((state) => state.incomingPayment);
   const bitcoinUnit = useWalletStore((state) => state.settings.bitcoinUnit);
   const dismissIncomingPayment = useWalletStore((state) => state.dismissIncomingPayment);
+  const language = useWalletStore((state) => state.settings.language);
+
+  // Services and store actions translate outside React, so keep their language in step
+  useEffect(() => {
+    setLanguage(language);
+  }, [language]);
 
   return (
     <AuthGate>
@@ -56,6 +64,20 @@ function RootLayoutInner() {
               presentation: 'modal',
             }}
           />
+          <Stack.Screen
+            name="withdraw"
+            options={{
+              animation: 'slide_from_bottom',
+              presentation: 'modal',
+            }}
+          />
+          <Stack.Screen
+            name="lnurl-auth"
+            options={{
+              animation: 'slide_from_bottom',
+              presentation: 'modal',
+            }}
+          />
           <Stack.Screen
             name="scan"
             options={{
@@ -63,6 +85,34 @@ function RootLayoutInner() {
               presentation: 'fullScreenModal',
             }}
           />
+          <Stack.Screen
+            name="export"
+            options={{
+              animation: 'slide_from_bottom',
+              presentation: 'modal',
+            }}
+          />
+          <Stack.Screen
+            name="wallet-backup"
+            options={{
+              animation: 'slide_from_bottom',
+              presentation: 'modal',
+            }}
+          />
+          <Stack.Screen
+            name="recovery-phrase"
+            options={{
+              animation: 'slide_from_bottom',
+              presentation: 'modal',
+            }}
+          />
+          <Stack.Screen
+            name="backup-check"
+            options={{
+              animation: 'slide_from_bottom',
+              presentation: 'modal',
+            }}
+          />
           <Stack.Screen
             name="delete-wallet"
             options={{
@@ -82,6 +132,30 @@ function RootLayoutInner() {
               animation: 'slide_from_right',
             }}
           />
+          <Stack.Screen
+            name="contacts"
+            options={{
+              animation: 'slide_from_right',
+            }}
+          />
+          <Stack.Screen
+            name="contact/[id]"
+            options={{
+              animation: 'slide_from_right',
+            }}
+          />
+          <Stack.Screen
+            name="requests"
+            options={{
+              animation: 'slide_from_right',
+            }}
+          />
+          <Stack.Screen
+            name="request/[hash]"
+            options={{
+              animation: 'slide_from_right',
+            }}
+          />
         </Stack>
         <IncomingPaymentOverlay
           payment={incomingPayment}
@@ -0,0 +1,238 @@
+/**
+ * Backup Check Screen
+ *
+ * Re-runs the word-order puzzle from onboarding against the stored recovery
+ * phrase, so the user finds out their written backup is lost or unreadable
+ * while the wallet can still be opened. A pass is recorded in settings and
+ * clears the reminder on the home tab.
+ */
+
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, ActivityIndicator } from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { usePreventScreenCapture } from 'expo-screen-capture';
+import { Button, Text, Card, Input } from '@/components/ui';
+import { WordOrderPuzzle, puzzleSelectedWords } from '@/components/wallet';
+import { KeychainService } from '@/services/keychain';
+import { useWalletStore } from '@/stores/walletStore';
+import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
+import { spacing } from '@/theme';
+import {
+  BACKUP_CHECK_INTERVAL_DAYS,
+  createMnemonicPuzzle,
+  isMnemonicPuzzleSolved,
+} from '@/utils/mnemonic';
+import type { MnemonicPuzzle } from '@/utils/mnemonic';
+
+export default function BackupCheckScreen() {
+  usePreventScreenCapture();
+  const router = useRouter();
+  const colors = useColors();
+  const { t } = useTranslation();
+  const updateSettings = useWalletStore((s) => s.updateSettings);
+  const [words, setWords] = useState<string[]>([]);
+  const [passphrase, setPassphrase] = useState<string | undefined>();
+  const [puzzle, setPuzzle] = useState<MnemonicPuzzle | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [passphraseConfirmation, setPassphraseConfirmation] = useState('');
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [passed, setPassed] = useState(false);
+
+  const handleCancel = useCallback(() => {
+    if (router.canDismiss()) {
+      router.dismiss();
+    } else if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)');
+    }
+  }, [router]);
+
+  const loadPhrase = useCallback(async () => {
+    setLoadError(null);
+    try {
+      const mnemonic = (await KeychainService.getMnemonic(t('backupCheck.authPrompt'))).split(' ');
+      setPassphrase(await KeychainService.getPassphrase(t('backupCheck.authPrompt')));
+      const nextPuzzle = createMnemonicPuzzle(mnemonic);
+      if (!nextPuzzle) throw new Error(t('recoveryPhrase.loadFailed'));
+      setWords(mnemonic);
+      setPuzzle(nextPuzzle);
+    } catch (err) {
+      console.error('[BackupCheck] Failed to read recovery phrase:', err);
+      setLoadError(err instanceof Error ? err.message : t('recoveryPhrase.loadFailed'));
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadPhrase();
+  }, [loadPhrase]);
+
+  const handleCheck = () => {
+    if (!puzzle) return;
+    if (!isMnemonicPuzzleSolved(puzzle, words, puzzleSelectedWords(puzzle, selectedIds))) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setError(t('backup.incorrect'));
+      setSelectedIds([]);
+      return;
+    }
+    if (passphrase && passphraseConfirmation !== passphrase) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setError(t('backup.passphraseIncorrect'));
+      setPassphraseConfirmation('');
+      return;
+    }
+    updateSettings({ lastBackupCheckAt: Date.now() });
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setPassed(true);
+  };
+
+  const styles = useMemo(
+    () =>
+      StyleSheet.create({
+        container: { flex: 1, backgroundColor: colors.background.primary },
+        safeArea: { flex: 1 },
+        header: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          paddingHorizontal: spacing.md,
+          paddingVertical: spacing.sm,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.border.subtle,
+        },
+        scrollContent: { padding: spacing.lg, gap: spacing.md },
+        errorCard: { borderColor: colors.status.error },
+        errorContent: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          gap: spacing.sm,
+        },
+        centered: { alignItems: 'center', gap: spacing.md, paddingVertical: spacing.xl },
+        actions: {
+          padding: spacing.lg,
+          borderTopWidth: 1,
+          borderTopColor: colors.border.subtle,
+        },
+      }),
+    [colors]
+  );
+
+  const renderBody = () => {
+    if (loadError) {
+      return (
+        <View style={styles.centered}>
+          <Ionicons name="lock-closed" size={48} color={colors.text.muted} />
+          <Text variant="bodyMedium" color={colors.status.error} align="center">
+            {loadError}
+          </Text>
+          <Button title={t('recoveryPhrase.retry')} variant="secondary" size="md" onPress={loadPhrase} />
+        </View>
+      );
+    }
+    if (!puzzle) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.gold.pure} />
+        </View>
+      );
+    }
+    if (passed) {
+      return (
+        <View style={styles.centered}>
+          <Ionicons name="shield-checkmark" size={64} color={colors.status.success} />
+          <Text variant="headlineSmall" color={colors.text.primary} align="center">
+            {t('backupCheck.passed')}
+          </Text>
+          <Text variant="bodyMedium" color={colors.text.secondary} align="center">
+            {t('backupCheck.passedHint', { count: BACKUP_CHECK_INTERVAL_DAYS })}
+          </Text>
+        </View>
+      );
+    }
+    return (
+      <>
+        <Text variant="bodyMedium" color={colors.text.secondary} align="center">
+          {t('backupCheck.subtitle')}
+        </Text>
+
+        <WordOrderPuzzle
+          puzzle={puzzle}
+          selectedIds={selectedIds}
+          onChangeSelectedIds={(ids) => {
+            setSelectedIds(ids);
+            setError(null);
+          }}
+        />
+
+        {passphrase && (
+          <Input
+            label={t('backup.passphraseLabel')}
+            value={passphraseConfirmation}
+            onChangeText={(value) => {
+              setPassphraseConfirmation(value);
+              setError(null);
+            }}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            spellCheck={false}
+          />
+        )}
+
+        {error && (
+          <Card variant="outlined" style={styles.errorCard}>
+            <View style={styles.errorContent}>
+              <Ionicons name="alert-circle" size={20} color={colors.status.error} />
+              <Text variant="bodySmall" color={colors.status.error}>
+                {error}
+              </Text>
+            </View>
+          </Card>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <Button title={t('common.cancel')} variant="ghost" size="sm" onPress={handleCancel} />
+          <Text variant="titleLarge" color={colors.text.primary}>
+            {t('backupCheck.title')}
+          </Text>
+          <View style={{ width: 60 }} />
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {renderBody()}
+        </ScrollView>
+
+        {puzzle && !loadError && (
+          <View style={styles.actions}>
+            {passed ? (
+              <Button title={t('backupCheck.done')} variant="primary" size="lg" onPress={handleCancel} />
+            ) : (
+              <Button
+                title={t('backupCheck.check')}
+                variant="primary"
+                size="lg"
+                onPress={handleCheck}
+                disabled={selectedIds.length < puzzle.indices.length || (!!passphrase && !passphraseConfirmation)}
+              />
+            )}
+          </View>
+        )}
+      </SafeAreaView>
+    </View>
+  );
+}
@@ -0,0 +1,317 @@
+/**
+ * Contact Screen
+ *
+ * Shows a contact's addresses and the payments sent to them, or edits it.
+ * `/contact/new` creates one; address params pre-fill the form when saving
+ * a recipient after a send, and `paymentId` links that send to the contact.
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  Alert,
+  TouchableOpacity,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { KeyboardAwareScrollView } from 'react-native-keyboard-controller';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, Text, Input, Card } from '@/components/ui';
+import { TransactionList } from '@/components/wallet';
+import { useContactsStore, contactInitials, contactDestinations } from '@/stores/contactsStore';
+import { BreezService } from '@/services/breez';
+import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
+import { spacing } from '@/theme';
+import type { ContactInput, LightningPayment } from '@/types/wallet';
+
+// Page size when scanning listPayments for a contact's payment ids
+const HISTORY_PAGE_SIZE = 100;
+const HISTORY_MAX_PAGES = 10;
+
+export default function ContactScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{
+    id: string;
+    lightningAddress?: string;
+    sparkAddress?: string;
+    bitcoinAddress?: string;
+    paymentId?: string;
+  }>();
+  const colors = useColors();
+  const { t } = useTranslation();
+  const isNew = params.id === 'new';
+  const contact = useContactsStore((s) => s.contacts.find((c) => c.id === params.id));
+  const { addContact, updateContact, removeContact, recordPayment } = useContactsStore();
+  const [isEditing, setIsEditing] = useState(isNew);
+  const [form, setForm] = useState<ContactInput>({
+    name: '',
+    lightningAddress: params.lightningAddress,
+    sparkAddress: params.sparkAddress,
+    bitcoinAddress: params.bitcoinAddress,
+  });
+  const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<LightningPayment[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+
+  const paymentIds = contact?.paymentIds;
+
+  const loadHistory = useCallback(async () => {
+    if (!paymentIds || paymentIds.length === 0) {
+      setHistory([]);
+      return;
+    }
+    setIsLoadingHistory(true);
+    try {
+      const wanted = new Set(paymentIds);
+      const found: LightningPayment[] = [];
+      for (let page = 0; page < HISTORY_MAX_PAGES && found.length < wanted.size; page++) {
+        const payments = await BreezService.listPayments({
+          limit: HISTORY_PAGE_SIZE,
+          offset: page * HISTORY_PAGE_SIZE,
+          sortAscending: false,
+        });
+        found.push(...payments.filter((p) => wanted.has(p.id)));
+        if (payments.length < HISTORY_PAGE_SIZE) break;
+      }
+      setHistory(found);
+    } catch (err) {
+      console.error('[Contact] Failed to load history:', err);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }, [paymentIds]);
+
+  useEffect(() => {
+    if (!isNew) loadHistory();
+  }, [isNew, loadHistory]);
+
+  const updateField = (field: keyof ContactInput) => (value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+    setError(null);
+  };
+
+  const handleEdit = () => {
+    if (!contact) return;
+    setForm({
+      name: contact.name,
+      lightningAddress: contact.lightningAddress,
+      sparkAddress: contact.sparkAddress,
+      bitcoinAddress: contact.bitcoinAddress,
+      notes: contact.notes,
+    });
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    if (!form.name.trim()) {
+      setError(t('contact.nameRequired'));
+      return;
+    }
+    if (!form.lightningAddress?.trim() && !form.sparkAddress?.trim() && !form.bitcoinAddress?.trim()) {
+      setError(t('contact.addressRequired'));
+      return;
+    }
+    if (isNew) {
+      const created = addContact(form);
+      if (params.paymentId) recordPayment(created.id, params.paymentId);
+      router.replace(`/contact/${created.id}`);
+      return;
+    }
+    if (contact) updateContact(contact.id, form);
+    setIsEditing(false);
+  };
+
+  const handleDelete = () => {
+    if (!contact) return;
+    Alert.alert(t('contact.deleteTitle'), t('contact.deleteMessage', { name: contact.name }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: () => {
+          removeContact(contact.id);
+          router.back();
+        },
+      },
+    ]);
+  };
+
+  const handlePay = (destination: string) => {
+    if (!contact) return;
+    router.push({
+      pathname: '/send',
+      params: { invoice: destination },
+    });
+  };
+
+  const styles = useMemo(
+    () =>
+      StyleSheet.create({
+        container: { flex: 1, backgroundColor: colors.background.primary },
+        safeArea: { flex: 1 },
+        header: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          paddingHorizontal: spacing.md,
+          paddingVertical: spacing.sm,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.border.subtle,
+        },
+        formContent: { padding: spacing.lg, gap: spacing.md },
+        profile: { alignItems: 'center', gap: spacing.sm, paddingVertical: spacing.lg },
+        avatar: {
+          width: 72,
+          height: 72,
+          borderRadius: 36,
+          backgroundColor: colors.gold.glow,
+          alignItems: 'center',
+          justifyContent: 'center',
+        },
+        card: { padding: spacing.md, gap: spacing.sm, marginBottom: spacing.md },
+        addressRow: { flexDirection: 'row', alignItems: 'center', gap: spacing.sm },
+        addressText: { flex: 1 },
+        historyLabel: { marginBottom: spacing.sm },
+        center: { flex: 1, justifyContent: 'center', alignItems: 'center', gap: spacing.md },
+      }),
+    [colors]
+  );
+
+  if (isEditing) {
+    return (
+      <View style={styles.container}>
+        <SafeAreaView style={styles.safeArea}>
+          <View style={styles.header}>
+            <Button
+              title={t('common.cancel')}
+              variant="ghost"
+              size="sm"
+              onPress={() => (isNew ? router.back() : setIsEditing(false))}
+            />
+            <Text variant="titleLarge" color={colors.text.primary}>
+              {isNew ? t('contact.new') : t('contact.edit')}
+            </Text>
+            <Button title={t('common.save')} variant="ghost" size="sm" onPress={handleSave} />
+          </View>
+          <KeyboardAwareScrollView
+            contentContainerStyle={styles.formContent}
+            keyboardShouldPersistTaps="handled"
+            bottomOffset={20}
+          >
+            <Input
+              label={t('contact.name')}
+              value={form.name}
+              onChangeText={updateField('name')}
+              error={error || undefined}
+            />
+            <Input
+              label={t('contact.lightningAddress')}
+              placeholder={t('contact.lightningPlaceholder')}
+              value={form.lightningAddress ?? ''}
+              onChangeText={updateField('lightningAddress')}
+              autoCapitalize="none"
+              keyboardType="email-address"
+            />
+            <Input
+              label={t('contact.sparkAddress')}
+              value={form.sparkAddress ?? ''}
+              onChangeText={updateField('sparkAddress')}
+              autoCapitalize="none"
+            />
+            <Input
+              label={t('contact.bitcoinAddress')}
+              value={form.bitcoinAddress ?? ''}
+              onChangeText={updateField('bitcoinAddress')}
+              autoCapitalize="none"
+            />
+            <Input
+              label={t('contact.notes')}
+              value={form.notes ?? ''}
+              onChangeText={updateField('notes')}
+              multiline
+              numberOfLines={3}
+            />
+          </KeyboardAwareScrollView>
+        </SafeAreaView>
+      </View>
+    );
+  }
+
+  if (!contact) {
+    return (
+      <View style={styles.container}>
+        <SafeAreaView style={styles.safeArea}>
+          <View style={styles.header}>
+            <Button title={t('common.back')} variant="ghost" size="sm" onPress={() => router.back()} />
+            <Text variant="titleLarge" color={colors.text.primary}>{t('contact.title')}</Text>
+            <View style={{ width: 60 }} />
+          </View>
+          <View style={styles.center}>
+            <Ionicons name="alert-circle" size={48} color={colors.status.error} />
+            <Text variant="bodyMedium" color={colors.text.secondary}>{t('contact.notFound')}</Text>
+          </View>
+        </SafeAreaView>
+      </View>
+    );
+  }
+
+  const profile = (
+    <View>
+      <View style={styles.profile}>
+        <View style={styles.avatar}>
+          <Text variant="titleLarge" color={colors.gold.pure}>
+            {contactInitials(contact.name)}
+          </Text>
+        </View>
+        <Text variant="titleLarge" color={colors.text.primary}>{contact.name}</Text>
+      </View>
+
+      <Card variant="outlined" style={styles.card}>
+        {contactDestinations(contact).map((destination) => (
+          <View key={destination.label} style={styles.addressRow}>
+            <View style={styles.addressText}>
+              <Text variant="labelMedium" color={colors.text.muted}>{t(destination.label)}</Text>
+              <Text variant="bodySmall" color={colors.text.secondary} numberOfLines={1}>
+                {destination.value}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={() => handlePay(destination.value)}>
+              <Text variant="labelMedium" color={colors.gold.pure}>{t('contact.pay')}</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+        {contact.notes && (
+          <>
+            <Text variant="labelMedium" color={colors.text.muted}>{t('contact.notes')}</Text>
+            <Text variant="bodyMedium" color={colors.text.primary}>{contact.notes}</Text>
+          </>
+        )}
+      </Card>
+
+      <Text variant="labelMedium" color={colors.text.muted} style={styles.historyLabel}>
+        {t('contact.payments')}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <Button title={t('common.back')} variant="ghost" size="sm" onPress={() => router.back()} />
+          <Button title={t('common.delete')} variant="ghost" size="sm" onPress={handleDelete} />
+          <Button title={t('common.edit')} variant="ghost" size="sm" onPress={handleEdit} />
+        </View>
+        <TransactionList
+          transactions={history}
+          header={profile}
+          onRefresh={loadHistory}
+          isLoading={isLoadingHistory}
+          onTransactionPress={(tx) => router.push(`/payment/${tx.id}`)}
+        />
+      </SafeAreaView>
+    </View>
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * Contacts Screen
+ *
+ * Local address book of people and services we pay.
+ */
+
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, Text, Input } from '@/components/ui';
+import { useContactsStore, contactInitials, contactDestinations } from '@/stores/contactsStore';
+import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
+import { spacing, layout } from '@/theme';
+
+export default function ContactsScreen() {
+  const router = useRouter();
+  const colors = useColors();
+  const { t } = useTranslation();
+  const contacts = useContactsStore((s) => s.contacts);
+  const [query, setQuery] = useState('');
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return contacts;
+    return contacts.filter((c) =>
+      c.name.toLowerCase().includes(q)
+      || contactDestinations(c).some((d) => d.value.toLowerCase().includes(q))
+    );
+  }, [contacts, query]);
+
+  const styles = useMemo(
+    () =>
+      StyleSheet.create({
+        container: { flex: 1, backgroundColor: colors.background.primary },
+        safeArea: { flex: 1 },
+        header: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          paddingHorizontal: spacing.md,
+          paddingVertical: spacing.sm,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.border.subtle,
+        },
+        search: { paddingHorizontal: spacing.lg, paddingTop: spacing.md },
+        listContent: { padding: spacing.lg, gap: spacing.sm, flexGrow: 1 },
+        item: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          padding: spacing.md,
+          borderRadius: layout.radius.lg,
+          backgroundColor: colors.background.secondary,
+          gap: spacing.md,
+        },
+        avatar: {
+          width: 40,
+          height: 40,
+          borderRadius: 20,
+          backgroundColor: colors.gold.glow,
+          alignItems: 'center',
+          justifyContent: 'center',
+        },
+        itemDetails: { flex: 1, gap: spacing.xxs },
+        empty: { flex: 1, alignItems: 'center', justifyContent: 'center', gap: spacing.sm },
+      }),
+    [colors]
+  );
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <Button title={t('common.back')} variant="ghost" size="sm" onPress={() => router.back()} />
+          <Text variant="titleLarge" color={colors.text.primary}>
+            {t('contacts.title')}
+          </Text>
+          <Button title={t('common.add')} variant="ghost" size="sm" onPress={() => router.push('/contact/new')} />
+        </View>
+
+        {contacts.length > 0 && (
+          <View style={styles.search}>
+            <Input
+              placeholder={t('contacts.searchPlaceholder')}
+              value={query}
+              onChangeText={setQuery}
+              leftIcon={<Ionicons name="search" size={18} color={colors.text.muted} />}
+              autoCapitalize="none"
+            />
+          </View>
+        )}
+
+        <FlatList
+          data={visible}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          keyboardShouldPersistTaps="handled"
+          renderItem={({ item }) => (
+            <TouchableOpacity
+              style={styles.item}
+              onPress={() => router.push(`/contact/${item.id}`)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.avatar}>
+                <Text variant="labelLarge" color={colors.gold.pure}>
+                  {contactInitials(item.name)}
+                </Text>
+              </View>
+              <View style={styles.itemDetails}>
+                <Text variant="titleSmall" color={colors.text.primary} numberOfLines={1}>
+                  {item.name}
+                </Text>
+                <Text variant="bodySmall" color={colors.text.muted} numberOfLines={1}>
+                  {contactDestinations(item)[0]?.value ?? t('contacts.noAddress')}
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={colors.text.muted} />
+            </TouchableOpacity>
+          )}
+          ListEmptyComponent={
+            <View style={styles.empty}>
+              <Ionicons name="people-outline" size={48} color={colors.text.muted} />
+              <Text variant="bodyMedium" color={colors.text.secondary} align="center">
+                {t(contacts.length === 0 ? 'contacts.empty' : 'contacts.noMatches')}
+              </Text>
+            </View>
+          }
+        />
+      </SafeAreaView>
+    </View>
+  );
+}
@@ -20,15 +20,18 @@ import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { Button, Text, Card } from '@/components/ui';
 import { KeychainService } from '@/services/keychain';
-import { BreezService } from '@/services/breez';
+import { useWalletStore } from '@/stores/walletStore';
 import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
 import { spacing, layout } from '@/theme';
 
-const CONFIRMATION_TEXT = 'DELETE';
-
 export default function DeleteWalletScreen() {
   const router = useRouter();
   const colors = useColors();
+  const { t } = useTranslation();
+  // The word the user types to confirm, in their language
+  const confirmationWord = t('deleteWallet.confirmWord');
+  const { closeWallet, clearWalletData } = useWalletStore();
   const [confirmationInput, setConfirmationInput] = useState('');
   const [isDeleting, setIsDeleting] = useState(false);
   const [step, setStep] = useState<'warning' | 'confirm'>('warning');
@@ -94,12 +97,10 @@ export default function DeleteWalletScreen() {
 
   const handleProceedToConfirm = async () => {
     // Require authentication (biometric with device passcode fallback)
-    const authenticated = await KeychainService.authenticateUser(
-      'Authenticate to delete wallet'
-    );
+    const authenticated = await KeychainService.authenticateUser(t('deleteWallet.authPrompt'));
     
     if (!authenticated) {
-      Alert.alert('Authentication Failed', 'You must authenticate to delete your wallet.');
+      Alert.alert(t('deleteWallet.authFailedTitle'), t('deleteWallet.authFailed'));
       return;
     }
     
@@ -108,9 +109,9 @@ export default function DeleteWalletScreen() {
   };
 
   const handleDeleteWallet = async () => {
-    if (confirmationInput !== CONFIRMATION_TEXT) {
+    if (confirmationInput !== confirmationWord) {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-      Alert.alert('Incorrect', `Please type "${CONFIRMATION_TEXT}" to confirm deletion.`);
+      Alert.alert(t('deleteWallet.incorrectTitle'), t('deleteWallet.incorrect', { word: confirmationWord }));
       return;
     }
 
@@ -119,14 +120,15 @@ export default function DeleteWalletScreen() {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
 
       try {
-        await BreezService.shutdown();
+        await closeWallet();
         console.log('[DeleteWallet] Lightning service shutdown');
       } catch (err) {
         console.warn('[DeleteWallet] Lightning service shutdown (may already be stopped):', err);
       }
 
-      // Clear all keychain data
+      // Clear all keychain data, then everything the stores persisted for this wallet
       await KeychainService.clearAllData();
+      clearWalletData();
 
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       
@@ -137,9 +139,9 @@ export default function DeleteWalletScreen() {
       console.error('Failed to delete wallet:', error);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       Alert.alert(
-        'Deletion Failed',
-        error instanceof Error ? error.message : 'Failed to delete wallet data. Please try again.',
-        [{ text: 'OK' }]
+        t('deleteWallet.failedTitle'),
+        error instanceof Error ? error.message : t('deleteWallet.failed'),
+        [{ text: t('common.ok') }]
       );
     } finally {
       setIsDeleting(false);
@@ -151,7 +153,7 @@ export default function DeleteWalletScreen() {
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.status.error} />
         <Text variant="bodyMedium" color={colors.text.secondary}>
-          Deleting wallet...
+          {t('deleteWallet.deleting')}
         </Text>
       </View>
     );
@@ -170,10 +172,10 @@ export default function DeleteWalletScreen() {
             <Ionicons name="trash" size={32} color={colors.status.error} />
           </View>
           <Text variant="headlineMedium" color={colors.status.error} align="center">
-            Delete Wallet
+            {t('settings.deleteWallet')}
           </Text>
           <Text variant="bodyMedium" color={colors.text.secondary} align="center">
-            This action is permanent and cannot be undone.
+            {t('deleteWallet.subtitle')}
           </Text>
         </View>
 
@@ -185,10 +187,10 @@ export default function DeleteWalletScreen() {
                 <Ionicons name="warning" size={24} color={colors.status.error} />
                 <View style={styles.cardText}>
                   <Text variant="titleSmall" color={colors.status.error}>
-                    You Will Lose Access Forever
+                    {t('deleteWallet.loseAccessTitle')}
                   </Text>
                   <Text variant="bodySmall" color={colors.text.secondary}>
-                    If you haven&apos;t backed up your recovery phrase, all your Bitcoin will be permanently lost.
+                    {t('deleteWallet.loseAccess')}
                   </Text>
                 </View>
               </View>
@@ -199,10 +201,10 @@ export default function DeleteWalletScreen() {
                 <Ionicons name="key" size={24} color={colors.status.warning} />
                 <View style={styles.cardText}>
                   <Text variant="titleSmall" color={colors.status.warning}>
-                    Check Your Backup First
+                    {t('deleteWallet.checkBackupTitle')}
                   </Text>
                   <Text variant="bodySmall" color={colors.text.secondary}>
-                    Before deleting, make sure you have your 24-word recovery phrase written down and stored safely.
+                    {t('deleteWallet.checkBackup')}
                   </Text>
                 </View>
               </View>
@@ -210,24 +212,24 @@ export default function DeleteWalletScreen() {
 
             <View style={styles.checklist}>
               <Text variant="labelMedium" color={colors.text.muted} style={styles.checklistLabel}>
-                Before you continue:
+                {t('deleteWallet.checklist')}
               </Text>
               <View style={styles.checkItem}>
                 <Ionicons name="checkbox-outline" size={20} color={colors.text.secondary} />
                 <Text variant="bodySmall" color={colors.text.secondary}>
-                  I have backed up my recovery phrase
+                  {t('deleteWallet.checkBackedUp')}
                 </Text>
               </View>
               <View style={styles.checkItem}>
                 <Ionicons name="checkbox-outline" size={20} color={colors.text.secondary} />
                 <Text variant="bodySmall" color={colors.text.secondary}>
-                  I understand this action is irreversible
+                  {t('deleteWallet.checkIrreversible')}
                 </Text>
               </View>
               <View style={styles.checkItem}>
                 <Ionicons name="checkbox-outline" size={20} color={colors.text.secondary} />
                 <Text variant="bodySmall" color={colors.text.secondary}>
-                  I know I can restore my wallet using my recovery phrase
+                  {t('deleteWallet.checkRestore')}
                 </Text>
               </View>
             </View>
@@ -240,10 +242,10 @@ export default function DeleteWalletScreen() {
                 <Ionicons name="alert-circle" size={24} color={colors.status.error} />
                 <View style={styles.cardText}>
                   <Text variant="titleSmall" color={colors.status.error}>
-                    Final Warning
+                    {t('deleteWallet.finalTitle')}
                   </Text>
                   <Text variant="bodySmall" color={colors.text.secondary}>
-                    Type &quot;{CONFIRMATION_TEXT}&quot; below to confirm you want to permanently delete your wallet.
+                    {t('deleteWallet.final', { word: confirmationWord })}
                   </Text>
                 </View>
               </View>
@@ -251,13 +253,13 @@ export default function DeleteWalletScreen() {
 
             <View style={styles.inputContainer}>
               <Text variant="labelMedium" color={colors.text.muted} style={styles.inputLabel}>
-                Type &quot;{CONFIRMATION_TEXT}&quot; to confirm:
+                {t('deleteWallet.typeToConfirm', { word: confirmationWord })}
               </Text>
               <TextInput
                 style={styles.input}
                 value={confirmationInput}
                 onChangeText={setConfirmationInput}
-                placeholder={CONFIRMATION_TEXT}
+                placeholder={confirmationWord}
                 placeholderTextColor={colors.text.muted}
                 autoCapitalize="characters"
                 autoCorrect={false}
@@ -272,14 +274,14 @@ export default function DeleteWalletScreen() {
         {step === 'warning' ? (
           <>
             <Button
-              title="I Understand, Continue"
+              title={t('deleteWallet.continue')}
               onPress={handleProceedToConfirm}
               variant="primary"
               size="lg"
               style={styles.dangerButton}
             />
             <Button
-              title="Cancel"
+              title={t('common.cancel')}
               onPress={() => router.back()}
               variant="ghost"
               size="md"
@@ -288,15 +290,15 @@ export default function DeleteWalletScreen() {
         ) : (
           <>
             <Button
-              title="Delete Wallet Permanently"
+              title={t('deleteWallet.deletePermanently')}
               onPress={handleDeleteWallet}
               variant="primary"
               size="lg"
-              disabled={confirmationInput !== CONFIRMATION_TEXT}
+              disabled={confirmationInput !== confirmationWord}
               style={styles.dangerButton}
             />
             <Button
-              title="Go Back"
+              title={t('common.goBack')}
               onPress={() => setStep('warning')}
               variant="ghost"
               size="md"
@@ -0,0 +1,313 @@
+/**
+ * Export Screen
+ *
+ * Exports transaction history for a date range as CSV or JSON and hands the
+ * file to the share sheet. Opened from History.
+ */
+
+import React, { useState, useMemo, useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import {
+  addDays,
+  endOfMonth,
+  format as formatDate,
+  isValid,
+  parse as parseDate,
+  startOfMonth,
+  startOfYear,
+  subMonths,
+  subYears,
+} from 'date-fns';
+import { Button, Text, Card, Input } from '@/components/ui';
+import { ExportService } from '@/services/export';
+import { useWalletStore } from '@/stores/walletStore';
+import { usePaymentLabelStore } from '@/stores/paymentLabelStore';
+import { usePaymentRateStore } from '@/stores/paymentRateStore';
+import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
+import { spacing, layout } from '@/theme';
+import type { MessageKey } from '@/i18n';
+import type { ExportFormat } from '@/types/wallet';
+
+type ExportRange = 'this_month' | 'last_month' | 'this_year' | 'last_year' | 'all' | 'custom';
+
+const RANGE_OPTIONS: { value: ExportRange; label: MessageKey }[] = [
+  { value: 'this_month', label: 'export.thisMonth' },
+  { value: 'last_month', label: 'export.lastMonth' },
+  { value: 'this_year', label: 'export.thisYear' },
+  { value: 'last_year', label: 'export.lastYear' },
+  { value: 'all', label: 'history.allTime' },
+  { value: 'custom', label: 'export.custom' },
+];
+
+// How custom range days are typed
+const DAY_FORMAT = 'yyyy-MM-dd';
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string; description: MessageKey }[] = [
+  { value: 'csv', label: 'CSV', description: 'export.csvDescription' },
+  { value: 'json', label: 'JSON', description: 'export.jsonDescription' },
+];
+
+const toUnixSeconds = (date: Date): number => Math.floor(date.getTime() / 1000);
+
+/** Unix-second bounds of a range, in local time. */
+function rangeBounds(range: ExportRange): { fromTimestamp?: number; toTimestamp?: number } {
+  const now = new Date();
+  switch (range) {
+    case 'this_month':
+      return { fromTimestamp: toUnixSeconds(startOfMonth(now)) };
+    case 'last_month':
+      return {
+        fromTimestamp: toUnixSeconds(startOfMonth(subMonths(now, 1))),
+        toTimestamp: toUnixSeconds(startOfMonth(now)),
+      };
+    case 'this_year':
+      return { fromTimestamp: toUnixSeconds(startOfYear(now)) };
+    case 'last_year':
+      return {
+        fromTimestamp: toUnixSeconds(startOfYear(subYears(now, 1))),
+        toTimestamp: toUnixSeconds(startOfYear(now)),
+      };
+    default:
+      return {};
+  }
+}
+
+/** Local midnight of a yyyy-MM-dd day, or null when it is not a real date. */
+function parseDay(text: string): Date | null {
+  const date = parseDate(text.trim(), DAY_FORMAT, new Date());
+  return isValid(date) ? date : null;
+}
+
+/**
+ * Unix-second bounds of a custom range with both days included, or the
+ * message for why the typed days cannot be used.
+ */
+function customBounds(from: string, to: string): { fromTimestamp: number; toTimestamp: number } | { issue: MessageKey } {
+  const start = parseDay(from);
+  const end = parseDay(to);
+  if (!start || !end) return { issue: 'export.invalidDate' };
+  if (end < start) return { issue: 'export.endBeforeStart' };
+  return { fromTimestamp: toUnixSeconds(start), toTimestamp: toUnixSeconds(addDays(end, 1)) };
+}
+
+export default function ExportScreen() {
+  const router = useRouter();
+  const colors = useColors();
+  const { t } = useTranslation();
+  const fiatCurrency = useWalletStore((s) => s.settings.fiatCurrency);
+  const labels = usePaymentLabelStore((s) => s.labels);
+  const ensureRates = usePaymentRateStore((s) => s.ensureRates);
+  const [range, setRange] = useState<ExportRange>('last_month');
+  // Custom range days, starting from last month
+  const [customFrom, setCustomFrom] = useState(() => formatDate(startOfMonth(subMonths(new Date(), 1)), DAY_FORMAT));
+  const [customTo, setCustomTo] = useState(() => formatDate(endOfMonth(subMonths(new Date(), 1)), DAY_FORMAT));
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastCount, setLastCount] = useState<number | null>(null);
+
+  const handleCancel = useCallback(() => {
+    if (router.canDismiss()) {
+      router.dismiss();
+    } else if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)');
+    }
+  }, [router]);
+
+  const custom = range === 'custom' ? customBounds(customFrom, customTo) : null;
+  const customIssue = custom && 'issue' in custom ? custom.issue : null;
+
+  const handleExport = async () => {
+    if (customIssue) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const result = await ExportService.exportHistory({
+        format: exportFormat,
+        ...(custom ?? rangeBounds(range)),
+        fiatCurrency,
+        labels,
+        resolveBtcPrices: (payments) => ensureRates(payments, fiatCurrency),
+      });
+      setLastCount(result.count);
+      await ExportService.shareExport(result);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (err) {
+      console.error('[Export] Failed to export history:', err);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setError(err instanceof Error ? err.message : t('export.failed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const styles = useMemo(
+    () =>
+      StyleSheet.create({
+        container: { flex: 1, backgroundColor: colors.background.primary },
+        safeArea: { flex: 1 },
+        header: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          paddingHorizontal: spacing.md,
+          paddingVertical: spacing.sm,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.border.subtle,
+        },
+        scrollContent: { padding: spacing.lg, gap: spacing.md },
+        filterRow: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs },
+        customRange: { flexDirection: 'row', gap: spacing.sm },
+        customDay: { flex: 1 },
+        chip: {
+          paddingHorizontal: spacing.sm,
+          paddingVertical: spacing.xs,
+          borderRadius: layout.radius.full,
+          borderWidth: 1,
+        },
+        formatOption: {
+          padding: spacing.md,
+          borderRadius: layout.radius.lg,
+          borderWidth: 1,
+          gap: spacing.xxs,
+        },
+        card: { padding: spacing.md, gap: spacing.xs },
+      }),
+    [colors]
+  );
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <Button title={t('common.cancel')} variant="ghost" size="sm" onPress={handleCancel} />
+          <Text variant="titleLarge" color={colors.text.primary}>
+            {t('export.title')}
+          </Text>
+          <View style={{ width: 60 }} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          <Text variant="labelMedium" color={colors.text.muted}>
+            {t('export.dateRange')}
+          </Text>
+          <View style={styles.filterRow}>
+            {RANGE_OPTIONS.map((opt) => {
+              const active = range === opt.value;
+              return (
+                <TouchableOpacity
+                  key={opt.value}
+                  style={[
+                    styles.chip,
+                    {
+                      backgroundColor: active ? colors.gold.glow : colors.background.secondary,
+                      borderColor: active ? colors.gold.pure : colors.border.subtle,
+                    },
+                  ]}
+                  onPress={() => setRange(opt.value)}
+                >
+                  <Text variant="labelMedium" color={active ? colors.gold.pure : colors.text.secondary}>
+                    {t(opt.label)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {range === 'custom' && (
+            <>
+              <View style={styles.customRange}>
+                <Input
+                  label={t('export.from')}
+                  value={customFrom}
+                  onChangeText={setCustomFrom}
+                  placeholder={t('export.datePlaceholder')}
+                  keyboardType="numbers-and-punctuation"
+                  autoCorrect={false}
+                  containerStyle={styles.customDay}
+                />
+                <Input
+                  label={t('export.to')}
+                  value={customTo}
+                  onChangeText={setCustomTo}
+                  placeholder={t('export.datePlaceholder')}
+                  keyboardType="numbers-and-punctuation"
+                  autoCorrect={false}
+                  containerStyle={styles.customDay}
+                />
+              </View>
+              {customIssue ? (
+                <Text variant="bodySmall" color={colors.status.error}>
+                  {t(customIssue)}
+                </Text>
+              ) : null}
+            </>
+          )}
+
+          <Text variant="labelMedium" color={colors.text.muted}>
+            {t('export.format')}
+          </Text>
+          {FORMAT_OPTIONS.map((opt) => {
+            const active = exportFormat === opt.value;
+            return (
+              <TouchableOpacity
+                key={opt.value}
+                style={[
+                  styles.formatOption,
+                  {
+                    backgroundColor: active ? colors.gold.glow : colors.background.secondary,
+                    borderColor: active ? colors.gold.pure : colors.border.subtle,
+                  },
+                ]}
+                onPress={() => setExportFormat(opt.value)}
+              >
+                <Text variant="titleSmall" color={active ? colors.gold.pure : colors.text.primary}>
+                  {opt.label}
+                </Text>
+                <Text variant="bodySmall" color={colors.text.muted}>
+                  {t(opt.description)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          <Card variant="outlined" style={styles.card}>
+            <Text variant="bodySmall" color={colors.text.secondary}>
+              {t('export.includes', { currency: fiatCurrency })}
+            </Text>
+          </Card>
+
+          {error && (
+            <Text variant="bodySmall" color={colors.status.error}>
+              {error}
+            </Text>
+          )}
+          {lastCount != null && !error && (
+            <Text variant="bodySmall" color={colors.text.muted}>
+              {t('export.exported', { count: lastCount })}
+            </Text>
+          )}
+
+          <Button
+            title={t('export.export')}
+            variant="primary"
+            size="lg"
+            onPress={handleExport}
+            loading={isExporting}
+            disabled={isExporting || customIssue != null}
+          />
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+}
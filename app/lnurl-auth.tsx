@@ -0,0 +1,241 @@
+/**
+ * LNURL-Auth Screen
+ *
+ * Confirms a login / registration request from a Lightning service.
+ * The SDK signs the challenge with a key derived for that domain only.
+ */
+
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import { View, StyleSheet, ScrollView, ActivityIndicator } from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { Button, Text, Card } from '@/components/ui';
+import { BreezService, formatSdkError } from '@/services/breez';
+import { useLnurlAuthStore } from '@/stores/lnurlAuthStore';
+import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
+import { spacing } from '@/theme';
+import type { MessageKey } from '@/i18n';
+import type { LnurlAuthAction, ParsedLnurlAuth } from '@/types/wallet';
+
+const ACTION_COPY: Record<LnurlAuthAction, { title: MessageKey; button: MessageKey; done: MessageKey; prompt: MessageKey }> = {
+  register: {
+    title: 'lnurlAuth.register.title',
+    button: 'lnurlAuth.register.title',
+    done: 'lnurlAuth.register.done',
+    prompt: 'lnurlAuth.register.prompt',
+  },
+  login: {
+    title: 'lnurlAuth.login.title',
+    button: 'lnurlAuth.login.title',
+    done: 'lnurlAuth.login.done',
+    prompt: 'lnurlAuth.login.prompt',
+  },
+  link: {
+    title: 'lnurlAuth.link.title',
+    button: 'lnurlAuth.link.button',
+    done: 'lnurlAuth.link.done',
+    prompt: 'lnurlAuth.link.prompt',
+  },
+  auth: {
+    title: 'lnurlAuth.auth.title',
+    button: 'lnurlAuth.auth.title',
+    done: 'lnurlAuth.auth.done',
+    prompt: 'lnurlAuth.auth.prompt',
+  },
+};
+
+export default function LnurlAuthScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ request?: string }>();
+  const colors = useColors();
+  const { t } = useTranslation();
+  const recordAuth = useLnurlAuthStore((s) => s.recordAuth);
+  const knownDomains = useLnurlAuthStore((s) => s.domains);
+  const request = params.request?.trim() ?? '';
+  const [parsed, setParsed] = useState<ParsedLnurlAuth | null>(null);
+  const [isParsing, setIsParsing] = useState(true);
+  const [isSigning, setIsSigning] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!request) {
+      setIsParsing(false);
+      setError(t('lnurlAuth.missingRequest'));
+      return;
+    }
+    let cancelled = false;
+    BreezService.parse(request)
+      .then((input) => {
+        if (cancelled) return;
+        if (input.type !== 'lnurl_auth') {
+          setError(t('lnurlAuth.notAuth'));
+          return;
+        }
+        setParsed(input);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(formatSdkError(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsParsing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [request, t]);
+
+  const previous = parsed ? knownDomains.find((d) => d.domain === parsed.domain) : undefined;
+
+  const handleCancel = useCallback(() => {
+    if (router.canDismiss()) {
+      router.dismiss();
+    } else if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)');
+    }
+  }, [router]);
+
+  const handleConfirm = async () => {
+    if (!parsed) return;
+    setIsSigning(true);
+    setError(null);
+    try {
+      await BreezService.lnurlAuth(request);
+      recordAuth(parsed.domain, parsed.action);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setIsDone(true);
+    } catch (err) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setError(formatSdkError(err));
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  const styles = useMemo(
+    () =>
+      StyleSheet.create({
+        container: { flex: 1, backgroundColor: colors.background.primary },
+        safeArea: { flex: 1 },
+        header: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          paddingHorizontal: spacing.md,
+          paddingVertical: spacing.sm,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.border.subtle,
+        },
+        scrollContent: { flexGrow: 1, padding: spacing.lg, gap: spacing.md },
+        center: { alignItems: 'center', gap: spacing.sm, padding: spacing.xl },
+        iconCircle: {
+          width: 64,
+          height: 64,
+          borderRadius: 32,
+          backgroundColor: colors.gold.glow,
+          alignItems: 'center',
+          justifyContent: 'center',
+        },
+        card: { padding: spacing.md, gap: spacing.sm },
+        row: { gap: spacing.xxs },
+        actions: { gap: spacing.sm, marginTop: spacing.sm },
+      }),
+    [colors]
+  );
+
+  const copy = parsed ? ACTION_COPY[parsed.action] : ACTION_COPY.auth;
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <Button title={t('common.cancel')} variant="ghost" size="sm" onPress={handleCancel} />
+          <Text variant="titleLarge" color={colors.text.primary}>
+            {t(copy.title)}
+          </Text>
+          <View style={{ width: 60 }} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          {isParsing ? (
+            <View style={styles.center}>
+              <ActivityIndicator size="large" color={colors.gold.pure} />
+            </View>
+          ) : !parsed ? (
+            <View style={styles.center}>
+              <Ionicons name="alert-circle" size={48} color={colors.status.error} />
+              <Text variant="bodyMedium" color={colors.text.secondary} align="center">
+                {error ?? t('lnurlAuth.unrecognized')}
+              </Text>
+              <Button title={t('common.close')} variant="secondary" onPress={handleCancel} />
+            </View>
+          ) : isDone ? (
+            <View style={styles.center}>
+              <View style={styles.iconCircle}>
+                <Ionicons name="checkmark" size={32} color={colors.status.success} />
+              </View>
+              <Text variant="titleLarge" color={colors.text.primary}>
+                {t(copy.done)}
+              </Text>
+              <Text variant="bodyMedium" color={colors.text.secondary} align="center">
+                {t('lnurlAuth.returnTo', { domain: parsed.domain })}
+              </Text>
+              <Button title={t('common.done')} variant="primary" onPress={handleCancel} />
+            </View>
+          ) : (
+            <>
+              <View style={styles.center}>
+                <View style={styles.iconCircle}>
+                  <Ionicons name="key" size={32} color={colors.gold.pure} />
+                </View>
+                <Text variant="bodyMedium" color={colors.text.secondary} align="center">
+                  {t(copy.prompt, { domain: parsed.domain })}
+                </Text>
+              </View>
+
+              <Card variant="default" style={styles.card}>
+                <View style={styles.row}>
+                  <Text variant="labelMedium" color={colors.text.muted}>{t('lnurlAuth.domain')}</Text>
+                  <Text variant="bodyMedium" color={colors.text.primary}>{parsed.domain}</Text>
+                </View>
+                <View style={styles.row}>
+                  <Text variant="labelMedium" color={colors.text.muted}>{t('lnurlAuth.action')}</Text>
+                  <Text variant="bodyMedium" color={colors.text.primary}>
+                    {t(copy.title)}
+                  </Text>
+                </View>
+                <Text variant="bodySmall" color={colors.text.muted}>
+                  {previous
+                    ? t('lnurlAuth.previous', { count: previous.count })
+                    : t('lnurlAuth.firstTime')}
+                </Text>
+              </Card>
+
+              {error && (
+                <Text variant="bodySmall" color={colors.status.error}>
+                  {error}
+                </Text>
+              )}
+
+              <View style={styles.actions}>
+                <Button
+                  title={t(copy.button)}
+                  variant="primary"
+                  size="lg"
+                  onPress={handleConfirm}
+                  loading={isSigning}
+                  disabled={isSigning}
+                />
+              </View>
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+}
@@ -5,6 +5,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { Button, Text } from '@/components/ui';
 import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
 import { spacing } from '@/theme';
 import type { ColorTheme } from '@/theme/colors';
 
@@ -38,15 +39,16 @@ const createStyles = (colors: ColorTheme) =>
 export default function NotificationsScreen() {
   const router = useRouter();
   const colors = useColors();
+  const { t } = useTranslation();
   const styles = useMemo(() => createStyles(colors), [colors]);
 
   return (
     <View style={styles.container}>
       <SafeAreaView style={styles.safeArea}>
         <View style={styles.header}>
-          <Button title="Back" variant="ghost" size="sm" onPress={() => router.back()} />
+          <Button title={t('common.back')} variant="ghost" size="sm" onPress={() => router.back()} />
           <Text variant="titleLarge" color={colors.text.primary}>
-            Notifications
+            {t('notifications.title')}
           </Text>
           <View style={{ width: 60 }} />
         </View>
@@ -54,10 +56,10 @@ export default function NotificationsScreen() {
         <View style={styles.center}>
           <Ionicons name="notifications-outline" size={56} color={colors.text.muted} />
           <Text variant="titleMedium" color={colors.text.primary} align="center">
-            No notifications yet
+            {t('notifications.empty')}
           </Text>
           <Text variant="bodySmall" color={colors.text.secondary} align="center">
-            Incoming and outgoing payment notifications will appear here.
+            {t('notifications.emptyHint')}
           </Text>
         </View>
       </SafeAreaView>
@@ -18,7 +18,9 @@ export default function OnboardingLayout() {
       <Stack.Screen name="index" />
       <Stack.Screen name="create" />
       <Stack.Screen name="import" />
+      <Stack.Screen name="restore" />
       <Stack.Screen name="backup" />
+      <Stack.Screen name="shares" />
     </Stack>
   );
 }
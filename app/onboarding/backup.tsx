@@ -5,74 +5,58 @@
  */
 
 import React, { useState, useMemo } from 'react';
-import { View, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { View, StyleSheet, ScrollView } from 'react-native';
 import { useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
-import { Button, Text, Card } from '@/components/ui';
+import { Button, Text, Card, Input } from '@/components/ui';
+import { WordOrderPuzzle, puzzleSelectedWords } from '@/components/wallet';
 import { KeychainService } from '@/services/keychain';
 import { useWalletStore } from '@/stores/walletStore';
-import { consumeMnemonic } from '@/stores/onboardingStore';
+import { consumeMnemonic, consumePassphrase } from '@/stores/onboardingStore';
 import { useColors } from '@/contexts';
-import { spacing, layout } from '@/theme';
-
-function shuffle<T>(arr: T[]): T[] {
-  const a = [...arr];
-  for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [a[i], a[j]] = [a[j], a[i]];
-  }
-  return a;
-}
+import { useTranslation } from '@/hooks';
+import { spacing } from '@/theme';
+import { createMnemonicPuzzle, isMnemonicPuzzleSolved } from '@/utils/mnemonic';
 
 export default function BackupVerificationScreen() {
   const router = useRouter();
   const colors = useColors();
+  const { t } = useTranslation();
   const [mnemonic] = useState<string[]>(() => consumeMnemonic() ?? []);
+  const [passphrase] = useState<string | null>(() => consumePassphrase());
+  const [passphraseConfirmation, setPassphraseConfirmation] = useState('');
   const [selectedOptionIds, setSelectedOptionIds] = useState<number[]>([]);
   const [error, setError] = useState<string | null>(null);
 
-  const [puzzle] = useState(() => {
-    if (mnemonic.length !== 24) return null;
-    const shuffled = shuffle(mnemonic.map((_, i) => i));
-    const indices = shuffled.slice(0, 3).sort((a, b) => a - b);
-    const options = shuffle(
-      shuffled.slice(0, 9).map((i) => ({ id: i, word: mnemonic[i] })),
-    );
-    return { indices, options };
-  });
-
-  const handleOptionSelect = (optionId: number) => {
-    if (selectedOptionIds.includes(optionId)) {
-      setSelectedOptionIds(selectedOptionIds.filter((id) => id !== optionId));
-    } else if (selectedOptionIds.length < 3) {
-      setSelectedOptionIds([...selectedOptionIds, optionId]);
-      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    }
-    setError(null);
-  };
-
-  const selectedWords = selectedOptionIds.map((id) => puzzle!.options.find((o) => o.id === id)?.word ?? '');
+  const [puzzle] = useState(() => createMnemonicPuzzle(mnemonic));
 
   const handleVerify = async () => {
-    const isCorrect = selectedWords.length === 3 &&
-      selectedWords.every((word, i) => word === mnemonic[puzzle!.indices[i]]);
+    const isCorrect = isMnemonicPuzzleSolved(puzzle!, mnemonic, puzzleSelectedWords(puzzle!, selectedOptionIds));
+
+    if (isCorrect && passphrase && passphraseConfirmation !== passphrase) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setError(t('backup.passphraseIncorrect'));
+      setPassphraseConfirmation('');
+      return;
+    }
 
     if (isCorrect) {
       try {
         const phrase = mnemonic.join(' ');
-        await KeychainService.storeMnemonic(phrase);
-        await useWalletStore.getState().initializeWallet(phrase);
+        await KeychainService.storeMnemonic(phrase, passphrase ?? undefined);
+        await useWalletStore.getState().initializeWallet(phrase, passphrase ?? undefined);
+        useWalletStore.getState().updateSettings({ lastBackupCheckAt: Date.now() });
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
         router.replace('/(tabs)');
       } catch (err) {
         console.error('[Backup] Failed to save wallet:', err);
-        setError(err instanceof Error ? err.message : 'Failed to save wallet. Please try again.');
+        setError(err instanceof Error ? err.message : t('backup.saveFailed'));
       }
     } else {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-      setError('Incorrect words or wrong order. Please check your recovery phrase and try again.');
+      setError(t('backup.incorrect'));
       setSelectedOptionIds([]);
     }
   };
@@ -97,70 +81,7 @@ export default function BackupVerificationScreen() {
           justifyContent: 'center',
           marginBottom: spacing.sm,
         },
-        sectionLabel: { marginBottom: spacing.sm },
-        promptsContainer: { marginBottom: spacing.lg },
-        promptItem: { marginBottom: spacing.sm },
-        promptRow: {
-          flexDirection: 'row',
-          alignItems: 'center',
-          gap: spacing.sm,
-        },
-        promptNumber: {
-          width: 40,
-          height: 40,
-          borderRadius: 20,
-          backgroundColor: colors.gold.glow,
-          alignItems: 'center',
-          justifyContent: 'center',
-        },
-        promptSlot: {
-          flex: 1,
-          height: 48,
-          backgroundColor: colors.background.secondary,
-          borderRadius: layout.radius.md,
-          borderWidth: 1.5,
-          borderColor: colors.border.subtle,
-          borderStyle: 'dashed',
-          alignItems: 'center',
-          justifyContent: 'center',
-        },
-        promptSlotFilled: {
-          borderColor: colors.gold.pure,
-          borderStyle: 'solid',
-          backgroundColor: colors.gold.glow,
-        },
-        optionsSection: { marginBottom: spacing.lg },
-        optionsContainer: {
-          flexDirection: 'row',
-          flexWrap: 'wrap',
-          gap: spacing.sm,
-        },
-        optionButton: {
-          paddingHorizontal: spacing.md,
-          paddingVertical: spacing.sm,
-          backgroundColor: colors.background.secondary,
-          borderRadius: layout.radius.md,
-          borderWidth: 1.5,
-          borderColor: colors.border.subtle,
-          position: 'relative',
-          minWidth: 80,
-          alignItems: 'center',
-        },
-        optionButtonSelected: {
-          borderColor: colors.gold.pure,
-          backgroundColor: colors.gold.glow,
-        },
-        selectedBadge: {
-          position: 'absolute',
-          top: -10,
-          right: -10,
-          width: 22,
-          height: 22,
-          borderRadius: 11,
-          backgroundColor: colors.gold.pure,
-          alignItems: 'center',
-          justifyContent: 'center',
-        },
+        passphraseSection: { marginBottom: spacing.md },
         errorCard: { marginBottom: spacing.md, borderColor: colors.status.error },
         errorContent: {
           flexDirection: 'row',
@@ -204,82 +125,39 @@ export default function BackupVerificationScreen() {
             <Ionicons name="shield-checkmark" size={32} color={colors.gold.pure} />
           </View>
           <Text variant="headlineMedium" color={colors.text.primary} align="center">
-            Verify Your Backup
+            {t('backup.title')}
           </Text>
           <Text variant="bodyMedium" color={colors.text.secondary} align="center">
-            Select the correct words in the order shown to verify you&apos;ve saved your recovery phrase
+            {t('backup.subtitle')}
           </Text>
         </View>
 
-        {/* Word prompts - what we're asking for */}
-        <View style={styles.promptsContainer}>
-          <Text variant="labelMedium" color={colors.text.muted} style={styles.sectionLabel}>
-            Select these words in order:
-          </Text>
-          {puzzle.indices.map((index, i) => (
-            <View key={index} style={styles.promptItem}>
-              <View style={styles.promptRow}>
-                <View style={styles.promptNumber}>
-                  <Text variant="titleSmall" color={colors.gold.pure}>
-                    #{index + 1}
-                  </Text>
-                </View>
-                <View style={[
-                  styles.promptSlot,
-                  selectedWords[i] && styles.promptSlotFilled,
-                ]}>
-                  {selectedWords[i] ? (
-                    <Text variant="titleMedium" color={colors.gold.pure}>
-                      {selectedWords[i]}
-                    </Text>
-                  ) : (
-                    <Text variant="bodyMedium" color={colors.text.muted}>
-                      Tap a word below...
-                    </Text>
-                  )}
-                </View>
-              </View>
-            </View>
-          ))}
-        </View>
+        <WordOrderPuzzle
+          puzzle={puzzle}
+          selectedIds={selectedOptionIds}
+          onChangeSelectedIds={(ids) => {
+            setSelectedOptionIds(ids);
+            setError(null);
+          }}
+        />
 
-        {/* Word options to choose from */}
-        <View style={styles.optionsSection}>
-          <Text variant="labelMedium" color={colors.text.muted} style={styles.sectionLabel}>
-            Choose from these words:
-          </Text>
-          <View style={styles.optionsContainer}>
-            {puzzle.options.map((option) => {
-              const isSelected = selectedOptionIds.includes(option.id);
-              const selectionOrder = selectedOptionIds.indexOf(option.id) + 1;
-              return (
-                <TouchableOpacity
-                  key={option.id}
-                  style={[
-                    styles.optionButton,
-                    isSelected && styles.optionButtonSelected,
-                  ]}
-                  onPress={() => handleOptionSelect(option.id)}
-                  activeOpacity={0.7}
-                >
-                  <Text
-                    variant="titleSmall"
-                    color={isSelected ? colors.gold.pure : colors.text.primary}
-                  >
-                    {option.word}
-                  </Text>
-                  {isSelected && (
-                    <View style={styles.selectedBadge}>
-                      <Text variant="labelSmall" color={colors.background.primary}>
-                        {selectionOrder}
-                      </Text>
-                    </View>
-                  )}
-                </TouchableOpacity>
-              );
-            })}
+        {/* Passphrase confirmation */}
+        {passphrase && (
+          <View style={styles.passphraseSection}>
+            <Input
+              label={t('backup.passphraseLabel')}
+              value={passphraseConfirmation}
+              onChangeText={(value) => {
+                setPassphraseConfirmation(value);
+                setError(null);
+              }}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              spellCheck={false}
+            />
           </View>
-        </View>
+        )}
 
         {/* Error */}
         {error && (
@@ -297,7 +175,7 @@ export default function BackupVerificationScreen() {
         <View style={styles.hintContainer}>
           <Ionicons name="information-circle" size={16} color={colors.text.muted} />
           <Text variant="bodySmall" color={colors.text.muted}>
-            Tap words in the correct order. Tap again to deselect.
+            {t('backup.hint')}
           </Text>
         </View>
       </ScrollView>
@@ -305,14 +183,14 @@ export default function BackupVerificationScreen() {
       {/* Actions - Fixed at bottom */}
       <View style={styles.actions}>
         <Button
-          title="Verify & Continue"
+          title={t('backup.verify')}
           onPress={handleVerify}
           variant="primary"
           size="lg"
-          disabled={selectedOptionIds.length < 3}
+          disabled={selectedOptionIds.length < puzzle.indices.length || (!!passphrase && !passphraseConfirmation)}
         />
         <Button
-          title="Go Back"
+          title={t('common.goBack')}
           onPress={() => router.back()}
           variant="ghost"
           size="md"
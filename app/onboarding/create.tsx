@@ -15,20 +15,28 @@ import {
 import { useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import { Button, Text, Card } from '@/components/ui';
+import { Button, Text, Card, Input } from '@/components/ui';
 import { KeychainService } from '@/services/keychain';
-import { setMnemonic as setOnboardingMnemonic } from '@/stores/onboardingStore';
+import {
+  setMnemonic as setOnboardingMnemonic,
+  setPassphrase as setOnboardingPassphrase,
+} from '@/stores/onboardingStore';
 import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
 import { spacing, layout } from '@/theme';
 
 export default function CreateWalletScreen() {
   const router = useRouter();
   const colors = useColors();
+  const { t } = useTranslation();
   const [mnemonic, setMnemonic] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [revealed, setRevealed] = useState(false);
   const [hasAcknowledgedLoss, setHasAcknowledgedLoss] = useState(false);
   const [hasAcknowledgedStorage, setHasAcknowledgedStorage] = useState(false);
+  const [usePassphrase, setUsePassphrase] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [showPassphrase, setShowPassphrase] = useState(false);
 
   const styles = useMemo(
     () =>
@@ -98,6 +106,7 @@ export default function CreateWalletScreen() {
         checkItemText: {
           flex: 1,
         },
+        passphraseSection: { gap: spacing.sm, marginTop: spacing.sm },
         actions: {
           padding: spacing.lg,
           gap: spacing.md,
@@ -128,17 +137,26 @@ export default function CreateWalletScreen() {
       return;
     }
     if (!hasAcknowledgedLoss || !hasAcknowledgedStorage) return;
+    if (usePassphrase && !passphrase) return;
 
     setOnboardingMnemonic(mnemonic);
+    setOnboardingPassphrase(usePassphrase ? passphrase : null);
     router.push('/onboarding/backup');
   };
 
+  // Split the phrase into SLIP-39 shares without ever showing it whole
+  const handleUseShares = () => {
+    setOnboardingMnemonic(mnemonic);
+    setOnboardingPassphrase(null);
+    router.push('/onboarding/shares');
+  };
+
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.gold.pure} />
         <Text variant="bodyMedium" color={colors.text.secondary}>
-          Generating your wallet...
+          {t('create.generating')}
         </Text>
       </View>
     );
@@ -156,10 +174,10 @@ export default function CreateWalletScreen() {
             <Ionicons name="key" size={32} color={colors.gold.pure} />
           </View>
           <Text variant="headlineMedium" color={colors.text.primary} align="center">
-            Your Recovery Phrase
+            {t('create.title')}
           </Text>
           <Text variant="bodyMedium" color={colors.text.secondary} align="center">
-            Write down these 24 words in order. This is the ONLY way to recover your wallet.
+            {t('create.subtitle', { count: mnemonic.length })}
           </Text>
         </View>
 
@@ -169,10 +187,10 @@ export default function CreateWalletScreen() {
             <Ionicons name="warning" size={24} color={colors.status.warning} />
             <View style={styles.warningText}>
               <Text variant="titleSmall" color={colors.status.warning}>
-                Important Security Warning
+                {t('create.warningTitle')}
               </Text>
               <Text variant="bodySmall" color={colors.text.secondary}>
-                Never share your recovery phrase. Anyone with these words can steal your Bitcoin.
+                {t('create.warningBody')}
               </Text>
             </View>
           </View>
@@ -184,10 +202,10 @@ export default function CreateWalletScreen() {
             <View style={styles.blurOverlay}>
               <Ionicons name="eye-off" size={48} color={colors.text.muted} />
               <Text variant="titleMedium" color={colors.text.secondary} align="center">
-                Tap &quot;Reveal&quot; to show your recovery phrase
+                {t('create.revealPrompt')}
               </Text>
               <Text variant="bodySmall" color={colors.text.muted} align="center">
-                Make sure no one is watching your screen
+                {t('create.revealHint')}
               </Text>
             </View>
           ) : (
@@ -221,7 +239,7 @@ export default function CreateWalletScreen() {
                 color={hasAcknowledgedLoss ? colors.status.success : colors.text.muted}
               />
               <Text variant="bodySmall" color={colors.text.secondary} style={styles.checkItemText}>
-                I understand that if I lose this phrase, I lose access to my Bitcoin
+                {t('create.ackLoss')}
               </Text>
             </TouchableOpacity>
             <TouchableOpacity
@@ -236,9 +254,46 @@ export default function CreateWalletScreen() {
                 color={hasAcknowledgedStorage ? colors.status.success : colors.text.muted}
               />
               <Text variant="bodySmall" color={colors.text.secondary} style={styles.checkItemText}>
-                I will store this phrase securely and never share it
+                {t('create.ackStorage')}
               </Text>
             </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.checkItem}
+              onPress={() => setUsePassphrase((current) => !current)}
+              accessibilityRole="checkbox"
+              accessibilityState={{ checked: usePassphrase }}
+            >
+              <Ionicons
+                name={usePassphrase ? 'checkmark-circle' : 'ellipse-outline'}
+                size={20}
+                color={usePassphrase ? colors.gold.pure : colors.text.muted}
+              />
+              <Text variant="bodySmall" color={colors.text.secondary} style={styles.checkItemText}>
+                {t('create.passphraseToggle')}
+              </Text>
+            </TouchableOpacity>
+            {usePassphrase && (
+              <View style={styles.passphraseSection}>
+                <Input
+                  label={t('passphrase.label')}
+                  value={passphrase}
+                  onChangeText={setPassphrase}
+                  secureTextEntry={!showPassphrase}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  spellCheck={false}
+                  hint={t('passphrase.hint')}
+                  rightIcon={
+                    <TouchableOpacity
+                      onPress={() => setShowPassphrase((current) => !current)}
+                      accessibilityLabel={showPassphrase ? t('passphrase.hide') : t('passphrase.show')}
+                    >
+                      <Ionicons name={showPassphrase ? 'eye-off' : 'eye'} size={20} color={colors.text.muted} />
+                    </TouchableOpacity>
+                  }
+                />
+              </View>
+            )}
           </View>
         )}
       </ScrollView>
@@ -246,14 +301,22 @@ export default function CreateWalletScreen() {
       {/* Actions */}
       <View style={styles.actions}>
         <Button
-          title={revealed ? "I've Written It Down" : "Reveal Recovery Phrase"}
+          title={revealed ? t('create.written') : t('create.reveal')}
           onPress={handleContinue}
           variant="primary"
           size="lg"
-          disabled={revealed && (!hasAcknowledgedLoss || !hasAcknowledgedStorage)}
+          disabled={revealed && (!hasAcknowledgedLoss || !hasAcknowledgedStorage || (usePassphrase && !passphrase))}
         />
+        {!revealed && (
+          <Button
+            title={t('create.useShares')}
+            onPress={handleUseShares}
+            variant="secondary"
+            size="md"
+          />
+        )}
         <Button
-          title="Go Back"
+          title={t('common.goBack')}
           onPress={() => router.back()}
           variant="ghost"
           size="md"
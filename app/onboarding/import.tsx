@@ -1,10 +1,12 @@
 /**
  * Import Wallet Screen
  * 
- * Allows users to import an existing wallet via recovery phrase.
+ * Allows users to import an existing wallet via a 12 to 24-word recovery
+ * phrase, or a quorum of SLIP-39 shares, and an optional BIP39 passphrase.
+ * Words autocomplete from the BIP39 list and are checked as they are typed.
  */
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef } from 'react';
 import {
   View,
   StyleSheet,
@@ -13,32 +15,108 @@ import {
   TouchableOpacity,
   KeyboardAvoidingView,
   Platform,
+  Alert,
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import * as Clipboard from 'expo-clipboard';
-import { Button, Text } from '@/components/ui';
+import { Button, Text, Input } from '@/components/ui';
+import { Slip39ShareEntry } from '@/components/wallet';
 import { KeychainService } from '@/services/keychain';
+import { BreezService } from '@/services/breez';
 import { useWalletStore } from '@/stores/walletStore';
 import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
 import { spacing, layout, typography } from '@/theme';
+import {
+  MNEMONIC_LENGTHS,
+  checkMnemonic,
+  isMnemonicLength,
+  isMnemonicWord,
+  suggestMnemonicWords,
+} from '@/utils/mnemonic';
+import type { MnemonicIssue, MnemonicLength } from '@/utils/mnemonic';
+import { collectSlip39Shares, slip39SharesToMnemonic } from '@/utils/slip39';
+import type { MessageKey, Translate } from '@/i18n';
+
+type ImportMode = 'phrase' | 'shares';
+
+const IMPORT_MODES: { value: ImportMode; label: MessageKey }[] = [
+  { value: 'phrase', label: 'import.modePhrase' },
+  { value: 'shares', label: 'import.modeShares' },
+];
+
+function describeMnemonicIssue(issue: MnemonicIssue, wordCount: number, t: Translate): string {
+  switch (issue.type) {
+    case 'missing':
+      return t('import.missingWords', { count: wordCount });
+    case 'unknown_word':
+      return t('import.unknownWord', { index: issue.index + 1, word: issue.word });
+    case 'checksum':
+      return t('import.checksum');
+  }
+}
+
+// A mistyped passphrase derives a valid but empty wallet, so ask before opening one
+function confirmEmptyWallet(t: Translate): Promise<boolean> {
+  return new Promise((resolve) => {
+    Alert.alert(
+      t('import.emptyTitle'),
+      t('import.emptyBody'),
+      [
+        { text: t('import.reenterPassphrase'), style: 'cancel', onPress: () => resolve(false) },
+        { text: t('import.openAnyway'), style: 'destructive', onPress: () => resolve(true) },
+      ],
+      { cancelable: false }
+    );
+  });
+}
 
 export default function ImportWalletScreen() {
   const router = useRouter();
   const colors = useColors();
+  const { t } = useTranslation();
+  const [mode, setMode] = useState<ImportMode>('phrase');
+  const [shareTexts, setShareTexts] = useState<string[]>(['']);
+  const [wordCount, setWordCount] = useState<MnemonicLength>(24);
   const [words, setWords] = useState<string[]>(Array(24).fill(''));
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  const inputRefs = useRef<(TextInput | null)[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [usePassphrase, setUsePassphrase] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirmation, setPassphraseConfirmation] = useState('');
+
+  const handleModeChange = (value: ImportMode) => {
+    setMode(value);
+    setError(null);
+  };
+
+  const handleShareTextsChange = (values: string[]) => {
+    setShareTexts(values);
+    setError(null);
+  };
+
+  const handleWordCountChange = (count: MnemonicLength) => {
+    setWordCount(count);
+    setWords((current) => Array.from({ length: count }, (_, i) => current[i] ?? ''));
+    setError(null);
+  };
 
   const handleWordChange = (index: number, value: string) => {
     const parsed = value.trim().toLowerCase().split(/\s+/);
 
-    if (parsed.length > 1) {
-      // Pasted a full phrase — distribute across inputs starting from index
+    if (parsed.length > 1 && index === 0 && isMnemonicLength(parsed.length)) {
+      // Pasted a whole phrase — size the grid to it
+      setWordCount(parsed.length);
+      setWords(parsed);
+    } else if (parsed.length > 1) {
+      // Pasted part of a phrase — distribute across inputs starting from index
       const newWords = [...words];
       parsed.forEach((word, i) => {
-        if (index + i < 24) {
+        if (index + i < words.length) {
           newWords[index + i] = word;
         }
       });
@@ -53,30 +131,81 @@ export default function ImportWalletScreen() {
     setError(null);
   };
 
-  const handleImport = async () => {
-    const mnemonic = words.join(' ').trim();
-    
-    // Validate
-    if (words.some((w) => !w)) {
-      setError('Please fill in all 24 words');
-      return;
+  const handleSuggestion = (index: number, word: string) => {
+    const newWords = [...words];
+    newWords[index] = word;
+    setWords(newWords);
+    setError(null);
+    inputRefs.current[index + 1]?.focus();
+  };
+
+  // Explain a bad phrase once every word is in, without nagging mid-entry
+  const issue = useMemo(() => checkMnemonic(words), [words]);
+  const liveIssue = mode === 'phrase' && issue && issue.type !== 'missing'
+    ? describeMnemonicIssue(issue, wordCount, t)
+    : null;
+  const shareSet = useMemo(() => collectSlip39Shares(shareTexts), [shareTexts]);
+
+  const focusedWord = focusedIndex != null ? words[focusedIndex] ?? '' : '';
+  const suggestions = useMemo(() => {
+    const matches = suggestMnemonicWords(focusedWord);
+    return matches.length === 1 && matches[0] === focusedWord ? [] : matches;
+  }, [focusedWord]);
+
+  // The recovery phrase as typed, or rebuilt from a quorum of shares
+  const enteredMnemonic = (): string | null => {
+    if (mode === 'shares') {
+      if (shareSet.issue) return null;
+      try {
+        return slip39SharesToMnemonic(shareSet.shares);
+      } catch (err) {
+        console.warn('[Import] Shares did not combine:', err);
+        setError(t('shares.combineFailed'));
+        return null;
+      }
     }
+    if (issue) {
+      setError(describeMnemonicIssue(issue, wordCount, t));
+      return null;
+    }
+    return words.join(' ').trim();
+  };
+
+  const handleImport = async () => {
+    const mnemonic = enteredMnemonic();
+    if (!mnemonic) return;
 
-    if (!KeychainService.validateMnemonic(mnemonic)) {
-      setError('Invalid recovery phrase. Please check your words and try again.');
+    if (usePassphrase && passphrase !== passphraseConfirmation) {
+      setError(t('passphrase.mismatch'));
       return;
     }
+    const walletPassphrase = usePassphrase ? passphrase : undefined;
 
     setIsLoading(true);
+    const { initializeWallet, closeWallet } = useWalletStore.getState();
     try {
-      await KeychainService.storeMnemonic(mnemonic);
-      await useWalletStore.getState().initializeWallet(mnemonic);
+      await KeychainService.requireAuthentication();
+      await initializeWallet(mnemonic, walletPassphrase);
+      if (walletPassphrase && await BreezService.isWalletEmpty()) {
+        const openAnyway = await confirmEmptyWallet(t);
+        if (!openAnyway) {
+          await closeWallet();
+          setPassphrase('');
+          setPassphraseConfirmation('');
+          return;
+        }
+      }
+      await KeychainService.storeMnemonic(mnemonic, walletPassphrase);
+      // Entering the phrase from the backup counts as checking it
+      useWalletStore.getState().updateSettings({ lastBackupCheckAt: Date.now() });
       // Clear clipboard in case the mnemonic was pasted earlier
       await Clipboard.setStringAsync('');
       router.replace('/(tabs)');
     } catch (err) {
       console.error('[Import] Failed to import wallet:', err);
-      setError(err instanceof Error ? err.message : 'Failed to import wallet. Please try again.');
+      // Don't leave a wallet open whose keys were never stored
+      closeWallet().catch(() => {});
+      setError(err instanceof Error ? err.message : t('import.failed'));
     } finally {
       setIsLoading(false);
     }
@@ -131,9 +260,36 @@ export default function ImportWalletScreen() {
           borderWidth: 1,
           borderColor: colors.border.subtle,
         },
+        wordInputInvalid: { borderColor: colors.status.error },
         wordNumber: {
           width: 20,
         },
+        sharesSection: { marginBottom: spacing.md },
+        sharesHint: { marginTop: spacing.sm },
+        countRow: {
+          flexDirection: 'row',
+          justifyContent: 'center',
+          gap: spacing.xs,
+          marginBottom: spacing.md,
+        },
+        countChip: {
+          paddingHorizontal: spacing.md,
+          paddingVertical: spacing.xs,
+          borderRadius: layout.radius.full,
+          borderWidth: 1,
+        },
+        suggestionRow: {
+          flexDirection: 'row',
+          flexWrap: 'wrap',
+          gap: spacing.xs,
+          marginBottom: spacing.md,
+        },
+        suggestionChip: {
+          paddingHorizontal: spacing.md,
+          paddingVertical: spacing.xs,
+          borderRadius: layout.radius.full,
+          backgroundColor: colors.gold.glow,
+        },
         input: {
           flex: 1,
           ...typography.titleSmall,
@@ -149,6 +305,16 @@ export default function ImportWalletScreen() {
           borderRadius: layout.radius.md,
           marginBottom: spacing.md,
         },
+        passphraseToggle: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          gap: spacing.sm,
+          padding: spacing.md,
+          backgroundColor: colors.background.secondary,
+          borderRadius: layout.radius.md,
+          marginBottom: spacing.md,
+        },
+        passphraseSection: { gap: spacing.sm, marginBottom: spacing.md },
         tipContainer: {
           flexDirection: 'row',
           alignItems: 'flex-start',
@@ -189,67 +355,204 @@ export default function ImportWalletScreen() {
               <Ionicons name="download" size={32} color={colors.gold.pure} />
             </View>
             <Text variant="headlineMedium" color={colors.text.primary} align="center">
-              Import Wallet
+              {t('import.title')}
             </Text>
             <Text variant="bodyMedium" color={colors.text.secondary} align="center">
-              Enter your 24-word recovery phrase to restore your wallet
+              {mode === 'phrase' ? t('import.subtitle', { count: wordCount }) : t('import.sharesSubtitle')}
             </Text>
           </View>
 
-          {/* Word inputs */}
-          <View style={styles.wordsContainer}>
-            {words.map((word, index) => (
-              <View key={index} style={styles.wordInput}>
-                <Text variant="labelSmall" color={colors.text.muted} style={styles.wordNumber}>
-                  {index + 1}
-                </Text>
-                <TextInput
-                  style={styles.input}
-                  value={word}
-                  onChangeText={(text) => handleWordChange(index, text)}
-                  onBlur={() => {}}
-                  placeholder="..."
-                  placeholderTextColor={colors.text.muted}
-                  autoCapitalize="none"
-                  autoCorrect={false}
-                  spellCheck={false}
-                  returnKeyType={index < 23 ? 'next' : 'done'}
-                  onSubmitEditing={() => {
-                    // Focus next input
-                  }}
-                />
-              </View>
-            ))}
+          {/* Backup type */}
+          <View style={styles.countRow}>
+            {IMPORT_MODES.map(({ value, label }) => {
+              const active = mode === value;
+              return (
+                <TouchableOpacity
+                  key={value}
+                  style={[
+                    styles.countChip,
+                    {
+                      backgroundColor: active ? colors.gold.glow : colors.background.secondary,
+                      borderColor: active ? colors.gold.pure : colors.border.subtle,
+                    },
+                  ]}
+                  onPress={() => handleModeChange(value)}
+                >
+                  <Text variant="labelMedium" color={active ? colors.gold.pure : colors.text.secondary}>
+                    {t(label)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
           </View>
 
+          {mode === 'phrase' ? (
+            <>
+              {/* Word count */}
+              <View style={styles.countRow} accessibilityLabel={t('import.wordCount')}>
+                {MNEMONIC_LENGTHS.map((count) => {
+                  const active = wordCount === count;
+                  return (
+                    <TouchableOpacity
+                      key={count}
+                      style={[
+                        styles.countChip,
+                        {
+                          backgroundColor: active ? colors.gold.glow : colors.background.secondary,
+                          borderColor: active ? colors.gold.pure : colors.border.subtle,
+                        },
+                      ]}
+                      onPress={() => handleWordCountChange(count)}
+                    >
+                      <Text variant="labelMedium" color={active ? colors.gold.pure : colors.text.secondary}>
+                        {count}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              {/* Word inputs */}
+              <View style={styles.wordsContainer}>
+                {words.map((word, index) => {
+                // Flag a word once it can no longer become a list word, or when left
+                  const isInvalid = !!word && !isMnemonicWord(word)
+                  && (index !== focusedIndex || suggestMnemonicWords(word, 1).length === 0);
+                  return (
+                    <View key={index} style={[styles.wordInput, isInvalid && styles.wordInputInvalid]}>
+                      <Text variant="labelSmall" color={colors.text.muted} style={styles.wordNumber}>
+                        {index + 1}
+                      </Text>
+                      <TextInput
+                        ref={(input) => {
+                          inputRefs.current[index] = input;
+                        }}
+                        style={[styles.input, isInvalid && { color: colors.status.error }]}
+                        value={word}
+                        onChangeText={(text) => handleWordChange(index, text)}
+                        onFocus={() => setFocusedIndex(index)}
+                        onBlur={() => setFocusedIndex((current) => (current === index ? null : current))}
+                        placeholder="..."
+                        placeholderTextColor={colors.text.muted}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        spellCheck={false}
+                        returnKeyType={index < words.length - 1 ? 'next' : 'done'}
+                        submitBehavior={index < words.length - 1 ? 'submit' : 'blurAndSubmit'}
+                        onSubmitEditing={() => inputRefs.current[index + 1]?.focus()}
+                      />
+                    </View>
+                  );
+                })}
+              </View>
+
+              {/* Autocomplete */}
+              {focusedIndex != null && suggestions.length > 0 && (
+                <View style={styles.suggestionRow}>
+                  {suggestions.map((suggestion) => (
+                    <TouchableOpacity
+                      key={suggestion}
+                      style={styles.suggestionChip}
+                      onPress={() => handleSuggestion(focusedIndex, suggestion)}
+                    >
+                      <Text variant="labelMedium" color={colors.gold.pure}>
+                        {suggestion}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </>
+          ) : (
+            <View style={styles.sharesSection}>
+              <Slip39ShareEntry values={shareTexts} onChangeValues={handleShareTextsChange} />
+              <Text variant="bodySmall" color={colors.text.muted} style={styles.sharesHint}>
+                {t('import.sharesCompatibility')}
+              </Text>
+            </View>
+          )}
+
+          {/* Passphrase */}
+          <TouchableOpacity
+            style={styles.passphraseToggle}
+            onPress={() => {
+              setUsePassphrase((current) => !current);
+              setError(null);
+            }}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: usePassphrase }}
+          >
+            <Ionicons
+              name={usePassphrase ? 'checkmark-circle' : 'ellipse-outline'}
+              size={20}
+              color={usePassphrase ? colors.gold.pure : colors.text.muted}
+            />
+            <Text variant="bodySmall" color={colors.text.secondary}>
+              {t('import.passphraseToggle')}
+            </Text>
+          </TouchableOpacity>
+          {usePassphrase && (
+            <View style={styles.passphraseSection}>
+              <Input
+                label={t('passphrase.label')}
+                value={passphrase}
+                onChangeText={(value) => {
+                  setPassphrase(value);
+                  setError(null);
+                }}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                spellCheck={false}
+                hint={t('passphrase.hint')}
+              />
+              <Input
+                label={t('passphrase.confirmLabel')}
+                value={passphraseConfirmation}
+                onChangeText={(value) => {
+                  setPassphraseConfirmation(value);
+                  setError(null);
+                }}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                spellCheck={false}
+              />
+            </View>
+          )}
+
           {/* Error */}
-          {error && (
+          {(error || liveIssue) && (
             <View style={styles.errorContainer}>
               <Ionicons name="alert-circle" size={20} color={colors.status.error} />
               <Text variant="bodySmall" color={colors.status.error}>
-                {error}
+                {error ?? liveIssue}
               </Text>
             </View>
           )}
 
           {/* Tip */}
-          <View style={styles.tipContainer}>
-            <Ionicons name="information-circle" size={20} color={colors.accent.cyan} />
-            <Text variant="bodySmall" color={colors.text.secondary}>
-              Tip: You can paste your entire recovery phrase and it will automatically fill in all fields
-            </Text>
-          </View>
+          {mode === 'phrase' && (
+            <View style={styles.tipContainer}>
+              <Ionicons name="information-circle" size={20} color={colors.accent.cyan} />
+              <Text variant="bodySmall" color={colors.text.secondary}>
+                {t('import.tip')}
+              </Text>
+            </View>
+          )}
         </ScrollView>
 
         {/* Actions */}
         <View style={styles.actions}>
           <Button
-            title="Import Wallet"
+            title={t('import.submit')}
             onPress={handleImport}
             variant="primary"
             size="lg"
             loading={isLoading}
-            disabled={words.some((w) => !w)}
+            disabled={
+              (mode === 'phrase' ? words.some((w) => !w) : shareSet.issue != null) || (usePassphrase && !passphrase)
+            }
           />
         </View>
       </KeyboardAvoidingView>
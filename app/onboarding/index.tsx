@@ -10,11 +10,13 @@ import { Ionicons } from '@expo/vector-icons';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Button, Text } from '@/components/ui';
 import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
 import { spacing, layout } from '@/theme';
 
 export default function OnboardingWelcome() {
   const router = useRouter();
   const colors = useColors();
+  const { t } = useTranslation();
 
   const styles = useMemo(
     () =>
@@ -118,7 +120,7 @@ export default function OnboardingWelcome() {
               Starr
             </Text>
             <Text variant="titleLarge" color={colors.gold.pure} align="center">
-              Lightning Wallet
+              {t('onboarding.tagline')}
             </Text>
           </View>
 
@@ -129,8 +131,8 @@ export default function OnboardingWelcome() {
                 <Ionicons name="flash" size={24} color={colors.gold.pure} />
               </View>
               <View style={styles.featureText}>
-                <Text variant="titleSmall" color={colors.text.primary}>Instant Payments</Text>
-                <Text variant="bodySmall" color={colors.text.secondary}>Send and receive Bitcoin in seconds</Text>
+                <Text variant="titleSmall" color={colors.text.primary}>{t('onboarding.instantTitle')}</Text>
+                <Text variant="bodySmall" color={colors.text.secondary}>{t('onboarding.instantBody')}</Text>
               </View>
             </View>
             <View style={styles.featureItem}>
@@ -138,8 +140,8 @@ export default function OnboardingWelcome() {
                 <Ionicons name="key" size={24} color={colors.gold.pure} />
               </View>
               <View style={styles.featureText}>
-                <Text variant="titleSmall" color={colors.text.primary}>Non-Custodial</Text>
-                <Text variant="bodySmall" color={colors.text.secondary}>You control your keys, your coins</Text>
+                <Text variant="titleSmall" color={colors.text.primary}>{t('onboarding.custodyTitle')}</Text>
+                <Text variant="bodySmall" color={colors.text.secondary}>{t('onboarding.custodyBody')}</Text>
               </View>
             </View>
             <View style={styles.featureItem}>
@@ -147,8 +149,8 @@ export default function OnboardingWelcome() {
                 <Ionicons name="shield-checkmark" size={24} color={colors.gold.pure} />
               </View>
               <View style={styles.featureText}>
-                <Text variant="titleSmall" color={colors.text.primary}>Biometric Security</Text>
-                <Text variant="bodySmall" color={colors.text.secondary}>Protected by native device authentication</Text>
+                <Text variant="titleSmall" color={colors.text.primary}>{t('onboarding.securityTitle')}</Text>
+                <Text variant="bodySmall" color={colors.text.secondary}>{t('onboarding.securityBody')}</Text>
               </View>
             </View>
           </View>
@@ -156,23 +158,29 @@ export default function OnboardingWelcome() {
           {/* Actions */}
           <View style={styles.actionsSection}>
             <Button
-              title="Create New Wallet"
+              title={t('onboarding.create')}
               onPress={() => router.push('/onboarding/create')}
               variant="primary"
               size="lg"
             />
             <Button
-              title="Import Existing Wallet"
+              title={t('onboarding.import')}
               onPress={() => router.push('/onboarding/import')}
               variant="secondary"
               size="lg"
             />
+            <Button
+              title={t('onboarding.restore')}
+              onPress={() => router.push('/onboarding/restore')}
+              variant="ghost"
+              size="md"
+            />
           </View>
 
           {/* Footer */}
           <View style={styles.footer}>
             <Text variant="bodySmall" color={colors.text.muted} align="center">
-              By continuing, you agree to our Terms of Service
+              {t('onboarding.terms')}
             </Text>
           </View>
         </SafeAreaView>
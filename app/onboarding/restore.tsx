@@ -0,0 +1,256 @@
+/**
+ * Restore Backup Screen
+ *
+ * Restores an encrypted backup file exported from Settings. Local data is
+ * restored first; a backup that carries the seed opens the wallet directly,
+ * otherwise the recovery phrase is entered on the import screen.
+ */
+
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, Text, Input } from '@/components/ui';
+import { BackupService } from '@/services/backup';
+import { KeychainService } from '@/services/keychain';
+import {
+  useWalletStore,
+  useContactsStore,
+  useLnurlAuthStore,
+  usePaymentLabelStore,
+  usePaymentRateStore,
+  usePaymentRequestStore,
+} from '@/stores';
+import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
+import { spacing, layout } from '@/theme';
+import type { WalletBackupData } from '@/types/wallet';
+
+// Reload every store a backup carries from the snapshots just written to disk
+const rehydrateStores = () =>
+  Promise.all([
+    useWalletStore.persist.rehydrate(),
+    useContactsStore.persist.rehydrate(),
+    useLnurlAuthStore.persist.rehydrate(),
+    usePaymentLabelStore.persist.rehydrate(),
+    usePaymentRateStore.persist.rehydrate(),
+    usePaymentRequestStore.persist.rehydrate(),
+  ]);
+
+export default function RestoreBackupScreen() {
+  const router = useRouter();
+  const colors = useColors();
+  const { t } = useTranslation();
+  const [content, setContent] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePickFile = async () => {
+    setError(null);
+    try {
+      const picked = await BackupService.pickBackupFile();
+      if (picked) setContent(picked);
+    } catch (err) {
+      console.error('[Restore] Failed to read backup file:', err);
+      setError(t('backupFile.readFailed'));
+    }
+  };
+
+  const openWallet = async (seed: NonNullable<WalletBackupData['seed']>) => {
+    const { initializeWallet, closeWallet } = useWalletStore.getState();
+    try {
+      await KeychainService.requireAuthentication();
+      await initializeWallet(seed.mnemonic, seed.passphrase);
+      await KeychainService.storeMnemonic(seed.mnemonic, seed.passphrase);
+    } catch (err) {
+      // Don't leave a wallet open whose keys were never stored
+      closeWallet().catch(() => {});
+      throw err;
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!content || !password) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await BackupService.decrypt(content, password);
+      await BackupService.restoreStores(data.stores);
+      await rehydrateStores();
+
+      if (data.seed) {
+        await openWallet(data.seed);
+        router.replace('/(tabs)');
+        return;
+      }
+      Alert.alert(t('backupFile.restoredTitle'), t('backupFile.restoredNoSeed'), [
+        { text: t('common.ok'), onPress: () => router.replace('/onboarding/import') },
+      ]);
+    } catch (err) {
+      console.error('[Restore] Failed to restore backup:', err);
+      setError(err instanceof Error ? err.message : t('backupFile.restoreFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const styles = useMemo(
+    () =>
+      StyleSheet.create({
+        container: { flex: 1, backgroundColor: colors.background.primary },
+        keyboardView: { flex: 1 },
+        scrollContent: { padding: spacing.lg, paddingBottom: spacing.xxxl, gap: spacing.md },
+        backButton: {
+          position: 'absolute',
+          left: 0,
+          top: 0,
+          width: 44,
+          height: 44,
+          borderRadius: 22,
+          backgroundColor: colors.gold.glow,
+          alignItems: 'center',
+          justifyContent: 'center',
+        },
+        iconContainer: {
+          width: 64,
+          height: 64,
+          borderRadius: 32,
+          backgroundColor: colors.gold.glow,
+          alignItems: 'center',
+          justifyContent: 'center',
+          alignSelf: 'center',
+          marginBottom: spacing.sm,
+        },
+        header: {
+          alignItems: 'center',
+          gap: spacing.sm,
+          marginBottom: spacing.lg,
+        },
+        fileRow: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          gap: spacing.sm,
+          padding: spacing.md,
+          backgroundColor: colors.background.secondary,
+          borderRadius: layout.radius.md,
+          borderWidth: 1,
+          borderColor: content ? colors.gold.pure : colors.border.subtle,
+        },
+        fileText: { flex: 1 },
+        errorContainer: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          gap: spacing.sm,
+          padding: spacing.md,
+          backgroundColor: `${colors.status.error}15`,
+          borderRadius: layout.radius.md,
+        },
+        actions: {
+          padding: spacing.lg,
+          backgroundColor: colors.background.primary,
+        },
+      }),
+    [colors, content]
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => router.back()}
+            >
+              <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
+            </TouchableOpacity>
+
+            <View style={styles.iconContainer}>
+              <Ionicons name="document-lock" size={32} color={colors.gold.pure} />
+            </View>
+            <Text variant="headlineMedium" color={colors.text.primary} align="center">
+              {t('backupFile.restoreTitle')}
+            </Text>
+            <Text variant="bodyMedium" color={colors.text.secondary} align="center">
+              {t('backupFile.restoreSubtitle')}
+            </Text>
+          </View>
+
+          {/* File */}
+          <TouchableOpacity style={styles.fileRow} onPress={handlePickFile} disabled={isLoading}>
+            <Ionicons
+              name={content ? 'checkmark-circle' : 'folder-open'}
+              size={20}
+              color={content ? colors.gold.pure : colors.text.muted}
+            />
+            <Text variant="bodyMedium" color={colors.text.primary} style={styles.fileText}>
+              {content ? t('backupFile.fileSelected') : t('backupFile.chooseFile')}
+            </Text>
+          </TouchableOpacity>
+
+          {/* Password */}
+          {content && (
+            <Input
+              label={t('backupFile.password')}
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry={!showPassword}
+              autoCapitalize="none"
+              autoCorrect={false}
+              spellCheck={false}
+              onSubmitEditing={handleRestore}
+              rightIcon={
+                <TouchableOpacity
+                  onPress={() => setShowPassword((current) => !current)}
+                  accessibilityLabel={showPassword ? t('passphrase.hide') : t('passphrase.show')}
+                >
+                  <Ionicons name={showPassword ? 'eye-off' : 'eye'} size={20} color={colors.text.muted} />
+                </TouchableOpacity>
+              }
+            />
+          )}
+
+          {error && (
+            <View style={styles.errorContainer}>
+              <Ionicons name="alert-circle" size={20} color={colors.status.error} />
+              <Text variant="bodySmall" color={colors.status.error}>
+                {error}
+              </Text>
+            </View>
+          )}
+        </ScrollView>
+
+        {/* Actions */}
+        <View style={styles.actions}>
+          <Button
+            title={isLoading ? t('backupFile.decrypting') : t('backupFile.restore')}
+            onPress={handleRestore}
+            variant="primary"
+            size="lg"
+            loading={isLoading}
+            disabled={!content || !password || isLoading}
+          />
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,333 @@
+/**
+ * Share Backup Screen
+ *
+ * Backs up a new wallet as SLIP-39 shares instead of a single recovery
+ * phrase: pick M-of-N, record each share, then enter a quorum back to prove
+ * the shares rebuild the wallet before it is saved.
+ */
+
+import React, { useState, useMemo } from 'react';
+import { View, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { Button, Text, Card } from '@/components/ui';
+import { Slip39ShareEntry } from '@/components/wallet';
+import { KeychainService } from '@/services/keychain';
+import { useWalletStore } from '@/stores/walletStore';
+import { consumeMnemonic } from '@/stores/onboardingStore';
+import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
+import { spacing, layout } from '@/theme';
+import {
+  SLIP39_MAX_SHARES,
+  collectSlip39Shares,
+  mnemonicToSlip39Shares,
+  slip39SharesToMnemonic,
+} from '@/utils/slip39';
+
+type Step = 'setup' | 'record' | 'verify';
+
+const MIN_SHARE_COUNT = 2;
+
+export default function ShareBackupScreen() {
+  const router = useRouter();
+  const colors = useColors();
+  const { t } = useTranslation();
+  const [mnemonic] = useState<string>(() => consumeMnemonic()?.join(' ') ?? '');
+  const [step, setStep] = useState<Step>('setup');
+  const [shareCount, setShareCount] = useState(3);
+  const [threshold, setThreshold] = useState(2);
+  const [shares, setShares] = useState<string[]>([]);
+  const [shareIndex, setShareIndex] = useState(0);
+  const [hasRecorded, setHasRecorded] = useState(false);
+  const [entries, setEntries] = useState<string[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleShareCountChange = (count: number) => {
+    setShareCount(count);
+    setThreshold((current) => Math.min(current, count));
+  };
+
+  const handleCreateShares = () => {
+    setIsWorking(true);
+    // Let the spinner render before the key stretching blocks the JS thread
+    setTimeout(() => {
+      try {
+        setShares(mnemonicToSlip39Shares(mnemonic, threshold, shareCount));
+        setShareIndex(0);
+        setHasRecorded(false);
+        setStep('record');
+      } catch (err) {
+        console.error('[Shares] Failed to create shares:', err);
+        setError(t('shares.createFailed'));
+      } finally {
+        setIsWorking(false);
+      }
+    }, 0);
+  };
+
+  const handleNextShare = () => {
+    if (!hasRecorded) return;
+    setHasRecorded(false);
+    if (shareIndex < shares.length - 1) {
+      setShareIndex(shareIndex + 1);
+    } else {
+      setEntries(Array(threshold).fill(''));
+      setStep('verify');
+    }
+  };
+
+  const { issue: entryIssue } = useMemo(() => collectSlip39Shares(entries), [entries]);
+
+  const handleVerify = () => {
+    setError(null);
+    setIsWorking(true);
+    setTimeout(async () => {
+      try {
+        const { shares: entered } = collectSlip39Shares(entries);
+        let rebuilt: string | null = null;
+        try {
+          rebuilt = slip39SharesToMnemonic(entered);
+        } catch (err) {
+          console.warn('[Shares] Shares did not combine:', err);
+        }
+        if (rebuilt !== mnemonic) {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+          setError(t('shares.verifyFailed'));
+          return;
+        }
+        await KeychainService.storeMnemonic(mnemonic);
+        await useWalletStore.getState().initializeWallet(mnemonic);
+        useWalletStore.getState().updateSettings({ lastBackupCheckAt: Date.now() });
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        router.replace('/(tabs)');
+      } catch (err) {
+        console.error('[Shares] Failed to save wallet:', err);
+        setError(err instanceof Error ? err.message : t('backup.saveFailed'));
+      } finally {
+        setIsWorking(false);
+      }
+    }, 0);
+  };
+
+  const styles = useMemo(
+    () =>
+      StyleSheet.create({
+        container: { flex: 1, backgroundColor: colors.background.primary },
+        scrollContent: { padding: spacing.lg, paddingBottom: spacing.xxxl, gap: spacing.md },
+        header: { alignItems: 'center', gap: spacing.sm, marginBottom: spacing.md },
+        iconContainer: {
+          width: 64,
+          height: 64,
+          borderRadius: 32,
+          backgroundColor: colors.gold.glow,
+          alignItems: 'center',
+          justifyContent: 'center',
+          marginBottom: spacing.sm,
+        },
+        stepperRow: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: spacing.md,
+          backgroundColor: colors.background.secondary,
+          borderRadius: layout.radius.md,
+        },
+        stepper: { flexDirection: 'row', alignItems: 'center', gap: spacing.md },
+        stepperValue: { minWidth: 24 },
+        card: { padding: spacing.md, gap: spacing.xs },
+        warningCard: {
+          flexDirection: 'row',
+          alignItems: 'flex-start',
+          gap: spacing.sm,
+          padding: spacing.md,
+          borderColor: colors.status.warning,
+        },
+        warningText: { flex: 1 },
+        shareGrid: {
+          flexDirection: 'row',
+          flexWrap: 'wrap',
+          gap: spacing.sm,
+          padding: spacing.md,
+          backgroundColor: colors.background.secondary,
+          borderRadius: layout.radius.lg,
+        },
+        wordItem: {
+          width: '30%',
+          flexDirection: 'row',
+          alignItems: 'center',
+          gap: spacing.xs,
+          padding: spacing.sm,
+          backgroundColor: colors.background.tertiary,
+          borderRadius: layout.radius.sm,
+        },
+        checkItem: {
+          flexDirection: 'row',
+          alignItems: 'flex-start',
+          gap: spacing.sm,
+          backgroundColor: colors.background.secondary,
+          borderRadius: layout.radius.md,
+          padding: spacing.md,
+        },
+        checkItemText: { flex: 1 },
+        actions: {
+          padding: spacing.lg,
+          gap: spacing.md,
+          backgroundColor: colors.background.primary,
+        },
+      }),
+    [colors]
+  );
+
+  const renderStepper = (label: string, value: number, min: number, max: number, onChange: (value: number) => void) => (
+    <View style={styles.stepperRow}>
+      <Text variant="titleSmall" color={colors.text.primary}>
+        {label}
+      </Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity onPress={() => onChange(value - 1)} disabled={value <= min}>
+          <Ionicons name="remove-circle" size={28} color={value <= min ? colors.text.muted : colors.gold.pure} />
+        </TouchableOpacity>
+        <Text variant="titleMedium" color={colors.text.primary} align="center" style={styles.stepperValue}>
+          {value}
+        </Text>
+        <TouchableOpacity onPress={() => onChange(value + 1)} disabled={value >= max}>
+          <Ionicons name="add-circle" size={28} color={value >= max ? colors.text.muted : colors.gold.pure} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const shareWords = shares[shareIndex]?.split(' ') ?? [];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <View style={styles.iconContainer}>
+            <Ionicons name="people" size={32} color={colors.gold.pure} />
+          </View>
+          <Text variant="headlineMedium" color={colors.text.primary} align="center">
+            {step === 'record'
+              ? t('shares.recordTitle', { index: shareIndex + 1, count: shares.length })
+              : step === 'verify'
+                ? t('shares.verifyTitle')
+                : t('shares.title')}
+          </Text>
+          <Text variant="bodyMedium" color={colors.text.secondary} align="center">
+            {step === 'record'
+              ? t('shares.recordSubtitle', { threshold, count: shares.length })
+              : step === 'verify'
+                ? t('shares.verifySubtitle', { count: threshold })
+                : t('shares.subtitle')}
+          </Text>
+        </View>
+
+        {step === 'setup' && (
+          <>
+            {renderStepper(t('shares.shareCount'), shareCount, MIN_SHARE_COUNT, SLIP39_MAX_SHARES, handleShareCountChange)}
+            {renderStepper(t('shares.threshold'), threshold, MIN_SHARE_COUNT, shareCount, setThreshold)}
+            <Card variant="outlined" style={styles.card}>
+              <Text variant="bodySmall" color={colors.text.secondary}>
+                {t('shares.setupHint', { threshold, count: shareCount })}
+              </Text>
+            </Card>
+            <Card variant="outlined" style={styles.warningCard}>
+              <Ionicons name="warning" size={20} color={colors.status.warning} />
+              <Text variant="bodySmall" color={colors.text.secondary} style={styles.warningText}>
+                {t('shares.compatibility')}
+              </Text>
+            </Card>
+          </>
+        )}
+
+        {step === 'record' && (
+          <>
+            <View style={styles.shareGrid}>
+              {shareWords.map((word, index) => (
+                <View key={index} style={styles.wordItem}>
+                  <Text variant="labelSmall" color={colors.text.muted}>
+                    {index + 1}
+                  </Text>
+                  <Text variant="titleSmall" color={colors.text.primary}>
+                    {word}
+                  </Text>
+                </View>
+              ))}
+            </View>
+            <TouchableOpacity
+              style={styles.checkItem}
+              onPress={() => setHasRecorded((current) => !current)}
+              accessibilityRole="checkbox"
+              accessibilityState={{ checked: hasRecorded }}
+            >
+              <Ionicons
+                name={hasRecorded ? 'checkmark-circle' : 'ellipse-outline'}
+                size={20}
+                color={hasRecorded ? colors.status.success : colors.text.muted}
+              />
+              <Text variant="bodySmall" color={colors.text.secondary} style={styles.checkItemText}>
+                {t('shares.recorded', { index: shareIndex + 1 })}
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {step === 'verify' && <Slip39ShareEntry values={entries} onChangeValues={setEntries} />}
+
+        {error && (
+          <Text variant="bodySmall" color={colors.status.error}>
+            {error}
+          </Text>
+        )}
+      </ScrollView>
+
+      {/* Actions */}
+      <View style={styles.actions}>
+        {isWorking ? (
+          <ActivityIndicator size="large" color={colors.gold.pure} />
+        ) : step === 'setup' ? (
+          <Button
+            title={t('shares.create')}
+            onPress={handleCreateShares}
+            variant="primary"
+            size="lg"
+            disabled={!mnemonic}
+          />
+        ) : step === 'record' ? (
+          <Button
+            title={shareIndex < shares.length - 1 ? t('shares.next') : t('shares.toVerify')}
+            onPress={handleNextShare}
+            variant="primary"
+            size="lg"
+            disabled={!hasRecorded}
+          />
+        ) : (
+          <Button
+            title={t('backup.verify')}
+            onPress={handleVerify}
+            variant="primary"
+            size="lg"
+            disabled={entryIssue != null}
+          />
+        )}
+        {step === 'setup' && (
+          <Button
+            title={t('common.goBack')}
+            onPress={() => router.back()}
+            variant="ghost"
+            size="md"
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
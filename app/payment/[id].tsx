@@ -2,40 +2,65 @@
  * Payment Detail Screen
  *
  * Shows a single payment (getPayment by id). Opened from History when tapping a transaction.
+ * Note, category and counterparty are edited here and stored locally.
  */
 
 import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   StyleSheet,
-  ScrollView,
   ActivityIndicator,
+  TouchableOpacity,
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { KeyboardAwareScrollView } from 'react-native-keyboard-controller';
 import { Ionicons } from '@expo/vector-icons';
-import { format } from 'date-fns';
-import { Button, Text, Card, FiatAmount } from '@/components/ui';
+import { Button, Text, Card, Input, FiatAmount } from '@/components/ui';
 import { useWalletStore } from '@/stores/walletStore';
+import { usePaymentRequestStore } from '@/stores/paymentRequestStore';
+import { usePaymentLabelStore, PAYMENT_CATEGORIES, PAYMENT_CATEGORY_LABELS } from '@/stores/paymentLabelStore';
+import { usePaymentRateStore, getPaymentRate } from '@/stores/paymentRateStore';
 import { useColors } from '@/contexts';
-import { spacing } from '@/theme';
-import { formatSignedAmountStr, formatAmountStr } from '@/utils/format';
-import type { LightningPayment } from '@/types/wallet';
+import { spacing, layout } from '@/theme';
+import { usePrimaryAmount, useTranslation } from '@/hooks';
+import { formatAmountStr, formatTokenAmount, formatFiat } from '@/utils/format';
+import { formatDate } from '@/utils/locale';
+import type { MessageKey } from '@/i18n';
+import type { LightningPayment, PaymentLabelInput, TransactionStatus } from '@/types/wallet';
+
+const STATUS_LABELS: Record<TransactionStatus, MessageKey> = {
+  pending: 'payment.status.pending',
+  completed: 'payment.status.completed',
+  failed: 'payment.status.failed',
+};
 
 export default function PaymentDetailScreen() {
   const router = useRouter();
   const params = useLocalSearchParams<{ id: string }>();
   const colors = useColors();
+  const { t } = useTranslation();
   const getPayment = useWalletStore((s) => s.getPayment);
   const bitcoinUnit = useWalletStore((s) => s.settings.bitcoinUnit);
+  const fiatCurrency = useWalletStore((s) => s.settings.fiatCurrency);
+  const btcFiatPrice = useWalletStore((s) => s.btcFiatPrice);
+  const isFiatPriceStale = useWalletStore((s) => s.isFiatPriceStale);
+  const primaryAmount = usePrimaryAmount();
+  const rateThen = usePaymentRateStore((s) => (params.id ? getPaymentRate(s.rates, params.id, fiatCurrency) : undefined));
+  const ensureRates = usePaymentRateStore((s) => s.ensureRates);
+  const paidRequest = usePaymentRequestStore((s) => s.requests.find((r) => r.paymentId === params.id));
+  const label = usePaymentLabelStore((s) => (params.id ? s.labels[params.id] : undefined));
+  const setLabel = usePaymentLabelStore((s) => s.setLabel);
   const [payment, setPayment] = useState<LightningPayment | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isEditingLabel, setIsEditingLabel] = useState(false);
+  const [labelForm, setLabelForm] = useState<PaymentLabelInput>({});
 
   useEffect(() => {
     const id = params.id;
     if (!id) {
-      setError('Missing payment id');
+      setError(t('payment.missingId'));
       setLoading(false);
       return;
     }
@@ -46,13 +71,13 @@ export default function PaymentDetailScreen() {
       .then((p) => {
         if (!cancelled) {
           setPayment(p ?? null);
-          if (!p) setError('Payment not found');
+          if (!p) setError(t('payment.notFound'));
         }
       })
       .catch((err) => {
         console.error('[Payment] Failed to load payment:', err);
         if (!cancelled) {
-          setError(err instanceof Error ? err.message : 'Failed to load payment');
+          setError(err instanceof Error ? err.message : t('payment.loadFailed'));
         }
       })
       .finally(() => {
@@ -61,7 +86,29 @@ export default function PaymentDetailScreen() {
     return () => {
       cancelled = true;
     };
-  }, [params.id, getPayment]);
+  }, [params.id, getPayment, t]);
+
+  // Backfill the value at the time for payments made before rates were captured
+  useEffect(() => {
+    if (payment && !payment.token && !rateThen) {
+      ensureRates([payment], fiatCurrency);
+    }
+  }, [payment, rateThen, ensureRates, fiatCurrency]);
+
+  const handleEditLabel = () => {
+    setLabelForm({
+      note: label?.note,
+      category: label?.category,
+      counterparty: label?.counterparty,
+    });
+    setIsEditingLabel(true);
+  };
+
+  const handleSaveLabel = () => {
+    if (!params.id) return;
+    setLabel(params.id, labelForm);
+    setIsEditingLabel(false);
+  };
 
   const styles = useMemo(
     () =>
@@ -91,6 +138,13 @@ export default function PaymentDetailScreen() {
         row: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
         label: { marginBottom: spacing.xxs },
         mono: { fontFamily: 'monospace', fontSize: 12 },
+        chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: spacing.xs },
+        chip: {
+          paddingHorizontal: spacing.sm,
+          paddingVertical: spacing.xs,
+          borderRadius: layout.radius.full,
+          borderWidth: 1,
+        },
       }),
     [colors]
   );
@@ -101,7 +155,7 @@ export default function PaymentDetailScreen() {
         <SafeAreaView style={[styles.safeArea, styles.center]}>
           <ActivityIndicator size="large" color={colors.gold.pure} />
           <Text variant="bodyMedium" color={colors.text.secondary}>
-            Loading payment...
+            {t('payment.loading')}
           </Text>
         </SafeAreaView>
       </View>
@@ -113,18 +167,18 @@ export default function PaymentDetailScreen() {
       <View style={styles.container}>
         <SafeAreaView style={styles.safeArea}>
           <View style={styles.header}>
-            <Button title="Back" variant="ghost" size="sm" onPress={() => router.back()} />
+            <Button title={t('common.back')} variant="ghost" size="sm" onPress={() => router.back()} />
             <Text variant="titleLarge" color={colors.text.primary}>
-              Payment
+              {t('payment.title')}
             </Text>
             <View style={{ width: 60 }} />
           </View>
           <View style={styles.center}>
             <Ionicons name="alert-circle" size={48} color={colors.status.error} />
             <Text variant="bodyMedium" color={colors.text.secondary}>
-              {error ?? 'Payment not found'}
+              {error ?? t('payment.notFound')}
             </Text>
-            <Button title="Back to History" variant="secondary" onPress={() => router.back()} />
+            <Button title={t('payment.backToHistory')} variant="secondary" onPress={() => router.back()} />
           </View>
         </SafeAreaView>
       </View>
@@ -140,24 +194,28 @@ export default function PaymentDetailScreen() {
         : isReceive
           ? colors.status.success
           : colors.text.primary;
-  const formattedAmount = formatSignedAmountStr(payment.amountSats, isReceive ? '+' : '-', bitcoinUnit);
+  const formattedAmount = payment.token
+    ? `${isReceive ? '+' : '-'}${formatTokenAmount(payment.token.amount, payment.token.decimals, payment.token.ticker)}`
+    : primaryAmount.formatStr(payment.amountSats, isReceive ? '+' : '-');
   const formattedFee = payment.feeSats != null ? formatAmountStr(payment.feeSats, bitcoinUnit) : null;
 
   return (
     <View style={styles.container}>
       <SafeAreaView style={styles.safeArea}>
         <View style={styles.header}>
-          <Button title="Back" variant="ghost" size="sm" onPress={() => router.back()} />
+          <Button title={t('common.back')} variant="ghost" size="sm" onPress={() => router.back()} />
           <Text variant="titleLarge" color={colors.text.primary}>
-            Payment details
+            {t('payment.detailsTitle')}
           </Text>
           <View style={{ width: 60 }} />
         </View>
 
-        <ScrollView
+        <KeyboardAwareScrollView
           style={styles.scroll}
           contentContainerStyle={styles.scrollContent}
           showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+          bottomOffset={20}
         >
           {/* Amount card */}
           <Card variant="default" style={styles.card}>
@@ -171,16 +229,27 @@ export default function PaymentDetailScreen() {
             <Text variant="headlineMedium" color={colors.text.primary}>
               {formattedAmount}
             </Text>
-            <FiatAmount sats={payment.amountSats} style={{ textAlign: 'center' }} />
+            {/* With fiat primary this line carries the bitcoin amount */}
+            {!payment.token && (primaryAmount.isFiatPrimary || !rateThen) && (
+              <FiatAmount sats={payment.amountSats} style={{ textAlign: 'center' }} />
+            )}
+            {!payment.token && rateThen && (
+              <Text variant="bodySmall" color={colors.text.muted} align="center">
+                {t('payment.valueThen', { amount: formatFiat(payment.amountSats, rateThen.btcPrice, fiatCurrency) })}
+                {btcFiatPrice != null
+                  && t('payment.valueNow', { amount: formatFiat(payment.amountSats, btcFiatPrice, fiatCurrency) })}
+                {btcFiatPrice != null && isFiatPriceStale && t('payment.staleRate')}
+              </Text>
+            )}
             <Text variant="bodyMedium" color={colors.text.secondary}>
-              {payment.description ?? (isReceive ? 'Received' : 'Sent')}
+              {payment.description ?? t(isReceive ? 'payment.received' : 'payment.sent')}
             </Text>
             <View style={[styles.row, { marginTop: spacing.sm }]}>
               <Text variant="labelMedium" color={colors.text.muted}>
-                Status
+                {t('payment.status')}
               </Text>
-              <Text variant="labelMedium" color={statusColor} style={{ textTransform: 'capitalize' }}>
-                {payment.status}
+              <Text variant="labelMedium" color={statusColor}>
+                {t(STATUS_LABELS[payment.status])}
               </Text>
             </View>
           </Card>
@@ -188,25 +257,25 @@ export default function PaymentDetailScreen() {
           {/* Details */}
           <Card variant="outlined" style={styles.card}>
             <Text variant="labelMedium" color={colors.text.muted} style={styles.label}>
-              Date
+              {t('payment.date')}
             </Text>
             <Text variant="bodyMedium" color={colors.text.primary}>
-              {format(new Date(payment.timestamp), 'PPp')}
+              {formatDate(new Date(payment.timestamp), 'PPp')}
             </Text>
             {payment.completedAt && (
               <>
                 <Text variant="labelMedium" color={colors.text.muted} style={[styles.label, { marginTop: spacing.sm }]}>
-                  Completed
+                  {t('payment.completed')}
                 </Text>
                 <Text variant="bodyMedium" color={colors.text.primary}>
-                  {format(new Date(payment.completedAt), 'PPp')}
+                  {formatDate(new Date(payment.completedAt), 'PPp')}
                 </Text>
               </>
             )}
             {payment.feeSats != null && payment.feeSats > 0n && (
               <>
                 <Text variant="labelMedium" color={colors.text.muted} style={[styles.label, { marginTop: spacing.sm }]}>
-                  Fee
+                  {t('payment.fee')}
                 </Text>
                 <Text variant="bodyMedium" color={colors.text.primary}>
                   {formattedFee}
@@ -214,8 +283,33 @@ export default function PaymentDetailScreen() {
                 <FiatAmount sats={payment.feeSats!} />
               </>
             )}
+            {payment.token && (
+              <>
+                <Text variant="labelMedium" color={colors.text.muted} style={[styles.label, { marginTop: spacing.sm }]}>
+                  {t('payment.token')}
+                </Text>
+                <Text variant="bodyMedium" color={colors.text.primary}>
+                  {payment.token.name} ({payment.token.ticker})
+                </Text>
+                <Text variant="bodySmall" color={colors.text.secondary} style={styles.mono} numberOfLines={1}>
+                  {payment.token.identifier}
+                </Text>
+              </>
+            )}
+            {paidRequest && (
+              <>
+                <Text variant="labelMedium" color={colors.text.muted} style={[styles.label, { marginTop: spacing.sm }]}>
+                  {t('payment.paidRequest')}
+                </Text>
+                <TouchableOpacity onPress={() => router.push(`/request/${paidRequest.paymentHash}`)}>
+                  <Text variant="bodyMedium" color={colors.gold.pure}>
+                    {paidRequest.memo || t('requests.untitled')} · {formatDate(new Date(paidRequest.createdAt), 'PP')}
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
             <Text variant="labelMedium" color={colors.text.muted} style={[styles.label, { marginTop: spacing.sm }]}>
-              Payment hash
+              {t('payment.hash')}
             </Text>
             <Text variant="bodySmall" color={colors.text.secondary} style={styles.mono} numberOfLines={1}>
               {payment.paymentHash || '—'}
@@ -223,7 +317,7 @@ export default function PaymentDetailScreen() {
             {payment.invoice && (
               <>
                 <Text variant="labelMedium" color={colors.text.muted} style={[styles.label, { marginTop: spacing.sm }]}>
-                  Invoice
+                  {t('payment.invoice')}
                 </Text>
                 <Text variant="bodySmall" color={colors.text.secondary} style={styles.mono} numberOfLines={2}>
                   {payment.invoice}
@@ -231,7 +325,86 @@ export default function PaymentDetailScreen() {
               </>
             )}
           </Card>
-        </ScrollView>
+
+          {/* Labels */}
+          <Card variant="outlined" style={styles.card}>
+            <View style={styles.row}>
+              <Text variant="labelMedium" color={colors.text.muted}>
+                {t('payment.labels')}
+              </Text>
+              <TouchableOpacity onPress={isEditingLabel ? handleSaveLabel : handleEditLabel}>
+                <Text variant="labelMedium" color={colors.gold.pure}>
+                  {t(isEditingLabel ? 'common.save' : label ? 'common.edit' : 'common.add')}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            {isEditingLabel ? (
+              <>
+                <Input
+                  label={t(isReceive ? 'payment.from' : 'payment.to')}
+                  placeholder={t('payment.counterpartyPlaceholder')}
+                  value={labelForm.counterparty ?? ''}
+                  onChangeText={(counterparty) => setLabelForm((f) => ({ ...f, counterparty }))}
+                />
+                <Text variant="labelMedium" color={colors.text.muted}>
+                  {t('payment.category')}
+                </Text>
+                <View style={styles.chipRow}>
+                  {PAYMENT_CATEGORIES.map((category) => {
+                    const active = labelForm.category === category;
+                    return (
+                      <TouchableOpacity
+                        key={category}
+                        style={[
+                          styles.chip,
+                          {
+                            backgroundColor: active ? colors.gold.glow : colors.background.secondary,
+                            borderColor: active ? colors.gold.pure : colors.border.subtle,
+                          },
+                        ]}
+                        onPress={() => setLabelForm((f) => ({ ...f, category: active ? undefined : category }))}
+                      >
+                        <Text variant="labelMedium" color={active ? colors.gold.pure : colors.text.secondary}>
+                          {t(PAYMENT_CATEGORY_LABELS[category])}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                <Input
+                  label={t('payment.note')}
+                  placeholder={t('payment.notePlaceholder')}
+                  value={labelForm.note ?? ''}
+                  onChangeText={(note) => setLabelForm((f) => ({ ...f, note }))}
+                  multiline
+                  numberOfLines={3}
+                />
+              </>
+            ) : label ? (
+              <>
+                {label.counterparty ? (
+                  <Text variant="bodyMedium" color={colors.text.primary}>
+                    {t(isReceive ? 'payment.fromParty' : 'payment.toParty', { name: label.counterparty })}
+                  </Text>
+                ) : null}
+                {label.category && (
+                  <Text variant="bodyMedium" color={colors.text.secondary}>
+                    {t(PAYMENT_CATEGORY_LABELS[label.category])}
+                  </Text>
+                )}
+                {label.note && (
+                  <Text variant="bodyMedium" color={colors.text.primary}>
+                    {label.note}
+                  </Text>
+                )}
+              </>
+            ) : (
+              <Text variant="bodySmall" color={colors.text.muted}>
+                {t('payment.labelsHint')}
+              </Text>
+            )}
+          </Card>
+        </KeyboardAwareScrollView>
       </SafeAreaView>
     </View>
   );
@@ -1,7 +1,8 @@
 /**
  * Receive Payment Screen
  *
- * Create Lightning invoices and claim unclaimed on-chain deposits.
+ * Create Lightning invoices, a unified BIP21 request (Lightning + Spark +
+ * on-chain in one QR), and claim unclaimed on-chain deposits.
  */
 
 import React, { useState, useMemo, useCallback, useEffect } from 'react';
@@ -21,25 +22,46 @@ import * as Clipboard from 'expo-clipboard';
 import { Button, Text, Input, AmountInput, Card, FiatAmount } from '@/components/ui';
 import { QRDisplay } from '@/components/wallet';
 import { useWalletStore } from '@/stores/walletStore';
+import {
+  usePaymentRequestStore,
+  matchesUnifiedRequest,
+  maxDepositClaimFeeSats,
+} from '@/stores/paymentRequestStore';
+import { BreezService } from '@/services/breez';
+import { useTranslation } from '@/hooks';
+import type { MessageKey, Translate } from '@/i18n';
 import { useColors } from '@/contexts';
 import { spacing, layout } from '@/theme';
 import { formatAmountStr, formatSats } from '@/utils/format';
-import type { Invoice, UnclaimedDeposit } from '@/types/wallet';
+import type {
+  Invoice,
+  LightningPayment,
+  PaymentRoute,
+  UnclaimedDeposit,
+  UnifiedReceiveRequest,
+} from '@/types/wallet';
+
+type ReceiveMode = 'unified' | 'lightning' | 'onchain' | 'spark';
 
-type ReceiveMode = 'lightning' | 'onchain' | 'spark';
+const ROUTE_LABELS: Record<PaymentRoute, MessageKey> = {
+  lightning: 'receive.route.lightning',
+  spark: 'receive.route.spark',
+  onchain: 'receive.route.onchain',
+};
 
-function expiryCopy(expiresAt: Date): string {
+function expiryCopy(expiresAt: Date, t: Translate): string {
   const ms = expiresAt.getTime() - Date.now();
-  if (ms <= 0) return 'Expired';
-  const minutes = Math.ceil(ms / 60000);
-  return minutes === 1 ? 'Expires in 1 minute' : `Expires in ${minutes} minutes`;
+  if (ms <= 0) return t('receive.expired');
+  return t('receive.expiresIn', { count: Math.ceil(ms / 60000) });
 }
 
 export default function ReceiveScreen() {
   const router = useRouter();
   const colors = useColors();
+  const { t } = useTranslation();
   const {
     createInvoice,
+    createUnifiedRequest,
     isCreatingInvoice,
     getOnchainReceiveAddress,
     getSparkReceiveAddress,
@@ -50,6 +72,11 @@ export default function ReceiveScreen() {
     claimDeposit,
   } = useWalletStore();
   const [receiveMode, setReceiveMode] = useState<ReceiveMode>('lightning');
+  const [unifiedRequest, setUnifiedRequest] = useState<UnifiedReceiveRequest | null>(null);
+  const [unifiedPayment, setUnifiedPayment] = useState<LightningPayment | null>(null);
+  const unifiedRecord = usePaymentRequestStore((s) =>
+    unifiedRequest ? s.requests.find((r) => r.paymentHash === unifiedRequest.invoice.paymentHash) : undefined
+  );
   const [amount, setAmount] = useState('');
   const [description, setDescription] = useState('');
   const [invoice, setInvoice] = useState<Invoice | null>(null);
@@ -69,12 +96,12 @@ export default function ReceiveScreen() {
       const addr = await getOnchainReceiveAddress();
       setOnchainAddress(addr);
     } catch (err) {
-      setOnchainError(err instanceof Error ? err.message : 'Failed to get address');
+      setOnchainError(err instanceof Error ? err.message : t('receive.addressFailed'));
       setOnchainAddress(null);
     } finally {
       setIsLoadingOnchain(false);
     }
-  }, [getOnchainReceiveAddress]);
+  }, [getOnchainReceiveAddress, t]);
 
   const fetchSparkAddress = useCallback(async () => {
     setIsLoadingSpark(true);
@@ -83,12 +110,12 @@ export default function ReceiveScreen() {
       const addr = await getSparkReceiveAddress();
       setSparkAddress(addr);
     } catch (err) {
-      setSparkError(err instanceof Error ? err.message : 'Failed to get Spark address');
+      setSparkError(err instanceof Error ? err.message : t('receive.sparkAddressFailed'));
       setSparkAddress(null);
     } finally {
       setIsLoadingSpark(false);
     }
-  }, [getSparkReceiveAddress]);
+  }, [getSparkReceiveAddress, t]);
 
   useEffect(() => {
     if (receiveMode === 'onchain') {
@@ -108,19 +135,49 @@ export default function ReceiveScreen() {
     }
   }, [receiveMode, fetchSparkAddress]);
 
+  const unifiedPaid = !!unifiedRecord?.paymentId;
+  const unifiedRoute = unifiedPaid ? unifiedRecord?.route : unifiedPayment?.route;
+
+  // The payment request store credits the request; this only shows a receipt
+  // that is still on its way
+  useEffect(() => {
+    if (!unifiedRecord || unifiedRecord.paymentId) return;
+    const claimFeeCap = maxDepositClaimFeeSats(settings.maxDepositClaimFee);
+    const listener = (payment: LightningPayment) => {
+      if (
+        payment.status === 'pending'
+        && (payment.paymentHash === unifiedRecord.paymentHash
+          || matchesUnifiedRequest(unifiedRecord, payment, claimFeeCap))
+      ) {
+        setUnifiedPayment(payment);
+      }
+    };
+    BreezService.on('payment', listener);
+    return () => {
+      BreezService.off('payment', listener);
+    };
+  }, [unifiedRecord, settings.maxDepositClaimFee]);
+
+  const handleCopyUnifiedUri = useCallback(async () => {
+    if (!unifiedRequest) return;
+    await Clipboard.setStringAsync(unifiedRequest.uri);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    Alert.alert(t('common.copied'), t('receive.requestCopied'));
+  }, [unifiedRequest, t]);
+
   const handleCopyOnchainAddress = useCallback(async () => {
     if (!onchainAddress) return;
     await Clipboard.setStringAsync(onchainAddress);
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-    Alert.alert('Copied', 'Address copied to clipboard.');
-  }, [onchainAddress]);
+    Alert.alert(t('common.copied'), t('receive.addressCopied'));
+  }, [onchainAddress, t]);
 
   const handleCopySparkAddress = useCallback(async () => {
     if (!sparkAddress) return;
     await Clipboard.setStringAsync(sparkAddress);
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-    Alert.alert('Copied', 'Spark address copied to clipboard.');
-  }, [sparkAddress]);
+    Alert.alert(t('common.copied'), t('receive.sparkAddressCopied'));
+  }, [sparkAddress, t]);
 
   useFocusEffect(
     useCallback(() => {
@@ -132,29 +189,28 @@ export default function ReceiveScreen() {
     (d: UnclaimedDeposit) => {
       const fee = d.requiredFeeSats;
       const formattedAmount = formatAmountStr(d.amountSats, settings.bitcoinUnit);
-      const formattedFee = fee != null ? formatAmountStr(fee, settings.bitcoinUnit) : null;
       const message = fee != null
-        ? `Amount: ${formattedAmount}\nFee: ${formattedFee}`
-        : `Amount: ${formattedAmount}`;
+        ? t('receive.claimAmountFee', { amount: formattedAmount, fee: formatAmountStr(fee, settings.bitcoinUnit) })
+        : t('receive.claimAmount', { amount: formattedAmount });
       Alert.alert(
-        'Claim deposit',
+        t('receive.claimTitle'),
         message,
         [
-          { text: 'Cancel', style: 'cancel' },
+          { text: t('common.cancel'), style: 'cancel' },
           {
-            text: 'Claim',
+            text: t('receive.claim'),
             onPress: async () => {
               setClaimingTxid(d.txid);
               try {
                 await claimDeposit(d.txid, d.vout, fee);
                 Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-                Alert.alert('Deposit claimed', 'The funds have been added to your balance.');
+                Alert.alert(t('receive.claimed'), t('receive.claimedMessage'));
               } catch (err) {
                 console.error('[Receive] Claim deposit failed:', err);
                 Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
                 Alert.alert(
-                  'Claim failed',
-                  err instanceof Error ? err.message : 'Could not claim deposit. Try again later.'
+                  t('receive.claimFailed'),
+                  err instanceof Error ? err.message : t('receive.claimFailedMessage')
                 );
               } finally {
                 setClaimingTxid(null);
@@ -164,12 +220,46 @@ export default function ReceiveScreen() {
         ]
       );
     },
-    [claimDeposit, settings.bitcoinUnit]
+    [claimDeposit, settings.bitcoinUnit, t]
   );
 
+  const parseAmount = (): bigint | null => {
+    if (!amount.trim()) return null;
+    try {
+      const amountSats = BigInt(amount);
+      return amountSats > 0n ? amountSats : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const handleCreateUnifiedRequest = async () => {
+    const amountSats = parseAmount();
+    if (amountSats == null) {
+      setError(t('receive.invalidAmount'));
+      return;
+    }
+    setError(null);
+    try {
+      const request = await createUnifiedRequest(amountSats, description || undefined);
+      setUnifiedPayment(null);
+      setUnifiedRequest(request);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('receive.requestFailed'));
+    }
+  };
+
+  const handleNewUnifiedRequest = () => {
+    setUnifiedRequest(null);
+    setUnifiedPayment(null);
+    setAmount('');
+    setDescription('');
+  };
+
   const handleCreateInvoice = async () => {
     if (!amount.trim()) {
-      setError('Please enter a valid amount');
+      setError(t('receive.invalidAmount'));
       return;
     }
 
@@ -177,12 +267,12 @@ export default function ReceiveScreen() {
     try {
       amountSats = BigInt(amount);
     } catch {
-      setError('Please enter a valid amount');
+      setError(t('receive.invalidAmount'));
       return;
     }
 
     if (amountSats <= 0n) {
-      setError('Please enter a valid amount');
+      setError(t('receive.invalidAmount'));
       return;
     }
 
@@ -192,7 +282,7 @@ export default function ReceiveScreen() {
       setInvoice(newInvoice);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to create invoice');
+      setError(err instanceof Error ? err.message : t('receive.invoiceFailed'));
     }
   };
 
@@ -272,13 +362,13 @@ export default function ReceiveScreen() {
           paddingVertical: spacing.sm,
           gap: spacing.xs,
           width: '100%',
-          maxWidth: 320,
+          maxWidth: 400,
           alignSelf: 'center',
         },
         segmentButton: {
           flex: 1,
           paddingVertical: spacing.sm,
-          paddingHorizontal: spacing.md,
+          paddingHorizontal: spacing.xs,
           borderRadius: layout.radius.md,
           alignItems: 'center',
           justifyContent: 'center',
@@ -317,15 +407,20 @@ export default function ReceiveScreen() {
         {/* Header */}
         <View style={styles.header}>
           <Button
-            title="Close"
+            title={t('common.close')}
             variant="ghost"
             size="sm"
             onPress={() => router.back()}
           />
           <Text variant="titleLarge" color={colors.text.primary}>
-              Receive Payment
+            {t('receive.title')}
           </Text>
-          <View style={{ width: 60 }} />
+          <Button
+            title={t('receive.requests')}
+            variant="ghost"
+            size="sm"
+            onPress={() => router.push('/requests')}
+          />
         </View>
 
         <KeyboardAwareScrollView
@@ -335,8 +430,30 @@ export default function ReceiveScreen() {
           keyboardShouldPersistTaps="handled"
           bottomOffset={20}
         >
-          {/* Lightning / On-chain switch */}
+          {/* Unified / Lightning / On-chain / Spark switch */}
           <View style={styles.segmentRow}>
+            <TouchableOpacity
+              style={[
+                styles.segmentButton,
+                receiveMode === 'unified' ? styles.segmentButtonActive : styles.segmentButtonInactive,
+              ]}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                setReceiveMode('unified');
+              }}
+            >
+              <Ionicons
+                name="qr-code"
+                size={18}
+                color={receiveMode === 'unified' ? colors.gold.pure : colors.text.secondary}
+              />
+              <Text
+                variant="labelLarge"
+                color={receiveMode === 'unified' ? colors.gold.pure : colors.text.secondary}
+              >
+                {t('receive.mode.unified')}
+              </Text>
+            </TouchableOpacity>
             <TouchableOpacity
               style={[
                 styles.segmentButton,
@@ -356,7 +473,7 @@ export default function ReceiveScreen() {
                 variant="labelLarge"
                 color={receiveMode === 'lightning' ? colors.gold.pure : colors.text.secondary}
               >
-                  Lightning
+                {t('receive.mode.lightning')}
               </Text>
             </TouchableOpacity>
             <TouchableOpacity
@@ -378,7 +495,7 @@ export default function ReceiveScreen() {
                 variant="labelLarge"
                 color={receiveMode === 'onchain' ? colors.gold.pure : colors.text.secondary}
               >
-                  On-chain
+                {t('receive.mode.onchain')}
               </Text>
             </TouchableOpacity>
             <TouchableOpacity
@@ -400,22 +517,111 @@ export default function ReceiveScreen() {
                 variant="labelLarge"
                 color={receiveMode === 'spark' ? colors.gold.pure : colors.text.secondary}
               >
-                  Spark
+                {t('receive.mode.spark')}
               </Text>
             </TouchableOpacity>
           </View>
 
-          {receiveMode === 'onchain' ? (
+          {receiveMode === 'unified' ? (
+            !unifiedRequest ? (
+              /* Unified request form */
+              <>
+                <Text variant="bodyMedium" color={colors.text.secondary} align="center">
+                  {t('receive.unifiedIntro')}
+                </Text>
+
+                <AmountInput
+                  value={amount}
+                  onChangeValue={setAmount}
+                  label={t('receive.amountLabel')}
+                  error={error || undefined}
+                />
+
+                <Input
+                  label={t('receive.labelOptional')}
+                  placeholder={t('receive.purposePlaceholder')}
+                  value={description}
+                  onChangeText={setDescription}
+                />
+
+                <Button
+                  title={isCreatingInvoice ? t('receive.creating') : t('receive.createRequest')}
+                  variant="primary"
+                  size="lg"
+                  onPress={handleCreateUnifiedRequest}
+                  loading={isCreatingInvoice}
+                  disabled={!amount || isCreatingInvoice}
+                />
+              </>
+            ) : (
+              /* Unified request display */
+              <View style={styles.onchainSection}>
+                <View style={styles.amountContainer}>
+                  <Text variant="amountLarge" color={colors.gold.pure}>
+                    {formatSats(unifiedRequest.amountSats)}
+                  </Text>
+                  <Text variant="titleMedium" color={colors.text.secondary}>
+                    {t('receive.sats')}
+                  </Text>
+                </View>
+                <FiatAmount sats={unifiedRequest.amountSats} />
+
+                {unifiedPaid || unifiedPayment ? (
+                  <View style={styles.successHeader}>
+                    <View style={styles.successIcon}>
+                      <Ionicons
+                        name={unifiedPaid ? 'checkmark' : 'time'}
+                        size={32}
+                        color={unifiedPaid ? colors.status.success : colors.status.warning}
+                      />
+                    </View>
+                    <Text variant="titleLarge" color={colors.text.primary}>
+                      {t(unifiedPaid ? 'receive.paid' : 'receive.incoming')}
+                    </Text>
+                    {unifiedRoute ? (
+                      <Text variant="bodySmall" color={colors.text.muted}>
+                        {t('receive.receivedVia', { route: t(ROUTE_LABELS[unifiedRoute]) })}
+                      </Text>
+                    ) : null}
+                  </View>
+                ) : (
+                  <>
+                    <QRDisplay value={unifiedRequest.uri} label={t('receive.scanAnyWallet')} />
+                    <View style={styles.expiryInfo}>
+                      <Ionicons name="time" size={16} color={colors.text.muted} />
+                      <Text variant="bodySmall" color={colors.text.muted}>
+                        {t('receive.waiting', { expiry: expiryCopy(unifiedRequest.invoice.expiresAt, t).toLowerCase() })}
+                      </Text>
+                    </View>
+                    <Button
+                      title={t('receive.copyRequest')}
+                      variant="secondary"
+                      size="md"
+                      onPress={handleCopyUnifiedUri}
+                      icon={<Ionicons name="copy-outline" size={18} color={colors.gold.pure} />}
+                    />
+                  </>
+                )}
+
+                <Button
+                  title={t('receive.newRequest')}
+                  variant="secondary"
+                  size="md"
+                  onPress={handleNewUnifiedRequest}
+                />
+              </View>
+            )
+          ) : receiveMode === 'onchain' ? (
           /* On-chain address */
             <View style={styles.onchainSection}>
               <Text variant="bodyMedium" color={colors.text.secondary} align="center">
-                  Receive Bitcoin to your on-chain address. Funds may take time to confirm and will appear after confirmation.
+                {t('receive.onchainIntro')}
               </Text>
               {isLoadingOnchain ? (
                 <View style={{ padding: spacing.xl, alignItems: 'center' }}>
                   <ActivityIndicator size="large" color={colors.gold.pure} />
                   <Text variant="bodySmall" color={colors.text.muted} style={{ marginTop: spacing.sm }}>
-                      Getting address...
+                    {t('receive.gettingAddress')}
                   </Text>
                 </View>
               ) : onchainError ? (
@@ -423,18 +629,18 @@ export default function ReceiveScreen() {
                   <Text variant="bodyMedium" color={colors.status.error}>
                     {onchainError}
                   </Text>
-                  <Button title="Retry" variant="secondary" size="sm" onPress={fetchOnchainAddress} />
+                  <Button title={t('receive.retry')} variant="secondary" size="sm" onPress={fetchOnchainAddress} />
                 </View>
               ) : onchainAddress ? (
                 <>
-                  <QRDisplay value={onchainAddress} label="Scan to send Bitcoin" />
+                  <QRDisplay value={onchainAddress} label={t('receive.scanBitcoin')} />
                   <View style={styles.addressText}>
                     <Text variant="bodySmall" color={colors.text.secondary} style={{ fontFamily: 'monospace' }}>
                       {onchainAddress}
                     </Text>
                   </View>
                   <Button
-                    title="Copy address"
+                    title={t('receive.copyAddress')}
                     variant="secondary"
                     size="md"
                     onPress={handleCopyOnchainAddress}
@@ -447,13 +653,13 @@ export default function ReceiveScreen() {
           /* Spark address */
             <View style={styles.onchainSection}>
               <Text variant="bodyMedium" color={colors.text.secondary} align="center">
-                  Receive from other Spark users. Your Spark address is static and can be shared.
+                {t('receive.sparkIntro')}
               </Text>
               {isLoadingSpark ? (
                 <View style={{ padding: spacing.xl, alignItems: 'center' }}>
                   <ActivityIndicator size="large" color={colors.gold.pure} />
                   <Text variant="bodySmall" color={colors.text.muted} style={{ marginTop: spacing.sm }}>
-                      Getting Spark address...
+                    {t('receive.gettingSparkAddress')}
                   </Text>
                 </View>
               ) : sparkError ? (
@@ -461,18 +667,18 @@ export default function ReceiveScreen() {
                   <Text variant="bodyMedium" color={colors.status.error}>
                     {sparkError}
                   </Text>
-                  <Button title="Retry" variant="secondary" size="sm" onPress={fetchSparkAddress} />
+                  <Button title={t('receive.retry')} variant="secondary" size="sm" onPress={fetchSparkAddress} />
                 </View>
               ) : sparkAddress ? (
                 <>
-                  <QRDisplay value={sparkAddress} label="Scan to send via Spark" />
+                  <QRDisplay value={sparkAddress} label={t('receive.scanSpark')} />
                   <View style={styles.addressText}>
                     <Text variant="bodySmall" color={colors.text.secondary} style={{ fontFamily: 'monospace' }}>
                       {sparkAddress}
                     </Text>
                   </View>
                   <Button
-                    title="Copy Spark address"
+                    title={t('receive.copySparkAddress')}
                     variant="secondary"
                     size="md"
                     onPress={handleCopySparkAddress}
@@ -489,25 +695,25 @@ export default function ReceiveScreen() {
               </View>
 
               <Text variant="bodyMedium" color={colors.text.secondary} align="center">
-                  Create a Lightning invoice to receive Bitcoin
+                {t('receive.lightningIntro')}
               </Text>
 
               <AmountInput
                 value={amount}
                 onChangeValue={setAmount}
-                label="Amount to receive"
+                label={t('receive.amountLabel')}
                 error={error || undefined}
               />
 
               <Input
-                label="Description (optional)"
-                placeholder="What's this payment for?"
+                label={t('receive.descriptionOptional')}
+                placeholder={t('receive.purposePlaceholder')}
                 value={description}
                 onChangeText={setDescription}
               />
 
               <Button
-                title={isCreatingInvoice ? 'Creating...' : 'Create Invoice'}
+                title={isCreatingInvoice ? t('receive.creating') : t('receive.createInvoice')}
                 variant="primary"
                 size="lg"
                 onPress={handleCreateInvoice}
@@ -523,7 +729,7 @@ export default function ReceiveScreen() {
                   <Ionicons name="checkmark" size={32} color={colors.status.success} />
                 </View>
                 <Text variant="titleLarge" color={colors.text.primary}>
-                    Invoice Created
+                  {t('receive.invoiceCreated')}
                 </Text>
               </View>
 
@@ -533,27 +739,27 @@ export default function ReceiveScreen() {
                   {invoice.amountSats != null ? formatSats(invoice.amountSats) : '0'}
                 </Text>
                 <Text variant="titleMedium" color={colors.text.secondary}>
-                    sats
+                  {t('receive.sats')}
                 </Text>
               </View>
 
               {/* QR Code */}
               <QRDisplay
                 value={invoice.bolt11}
-                label="Scan to pay"
+                label={t('receive.scanToPay')}
               />
 
               {/* Expiry info */}
               <View style={styles.expiryInfo}>
                 <Ionicons name="time" size={16} color={colors.text.muted} />
                 <Text variant="bodySmall" color={colors.text.muted}>
-                  {expiryCopy(invoice.expiresAt)}
+                  {expiryCopy(invoice.expiresAt, t)}
                 </Text>
               </View>
 
               {/* Actions */}
               <Button
-                title="Create New Invoice"
+                title={t('receive.newInvoice')}
                 variant="secondary"
                 size="md"
                 onPress={handleNewInvoice}
@@ -564,7 +770,7 @@ export default function ReceiveScreen() {
           {/* Unclaimed on-chain deposits */}
           <View style={styles.unclaimedSection}>
             <Text variant="labelMedium" color={colors.text.muted}>
-                Unclaimed on-chain deposits
+              {t('receive.unclaimedTitle')}
             </Text>
             {isLoadingUnclaimed ? (
               <View style={{ padding: spacing.lg, alignItems: 'center' }}>
@@ -572,14 +778,14 @@ export default function ReceiveScreen() {
               </View>
             ) : unclaimedDeposits.length === 0 ? (
               <Text variant="bodySmall" color={colors.text.muted}>
-                  No unclaimed deposits. When you receive Bitcoin to your on-chain address and auto-claim fails (e.g. low fee), they will appear here so you can claim manually.
+                {t('receive.unclaimedEmpty')}
               </Text>
             ) : (
               unclaimedDeposits.map((d) => (
                 <Card key={`${d.txid}-${d.vout}`} variant="outlined" style={styles.unclaimedCard}>
                   <View style={styles.unclaimedRow}>
                     <Text variant="labelMedium" color={colors.text.muted}>
-                        Amount
+                      {t('receive.amount')}
                     </Text>
                     <View style={{ alignItems: 'flex-end' }}>
                       <Text variant="titleSmall" color={colors.text.primary}>
@@ -591,7 +797,7 @@ export default function ReceiveScreen() {
                   {d.requiredFeeSats != null && (
                     <View style={styles.unclaimedRow}>
                       <Text variant="labelMedium" color={colors.text.muted}>
-                          Claim fee
+                        {t('receive.claimFee')}
                       </Text>
                       <View style={{ alignItems: 'flex-end' }}>
                         <Text variant="bodyMedium" color={colors.text.secondary}>
@@ -608,7 +814,7 @@ export default function ReceiveScreen() {
                   )}
                   <View style={styles.unclaimedActions}>
                     <Button
-                      title={claimingTxid === d.txid ? 'Claiming...' : 'Claim'}
+                      title={claimingTxid === d.txid ? t('receive.claiming') : t('receive.claim')}
                       variant="primary"
                       size="sm"
                       onPress={() => handleClaimDeposit(d)}
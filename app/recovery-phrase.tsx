@@ -0,0 +1,166 @@
+/**
+ * Recovery Phrase Screen
+ *
+ * Shows the stored recovery phrase (and passphrase, if any) after device
+ * authentication. Screenshots and screen recording are blocked while open.
+ */
+
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import { View, StyleSheet, ScrollView, ActivityIndicator } from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { usePreventScreenCapture } from 'expo-screen-capture';
+import { Button, Text, Card } from '@/components/ui';
+import { KeychainService } from '@/services/keychain';
+import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
+import { spacing, layout } from '@/theme';
+
+export default function RecoveryPhraseScreen() {
+  usePreventScreenCapture();
+  const router = useRouter();
+  const colors = useColors();
+  const { t } = useTranslation();
+  const [words, setWords] = useState<string[] | null>(null);
+  const [passphrase, setPassphrase] = useState<string | undefined>();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCancel = useCallback(() => {
+    if (router.canDismiss()) {
+      router.dismiss();
+    } else if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)');
+    }
+  }, [router]);
+
+  const loadPhrase = useCallback(async () => {
+    setError(null);
+    try {
+      const mnemonic = await KeychainService.getMnemonic(t('recoveryPhrase.authPrompt'));
+      setPassphrase(await KeychainService.getPassphrase(t('recoveryPhrase.authPrompt')));
+      setWords(mnemonic.split(' '));
+    } catch (err) {
+      console.error('[RecoveryPhrase] Failed to read recovery phrase:', err);
+      setError(err instanceof Error ? err.message : t('recoveryPhrase.loadFailed'));
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadPhrase();
+  }, [loadPhrase]);
+
+  const styles = useMemo(
+    () =>
+      StyleSheet.create({
+        container: { flex: 1, backgroundColor: colors.background.primary },
+        safeArea: { flex: 1 },
+        header: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          paddingHorizontal: spacing.md,
+          paddingVertical: spacing.sm,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.border.subtle,
+        },
+        scrollContent: { padding: spacing.lg, gap: spacing.md },
+        warningCard: {
+          flexDirection: 'row',
+          alignItems: 'flex-start',
+          gap: spacing.sm,
+          padding: spacing.md,
+          borderColor: colors.status.warning,
+        },
+        warningText: { flex: 1 },
+        wordGrid: {
+          flexDirection: 'row',
+          flexWrap: 'wrap',
+          gap: spacing.sm,
+          padding: spacing.md,
+          backgroundColor: colors.background.secondary,
+          borderRadius: layout.radius.lg,
+        },
+        wordItem: {
+          width: '30%',
+          flexDirection: 'row',
+          alignItems: 'center',
+          gap: spacing.xs,
+          padding: spacing.sm,
+          backgroundColor: colors.background.tertiary,
+          borderRadius: layout.radius.sm,
+        },
+        card: { padding: spacing.md, gap: spacing.xs },
+        centered: { alignItems: 'center', gap: spacing.md, paddingVertical: spacing.xl },
+      }),
+    [colors]
+  );
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <Button title={t('common.cancel')} variant="ghost" size="sm" onPress={handleCancel} />
+          <Text variant="titleLarge" color={colors.text.primary}>
+            {t('recoveryPhrase.title')}
+          </Text>
+          <View style={{ width: 60 }} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          {error ? (
+            <View style={styles.centered}>
+              <Ionicons name="lock-closed" size={48} color={colors.text.muted} />
+              <Text variant="bodyMedium" color={colors.status.error} align="center">
+                {error}
+              </Text>
+              <Button title={t('recoveryPhrase.retry')} variant="secondary" size="md" onPress={loadPhrase} />
+            </View>
+          ) : !words ? (
+            <View style={styles.centered}>
+              <ActivityIndicator size="large" color={colors.gold.pure} />
+            </View>
+          ) : (
+            <>
+              <Card variant="outlined" style={styles.warningCard}>
+                <Ionicons name="warning" size={20} color={colors.status.warning} />
+                <Text variant="bodySmall" color={colors.text.secondary} style={styles.warningText}>
+                  {t('recoveryPhrase.warning')}
+                </Text>
+              </Card>
+
+              <View style={styles.wordGrid}>
+                {words.map((word, index) => (
+                  <View key={index} style={styles.wordItem}>
+                    <Text variant="labelSmall" color={colors.text.muted}>
+                      {index + 1}
+                    </Text>
+                    <Text variant="titleSmall" color={colors.text.primary}>
+                      {word}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+
+              {passphrase && (
+                <Card variant="outlined" style={styles.card}>
+                  <Text variant="labelMedium" color={colors.text.muted}>
+                    {t('recoveryPhrase.passphrase')}
+                  </Text>
+                  <Text variant="titleSmall" color={colors.text.primary}>
+                    {passphrase}
+                  </Text>
+                  <Text variant="bodySmall" color={colors.text.muted}>
+                    {t('recoveryPhrase.passphraseHint')}
+                  </Text>
+                </Card>
+              )}
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+}
@@ -0,0 +1,192 @@
+/**
+ * Payment Request Detail Screen
+ *
+ * Re-shows a created invoice's QR while it is open, or links to the
+ * payment that settled it.
+ */
+
+import React, { useMemo } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, Text, Card, FiatAmount } from '@/components/ui';
+import { QRDisplay } from '@/components/wallet';
+import {
+  usePaymentRequestStore,
+  getPaymentRequestStatus,
+  PAYMENT_REQUEST_STATUS_LABELS,
+} from '@/stores/paymentRequestStore';
+import { useWalletStore } from '@/stores/walletStore';
+import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
+import { spacing } from '@/theme';
+import { formatAmountStr } from '@/utils/format';
+import { formatDate } from '@/utils/locale';
+
+export default function PaymentRequestDetailScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ hash: string }>();
+  const colors = useColors();
+  const { t } = useTranslation();
+  const request = usePaymentRequestStore((s) => s.requests.find((r) => r.paymentHash === params.hash));
+  const removeRequest = usePaymentRequestStore((s) => s.removeRequest);
+  const bitcoinUnit = useWalletStore((s) => s.settings.bitcoinUnit);
+
+  const styles = useMemo(
+    () =>
+      StyleSheet.create({
+        container: { flex: 1, backgroundColor: colors.background.primary },
+        safeArea: { flex: 1 },
+        header: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          paddingHorizontal: spacing.md,
+          paddingVertical: spacing.sm,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.border.subtle,
+        },
+        scrollContent: { padding: spacing.lg, gap: spacing.lg, alignItems: 'center' },
+        center: { flex: 1, justifyContent: 'center', alignItems: 'center', gap: spacing.md },
+        card: { padding: spacing.md, gap: spacing.sm, width: '100%' },
+        label: { marginBottom: spacing.xxs },
+        mono: { fontFamily: 'monospace', fontSize: 12 },
+      }),
+    [colors]
+  );
+
+  const header = (
+    <View style={styles.header}>
+      <Button title={t('common.back')} variant="ghost" size="sm" onPress={() => router.back()} />
+      <Text variant="titleLarge" color={colors.text.primary}>
+        {t('requests.detailTitle')}
+      </Text>
+      <View style={{ width: 60 }} />
+    </View>
+  );
+
+  if (!request) {
+    return (
+      <View style={styles.container}>
+        <SafeAreaView style={styles.safeArea}>
+          {header}
+          <View style={styles.center}>
+            <Ionicons name="alert-circle" size={48} color={colors.status.error} />
+            <Text variant="bodyMedium" color={colors.text.secondary}>
+              {t('requests.notFound')}
+            </Text>
+          </View>
+        </SafeAreaView>
+      </View>
+    );
+  }
+
+  const status = getPaymentRequestStatus(request);
+  const amountSats = request.amountSats ? BigInt(request.amountSats) : undefined;
+
+  const handleRemove = () => {
+    Alert.alert(
+      t('requests.removeTitle'),
+      t('requests.removeMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('requests.remove'),
+          style: 'destructive',
+          onPress: () => {
+            removeRequest(request.paymentHash);
+            router.back();
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        {header}
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          {amountSats != null && (
+            <>
+              <Text variant="headlineMedium" color={colors.text.primary}>
+                {formatAmountStr(amountSats, bitcoinUnit)}
+              </Text>
+              <FiatAmount sats={amountSats} style={{ textAlign: 'center' }} />
+            </>
+          )}
+
+          {status === 'open' && (
+            <QRDisplay value={request.uri ?? request.bolt11} label={t('requests.scanToPay')} />
+          )}
+
+          <Card variant="outlined" style={styles.card}>
+            <Text variant="labelMedium" color={colors.text.muted} style={styles.label}>
+              {t('requests.status')}
+            </Text>
+            <Text
+              variant="bodyMedium"
+              color={status === 'paid' ? colors.status.success : status === 'expired' ? colors.text.muted : colors.status.warning}
+            >
+              {t(PAYMENT_REQUEST_STATUS_LABELS[status])}
+            </Text>
+            {request.memo ? (
+              <>
+                <Text variant="labelMedium" color={colors.text.muted} style={[styles.label, { marginTop: spacing.sm }]}>
+                  {t('requests.memo')}
+                </Text>
+                <Text variant="bodyMedium" color={colors.text.primary}>
+                  {request.memo}
+                </Text>
+              </>
+            ) : null}
+            <Text variant="labelMedium" color={colors.text.muted} style={[styles.label, { marginTop: spacing.sm }]}>
+              {t('requests.createdAt')}
+            </Text>
+            <Text variant="bodyMedium" color={colors.text.primary}>
+              {formatDate(new Date(request.createdAt), 'PPp')}
+            </Text>
+            <Text variant="labelMedium" color={colors.text.muted} style={[styles.label, { marginTop: spacing.sm }]}>
+              {t(status === 'expired' ? 'requests.status.expired' : 'requests.expires')}
+            </Text>
+            <Text variant="bodyMedium" color={colors.text.primary}>
+              {formatDate(new Date(request.expiresAt), 'PPp')}
+            </Text>
+            {request.paidAt != null && (
+              <>
+                <Text variant="labelMedium" color={colors.text.muted} style={[styles.label, { marginTop: spacing.sm }]}>
+                  {t('requests.paidAt')}
+                </Text>
+                <Text variant="bodyMedium" color={colors.text.primary}>
+                  {formatDate(new Date(request.paidAt), 'PPp')}
+                </Text>
+              </>
+            )}
+            <Text variant="labelMedium" color={colors.text.muted} style={[styles.label, { marginTop: spacing.sm }]}>
+              {t('requests.invoice')}
+            </Text>
+            <Text variant="bodySmall" color={colors.text.secondary} style={styles.mono} numberOfLines={2}>
+              {request.bolt11}
+            </Text>
+          </Card>
+
+          {request.paymentId && (
+            <Button
+              title={t('common.viewPayment')}
+              variant="secondary"
+              size="md"
+              onPress={() => router.push(`/payment/${request.paymentId}`)}
+            />
+          )}
+          <Button title={t('requests.removeFromList')} variant="ghost" size="md" onPress={handleRemove} />
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+}
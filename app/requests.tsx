@@ -0,0 +1,179 @@
+/**
+ * Payment Requests Screen
+ *
+ * Ledger of invoices created by this wallet, outstanding first.
+ * Opened from Receive; tapping a request re-shows its QR.
+ */
+
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, Text } from '@/components/ui';
+import {
+  usePaymentRequestStore,
+  getPaymentRequestStatus,
+  PAYMENT_REQUEST_STATUS_LABELS,
+} from '@/stores/paymentRequestStore';
+import { useWalletStore } from '@/stores/walletStore';
+import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
+import { spacing, layout } from '@/theme';
+import { formatAmountStr } from '@/utils/format';
+import { formatTimeAgo } from '@/utils/locale';
+import type { MessageKey } from '@/i18n';
+import type { PaymentRequestStatus } from '@/types/wallet';
+
+type RequestFilter = 'open' | 'all';
+
+const FILTER_OPTIONS: { value: RequestFilter; label: MessageKey }[] = [
+  { value: 'open', label: 'requests.outstanding' },
+  { value: 'all', label: 'history.all' },
+];
+
+export default function PaymentRequestsScreen() {
+  const router = useRouter();
+  const colors = useColors();
+  const { t } = useTranslation();
+  const requests = usePaymentRequestStore((s) => s.requests);
+  const bitcoinUnit = useWalletStore((s) => s.settings.bitcoinUnit);
+  const [filter, setFilter] = useState<RequestFilter>('open');
+
+  const visible = useMemo(() => {
+    const now = Date.now();
+    return requests
+      .map((request) => ({ request, status: getPaymentRequestStatus(request, now) }))
+      .filter(({ status }) => filter === 'all' || status === 'open');
+  }, [requests, filter]);
+
+  const statusColor = (status: PaymentRequestStatus): string => {
+    if (status === 'paid') return colors.status.success;
+    if (status === 'expired') return colors.text.muted;
+    return colors.status.warning;
+  };
+
+  const styles = useMemo(
+    () =>
+      StyleSheet.create({
+        container: { flex: 1, backgroundColor: colors.background.primary },
+        safeArea: { flex: 1 },
+        header: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          paddingHorizontal: spacing.md,
+          paddingVertical: spacing.sm,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.border.subtle,
+        },
+        filterRow: {
+          flexDirection: 'row',
+          gap: spacing.xs,
+          paddingHorizontal: spacing.lg,
+          paddingVertical: spacing.sm,
+        },
+        chip: {
+          paddingHorizontal: spacing.sm,
+          paddingVertical: spacing.xs,
+          borderRadius: layout.radius.full,
+          borderWidth: 1,
+        },
+        listContent: { padding: spacing.lg, gap: spacing.sm, flexGrow: 1 },
+        item: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          padding: spacing.md,
+          borderRadius: layout.radius.lg,
+          backgroundColor: colors.background.secondary,
+          gap: spacing.md,
+        },
+        itemDetails: { flex: 1, gap: spacing.xxs },
+        empty: { flex: 1, alignItems: 'center', justifyContent: 'center', gap: spacing.sm },
+      }),
+    [colors]
+  );
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <Button title={t('common.back')} variant="ghost" size="sm" onPress={() => router.back()} />
+          <Text variant="titleLarge" color={colors.text.primary}>
+            {t('requests.title')}
+          </Text>
+          <View style={{ width: 60 }} />
+        </View>
+
+        <View style={styles.filterRow}>
+          {FILTER_OPTIONS.map((opt) => {
+            const active = filter === opt.value;
+            return (
+              <TouchableOpacity
+                key={opt.value}
+                style={[
+                  styles.chip,
+                  {
+                    backgroundColor: active ? colors.gold.glow : colors.background.secondary,
+                    borderColor: active ? colors.gold.pure : colors.border.subtle,
+                  },
+                ]}
+                onPress={() => setFilter(opt.value)}
+              >
+                <Text variant="labelMedium" color={active ? colors.gold.pure : colors.text.secondary}>
+                  {t(opt.label)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <FlatList
+          data={visible}
+          keyExtractor={({ request }) => request.paymentHash}
+          contentContainerStyle={styles.listContent}
+          renderItem={({ item: { request, status } }) => (
+            <TouchableOpacity
+              style={styles.item}
+              onPress={() => router.push(`/request/${request.paymentHash}`)}
+              activeOpacity={0.7}
+            >
+              <Ionicons
+                name={status === 'paid' ? 'checkmark-circle' : status === 'expired' ? 'close-circle' : 'time'}
+                size={24}
+                color={statusColor(status)}
+              />
+              <View style={styles.itemDetails}>
+                <Text variant="titleSmall" color={colors.text.primary} numberOfLines={1}>
+                  {request.memo || t('requests.untitled')}
+                </Text>
+                <Text variant="bodySmall" color={colors.text.muted}>
+                  {t('requests.created', {
+                    status: t(PAYMENT_REQUEST_STATUS_LABELS[status]),
+                    time: formatTimeAgo(request.createdAt),
+                  })}
+                </Text>
+              </View>
+              <Text variant="titleSmall" color={colors.text.primary}>
+                {request.amountSats ? formatAmountStr(BigInt(request.amountSats), bitcoinUnit) : '—'}
+              </Text>
+            </TouchableOpacity>
+          )}
+          ListEmptyComponent={
+            <View style={styles.empty}>
+              <Ionicons name="receipt-outline" size={48} color={colors.text.muted} />
+              <Text variant="bodyMedium" color={colors.text.secondary} align="center">
+                {t(filter === 'open' ? 'requests.emptyOutstanding' : 'requests.empty')}
+              </Text>
+            </View>
+          }
+        />
+      </SafeAreaView>
+    </View>
+  );
+}
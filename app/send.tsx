@@ -1,17 +1,23 @@
 /**
  * Send Payment Screen
  *
- * Supports: BOLT11 invoice, Bitcoin address, Spark address/invoice,
- * LNURL-Pay, Lightning address.
+ * Supports: BOLT11 invoice, Bitcoin address,
+ * Spark address/invoice, BIP21 URI, LNURL-Pay, Lightning address. A BIP21 URI
+ * offers each embedded method as a choice, pre-selecting the cheapest. Spark invoices may request a token
+ * (Spark asset) instead of sats. LNURL-Withdraw and LNURL-Auth requests
+ * are handed off to their own screens.
  * Flow: parse input → show type & details → prepare (fees) → confirm → send.
  */
 
-import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   StyleSheet,
   Alert,
   ActivityIndicator,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -20,26 +26,90 @@ import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { Button, Text, Input, AmountInput, Card, FiatAmount } from '@/components/ui';
 import { useWalletStore } from '@/stores/walletStore';
+import {
+  useContactsStore,
+  contactInitials,
+  contactDestinations,
+  findContactByDestination,
+} from '@/stores/contactsStore';
 import { BreezService, formatSdkError } from '@/services/breez';
+import { useTranslation } from '@/hooks';
+import type { MessageKey, Translate } from '@/i18n';
 import { useColors } from '@/contexts';
-import { spacing } from '@/theme';
-import { formatAmountStr, formatSats, msatToSatCeil } from '@/utils/format';
-import type { ParsedInput, PrepareSendResult, ParsedBolt11, ParsedLnurlPay } from '@/types/wallet';
-
-const PAYMENT_TYPE_LABELS: Record<string, string> = {
-  bolt11_invoice: 'Lightning invoice',
-  bitcoin_address: 'Bitcoin address',
-  spark_address: 'Spark address',
-  spark_invoice: 'Spark invoice',
-  lnurl_pay: 'LNURL-Pay',
-  unknown: 'Unknown',
+import { layout, spacing } from '@/theme';
+import {
+  formatAmountStr,
+  formatSats,
+  formatTokenAmount,
+  tokenValueToDecimal,
+  msatToSatCeil,
+  parseTokenAmount,
+} from '@/utils/format';
+import type {
+  ParsedInput,
+  PrepareSendResult,
+  ParsedBolt11,
+  ParsedLnurlPay,
+  ParsedLnurlWithdraw,
+  ParsedBolt12Offer,
+  ParsedLnurlAuth,
+  ParsedSparkInvoice,
+  ParsedBip21,
+  ContactInput,
+  OnchainFeeSpeed,
+  OnchainFeeTier,
+} from '@/types/wallet';
+
+const PAYMENT_TYPE_LABELS: Record<string, MessageKey> = {
+  bolt11_invoice: 'send.type.bolt11_invoice',
+  bitcoin_address: 'send.type.bitcoin_address',
+  silent_payment_address: 'send.type.silent_payment_address',
+  bip21: 'send.type.bip21',
+  spark_address: 'send.type.spark_address',
+  spark_invoice: 'send.type.spark_invoice',
+  lnurl_pay: 'send.type.lnurl_pay',
+  lnurl_withdraw: 'send.type.lnurl_withdraw',
+  bolt12_offer: 'send.type.bolt12_offer',
+  lnurl_auth: 'send.type.lnurl_auth',
+  unknown: 'send.type.unknown',
+};
+
+const FEE_SPEED_LABELS: Record<OnchainFeeSpeed, MessageKey> = {
+  slow: 'send.speed.slow',
+  medium: 'send.speed.medium',
+  fast: 'send.speed.fast',
+};
+
+const parseSatsAmount = (value: string): bigint | undefined => {
+  if (value.trim().length > 0) {
+    try {
+      const sats = BigInt(value);
+      if (sats > 0n) return sats;
+    } catch {
+      // Ignore invalid bigint input.
+    }
+  }
+  return undefined;
+};
+
+// ~10 minutes per block
+const formatConfirmationTarget = (blocks: number, t: Translate): string => {
+  const minutes = blocks * 10;
+  if (minutes < 60) return t('send.targetMinutes', { count: minutes });
+  if (minutes < 24 * 60) return t('send.targetHours', { count: Math.round(minutes / 60) });
+  return t('send.targetDays', { count: Math.round(minutes / (24 * 60)) });
 };
 
 export default function SendScreen() {
   const router = useRouter();
   const params = useLocalSearchParams<{ invoice?: string }>();
   const colors = useColors();
+  const { t } = useTranslation();
+  const paymentTypeLabel = (type: string) =>
+    PAYMENT_TYPE_LABELS[type] ? t(PAYMENT_TYPE_LABELS[type]) : type;
   const { balance, sendPayment, settings } = useWalletStore();
+  const { contacts, recordPayment } = useContactsStore();
+  const [showContactPicker, setShowContactPicker] = useState(false);
   const [invoice, setInvoice] = useState('');
   const [amount, setAmount] = useState('');
   const [comment, setComment] = useState('');
@@ -47,8 +117,16 @@ export default function SendScreen() {
   const [isParsing, setIsParsing] = useState(false);
   const [prepareResult, setPrepareResult] = useState<PrepareSendResult | null>(null);
   const [showConfirm, setShowConfirm] = useState(false);
+  const [confirmationSpeed, setConfirmationSpeed] = useState<OnchainFeeSpeed>('medium');
   const [isLoading, setIsLoading] = useState(false);
+  const [isMaxLoading, setIsMaxLoading] = useState(false);
+  // Amount filled in by Max; fees stay included only while it is left unchanged
+  const [sendMax, setSendMax] = useState<{ amount: string; feesIncluded: boolean } | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [methodIndex, setMethodIndex] = useState(0);
+  const [methodFees, setMethodFees] = useState<(bigint | null)[] | null>(null);
+  const [isQuotingMethods, setIsQuotingMethods] = useState(false);
+  const methodPickedRef = useRef(false);
 
   // Initial invoice from scan / deep link
   useEffect(() => {
@@ -71,6 +149,9 @@ export default function SendScreen() {
         const result = await BreezService.parse(invoice.trim());
         if (!cancelled) {
           setParsed(result);
+          if (result.type === 'bip21' && result.amountSats != null) {
+            setAmount(result.amountSats.toString());
+          }
         }
       } catch {
         if (!cancelled) setParsed({ type: 'unknown', raw: invoice });
@@ -89,53 +170,166 @@ export default function SendScreen() {
     setError(null);
     setPrepareResult(null);
     setShowConfirm(false);
+    setConfirmationSpeed('medium');
+    setMethodIndex(0);
+    methodPickedRef.current = false;
   }, []);
 
-  const getAmountSats = useCallback((): bigint | undefined => {
-    if (amount.trim().length > 0) {
-      try {
-        const value = BigInt(amount);
-        if (value > 0n) return value;
-      } catch {
-        // Ignore invalid bigint input.
-      }
+  const handlePickContact = useCallback((destination: string) => {
+    setShowContactPicker(false);
+    handleInvoiceChange(destination);
+  }, [handleInvoiceChange]);
+
+  const handleOpenWithdraw = useCallback(() => {
+    router.replace({
+      pathname: '/withdraw',
+      params: { request: invoice.trim() },
+    });
+  }, [router, invoice]);
+
+  // For a BIP21 URI, the request actually paid is the chosen embedded method
+  const bip21 = parsed?.type === 'bip21' ? parsed : null;
+  const selectedMethod = bip21 ? (bip21.methods[methodIndex] ?? bip21.methods[0]) : null;
+  const target: ParsedInput | null = selectedMethod ? selectedMethod.input : parsed;
+  const paymentRequest = selectedMethod ? selectedMethod.request : invoice.trim();
+
+  // Spark invoices can request a token instead of sats; amounts are then in token base units
+  const tokenIdentifier = target?.type === 'spark_invoice' ? target.tokenIdentifier : undefined;
+
+  // Known recipient (picked from contacts or matching one of their addresses)
+  const recipientContact = useMemo(() => {
+    const byInput = findContactByDestination(contacts, invoice);
+    if (byInput) return byInput;
+    if (target && 'address' in target && target.address) {
+      return findContactByDestination(contacts, target.address);
     }
     return undefined;
-  }, [amount]);
+  }, [contacts, invoice, target]);
+
+  // Reusable destination worth offering to save as a new contact
+  const savableRecipient = useMemo((): Partial<ContactInput> | null => {
+    if (target?.type === 'lnurl_pay' && target.address) return { lightningAddress: target.address };
+    if (target?.type === 'spark_address') return { sparkAddress: target.address };
+    if (target?.type === 'bitcoin_address') return { bitcoinAddress: target.address };
+    return null;
+  }, [target]);
+  const token = tokenIdentifier ? balance?.tokenBalances[tokenIdentifier] : undefined;
+
+  const getAmountSats = useCallback((): bigint | undefined => {
+    if (token) {
+      const value = parseTokenAmount(amount, token.decimals);
+      return value != null && value > 0n ? value : undefined;
+    }
+    return parseSatsAmount(amount);
+  }, [amount, token]);
 
   const needsAmount =
-    parsed?.type === 'bitcoin_address'
-    || parsed?.type === 'spark_address'
-    || parsed?.type === 'spark_invoice'
-    || parsed?.type === 'lnurl_pay'
-    || (parsed?.type === 'bolt11_invoice' && parsed.amountMsat == null);
+    target?.type === 'bitcoin_address'
+    || target?.type === 'spark_address'
+    || target?.type === 'spark_invoice'
+    || target?.type === 'lnurl_pay'
+    || (target?.type === 'bolt11_invoice' && target.amountMsat == null);
+
+  // Quote every BIP21 method for the current amount and pre-select the cheapest
+  useEffect(() => {
+    if (!bip21) {
+      setMethodFees(null);
+      return;
+    }
+    const amountSats = parseSatsAmount(amount);
+    let cancelled = false;
+    setIsQuotingMethods(true);
+    const t = setTimeout(async () => {
+      const fees = await Promise.all(bip21.methods.map(async (method) => {
+        const isFixed = method.input.type === 'bolt11_invoice' && method.input.amountMsat != null;
+        if (!isFixed && amountSats == null) return null;
+        try {
+          const result = await BreezService.prepareSendPayment(method.request, isFixed ? undefined : amountSats);
+          return result.feeSats;
+        } catch {
+          return null;
+        }
+      }));
+      if (cancelled) return;
+      setMethodFees(fees);
+      setIsQuotingMethods(false);
+      if (!methodPickedRef.current) {
+        let cheapest = -1;
+        fees.forEach((fee, i) => {
+          if (fee != null && (cheapest < 0 || fee < fees[cheapest]!)) cheapest = i;
+        });
+        if (cheapest >= 0) setMethodIndex(cheapest);
+      }
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+  }, [bip21, amount]);
+
+  const handleSelectMethod = useCallback((index: number) => {
+    Haptics.selectionAsync();
+    methodPickedRef.current = true;
+    setMethodIndex(index);
+    setPrepareResult(null);
+    setShowConfirm(false);
+    setConfirmationSpeed('medium');
+    setError(null);
+  }, []);
 
   const handlePrepareAndConfirm = async () => {
     if (!invoice.trim()) {
-      setError('Please enter an invoice or address');
+      setError(t('send.errorNoRequest'));
       return;
     }
     if (parsed?.type === 'unknown') {
-      setError('Unrecognized payment request');
+      setError(t('send.errorUnrecognized'));
+      return;
+    }
+    if (parsed?.type === 'lnurl_withdraw') {
+      handleOpenWithdraw();
+      return;
+    }
+    if (parsed?.type === 'lnurl_auth') {
+      router.replace({
+        pathname: '/lnurl-auth',
+        params: { request: invoice.trim() },
+      });
       return;
     }
-    const isFixedBolt11 = parsed?.type === 'bolt11_invoice' && parsed.amountMsat != null;
+    if (tokenIdentifier && !token) {
+      setError(t('send.errorTokenNotHeld'));
+      return;
+    }
+    const isFixedBolt11 = target?.type === 'bolt11_invoice' && target.amountMsat != null;
     const amountSats = isFixedBolt11 ? undefined : getAmountSats();
     if (needsAmount && amountSats == null) {
-      setError('Please enter an amount');
+      setError(t('send.errorNoAmount'));
       return;
     }
-    if (balance && amountSats != null && amountSats > balance.lightning) {
-      setError('Insufficient balance');
+    const available = token ? token.balance : balance?.lightning;
+    if (available != null && amountSats != null && amountSats > available) {
+      setError(t('send.errorInsufficient'));
       return;
     }
 
     setError(null);
     try {
-      const result = await BreezService.prepareSendPayment(invoice.trim(), amountSats, comment || undefined);
-      const totalDebit = result.amountSats + result.feeSats;
+      const feesIncluded = !token && sendMax?.feesIncluded === true && sendMax.amount === amount;
+      const result = await BreezService.prepareSendPayment(
+        paymentRequest,
+        amountSats,
+        comment || undefined,
+        { tokenIdentifier, confirmationSpeed, feesIncluded }
+      );
+      // Token sends debit the token balance; only the fee is paid in sats
+      if (token && result.amountSats > token.balance) {
+        setError(t('send.errorInsufficient'));
+        return;
+      }
+      const totalDebit = (token ? 0n : result.amountSats) + result.feeSats;
       if (balance && totalDebit > balance.lightning) {
-        setError('Insufficient balance to cover amount and network fee');
+        setError(t('send.errorInsufficientWithFee'));
         return;
       }
       setPrepareResult(result);
@@ -145,6 +339,34 @@ export default function SendScreen() {
     }
   };
 
+  const handleUseMax = async () => {
+    if (!invoice.trim()) return;
+    setIsMaxLoading(true);
+    setError(null);
+    try {
+      const max = await BreezService.getMaxSendAmount(paymentRequest, { tokenIdentifier, confirmationSpeed });
+      const value = token ? tokenValueToDecimal(max.amountSats, token.decimals) : max.amountSats.toString();
+      setAmount(value);
+      setSendMax({ amount: value, feesIncluded: max.feesIncluded });
+    } catch (err) {
+      setError(formatSdkError(err));
+    } finally {
+      setIsMaxLoading(false);
+    }
+  };
+
+  const handleSelectFeeTier = useCallback((tier: OnchainFeeTier) => {
+    Haptics.selectionAsync();
+    setConfirmationSpeed(tier.speed);
+    setPrepareResult((current) => {
+      if (!current) return current;
+      // With fees included a different fee changes what the recipient gets
+      const amountSats = current.feesIncluded ? current.amountSats + current.feeSats - tier.feeSats : current.amountSats;
+      return { ...current, amountSats, feeSats: tier.feeSats };
+    });
+    setError(null);
+  }, []);
+
   const handleCancel = useCallback(() => {
     if (router.canDismiss()) {
       router.dismiss();
@@ -158,27 +380,52 @@ export default function SendScreen() {
   const handleSend = async () => {
     if (!prepareResult || !invoice.trim()) return;
     const amountSats = prepareResult.amountSats;
-    const totalDebit = prepareResult.amountSats + prepareResult.feeSats;
+    const totalDebit = (token ? 0n : prepareResult.amountSats) + prepareResult.feeSats;
     if (amountSats <= 0n) {
-      setError('Please enter an amount');
+      setError(t('send.errorNoAmount'));
       return;
     }
     if (balance && totalDebit > balance.lightning) {
-      setError('Insufficient balance to cover amount and network fee');
+      setError(t('send.errorInsufficientWithFee'));
       return;
     }
     setIsLoading(true);
     try {
-      const isFixedBolt11 = parsed?.type === 'bolt11_invoice' && parsed.amountMsat != null;
-      const sendAmountSats = isFixedBolt11 ? undefined : amountSats;
-      await sendPayment(invoice.trim(), sendAmountSats, comment || undefined);
+      const isFixedBolt11 = target?.type === 'bolt11_invoice' && target.amountMsat != null;
+      // Fees-included sends quote the gross amount again; the SDK takes the fee out of it
+      const sendAmountSats = isFixedBolt11
+        ? undefined
+        : prepareResult.feesIncluded ? amountSats + prepareResult.feeSats : amountSats;
+      const payment = await sendPayment(paymentRequest, sendAmountSats, comment || undefined, {
+        tokenIdentifier,
+        confirmationSpeed,
+        feesIncluded: prepareResult.feesIncluded,
+      });
+      if (recipientContact) {
+        recordPayment(recipientContact.id, payment.id);
+      }
       setShowConfirm(false);
       setPrepareResult(null);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      const sentAmount = formatAmountStr(amountSats, settings.bitcoinUnit);
-      Alert.alert('Payment sent', `Successfully sent ${sentAmount}`, [
-        { text: 'OK', onPress: handleCancel },
-      ]);
+      const sentAmount = token
+        ? formatTokenAmount(amountSats, token.decimals, token.ticker)
+        : formatAmountStr(amountSats, settings.bitcoinUnit);
+      if (!recipientContact && savableRecipient) {
+        Alert.alert(t('send.sentTitle'), t('send.saveRecipient', { amount: sentAmount }), [
+          { text: t('send.notNow'), style: 'cancel', onPress: handleCancel },
+          {
+            text: t('common.save'),
+            onPress: () => router.replace({
+              pathname: '/contact/[id]',
+              params: { id: 'new', ...savableRecipient, paymentId: payment.id },
+            }),
+          },
+        ]);
+      } else {
+        Alert.alert(t('send.sentTitle'), t('send.sentMessage', { amount: sentAmount }), [
+          { text: t('common.ok'), onPress: handleCancel },
+        ]);
+      }
     } catch (err) {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       setError(formatSdkError(err));
@@ -233,6 +480,30 @@ export default function SendScreen() {
         },
         confirmCard: { padding: spacing.md, gap: spacing.sm },
         confirmTitle: { marginBottom: spacing.xs },
+        contactAvatar: {
+          width: 32,
+          height: 32,
+          borderRadius: 16,
+          backgroundColor: colors.gold.glow,
+          alignItems: 'center',
+          justifyContent: 'center',
+        },
+        methodOption: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: spacing.sm,
+          borderRadius: layout.radius.md,
+          borderWidth: 1,
+        },
+        feeTierRow: { flexDirection: 'row', gap: spacing.xs },
+        feeTier: {
+          flex: 1,
+          alignItems: 'center',
+          paddingVertical: spacing.xs,
+          borderRadius: layout.radius.md,
+          borderWidth: 1,
+        },
         confirmActions: {
           flexDirection: 'row',
           justifyContent: 'flex-end',
@@ -249,7 +520,7 @@ export default function SendScreen() {
         {/* Header */}
         <View style={styles.header}>
           <View style={styles.headerSide}>
-            <Button title="Cancel" variant="ghost" size="sm" onPress={handleCancel} />
+            <Button title={t('common.cancel')} variant="ghost" size="sm" onPress={handleCancel} />
           </View>
           <Text
             variant="titleLarge"
@@ -257,7 +528,7 @@ export default function SendScreen() {
             style={styles.headerTitle}
             numberOfLines={1}
           >
-              Send Payment
+            {t('send.title')}
           </Text>
           <View style={styles.headerSide} />
         </View>
@@ -271,8 +542,8 @@ export default function SendScreen() {
         >
           {/* Payment request input */}
           <Input
-            label="Payment request"
-            placeholder="Invoice, address, or LNURL..."
+            label={t('send.requestLabel')}
+            placeholder={t('send.requestPlaceholder')}
             value={invoice}
             onChangeText={handleInvoiceChange}
             multiline
@@ -283,38 +554,55 @@ export default function SendScreen() {
 
           {/* Scan button */}
           <Button
-            title="Scan QR Code"
+            title={t('send.scan')}
             variant="secondary"
             size="md"
             icon={<Ionicons name="scan" size={20} color={colors.gold.pure} />}
             onPress={() => router.push('/scan')}
             style={styles.scanButton}
           />
+          {contacts.length > 0 && (
+            <Button
+              title={t('send.chooseContact')}
+              variant="ghost"
+              size="md"
+              icon={<Ionicons name="people" size={20} color={colors.gold.pure} />}
+              onPress={() => setShowContactPicker(true)}
+            />
+          )}
+          {recipientContact && (
+            <View style={styles.parsedRow}>
+              <Ionicons name="person-circle" size={18} color={colors.gold.pure} />
+              <Text variant="bodySmall" color={colors.text.secondary}>
+                {t('send.paying', { name: recipientContact.name })}
+              </Text>
+            </View>
+          )}
 
           {/* Parsed type + details */}
           {isParsing && (
             <View style={styles.parsedRow}>
               <ActivityIndicator size="small" color={colors.gold.pure} />
-              <Text variant="bodySmall" color={colors.text.muted}>Detecting type...</Text>
+              <Text variant="bodySmall" color={colors.text.muted}>{t('send.detecting')}</Text>
             </View>
           )}
           {parsed && !isParsing && (
             <Card variant="default" style={styles.invoiceCard}>
               <View style={styles.invoiceRow}>
                 <Text variant="labelMedium" color={colors.text.muted}>
-                    Type
+                  {t('send.type')}
                 </Text>
                 <Text variant="bodyMedium" color={colors.text.primary}>
                   {parsed.type === 'lnurl_pay' && (parsed as ParsedLnurlPay).address
-                    ? 'Lightning address'
-                    : (PAYMENT_TYPE_LABELS[parsed.type] ?? parsed.type)}
+                    ? t('send.type.lightning_address')
+                    : paymentTypeLabel(parsed.type)}
                 </Text>
               </View>
               {parsed.type === 'bolt11_invoice' && (
                 <>
                   {(parsed as ParsedBolt11).payee && (
                     <View style={styles.invoiceRow}>
-                      <Text variant="labelMedium" color={colors.text.muted}>To</Text>
+                      <Text variant="labelMedium" color={colors.text.muted}>{t('send.to')}</Text>
                       <Text variant="address" color={colors.text.secondary} numberOfLines={1}>
                         {(parsed as ParsedBolt11).payee!.substring(0, 24)}...
                       </Text>
@@ -322,7 +610,7 @@ export default function SendScreen() {
                   )}
                   {(parsed as ParsedBolt11).description && (
                     <View style={styles.invoiceRow}>
-                      <Text variant="labelMedium" color={colors.text.muted}>Description</Text>
+                      <Text variant="labelMedium" color={colors.text.muted}>{t('send.description')}</Text>
                       <Text variant="bodyMedium" color={colors.text.primary}>
                         {(parsed as ParsedBolt11).description}
                       </Text>
@@ -330,17 +618,110 @@ export default function SendScreen() {
                   )}
                   {(parsed as ParsedBolt11).amountMsat != null && (
                     <View style={styles.invoiceRow}>
-                      <Text variant="labelMedium" color={colors.text.muted}>Amount</Text>
+                      <Text variant="labelMedium" color={colors.text.muted}>{t('send.amount')}</Text>
                       <Text variant="bodyMedium" color={colors.text.primary}>
-                        {formatSats(msatToSatCeil((parsed as ParsedBolt11).amountMsat!))} sats
+                        {t('common.satsAmount', { amount: formatSats(msatToSatCeil((parsed as ParsedBolt11).amountMsat!)) })}
                       </Text>
                     </View>
                   )}
                   {(parsed as ParsedBolt11).expiry != null && (
                     <View style={styles.invoiceRow}>
-                      <Text variant="labelMedium" color={colors.text.muted}>Expiry</Text>
+                      <Text variant="labelMedium" color={colors.text.muted}>{t('send.expiry')}</Text>
                       <Text variant="bodySmall" color={colors.text.secondary}>
-                        {(parsed as ParsedBolt11).expiry! / 60} min
+                        {t('send.expiryMinutes', { count: (parsed as ParsedBolt11).expiry! / 60 })}
+                      </Text>
+                    </View>
+                  )}
+                </>
+              )}
+              {parsed.type === 'bip21' && (
+                <>
+                  {(parsed as ParsedBip21).label ? (
+                    <View style={styles.invoiceRow}>
+                      <Text variant="labelMedium" color={colors.text.muted}>{t('send.label')}</Text>
+                      <Text variant="bodyMedium" color={colors.text.primary}>
+                        {(parsed as ParsedBip21).label}
+                      </Text>
+                    </View>
+                  ) : null}
+                  {(parsed as ParsedBip21).message ? (
+                    <View style={styles.invoiceRow}>
+                      <Text variant="labelMedium" color={colors.text.muted}>{t('send.message')}</Text>
+                      <Text variant="bodyMedium" color={colors.text.primary}>
+                        {(parsed as ParsedBip21).message}
+                      </Text>
+                    </View>
+                  ) : null}
+                  {(parsed as ParsedBip21).amountSats != null && (
+                    <View style={styles.invoiceRow}>
+                      <Text variant="labelMedium" color={colors.text.muted}>{t('send.requestedAmount')}</Text>
+                      <Text variant="bodyMedium" color={colors.text.primary}>
+                        {formatAmountStr((parsed as ParsedBip21).amountSats!, settings.bitcoinUnit)}
+                      </Text>
+                    </View>
+                  )}
+                  <Text variant="labelMedium" color={colors.text.muted}>{t('send.payWith')}</Text>
+                  {(parsed as ParsedBip21).methods.map((method, index) => {
+                    const active = selectedMethod === method;
+                    const fee = methodFees?.[index];
+                    return (
+                      <TouchableOpacity
+                        key={method.request}
+                        style={[
+                          styles.methodOption,
+                          {
+                            backgroundColor: active ? colors.gold.glow : colors.background.secondary,
+                            borderColor: active ? colors.gold.pure : colors.border.subtle,
+                          },
+                        ]}
+                        onPress={() => handleSelectMethod(index)}
+                        disabled={showConfirm}
+                      >
+                        <Text variant="bodyMedium" color={active ? colors.gold.pure : colors.text.primary}>
+                          {paymentTypeLabel(method.input.type)}
+                        </Text>
+                        <Text variant="bodySmall" color={colors.text.muted}>
+                          {isQuotingMethods
+                            ? t('send.estimatingFee')
+                            : fee != null
+                              ? t('send.methodFee', { amount: formatAmountStr(fee, settings.bitcoinUnit) })
+                              : parseSatsAmount(amount) == null
+                                ? t('send.enterAmountForFee')
+                                : t('send.feeUnavailable')}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </>
+              )}
+              {parsed.type === 'silent_payment_address' && (
+                <Text variant="bodySmall" color={colors.status.warning}>
+                  {t('send.silentPaymentUnsupported')}
+                </Text>
+              )}
+              {parsed.type === 'spark_invoice' && (
+                <>
+                  {(parsed as ParsedSparkInvoice).description ? (
+                    <View style={styles.invoiceRow}>
+                      <Text variant="labelMedium" color={colors.text.muted}>{t('send.description')}</Text>
+                      <Text variant="bodyMedium" color={colors.text.primary}>
+                        {(parsed as ParsedSparkInvoice).description}
+                      </Text>
+                    </View>
+                  ) : null}
+                  {tokenIdentifier && (
+                    <View style={styles.invoiceRow}>
+                      <Text variant="labelMedium" color={colors.text.muted}>{t('send.token')}</Text>
+                      <Text variant="bodyMedium" color={token ? colors.text.primary : colors.status.warning}>
+                        {token ? `${token.name} (${token.ticker})` : t('send.tokenNotHeld')}
+                      </Text>
+                    </View>
+                  )}
+                  {token && (parsed as ParsedSparkInvoice).amount != null && (
+                    <View style={styles.invoiceRow}>
+                      <Text variant="labelMedium" color={colors.text.muted}>{t('send.requested')}</Text>
+                      <Text variant="bodyMedium" color={colors.text.primary}>
+                        {formatTokenAmount((parsed as ParsedSparkInvoice).amount!, token.decimals, token.ticker)}
                       </Text>
                     </View>
                   )}
@@ -350,45 +731,115 @@ export default function SendScreen() {
                 <>
                   {(parsed as ParsedLnurlPay).address && (
                     <View style={styles.invoiceRow}>
-                      <Text variant="labelMedium" color={colors.text.muted}>Address</Text>
+                      <Text variant="labelMedium" color={colors.text.muted}>{t('send.address')}</Text>
                       <Text variant="bodyMedium" color={colors.text.primary}>
                         {(parsed as ParsedLnurlPay).address}
                       </Text>
                     </View>
                   )}
                   <View style={styles.invoiceRow}>
-                    <Text variant="labelMedium" color={colors.text.muted}>Domain</Text>
+                    <Text variant="labelMedium" color={colors.text.muted}>{t('send.domain')}</Text>
                     <Text variant="bodyMedium" color={colors.text.primary}>
                       {(parsed as ParsedLnurlPay).domain}
                     </Text>
                   </View>
                   <View style={styles.invoiceRow}>
-                    <Text variant="labelMedium" color={colors.text.muted}>Range</Text>
+                    <Text variant="labelMedium" color={colors.text.muted}>{t('send.range')}</Text>
                     <Text variant="bodySmall" color={colors.text.secondary}>
-                      {formatSats(msatToSatCeil((parsed as ParsedLnurlPay).minSendable))} – {formatSats(msatToSatCeil((parsed as ParsedLnurlPay).maxSendable))} sats
+                      {t('common.satsRange', {
+                        min: formatSats(msatToSatCeil((parsed as ParsedLnurlPay).minSendable)),
+                        max: formatSats(msatToSatCeil((parsed as ParsedLnurlPay).maxSendable)),
+                      })}
                     </Text>
                   </View>
                 </>
               )}
+              {parsed.type === 'bolt12_offer' && (
+                <>
+                  {(parsed as ParsedBolt12Offer).issuer ? (
+                    <View style={styles.invoiceRow}>
+                      <Text variant="labelMedium" color={colors.text.muted}>{t('send.issuer')}</Text>
+                      <Text variant="bodyMedium" color={colors.text.primary}>
+                        {(parsed as ParsedBolt12Offer).issuer}
+                      </Text>
+                    </View>
+                  ) : null}
+                  {(parsed as ParsedBolt12Offer).description ? (
+                    <View style={styles.invoiceRow}>
+                      <Text variant="labelMedium" color={colors.text.muted}>{t('send.description')}</Text>
+                      <Text variant="bodyMedium" color={colors.text.primary}>
+                        {(parsed as ParsedBolt12Offer).description}
+                      </Text>
+                    </View>
+                  ) : null}
+                  <Text variant="bodySmall" color={colors.status.warning}>
+                    {t('send.bolt12Unsupported')}
+                  </Text>
+                </>
+              )}
+              {parsed.type === 'lnurl_auth' && (
+                <>
+                  <View style={styles.invoiceRow}>
+                    <Text variant="labelMedium" color={colors.text.muted}>{t('send.domain')}</Text>
+                    <Text variant="bodyMedium" color={colors.text.primary}>
+                      {(parsed as ParsedLnurlAuth).domain}
+                    </Text>
+                  </View>
+                  <Text variant="bodySmall" color={colors.text.secondary}>
+                    {t('send.loginRequest')}
+                  </Text>
+                </>
+              )}
+              {parsed.type === 'lnurl_withdraw' && (
+                <>
+                  <View style={styles.invoiceRow}>
+                    <Text variant="labelMedium" color={colors.text.muted}>{t('send.from')}</Text>
+                    <Text variant="bodyMedium" color={colors.text.primary}>
+                      {(parsed as ParsedLnurlWithdraw).domain}
+                    </Text>
+                  </View>
+                  <Text variant="bodySmall" color={colors.text.secondary}>
+                    {t('send.withdrawVoucher')}
+                  </Text>
+                </>
+              )}
             </Card>
           )}
 
           {/* Amount input (for amountless invoices, addresses, LNURL) */}
-          {needsAmount && (
+          {needsAmount && token && (
+            <Input
+              label={t('send.amountToSendToken', { ticker: token.ticker })}
+              placeholder="0"
+              value={amount}
+              onChangeText={setAmount}
+              keyboardType="decimal-pad"
+              hint={t('send.available', { amount: formatTokenAmount(token.balance, token.decimals, token.ticker) })}
+              editable={!showConfirm}
+              rightIcon={
+                <TouchableOpacity onPress={handleUseMax} disabled={showConfirm || isMaxLoading}>
+                  <Text variant="labelMedium" color={colors.gold.pure}>{t('send.max')}</Text>
+                </TouchableOpacity>
+              }
+            />
+          )}
+          {needsAmount && !tokenIdentifier && (
             <AmountInput
               value={amount}
               onChangeValue={setAmount}
-              label="Amount to send"
+              label={t('send.amountToSend')}
               maxAmount={balance?.lightning}
               editable={!showConfirm}
+              onMaxPress={handleUseMax}
+              isMaxLoading={isMaxLoading}
             />
           )}
 
           {/* Comment input for LNURL-Pay when supported */}
           {parsed?.type === 'lnurl_pay' && (parsed as ParsedLnurlPay).commentAllowed > 0 && (
             <Input
-              label="Comment (optional)"
-              placeholder="Add a message..."
+              label={t('send.comment')}
+              placeholder={t('send.commentPlaceholder')}
               value={comment}
               onChangeText={setComment}
               maxLength={(parsed as ParsedLnurlPay).commentAllowed}
@@ -400,20 +851,53 @@ export default function SendScreen() {
           {showConfirm && prepareResult && (
             <Card variant="outlined" style={styles.confirmCard}>
               <Text variant="labelMedium" color={colors.text.muted} style={styles.confirmTitle}>
-                  Confirm payment
+                {t('send.confirmTitle')}
               </Text>
               <View style={styles.invoiceRow}>
-                <Text variant="bodyMedium" color={colors.text.secondary}>Amount</Text>
+                <Text variant="bodyMedium" color={colors.text.secondary}>{t('send.amount')}</Text>
                 <View style={{ alignItems: 'flex-end' }}>
                   <Text variant="titleSmall" color={colors.text.primary}>
-                    {formatAmountStr(prepareResult.amountSats, settings.bitcoinUnit)}
+                    {token
+                      ? formatTokenAmount(prepareResult.amountSats, token.decimals, token.ticker)
+                      : formatAmountStr(prepareResult.amountSats, settings.bitcoinUnit)}
                   </Text>
-                  <FiatAmount sats={prepareResult.amountSats} style={{ textAlign: 'right' }} />
+                  {!token && <FiatAmount sats={prepareResult.amountSats} style={{ textAlign: 'right' }} />}
                 </View>
               </View>
+              {prepareResult.onchainFeeTiers && prepareResult.onchainFeeTiers.length > 0 && (
+                <View style={styles.feeTierRow}>
+                  {prepareResult.onchainFeeTiers.map((tier) => {
+                    const active = tier.speed === confirmationSpeed;
+                    return (
+                      <TouchableOpacity
+                        key={tier.speed}
+                        style={[
+                          styles.feeTier,
+                          {
+                            backgroundColor: active ? colors.gold.glow : colors.background.secondary,
+                            borderColor: active ? colors.gold.pure : colors.border.subtle,
+                          },
+                        ]}
+                        onPress={() => handleSelectFeeTier(tier)}
+                        disabled={isLoading}
+                      >
+                        <Text variant="labelMedium" color={active ? colors.gold.pure : colors.text.secondary}>
+                          {t(FEE_SPEED_LABELS[tier.speed])}
+                        </Text>
+                        <Text variant="bodySmall" color={colors.text.primary}>
+                          {formatAmountStr(tier.feeSats, settings.bitcoinUnit)}
+                        </Text>
+                        <Text variant="labelSmall" color={colors.text.muted}>
+                          {formatConfirmationTarget(tier.targetBlocks, t)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
               {prepareResult.feeSats > 0n && (
                 <View style={styles.invoiceRow}>
-                  <Text variant="bodyMedium" color={colors.text.secondary}>Fee</Text>
+                  <Text variant="bodyMedium" color={colors.text.secondary}>{t('send.fee')}</Text>
                   <View style={{ alignItems: 'flex-end' }}>
                     <Text variant="bodyMedium" color={colors.text.primary}>
                       {prepareResult.paymentMethod === 'onchain' ? '~' : ''}{formatAmountStr(prepareResult.feeSats, settings.bitcoinUnit)}
@@ -422,9 +906,14 @@ export default function SendScreen() {
                   </View>
                 </View>
               )}
+              {prepareResult.feesIncluded && (
+                <Text variant="bodySmall" color={colors.text.muted}>
+                  {t('send.feesIncluded')}
+                </Text>
+              )}
               <View style={styles.confirmActions}>
-                <Button title="Back" variant="ghost" size="md" onPress={() => { setShowConfirm(false); setPrepareResult(null); }} />
-                <Button title={isLoading ? 'Sending...' : 'Send'} variant="primary" size="md" onPress={handleSend} loading={isLoading} disabled={isLoading} />
+                <Button title={t('common.back')} variant="ghost" size="md" onPress={() => { setShowConfirm(false); setPrepareResult(null); }} />
+                <Button title={isLoading ? t('send.sending') : t('send.send')} variant="primary" size="md" onPress={handleSend} loading={isLoading} disabled={isLoading} />
               </View>
             </Card>
           )}
@@ -433,14 +922,14 @@ export default function SendScreen() {
           <View style={styles.balanceInfo}>
             <Ionicons name="wallet" size={16} color={colors.text.muted} />
             <Text variant="bodySmall" color={colors.text.muted}>
-                Available: {formatAmountStr(balance?.lightning ?? 0n, settings.bitcoinUnit)}
+              {t('send.available', { amount: formatAmountStr(balance?.lightning ?? 0n, settings.bitcoinUnit) })}
             </Text>
           </View>
 
           {!showConfirm ? (
             <View style={styles.actionContainer}>
               <Button
-                title={parsed ? 'Continue' : 'Enter payment request'}
+                title={parsed ? t('common.continue') : t('send.enterRequest')}
                 variant="primary"
                 size="lg"
                 onPress={handlePrepareAndConfirm}
@@ -450,6 +939,56 @@ export default function SendScreen() {
           ) : null}
         </KeyboardAwareScrollView>
       </SafeAreaView>
+
+      {/* Contact picker */}
+      <Modal
+        visible={showContactPicker}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowContactPicker(false)}
+      >
+        <View style={styles.container}>
+          <SafeAreaView style={styles.safeArea}>
+            <View style={styles.header}>
+              <View style={styles.headerSide}>
+                <Button title={t('common.close')} variant="ghost" size="sm" onPress={() => setShowContactPicker(false)} />
+              </View>
+              <Text variant="titleLarge" color={colors.text.primary} style={styles.headerTitle}>
+                {t('contacts.title')}
+              </Text>
+              <View style={styles.headerSide} />
+            </View>
+            <ScrollView contentContainerStyle={styles.scrollContent}>
+              {contacts.map((contact) => (
+                <Card key={contact.id} variant="default" style={styles.invoiceCard}>
+                  <View style={styles.parsedRow}>
+                    <View style={styles.contactAvatar}>
+                      <Text variant="labelLarge" color={colors.gold.pure}>
+                        {contactInitials(contact.name)}
+                      </Text>
+                    </View>
+                    <Text variant="titleSmall" color={colors.text.primary}>
+                      {contact.name}
+                    </Text>
+                  </View>
+                  {contactDestinations(contact).map((destination) => (
+                    <TouchableOpacity
+                      key={destination.label}
+                      style={styles.invoiceRow}
+                      onPress={() => handlePickContact(destination.value)}
+                    >
+                      <Text variant="labelMedium" color={colors.text.muted}>{t(destination.label)}</Text>
+                      <Text variant="bodySmall" color={colors.gold.pure} numberOfLines={1}>
+                        {destination.value}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </Card>
+              ))}
+            </ScrollView>
+          </SafeAreaView>
+        </View>
+      </Modal>
     </View>
   );
 }
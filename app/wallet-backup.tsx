@@ -0,0 +1,217 @@
+/**
+ * Wallet Backup Screen
+ *
+ * Exports an encrypted backup file of settings, contacts, labels and invoice
+ * history, optionally with the seed, and hands it to the share sheet.
+ * Opened from Settings; restored from onboarding.
+ */
+
+import React, { useState, useMemo, useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { Button, Text, Card, Input } from '@/components/ui';
+import { BackupService, MIN_BACKUP_PASSWORD_LENGTH } from '@/services/backup';
+import { KeychainService } from '@/services/keychain';
+import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
+import { spacing, layout } from '@/theme';
+import type { WalletBackupData } from '@/types/wallet';
+
+export default function WalletBackupScreen() {
+  const router = useRouter();
+  const colors = useColors();
+  const { t } = useTranslation();
+  const [password, setPassword] = useState('');
+  const [passwordConfirmation, setPasswordConfirmation] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [includeSeed, setIncludeSeed] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exported, setExported] = useState(false);
+
+  const handleCancel = useCallback(() => {
+    if (router.canDismiss()) {
+      router.dismiss();
+    } else if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)');
+    }
+  }, [router]);
+
+  const passwordError = password && password.length < MIN_BACKUP_PASSWORD_LENGTH
+    ? t('backupFile.passwordTooShort', { count: MIN_BACKUP_PASSWORD_LENGTH })
+    : undefined;
+  const confirmationError = passwordConfirmation && passwordConfirmation !== password
+    ? t('backupFile.passwordMismatch')
+    : undefined;
+  const canExport = password.length >= MIN_BACKUP_PASSWORD_LENGTH && password === passwordConfirmation;
+
+  const handleExport = async () => {
+    if (!canExport) return;
+    setIsExporting(true);
+    setError(null);
+    setExported(false);
+    try {
+      const data: WalletBackupData = {
+        createdAt: Date.now(),
+        stores: await BackupService.collectStores(),
+      };
+      if (includeSeed) {
+        const mnemonic = await KeychainService.getMnemonic(t('backupFile.authPrompt'));
+        const passphrase = await KeychainService.getPassphrase(t('backupFile.authPrompt'));
+        data.seed = { mnemonic, passphrase };
+      }
+      const result = await BackupService.exportBackup(data, password);
+      await BackupService.shareBackup(result);
+      setExported(true);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (err) {
+      console.error('[WalletBackup] Failed to export backup:', err);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setError(err instanceof Error ? err.message : t('backupFile.exportFailed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const styles = useMemo(
+    () =>
+      StyleSheet.create({
+        container: { flex: 1, backgroundColor: colors.background.primary },
+        safeArea: { flex: 1 },
+        header: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          paddingHorizontal: spacing.md,
+          paddingVertical: spacing.sm,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.border.subtle,
+        },
+        scrollContent: { padding: spacing.lg, gap: spacing.md },
+        card: { padding: spacing.md, gap: spacing.xs },
+        checkItem: {
+          flexDirection: 'row',
+          alignItems: 'flex-start',
+          gap: spacing.sm,
+          padding: spacing.md,
+          borderRadius: layout.radius.lg,
+          borderWidth: 1,
+        },
+        checkItemText: { flex: 1, gap: spacing.xxs },
+      }),
+    [colors]
+  );
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <Button title={t('common.cancel')} variant="ghost" size="sm" onPress={handleCancel} />
+          <Text variant="titleLarge" color={colors.text.primary}>
+            {t('backupFile.title')}
+          </Text>
+          <View style={{ width: 60 }} />
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Card variant="outlined" style={styles.card}>
+            <Text variant="bodySmall" color={colors.text.secondary}>
+              {t('backupFile.contents')}
+            </Text>
+          </Card>
+
+          <Input
+            label={t('backupFile.password')}
+            value={password}
+            onChangeText={setPassword}
+            secureTextEntry={!showPassword}
+            autoCapitalize="none"
+            autoCorrect={false}
+            spellCheck={false}
+            error={passwordError}
+            hint={t('backupFile.passwordHint')}
+            rightIcon={
+              <TouchableOpacity
+                onPress={() => setShowPassword((current) => !current)}
+                accessibilityLabel={showPassword ? t('passphrase.hide') : t('passphrase.show')}
+              >
+                <Ionicons name={showPassword ? 'eye-off' : 'eye'} size={20} color={colors.text.muted} />
+              </TouchableOpacity>
+            }
+          />
+          <Input
+            label={t('backupFile.confirmPassword')}
+            value={passwordConfirmation}
+            onChangeText={setPasswordConfirmation}
+            secureTextEntry={!showPassword}
+            autoCapitalize="none"
+            autoCorrect={false}
+            spellCheck={false}
+            error={confirmationError}
+          />
+
+          <TouchableOpacity
+            style={[
+              styles.checkItem,
+              {
+                backgroundColor: includeSeed ? colors.gold.glow : colors.background.secondary,
+                borderColor: includeSeed ? colors.gold.pure : colors.border.subtle,
+              },
+            ]}
+            onPress={() => setIncludeSeed((current) => !current)}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: includeSeed }}
+          >
+            <Ionicons
+              name={includeSeed ? 'checkmark-circle' : 'ellipse-outline'}
+              size={20}
+              color={includeSeed ? colors.gold.pure : colors.text.muted}
+            />
+            <View style={styles.checkItemText}>
+              <Text variant="titleSmall" color={colors.text.primary}>
+                {t('backupFile.includeSeed')}
+              </Text>
+              <Text variant="bodySmall" color={colors.text.muted}>
+                {t('backupFile.includeSeedHint')}
+              </Text>
+            </View>
+          </TouchableOpacity>
+
+          {error && (
+            <Text variant="bodySmall" color={colors.status.error}>
+              {error}
+            </Text>
+          )}
+          {exported && !error && (
+            <Text variant="bodySmall" color={colors.text.muted}>
+              {t('backupFile.exported')}
+            </Text>
+          )}
+
+          <Button
+            title={isExporting ? t('backupFile.encrypting') : t('backupFile.export')}
+            variant="primary"
+            size="lg"
+            onPress={handleExport}
+            loading={isExporting}
+            disabled={isExporting || !canExport}
+          />
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+}
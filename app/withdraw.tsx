@@ -0,0 +1,345 @@
+/**
+ * LNURL-Withdraw Screen
+ *
+ * Claims funds from a withdraw voucher (faucets, ATMs, refunds).
+ * Flow: parse request → show domain & allowed range → choose amount → claim.
+ */
+
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { KeyboardAwareScrollView } from 'react-native-keyboard-controller';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { Button, Text, AmountInput, Card, FiatAmount } from '@/components/ui';
+import { useWalletStore } from '@/stores/walletStore';
+import { BreezService, formatSdkError } from '@/services/breez';
+import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
+import { spacing } from '@/theme';
+import { formatAmountStr, formatSats, msatToSatCeil, msatToSatFloor } from '@/utils/format';
+import type { ParsedLnurlWithdraw, PrepareWithdrawResult, WithdrawResult } from '@/types/wallet';
+
+export default function WithdrawScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ request?: string }>();
+  const colors = useColors();
+  const { t } = useTranslation();
+  const { withdrawLnurl, settings } = useWalletStore();
+  const request = params.request?.trim() ?? '';
+  const [parsed, setParsed] = useState<ParsedLnurlWithdraw | null>(null);
+  const [isParsing, setIsParsing] = useState(true);
+  const [amount, setAmount] = useState('');
+  const [prepareResult, setPrepareResult] = useState<PrepareWithdrawResult | null>(null);
+  const [result, setResult] = useState<WithdrawResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!request) {
+      setIsParsing(false);
+      setError(t('withdraw.missingRequest'));
+      return;
+    }
+    let cancelled = false;
+    setIsParsing(true);
+    BreezService.parse(request)
+      .then((input) => {
+        if (cancelled) return;
+        if (input.type !== 'lnurl_withdraw') {
+          setError(t('withdraw.notWithdraw'));
+          return;
+        }
+        setParsed(input);
+        // Default to the full voucher amount
+        setAmount(msatToSatFloor(input.maxWithdrawable).toString());
+      })
+      .catch((err) => {
+        if (!cancelled) setError(formatSdkError(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsParsing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [request, t]);
+
+  const minSats = parsed ? msatToSatCeil(parsed.minWithdrawable) : 0n;
+  const maxSats = parsed ? msatToSatFloor(parsed.maxWithdrawable) : 0n;
+  const isFixedAmount = parsed != null && minSats === maxSats;
+
+  const getAmountSats = useCallback((): bigint | undefined => {
+    if (amount.trim().length > 0) {
+      try {
+        const value = BigInt(amount);
+        if (value > 0n) return value;
+      } catch {
+        // Ignore invalid bigint input.
+      }
+    }
+    return undefined;
+  }, [amount]);
+
+  const handleAmountChange = useCallback((value: string) => {
+    setAmount(value);
+    setError(null);
+    setPrepareResult(null);
+  }, []);
+
+  const handleCancel = useCallback(() => {
+    if (router.canDismiss()) {
+      router.dismiss();
+    } else if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)');
+    }
+  }, [router]);
+
+  const handlePrepare = async () => {
+    const amountSats = getAmountSats();
+    if (amountSats == null) {
+      setError(t('withdraw.enterAmount'));
+      return;
+    }
+    setError(null);
+    try {
+      setPrepareResult(await BreezService.prepareWithdraw(request, amountSats));
+    } catch (err) {
+      setError(formatSdkError(err));
+    }
+  };
+
+  const handleClaim = async () => {
+    if (!prepareResult) return;
+    setIsLoading(true);
+    try {
+      const withdrawResult = await withdrawLnurl(request, prepareResult.amountSats);
+      setResult(withdrawResult);
+      setPrepareResult(null);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (err) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setError(formatSdkError(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const styles = useMemo(
+    () =>
+      StyleSheet.create({
+        container: { flex: 1, backgroundColor: colors.background.primary },
+        safeArea: { flex: 1 },
+        header: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          paddingHorizontal: spacing.md,
+          paddingVertical: spacing.sm,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.border.subtle,
+        },
+        headerSide: {
+          minWidth: 76,
+          alignItems: 'flex-start',
+          justifyContent: 'center',
+        },
+        headerTitle: {
+          flex: 1,
+          textAlign: 'center',
+        },
+        scrollView: { flex: 1 },
+        scrollContent: { flexGrow: 1, padding: spacing.lg, gap: spacing.md },
+        center: { alignItems: 'center', gap: spacing.sm, padding: spacing.xl },
+        detailsCard: { padding: spacing.md, gap: spacing.sm },
+        detailsRow: { gap: spacing.xxs },
+        confirmCard: { padding: spacing.md, gap: spacing.sm },
+        confirmActions: {
+          flexDirection: 'row',
+          justifyContent: 'flex-end',
+          gap: spacing.sm,
+          marginTop: spacing.sm,
+        },
+        successIcon: {
+          width: 64,
+          height: 64,
+          borderRadius: 32,
+          backgroundColor: colors.status.success + '20',
+          alignItems: 'center',
+          justifyContent: 'center',
+        },
+        errorText: { textAlign: 'center' },
+      }),
+    [colors]
+  );
+
+  const renderBody = () => {
+    if (isParsing) {
+      return (
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color={colors.gold.pure} />
+          <Text variant="bodySmall" color={colors.text.muted}>{t('withdraw.reading')}</Text>
+        </View>
+      );
+    }
+
+    if (!parsed) {
+      return (
+        <View style={styles.center}>
+          <Ionicons name="alert-circle" size={48} color={colors.status.error} />
+          <Text variant="bodyMedium" color={colors.text.secondary} style={styles.errorText}>
+            {error ?? t('withdraw.unrecognized')}
+          </Text>
+          <Button title={t('common.close')} variant="secondary" onPress={handleCancel} />
+        </View>
+      );
+    }
+
+    if (result) {
+      const isPending = result.payment == null || result.payment.status === 'pending';
+      return (
+        <View style={styles.center}>
+          <View style={styles.successIcon}>
+            <Ionicons
+              name={isPending ? 'time' : 'checkmark'}
+              size={32}
+              color={isPending ? colors.status.warning : colors.status.success}
+            />
+          </View>
+          <Text variant="titleLarge" color={colors.text.primary}>
+            {t(isPending ? 'withdraw.requested' : 'withdraw.received')}
+          </Text>
+          <Text variant="headlineMedium" color={colors.text.primary}>
+            {formatAmountStr(result.payment?.amountSats ?? result.amountSats, settings.bitcoinUnit)}
+          </Text>
+          <FiatAmount sats={result.payment?.amountSats ?? result.amountSats} style={{ textAlign: 'center' }} />
+          <Text variant="bodySmall" color={colors.text.muted} style={styles.errorText}>
+            {t(isPending ? 'withdraw.pendingHint' : 'withdraw.paidBy', { domain: parsed.domain })}
+          </Text>
+          {result.payment && (
+            <Button
+              title={t('common.viewPayment')}
+              variant="secondary"
+              size="md"
+              onPress={() => router.replace(`/payment/${result.payment!.id}`)}
+            />
+          )}
+          <Button title={t('common.done')} variant="primary" size="md" onPress={handleCancel} />
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <Card variant="default" style={styles.detailsCard}>
+          <View style={styles.detailsRow}>
+            <Text variant="labelMedium" color={colors.text.muted}>{t('withdraw.from')}</Text>
+            <Text variant="bodyMedium" color={colors.text.primary}>{parsed.domain}</Text>
+          </View>
+          {parsed.defaultDescription ? (
+            <View style={styles.detailsRow}>
+              <Text variant="labelMedium" color={colors.text.muted}>{t('withdraw.description')}</Text>
+              <Text variant="bodyMedium" color={colors.text.primary}>{parsed.defaultDescription}</Text>
+            </View>
+          ) : null}
+          <View style={styles.detailsRow}>
+            <Text variant="labelMedium" color={colors.text.muted}>
+              {t(isFixedAmount ? 'withdraw.amount' : 'withdraw.range')}
+            </Text>
+            <Text variant="bodySmall" color={colors.text.secondary}>
+              {isFixedAmount
+                ? t('common.satsAmount', { amount: formatSats(maxSats) })
+                : t('common.satsRange', { min: formatSats(minSats), max: formatSats(maxSats) })}
+            </Text>
+          </View>
+        </Card>
+
+        {!isFixedAmount && (
+          <AmountInput
+            value={amount}
+            onChangeValue={handleAmountChange}
+            label={t('withdraw.amountLabel')}
+            maxAmount={maxSats}
+            editable={!prepareResult}
+            error={error || undefined}
+          />
+        )}
+        {isFixedAmount && error && (
+          <Text variant="bodySmall" color={colors.status.error}>{error}</Text>
+        )}
+
+        {prepareResult ? (
+          <Card variant="outlined" style={styles.confirmCard}>
+            <Text variant="labelMedium" color={colors.text.muted}>
+              {t('withdraw.confirm')}
+            </Text>
+            <View style={styles.detailsRow}>
+              <Text variant="bodyMedium" color={colors.text.secondary}>{t('withdraw.youReceive')}</Text>
+              <Text variant="titleSmall" color={colors.text.primary}>
+                {formatAmountStr(prepareResult.amountSats, settings.bitcoinUnit)}
+              </Text>
+              <FiatAmount sats={prepareResult.amountSats} />
+            </View>
+            <View style={styles.confirmActions}>
+              <Button title={t('common.back')} variant="ghost" size="md" onPress={() => setPrepareResult(null)} />
+              <Button
+                title={isLoading ? t('withdraw.claiming') : t('withdraw.claim')}
+                variant="primary"
+                size="md"
+                onPress={handleClaim}
+                loading={isLoading}
+                disabled={isLoading}
+              />
+            </View>
+          </Card>
+        ) : (
+          <Button
+            title={t('common.continue')}
+            variant="primary"
+            size="lg"
+            onPress={handlePrepare}
+            disabled={!amount.trim()}
+          />
+        )}
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        {/* Header */}
+        <View style={styles.header}>
+          <View style={styles.headerSide}>
+            <Button title={t('common.cancel')} variant="ghost" size="sm" onPress={handleCancel} />
+          </View>
+          <Text
+            variant="titleLarge"
+            color={colors.text.primary}
+            style={styles.headerTitle}
+            numberOfLines={1}
+          >
+            {t('withdraw.title')}
+          </Text>
+          <View style={styles.headerSide} />
+        </View>
+
+        <KeyboardAwareScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+          bottomOffset={20}
+        >
+          {renderBody()}
+        </KeyboardAwareScrollView>
+      </SafeAreaView>
+    </View>
+  );
+}
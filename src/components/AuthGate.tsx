@@ -19,6 +19,7 @@ import type { AppStateStatus } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { KeychainService } from '@/services/keychain';
 import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
 import { Text, Button } from '@/components/ui';
 import { spacing } from '@/theme';
 
@@ -28,6 +29,7 @@ interface AuthGateProps {
 
 export function AuthGate({ children }: AuthGateProps) {
   const colors = useColors();
+  const { t } = useTranslation();
   const [isLocked, setIsLocked] = useState(false);
   const [isAuthenticating, setIsAuthenticating] = useState(false);
   const hasWalletRef = useRef(false);
@@ -48,7 +50,7 @@ export function AuthGate({ children }: AuthGateProps) {
     isAuthenticatingRef.current = true;
     setIsAuthenticating(true);
     try {
-      const success = await KeychainService.authenticateUser('Unlock Starr Wallet');
+      const success = await KeychainService.authenticateUser(t('lock.prompt'));
       if (success) {
         setIsLocked(false);
       }
@@ -56,7 +58,7 @@ export function AuthGate({ children }: AuthGateProps) {
       isAuthenticatingRef.current = false;
       setIsAuthenticating(false);
     }
-  }, []);
+  }, [t]);
 
   useEffect(() => {
     const subscription = AppState.addEventListener('change', async (nextState) => {
@@ -111,12 +113,12 @@ export function AuthGate({ children }: AuthGateProps) {
               Starr
             </Text>
             <Text variant="bodyMedium" color={colors.text.secondary}>
-              Wallet is locked
+              {t('lock.locked')}
             </Text>
           </View>
           <View style={styles.actions}>
             <Button
-              title="Unlock"
+              title={t('lock.unlock')}
               onPress={authenticate}
               variant="primary"
               size="lg"
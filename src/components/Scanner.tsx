@@ -1,7 +1,9 @@
 /**
  * QR Scanner Component
  *
- * Reusable camera scanner for QR codes (Lightning invoices, Bitcoin URIs).
+ * Reusable camera scanner for QR codes (Lightning invoices, Bitcoin URIs,
+ * LNURL requests). LNURL-Withdraw vouchers open the withdraw screen and
+ * LNURL-Auth logins the login confirmation; all other inputs go to Send.
  */
 
 import React, { useState, useMemo } from 'react';
@@ -19,7 +21,9 @@ import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import * as Clipboard from 'expo-clipboard';
 import { Text, Button } from '@/components/ui';
+import { BreezService } from '@/services/breez';
 import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
 import { spacing, layout } from '@/theme';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -32,6 +36,7 @@ interface ScannerProps {
 export function Scanner({ bottomInset = 0 }: ScannerProps) {
   const router = useRouter();
   const colors = useColors();
+  const { t } = useTranslation();
   const [permission, requestPermission] = useCameraPermissions();
   const [scanned, setScanned] = useState(false);
   const [torch, setTorch] = useState(false);
@@ -147,6 +152,29 @@ export function Scanner({ bottomInset = 0 }: ScannerProps) {
     [colors, bottomInset]
   );
 
+  // Generic inputs (LNURL, addresses) need a parse to pick the right screen.
+  const openScannedInput = async (input: string) => {
+    const parsed = await BreezService.parse(input).catch(() => null);
+    if (parsed?.type === 'lnurl_withdraw') {
+      router.replace({
+        pathname: '/withdraw',
+        params: { request: input },
+      });
+      return;
+    }
+    if (parsed?.type === 'lnurl_auth') {
+      router.replace({
+        pathname: '/lnurl-auth',
+        params: { request: input },
+      });
+      return;
+    }
+    router.replace({
+      pathname: '/send',
+      params: { invoice: input },
+    });
+  };
+
   const handleBarCodeScanned = ({ data }: { data: string }) => {
     if (scanned) return;
 
@@ -162,30 +190,9 @@ export function Scanner({ bottomInset = 0 }: ScannerProps) {
         pathname: '/send',
         params: { invoice },
       });
-    } else if (lowerData.startsWith('bitcoin:')) {
-      // Bitcoin URI (optional lightning= in query)
-      const queryString = data.split('?')[1];
-      if (queryString) {
-        const params = new URLSearchParams(queryString);
-        const lightning = params.get('lightning');
-        if (lightning) {
-          router.replace({
-            pathname: '/send',
-            params: { invoice: lightning },
-          });
-          return;
-        }
-      }
-      router.replace({
-        pathname: '/send',
-        params: { invoice: data },
-      });
     } else {
-      // Assume it's an invoice
-      router.replace({
-        pathname: '/send',
-        params: { invoice: data },
-      });
+      // BIP21 URIs are passed whole so the send screen can offer every method they carry
+      openScannedInput(data);
     }
   };
 
@@ -198,16 +205,13 @@ export function Scanner({ bottomInset = 0 }: ScannerProps) {
       const text = await Clipboard.getStringAsync();
       if (text) {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-        router.replace({
-          pathname: '/send',
-          params: { invoice: text },
-        });
+        await openScannedInput(text.trim());
       } else {
-        Alert.alert('Clipboard Empty', 'No text found in clipboard');
+        Alert.alert(t('scan.clipboardEmptyTitle'), t('scan.clipboardEmpty'));
       }
     } catch (err) {
       console.error('[Scan] Failed to read clipboard:', err);
-      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to read from clipboard');
+      Alert.alert(t('common.error'), err instanceof Error ? err.message : t('scan.clipboardFailed'));
     }
   };
 
@@ -217,7 +221,7 @@ export function Scanner({ bottomInset = 0 }: ScannerProps) {
       <View style={styles.container}>
         <SafeAreaView style={styles.centerContent}>
           <Text variant="bodyMedium" color={colors.text.secondary}>
-            Checking camera permission...
+            {t('scan.checkingPermission')}
           </Text>
         </SafeAreaView>
       </View>
@@ -232,18 +236,18 @@ export function Scanner({ bottomInset = 0 }: ScannerProps) {
           <View style={styles.permissionContent}>
             <Ionicons name="camera-outline" size={64} color={colors.text.muted} />
             <Text variant="titleLarge" color={colors.text.primary} align="center">
-              Camera Access Required
+              {t('scan.permissionTitle')}
             </Text>
             <Text variant="bodyMedium" color={colors.text.secondary} align="center">
-              We need camera access to scan QR codes for Lightning payments
+              {t('scan.permissionBody')}
             </Text>
             <Button
-              title="Grant Permission"
+              title={t('scan.grantPermission')}
               variant="primary"
               onPress={requestPermission}
             />
             <Button
-              title="Go Back"
+              title={t('common.goBack')}
               variant="ghost"
               onPress={handleClose}
             />
@@ -270,15 +274,23 @@ export function Scanner({ bottomInset = 0 }: ScannerProps) {
         {/* Top section */}
         <SafeAreaView style={styles.topSection}>
           <View style={styles.header}>
-            <TouchableOpacity style={styles.closeButton} onPress={handleClose}>
+            <TouchableOpacity
+              style={styles.closeButton}
+              onPress={handleClose}
+              accessibilityRole="button"
+              accessibilityLabel={t('common.close')}
+            >
               <Ionicons name="close" size={28} color={colors.text.primary} />
             </TouchableOpacity>
             <Text variant="titleLarge" color={colors.text.primary}>
-              Scan QR Code
+              {t('scan.title')}
             </Text>
             <TouchableOpacity
               style={[styles.torchButton, torch && styles.torchActive]}
               onPress={() => setTorch(!torch)}
+              accessibilityRole="switch"
+              accessibilityLabel={t('scan.torch')}
+              accessibilityState={{ checked: torch }}
             >
               <Ionicons
                 name={torch ? 'flash' : 'flash-outline'}
@@ -305,7 +317,7 @@ export function Scanner({ bottomInset = 0 }: ScannerProps) {
           <View style={styles.hint}>
             <Ionicons name="flash" size={20} color={colors.gold.pure} />
             <Text variant="bodyMedium" color={colors.text.primary} align="center">
-              Point your camera at a Lightning invoice QR code
+              {t('scan.hint')}
             </Text>
           </View>
 
@@ -315,7 +327,7 @@ export function Scanner({ bottomInset = 0 }: ScannerProps) {
           >
             <Ionicons name="clipboard" size={20} color={colors.gold.pure} />
             <Text variant="titleSmall" color={colors.gold.pure}>
-              Paste from Clipboard
+              {t('scan.paste')}
             </Text>
           </TouchableOpacity>
 
@@ -326,7 +338,7 @@ export function Scanner({ bottomInset = 0 }: ScannerProps) {
             >
               <Ionicons name="refresh" size={20} color={colors.text.primary} />
               <Text variant="titleSmall" color={colors.text.primary}>
-                Scan Again
+                {t('scan.again')}
               </Text>
             </TouchableOpacity>
           )}
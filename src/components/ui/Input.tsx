@@ -11,12 +11,17 @@ import {
   StyleSheet,
   TextInputProps,
   ViewStyle,
+  TouchableOpacity,
+  ActivityIndicator,
 } from 'react-native';
 import { Text } from './Text';
 import { layout, spacing, typography } from '@/theme';
 import { useColors } from '@/contexts';
-import { formatFiat, satsToBtc, formatAmount } from '@/utils/format';
+import { Ionicons } from '@expo/vector-icons';
+import { formatFiat, satsToBtc, formatAmount, formatAmountStr, fiatFractionDigits } from '@/utils/format';
 import { useWalletStore } from '@/stores/walletStore';
+import { useTranslation } from '@/hooks';
+import type { BitcoinUnit } from '@/types/wallet';
 
 interface InputProps extends TextInputProps {
   label?: string;
@@ -102,7 +107,9 @@ export const Input: React.FC<InputProps> = ({
   );
 };
 
-// Amount input specifically for sats
+// Amount input: the value is always sats, but it can be typed in sats, BTC or fiat
+type EntryUnit = BitcoinUnit | 'FIAT';
+
 interface AmountInputProps {
   value: string;
   onChangeValue: (value: string) => void;
@@ -110,37 +117,66 @@ interface AmountInputProps {
   error?: string;
   maxAmount?: bigint;
   editable?: boolean;
+  // Shows a "Max" action, e.g. to fill in the largest amount that fits after fees
+  onMaxPress?: () => void;
+  isMaxLoading?: boolean;
 }
 
 export const AmountInput: React.FC<AmountInputProps> = ({
   value,
   onChangeValue,
-  label = 'Amount',
+  label: labelProp,
   error,
   maxAmount,
   editable = true,
+  onMaxPress,
+  isMaxLoading = false,
 }) => {
   const colors = useColors();
+  const { t } = useTranslation();
+  const label = labelProp ?? t('amount.label');
   const btcFiatPrice = useWalletStore((s) => s.btcFiatPrice);
   const fiatCurrency = useWalletStore((s) => s.settings.fiatCurrency);
+  const isFiatPriceStale = useWalletStore((s) => s.isFiatPriceStale);
   const bitcoinUnit = useWalletStore((s) => s.settings.bitcoinUnit);
-  const isBtc = bitcoinUnit === 'BTC';
+  const primaryCurrency = useWalletStore((s) => s.settings.primaryCurrency);
+  const fiatDecimals = fiatFractionDigits(fiatCurrency);
+  // Whole-sat entry is labelled ₿ under BIP-177, sats otherwise
+  const integerUnit: EntryUnit = bitcoinUnit === 'BIP177' ? 'BIP177' : 'SATS';
+  const isIntegerUnit = (u: EntryUnit) => u === 'SATS' || u === 'BIP177';
+
+  const [entryUnit, setEntryUnit] = useState<EntryUnit>(
+    primaryCurrency === 'fiat' && btcFiatPrice != null ? 'FIAT' : bitcoinUnit
+  );
+  // Fiat entry needs a price; without one fall back to the bitcoin unit
+  const unit: EntryUnit = entryUnit === 'FIAT' && btcFiatPrice == null ? bitcoinUnit : entryUnit;
+
+  const toSats = (text: string, from: EntryUnit): bigint => {
+    if (from === 'FIAT') return fiatDisplayToSats(text, btcFiatPrice);
+    if (from === 'BTC') return btcDisplayToSats(text);
+    return BigInt(text || '0');
+  };
+
+  const toDisplay = (sats: bigint, to: EntryUnit): string => {
+    if (sats === 0n) return '';
+    if (to === 'FIAT' && btcFiatPrice != null) {
+      return ((Number(sats) / 100_000_000) * btcFiatPrice).toFixed(fiatDecimals);
+    }
+    if (to === 'BTC') return satsToBtc(sats);
+    return sats.toString();
+  };
 
-  // Local display value for BTC mode (decimal string the user edits)
-  const [btcDisplay, setBtcDisplay] = useState('');
+  // Local display value for BTC and fiat entry (decimal string the user edits)
+  const [decimalDisplay, setDecimalDisplay] = useState(() => toDisplay(BigInt(value || '0'), unit));
 
-  // Sync btcDisplay when value (sats) changes externally (e.g. reset to '')
+  // Sync the decimal display when value (sats) changes externally (e.g. reset to '' or "Use max")
   const satsValue = BigInt(value || '0');
   const prevSatsRef = React.useRef(satsValue);
   if (satsValue !== prevSatsRef.current) {
     prevSatsRef.current = satsValue;
-    if (isBtc) {
-      const expected = satsValue === 0n ? '' : satsToBtc(satsValue);
-      // Only update if the external sats don't match what user typed
-      const currentSats = btcDisplayToSats(btcDisplay);
-      if (currentSats !== satsValue) {
-        setBtcDisplay(expected);
-      }
+    // Only update if the external sats don't match what user typed
+    if (!isIntegerUnit(unit) && toSats(decimalDisplay, unit) !== satsValue) {
+      setDecimalDisplay(toDisplay(satsValue, unit));
     }
   }
 
@@ -149,31 +185,44 @@ export const AmountInput: React.FC<AmountInputProps> = ({
     onChangeValue(numericValue);
   };
 
-  const handleChangeBtc = (text: string) => {
-    // Allow digits and one decimal point
-    const cleaned = text.replace(/[^0-9.]/g, '');
+  const handleChangeDecimal = (text: string) => {
+    // Allow digits and one decimal point; a locale decimal comma counts as the point
+    const cleaned = text.replace(/,/g, '.').replace(/[^0-9.]/g, '');
     // Prevent multiple dots
     const parts = cleaned.split('.');
     const sanitized = parts.length > 2
       ? parts[0] + '.' + parts.slice(1).join('')
       : cleaned;
-    // Limit to 8 decimal places
+    // Limit to 8 decimal places for BTC, the currency's minor unit for fiat
+    const maxDecimals = unit === 'FIAT' ? fiatDecimals : 8;
     const [whole, frac] = sanitized.split('.');
     const limited = frac !== undefined
-      ? whole + '.' + frac.slice(0, 8)
+      ? (maxDecimals > 0 ? whole + '.' + frac.slice(0, maxDecimals) : whole)
       : sanitized;
 
-    setBtcDisplay(limited);
-    const sats = btcDisplayToSats(limited);
+    setDecimalDisplay(limited);
+    const sats = toSats(limited, unit);
     onChangeValue(sats === 0n ? '' : sats.toString());
   };
 
-  const displayValue = isBtc ? btcDisplay : value;
-  const unitLabel = isBtc ? 'BTC' : 'sats';
+  const handleCycleUnit = () => {
+    const units: EntryUnit[] = btcFiatPrice != null ? [integerUnit, 'BTC', 'FIAT'] : [integerUnit, 'BTC'];
+    const next = units[(units.indexOf(unit) + 1) % units.length];
+    setEntryUnit(next);
+    setDecimalDisplay(toDisplay(satsValue, next));
+  };
+
+  const displayValue = isIntegerUnit(unit) ? value : decimalDisplay;
+  const unitLabel = unit === 'FIAT' ? fiatCurrency : unit === 'BTC' ? 'BTC' : unit === 'BIP177' ? '₿' : 'sats';
 
-  const fiatText = btcFiatPrice != null && satsValue > 0n
-    ? formatFiat(satsValue, btcFiatPrice, fiatCurrency)
-    : null;
+  // Fiat entry shows the exact sats that will be used; bitcoin entry shows the fiat equivalent
+  const hintText = unit === 'FIAT'
+    ? satsValue > 0n
+      ? t('amount.rounded', { amount: formatAmountStr(satsValue, integerUnit === 'BIP177' ? 'BIP177' : 'SATS') })
+      : null
+    : btcFiatPrice != null && satsValue > 0n
+      ? formatFiat(satsValue, btcFiatPrice, fiatCurrency)
+      : null;
 
   const maxFormatted = maxAmount !== undefined
     ? formatAmount(maxAmount, bitcoinUnit)
@@ -195,28 +244,60 @@ export const AmountInput: React.FC<AmountInputProps> = ({
             { color: editable ? colors.text.primary : colors.text.muted }
           ]}
           value={displayValue}
-          onChangeText={isBtc ? handleChangeBtc : handleChangeSats}
-          keyboardType={isBtc ? 'decimal-pad' : 'numeric'}
+          onChangeText={isIntegerUnit(unit) ? handleChangeSats : handleChangeDecimal}
+          keyboardType={isIntegerUnit(unit) ? 'numeric' : 'decimal-pad'}
           placeholder="0"
           placeholderTextColor={colors.text.muted}
           selectionColor={colors.gold.pure}
           editable={editable}
         />
-        <Text variant="titleLarge" color={colors.text.secondary}>
-          {unitLabel}
-        </Text>
+        <TouchableOpacity
+          style={styles.unitToggle}
+          onPress={handleCycleUnit}
+          disabled={!editable}
+          accessibilityRole="button"
+          accessibilityLabel={t('amount.unitHint', { unit: unitLabel })}
+        >
+          <Text variant="titleLarge" color={colors.text.secondary}>
+            {unitLabel}
+          </Text>
+          {editable && <Ionicons name="swap-vertical" size={16} color={colors.text.muted} />}
+        </TouchableOpacity>
       </View>
 
-      {fiatText && (
+      {hintText && (
         <Text variant="bodySmall" color={colors.text.muted} style={styles.fiatHint}>
-          {fiatText}
+          {hintText}
+          {isFiatPriceStale && (
+            <Text variant="bodySmall" color={colors.status.warning}>{t('payment.staleRate')}</Text>
+          )}
         </Text>
       )}
 
-      {maxFormatted && (
-        <Text variant="bodySmall" color={colors.text.muted} style={styles.hint}>
-          Max: {maxFormatted.value} {maxFormatted.unit}
-        </Text>
+      {(maxFormatted || onMaxPress) && (
+        <View style={styles.maxRow}>
+          {maxFormatted ? (
+            <Text variant="bodySmall" color={colors.text.muted}>
+              {t('amount.max', { amount: `${maxFormatted.value} ${maxFormatted.unit}` })}
+            </Text>
+          ) : <View />}
+          {onMaxPress && (
+            isMaxLoading ? (
+              <ActivityIndicator size="small" color={colors.gold.pure} />
+            ) : (
+              <TouchableOpacity
+                onPress={onMaxPress}
+                disabled={!editable}
+                accessibilityRole="button"
+                accessibilityLabel={t('amount.useMaxLabel')}
+              >
+                <Text variant="labelMedium" color={editable ? colors.gold.pure : colors.text.muted}>
+                  {t('amount.useMax')}
+                </Text>
+              </TouchableOpacity>
+            )
+          )}
+        </View>
       )}
 
       {error && (
@@ -228,6 +309,13 @@ export const AmountInput: React.FC<AmountInputProps> = ({
   );
 };
 
+function fiatDisplayToSats(fiatStr: string, btcFiatPrice: number | null): bigint {
+  if (btcFiatPrice == null || !fiatStr || fiatStr === '.') return 0n;
+  const num = parseFloat(fiatStr);
+  if (Number.isNaN(num) || num <= 0) return 0n;
+  return BigInt(Math.round((num / btcFiatPrice) * 100_000_000));
+}
+
 function btcDisplayToSats(btcStr: string): bigint {
   if (!btcStr || btcStr === '.' || btcStr === '0.') return 0n;
   const num = parseFloat(btcStr);
@@ -260,6 +348,12 @@ const styles = StyleSheet.create({
   hint: {
     marginTop: spacing.xs,
   },
+  maxRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: spacing.xs,
+  },
   amountContainer: {
     flexDirection: 'row',
     alignItems: 'baseline',
@@ -271,6 +365,11 @@ const styles = StyleSheet.create({
     minWidth: 80,
     marginRight: spacing.sm,
   },
+  unitToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xxs,
+  },
   fiatHint: {
     textAlign: 'center',
     marginTop: -spacing.sm,
@@ -8,8 +8,9 @@ import React from 'react';
 import { Text as RNText, TextStyle, StyleSheet, StyleProp } from 'react-native';
 import { typography } from '@/theme';
 import { useColors } from '@/contexts';
-import { formatAmount, formatFiat } from '@/utils/format';
+import { formatAmount, formatAmountStr, formatFiat } from '@/utils/format';
 import { useWalletStore } from '@/stores/walletStore';
+import { useTranslation } from '@/hooks';
 import type { BitcoinUnit } from '@/types/wallet';
 
 type TextVariant = keyof typeof typography;
@@ -69,8 +70,14 @@ export const Amount: React.FC<AmountProps> = ({
 }) => {
   const colors = useColors();
   const storeBitcoinUnit = useWalletStore((state) => state.settings.bitcoinUnit);
+  const primaryCurrency = useWalletStore((state) => state.settings.primaryCurrency);
+  const btcFiatPrice = useWalletStore((state) => state.btcFiatPrice);
+  const fiatCurrency = useWalletStore((state) => state.settings.fiatCurrency);
   const displayCurrency = currency ?? storeBitcoinUnit;
-  const formatted = formatAmount(sats, displayCurrency);
+  // An explicit `currency` always shows bitcoin
+  const formatted = !currency && primaryCurrency === 'fiat' && btcFiatPrice != null
+    ? { value: formatFiat(sats, btcFiatPrice, fiatCurrency), unit: '' }
+    : formatAmount(sats, displayCurrency);
   const amountColor = color || colors.text.primary;
 
   const getVariant = (): TextVariant => {
@@ -84,7 +91,7 @@ export const Amount: React.FC<AmountProps> = ({
   return (
     <RNText style={[typography[getVariant()], { color: amountColor }, style]}>
       {formatted.value}
-      {showUnit && (
+      {showUnit && formatted.unit !== '' && (
         <RNText style={[styles.unit, { color: colors.text.secondary }]}>
           {' '}{formatted.unit}
         </RNText>
@@ -93,7 +100,7 @@ export const Amount: React.FC<AmountProps> = ({
   );
 };
 
-// Fiat equivalent display component
+// Secondary amount line: the fiat equivalent, or the bitcoin amount when fiat is primary
 interface FiatAmountProps {
   sats: bigint;
   style?: StyleProp<TextStyle>;
@@ -104,11 +111,18 @@ export const FiatAmount: React.FC<FiatAmountProps> = ({ sats, style, color }) =>
   const colors = useColors();
   const btcFiatPrice = useWalletStore((s) => s.btcFiatPrice);
   const fiatCurrency = useWalletStore((s) => s.settings.fiatCurrency);
+  const isStale = useWalletStore((s) => s.isFiatPriceStale);
+  const { t } = useTranslation();
+  const primaryCurrency = useWalletStore((s) => s.settings.primaryCurrency);
+  const bitcoinUnit = useWalletStore((s) => s.settings.bitcoinUnit);
   if (btcFiatPrice == null) return null;
-  const formatted = formatFiat(sats, btcFiatPrice, fiatCurrency);
+  const formatted = primaryCurrency === 'fiat'
+    ? formatAmountStr(sats, bitcoinUnit)
+    : formatFiat(sats, btcFiatPrice, fiatCurrency);
   return (
     <RNText style={[typography.bodySmall, { color: color || colors.text.muted, alignSelf: 'stretch' }, style]}>
       {formatted}
+      {isStale && <RNText style={{ color: colors.status.warning }}>{t('payment.staleRate')}</RNText>}
     </RNText>
   );
 };
@@ -2,6 +2,7 @@
  * Balance Card Component
  * 
  * Displays the wallet balance with a clean, modern design.
+ * Tapping the balance swaps the primary display currency app-wide.
  */
 
 import React from 'react';
@@ -10,8 +11,9 @@ import { Ionicons } from '@expo/vector-icons';
 import { Text, Amount, FiatAmount } from '@/components/ui';
 import { layout, spacing } from '@/theme';
 import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
 import type { Balance } from '@/types/wallet';
-import { formatAmountStr } from '@/utils/format';
+import { formatAmountStr, formatTokenAmount } from '@/utils/format';
 import { useWalletStore } from '@/stores/walletStore';
 
 interface BalanceCardProps {
@@ -26,17 +28,22 @@ export const BalanceCard: React.FC<BalanceCardProps> = ({
   isLoading = false,
 }) => {
   const colors = useColors();
+  const { t } = useTranslation();
   const bitcoinUnit = useWalletStore((state) => state.settings.bitcoinUnit);
+  const primaryCurrency = useWalletStore((state) => state.settings.primaryCurrency);
+  const btcFiatPrice = useWalletStore((state) => state.btcFiatPrice);
+  const updateSettings = useWalletStore((state) => state.updateSettings);
   const lightning = balance?.lightning ?? 0n;
   const totalBalance = lightning;
   const formattedLightning = formatAmountStr(lightning, bitcoinUnit);
+  const tokens = Object.values(balance?.tokenBalances ?? {});
 
   return (
     <View style={[styles.container, { backgroundColor: colors.background.secondary }]}>
       {/* Balance label */}
       <View style={styles.labelRow}>
         <Text variant="labelMedium" color={colors.text.secondary}>
-          Total Balance
+          {t('balance.total')}
         </Text>
         {onRefresh && (
           <TouchableOpacity onPress={onRefresh} disabled={isLoading}>
@@ -51,10 +58,17 @@ export const BalanceCard: React.FC<BalanceCardProps> = ({
       </View>
 
       {/* Main balance */}
-      <View style={styles.balanceContainer}>
+      <TouchableOpacity
+        style={styles.balanceContainer}
+        onPress={() => updateSettings({ primaryCurrency: primaryCurrency === 'fiat' ? 'bitcoin' : 'fiat' })}
+        disabled={btcFiatPrice == null}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityHint={t('balance.switchCurrencyHint')}
+      >
         <Amount sats={totalBalance} size="lg" color={colors.text.primary} />
         <FiatAmount sats={totalBalance} />
-      </View>
+      </TouchableOpacity>
 
       {/* Breakdown */}
       <View style={[styles.breakdown, { borderTopColor: colors.border.subtle }]}>
@@ -73,6 +87,23 @@ export const BalanceCard: React.FC<BalanceCardProps> = ({
         </View>
       </View>
 
+      {/* Token balances (Spark assets) */}
+      {tokens.map((token) => (
+        <View key={token.identifier} style={styles.tokenRow}>
+          <View style={[styles.iconContainer, { backgroundColor: colors.background.tertiary }]}>
+            <Ionicons name="ellipse" size={14} color={colors.text.secondary} />
+          </View>
+          <View style={styles.tokenInfo}>
+            <Text variant="labelSmall" color={colors.text.muted} numberOfLines={1}>
+              {token.name}
+            </Text>
+            <Text variant="titleSmall" color={colors.text.primary}>
+              {formatTokenAmount(token.balance, token.decimals, token.ticker)}
+            </Text>
+          </View>
+        </View>
+      ))}
+
     </View>
   );
 };
@@ -112,6 +143,15 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  tokenRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingTop: spacing.sm,
+  },
+  tokenInfo: {
+    flex: 1,
+  },
   divider: {
     width: 1,
     height: 40,
@@ -4,6 +4,7 @@ import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { Text, FiatAmount } from '@/components/ui';
 import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
 import { spacing } from '@/theme';
 import { formatAmount } from '@/utils/format';
 import type { BitcoinUnit, LightningPayment } from '@/types/wallet';
@@ -52,6 +53,7 @@ export const IncomingPaymentOverlay: React.FC<IncomingPaymentOverlayProps> = ({
   onDismiss,
 }) => {
   const colors = useColors();
+  const { t } = useTranslation();
   const styles = useMemo(() => createStyles(colors), [colors]);
   const onDismissRef = useRef(onDismiss);
 
@@ -77,14 +79,14 @@ export const IncomingPaymentOverlay: React.FC<IncomingPaymentOverlayProps> = ({
       onPress={onDismiss}
       activeOpacity={1}
       accessibilityRole="button"
-      accessibilityLabel="Dismiss payment received message"
+      accessibilityLabel={t('incoming.dismissLabel')}
     >
       <View style={styles.card}>
         <View style={styles.icon}>
           <Ionicons name="checkmark" size={42} color={colors.status.success} />
         </View>
         <Text variant="headlineSmall" color={colors.text.primary}>
-          Payment received
+          {t('incoming.title')}
         </Text>
         <Text variant="amountMedium" color={colors.status.success}>
           +{amount.value}
@@ -94,7 +96,7 @@ export const IncomingPaymentOverlay: React.FC<IncomingPaymentOverlayProps> = ({
         </Text>
         <FiatAmount sats={payment.amountSats} style={{ textAlign: 'center' }} />
         <Text variant="bodySmall" color={colors.text.muted}>
-          Tap anywhere to dismiss
+          {t('incoming.dismissHint')}
         </Text>
       </View>
     </TouchableOpacity>
@@ -17,6 +17,7 @@ import * as Haptics from 'expo-haptics';
 import { Ionicons } from '@expo/vector-icons';
 import { Text } from '@/components/ui';
 import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
 import { spacing, layout } from '@/theme';
 
 interface QRDisplayProps {
@@ -33,6 +34,7 @@ export const QRDisplay: React.FC<QRDisplayProps> = ({
   onCopy,
 }) => {
   const colors = useColors();
+  const { t } = useTranslation();
   const [copied, setCopied] = useState(false);
   const styles = useMemo(
     () =>
@@ -122,7 +124,7 @@ export const QRDisplay: React.FC<QRDisplayProps> = ({
     try {
       await Share.share({
         message: value,
-        title: 'Lightning Invoice',
+        title: t('qr.shareTitle'),
       });
     } catch (error) {
       console.error('Share failed:', error);
@@ -183,7 +185,7 @@ export const QRDisplay: React.FC<QRDisplayProps> = ({
             color={copied ? colors.status.success : colors.gold.pure}
           />
           <Text variant="labelMedium" color={copied ? colors.status.success : colors.gold.pure}>
-            {copied ? 'Copied!' : 'Copy'}
+            {copied ? t('common.copied') : t('common.copy')}
           </Text>
         </TouchableOpacity>
 
@@ -192,7 +194,7 @@ export const QRDisplay: React.FC<QRDisplayProps> = ({
         <TouchableOpacity style={styles.actionButton} onPress={handleShare}>
           <Ionicons name="share-outline" size={20} color={colors.gold.pure} />
           <Text variant="labelMedium" color={colors.gold.pure}>
-            Share
+            {t('common.share')}
           </Text>
         </TouchableOpacity>
       </View>
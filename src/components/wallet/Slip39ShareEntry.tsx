@@ -0,0 +1,192 @@
+/**
+ * SLIP-39 Share Entry Component
+ *
+ * One field per share phrase, each checked as it is typed, plus a summary of
+ * whether the shares entered so far reach the backup's threshold.
+ */
+
+import React, { useMemo } from 'react';
+import { View, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Text } from '@/components/ui';
+import { layout, spacing, typography } from '@/theme';
+import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
+import {
+  SLIP39_MAX_SHARES,
+  checkSlip39Shares,
+  parseSlip39Share,
+  splitSlip39Words,
+} from '@/utils/slip39';
+import type { Slip39SetIssue, Slip39ShareIssue } from '@/utils/slip39';
+import type { Translate } from '@/i18n';
+
+interface Slip39ShareEntryProps {
+  values: string[];
+  onChangeValues: (values: string[]) => void;
+}
+
+function describeShareIssue(issue: Slip39ShareIssue, wordCount: number, t: Translate): string {
+  switch (issue.type) {
+    case 'missing':
+      return t('shares.incomplete');
+    case 'unknown_word':
+      return t('shares.unknownWord', { index: issue.index + 1, word: issue.word });
+    case 'length':
+      return t('shares.length', { count: wordCount });
+    case 'checksum':
+      return t('shares.checksum');
+    case 'padding':
+      return t('shares.invalid');
+  }
+}
+
+function describeShareSetIssue(issue: Slip39SetIssue, t: Translate): string {
+  switch (issue.type) {
+    case 'mismatch':
+      return t('shares.mismatch');
+    case 'groups':
+      return t('shares.groups');
+    case 'duplicate':
+      return t('shares.duplicate');
+    case 'need_more':
+      return issue.threshold === 0
+        ? t('shares.enterFirst')
+        : t('shares.needMore', { have: issue.have, count: issue.threshold });
+  }
+}
+
+export const Slip39ShareEntry: React.FC<Slip39ShareEntryProps> = ({ values, onChangeValues }) => {
+  const colors = useColors();
+  const { t } = useTranslation();
+
+  const entries = useMemo(
+    () =>
+      values.map((value) => {
+        const words = splitSlip39Words(value);
+        return { words, parsed: words.length > 0 ? parseSlip39Share(words) : null };
+      }),
+    [values]
+  );
+  const setIssue = useMemo(
+    () => checkSlip39Shares(entries.flatMap((entry) => (entry.parsed && 'share' in entry.parsed ? [entry.parsed.share] : []))),
+    [entries]
+  );
+
+  const handleChange = (index: number, text: string) => {
+    const next = [...values];
+    next[index] = text;
+    onChangeValues(next);
+  };
+
+  const handleRemove = (index: number) => {
+    onChangeValues(values.filter((_, i) => i !== index));
+  };
+
+  return (
+    <View style={styles.container}>
+      {entries.map(({ words, parsed }, index) => {
+        const issue = parsed && 'issue' in parsed ? parsed.issue : null;
+        const isValid = parsed != null && 'share' in parsed;
+        return (
+          <View key={index} style={styles.field}>
+            <View style={styles.fieldHeader}>
+              <Text variant="labelMedium" color={colors.text.secondary}>
+                {t('shares.shareLabel', { index: index + 1 })}
+              </Text>
+              {isValid && <Ionicons name="checkmark-circle" size={18} color={colors.status.success} />}
+              <View style={styles.spacer} />
+              {values.length > 1 && (
+                <TouchableOpacity onPress={() => handleRemove(index)} accessibilityLabel={t('shares.remove')}>
+                  <Ionicons name="close" size={18} color={colors.text.muted} />
+                </TouchableOpacity>
+              )}
+            </View>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: colors.background.secondary,
+                  borderColor: issue ? colors.status.error : isValid ? colors.gold.pure : colors.border.subtle,
+                  color: colors.text.primary,
+                },
+              ]}
+              value={values[index]}
+              onChangeText={(text) => handleChange(index, text)}
+              placeholder={t('shares.placeholder')}
+              placeholderTextColor={colors.text.muted}
+              autoCapitalize="none"
+              autoCorrect={false}
+              spellCheck={false}
+              multiline
+            />
+            {issue && (
+              <Text variant="bodySmall" color={colors.status.error}>
+                {describeShareIssue(issue, words.length, t)}
+              </Text>
+            )}
+          </View>
+        );
+      })}
+
+      {values.length < SLIP39_MAX_SHARES && (
+        <TouchableOpacity style={styles.addButton} onPress={() => onChangeValues([...values, ''])}>
+          <Ionicons name="add-circle-outline" size={20} color={colors.gold.pure} />
+          <Text variant="labelMedium" color={colors.gold.pure}>
+            {t('shares.add')}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      <View style={styles.status}>
+        <Ionicons
+          name={setIssue ? 'information-circle' : 'checkmark-circle'}
+          size={20}
+          color={!setIssue ? colors.status.success : setIssue.type === 'need_more' ? colors.accent.cyan : colors.status.error}
+        />
+        <Text variant="bodySmall" color={colors.text.secondary} style={styles.statusText}>
+          {setIssue ? describeShareSetIssue(setIssue, t) : t('shares.quorum')}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.md,
+  },
+  field: {
+    gap: spacing.xs,
+  },
+  fieldHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  spacer: {
+    flex: 1,
+  },
+  input: {
+    minHeight: 96,
+    borderRadius: layout.radius.md,
+    borderWidth: 1,
+    padding: spacing.md,
+    ...typography.bodyMedium,
+    textAlignVertical: 'top',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    alignSelf: 'flex-start',
+  },
+  status: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  statusText: {
+    flex: 1,
+  },
+});
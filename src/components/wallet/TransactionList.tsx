@@ -14,13 +14,14 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { formatDistanceToNow } from 'date-fns';
 import { Text, FiatAmount } from '@/components/ui';
 import { layout, spacing } from '@/theme';
 import { useColors } from '@/contexts';
-import { useWalletStore } from '@/stores/walletStore';
+import { usePaymentLabelStore, PAYMENT_CATEGORY_LABELS } from '@/stores/paymentLabelStore';
 import type { LightningPayment } from '@/types/wallet';
-import { formatSignedAmount } from '@/utils/format';
+import { usePrimaryAmount, useTranslation } from '@/hooks';
+import { formatTokenValue } from '@/utils/format';
+import { formatTimeAgo } from '@/utils/locale';
 
 interface TransactionListProps {
   transactions: LightningPayment[];
@@ -30,6 +31,7 @@ interface TransactionListProps {
   isLoading?: boolean;
   isLoadingMore?: boolean;
   hasMore?: boolean;
+  header?: React.ReactElement;
 }
 
 export const TransactionList: React.FC<TransactionListProps> = ({
@@ -40,8 +42,10 @@ export const TransactionList: React.FC<TransactionListProps> = ({
   isLoading = false,
   isLoadingMore = false,
   hasMore = false,
+  header,
 }) => {
   const colors = useColors();
+  const { t } = useTranslation();
   const [isRefreshing, setIsRefreshing] = useState(false);
 
   const handleRefresh = async () => {
@@ -56,7 +60,7 @@ export const TransactionList: React.FC<TransactionListProps> = ({
       return (
         <View style={styles.footer}>
           <ActivityIndicator size="small" color={colors.gold.pure} />
-          <Text variant="bodySmall" color={colors.text.muted}>Loading more...</Text>
+          <Text variant="bodySmall" color={colors.text.muted}>{t('history.loadingMore')}</Text>
         </View>
       );
     }
@@ -76,10 +80,10 @@ export const TransactionList: React.FC<TransactionListProps> = ({
         <Ionicons name="flash-outline" size={48} color={colors.text.muted} />
       </View>
       <Text variant="titleMedium" color={colors.text.secondary} align="center">
-        No transactions yet
+        {t('history.empty')}
       </Text>
       <Text variant="bodyMedium" color={colors.text.muted} align="center">
-        Your Lightning payments will appear here
+        {t('history.emptyHint')}
       </Text>
     </View>
   );
@@ -89,6 +93,7 @@ export const TransactionList: React.FC<TransactionListProps> = ({
       data={transactions}
       renderItem={renderTransaction}
       keyExtractor={(item) => item.id}
+      ListHeaderComponent={header}
       ListEmptyComponent={renderEmpty}
       refreshControl={
         onRefresh ? (
@@ -122,11 +127,19 @@ const TransactionItem: React.FC<TransactionItemProps> = ({
   onPress,
 }) => {
   const colors = useColors();
+  const { t } = useTranslation();
   const isReceive = transaction.type === 'receive';
   const isPending = transaction.status === 'pending';
   const isFailed = transaction.status === 'failed';
-  const bitcoinUnit = useWalletStore((state) => state.settings.bitcoinUnit);
-  const formattedAmount = formatSignedAmount(transaction.amountSats, isReceive ? '+' : '-', bitcoinUnit);
+  const primaryAmount = usePrimaryAmount();
+  const label = usePaymentLabelStore((state) => state.labels[transaction.id]);
+  const sign = isReceive ? '+' : '-';
+  const formattedAmount = transaction.token
+    ? {
+      value: `${sign}${formatTokenValue(transaction.token.amount, transaction.token.decimals)}`,
+      unit: transaction.token.ticker,
+    }
+    : primaryAmount.format(transaction.amountSats, sign);
 
   const getStatusColor = (): string => {
     if (isFailed) return colors.status.error;
@@ -141,7 +154,7 @@ const TransactionItem: React.FC<TransactionItemProps> = ({
   };
 
   const formatTime = (date: Date): string => {
-    return formatDistanceToNow(date, { addSuffix: true });
+    return formatTimeAgo(date);
   };
 
   // Helper for opacity since colors are hex
@@ -166,23 +179,35 @@ const TransactionItem: React.FC<TransactionItemProps> = ({
       {/* Details */}
       <View style={styles.transactionDetails}>
         <Text variant="titleSmall" numberOfLines={1} color={colors.text.primary}>
-          {transaction.description || (isReceive ? 'Received' : 'Sent')}
+          {label?.counterparty || transaction.description || t(isReceive ? 'payment.received' : 'payment.sent')}
         </Text>
+        {label?.note && (
+          <Text variant="bodySmall" numberOfLines={1} color={colors.text.secondary}>
+            {label.note}
+          </Text>
+        )}
         <View style={styles.transactionMeta}>
           <Text variant="bodySmall" color={colors.text.muted}>
             {formatTime(transaction.timestamp)}
           </Text>
+          {label?.category && (
+            <View style={[styles.statusBadge, { backgroundColor: colors.background.tertiary }]}>
+              <Text variant="labelSmall" color={colors.text.secondary}>
+                {t(PAYMENT_CATEGORY_LABELS[label.category])}
+              </Text>
+            </View>
+          )}
           {isPending && (
             <View style={[styles.statusBadge, { backgroundColor: withOpacity(colors.status.warning, '20') }]}>
               <Text variant="labelSmall" color={colors.status.warning}>
-                Pending
+                {t('payment.status.pending')}
               </Text>
             </View>
           )}
           {isFailed && (
             <View style={[styles.statusBadge, { backgroundColor: withOpacity(colors.status.error, '20') }]}>
               <Text variant="labelSmall" color={colors.status.error}>
-                Failed
+                {t('payment.status.failed')}
               </Text>
             </View>
           )}
@@ -197,10 +222,14 @@ const TransactionItem: React.FC<TransactionItemProps> = ({
         >
           {formattedAmount.value}
         </Text>
-        <Text variant="labelSmall" color={colors.text.muted}>
-          {formattedAmount.unit}
-        </Text>
-        <FiatAmount sats={transaction.amountSats} style={{ textAlign: 'right' }} />
+        {formattedAmount.unit !== '' && (
+          <Text variant="labelSmall" color={colors.text.muted}>
+            {formattedAmount.unit}
+          </Text>
+        )}
+        {!transaction.token && (
+          <FiatAmount sats={transaction.amountSats} style={{ textAlign: 'right' }} />
+        )}
       </View>
     </TouchableOpacity>
   );
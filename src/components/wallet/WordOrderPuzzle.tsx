@@ -0,0 +1,188 @@
+/**
+ * Word Order Puzzle Component
+ *
+ * Asks for the words at a few positions of the recovery phrase, picked in
+ * order from a shuffled set. Used when a new wallet's backup is verified and
+ * for the periodic backup check from Settings.
+ */
+
+import React, { useMemo } from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { Text } from '@/components/ui';
+import { layout, spacing } from '@/theme';
+import { useColors } from '@/contexts';
+import { useTranslation } from '@/hooks';
+import type { MnemonicPuzzle } from '@/utils/mnemonic';
+
+interface WordOrderPuzzleProps {
+  puzzle: MnemonicPuzzle;
+  selectedIds: number[];
+  onChangeSelectedIds: (ids: number[]) => void;
+}
+
+/**
+ * Words picked so far, in the order they were picked
+ */
+export const puzzleSelectedWords = (puzzle: MnemonicPuzzle, selectedIds: number[]): string[] =>
+  selectedIds.map((id) => puzzle.options.find((option) => option.id === id)?.word ?? '');
+
+export const WordOrderPuzzle: React.FC<WordOrderPuzzleProps> = ({ puzzle, selectedIds, onChangeSelectedIds }) => {
+  const colors = useColors();
+  const { t } = useTranslation();
+  const selectedWords = puzzleSelectedWords(puzzle, selectedIds);
+
+  const handleOptionSelect = (optionId: number) => {
+    if (selectedIds.includes(optionId)) {
+      onChangeSelectedIds(selectedIds.filter((id) => id !== optionId));
+    } else if (selectedIds.length < puzzle.indices.length) {
+      onChangeSelectedIds([...selectedIds, optionId]);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+  };
+
+  const styles = useMemo(
+    () =>
+      StyleSheet.create({
+        sectionLabel: { marginBottom: spacing.sm },
+        promptsContainer: { marginBottom: spacing.lg },
+        promptItem: { marginBottom: spacing.sm },
+        promptRow: {
+          flexDirection: 'row',
+          alignItems: 'center',
+          gap: spacing.sm,
+        },
+        promptNumber: {
+          width: 40,
+          height: 40,
+          borderRadius: 20,
+          backgroundColor: colors.gold.glow,
+          alignItems: 'center',
+          justifyContent: 'center',
+        },
+        promptSlot: {
+          flex: 1,
+          height: 48,
+          backgroundColor: colors.background.secondary,
+          borderRadius: layout.radius.md,
+          borderWidth: 1.5,
+          borderColor: colors.border.subtle,
+          borderStyle: 'dashed',
+          alignItems: 'center',
+          justifyContent: 'center',
+        },
+        promptSlotFilled: {
+          borderColor: colors.gold.pure,
+          borderStyle: 'solid',
+          backgroundColor: colors.gold.glow,
+        },
+        optionsSection: { marginBottom: spacing.lg },
+        optionsContainer: {
+          flexDirection: 'row',
+          flexWrap: 'wrap',
+          gap: spacing.sm,
+        },
+        optionButton: {
+          paddingHorizontal: spacing.md,
+          paddingVertical: spacing.sm,
+          backgroundColor: colors.background.secondary,
+          borderRadius: layout.radius.md,
+          borderWidth: 1.5,
+          borderColor: colors.border.subtle,
+          position: 'relative',
+          minWidth: 80,
+          alignItems: 'center',
+        },
+        optionButtonSelected: {
+          borderColor: colors.gold.pure,
+          backgroundColor: colors.gold.glow,
+        },
+        selectedBadge: {
+          position: 'absolute',
+          top: -10,
+          right: -10,
+          width: 22,
+          height: 22,
+          borderRadius: 11,
+          backgroundColor: colors.gold.pure,
+          alignItems: 'center',
+          justifyContent: 'center',
+        },
+      }),
+    [colors]
+  );
+
+  return (
+    <View>
+      {/* Word prompts - what we're asking for */}
+      <View style={styles.promptsContainer}>
+        <Text variant="labelMedium" color={colors.text.muted} style={styles.sectionLabel}>
+          {t('backup.promptLabel')}
+        </Text>
+        {puzzle.indices.map((index, i) => (
+          <View key={index} style={styles.promptItem}>
+            <View style={styles.promptRow}>
+              <View style={styles.promptNumber}>
+                <Text variant="titleSmall" color={colors.gold.pure}>
+                  #{index + 1}
+                </Text>
+              </View>
+              <View style={[
+                styles.promptSlot,
+                selectedWords[i] && styles.promptSlotFilled,
+              ]}>
+                {selectedWords[i] ? (
+                  <Text variant="titleMedium" color={colors.gold.pure}>
+                    {selectedWords[i]}
+                  </Text>
+                ) : (
+                  <Text variant="bodyMedium" color={colors.text.muted}>
+                    {t('backup.slotPlaceholder')}
+                  </Text>
+                )}
+              </View>
+            </View>
+          </View>
+        ))}
+      </View>
+
+      {/* Word options to choose from */}
+      <View style={styles.optionsSection}>
+        <Text variant="labelMedium" color={colors.text.muted} style={styles.sectionLabel}>
+          {t('backup.optionsLabel')}
+        </Text>
+        <View style={styles.optionsContainer}>
+          {puzzle.options.map((option) => {
+            const isSelected = selectedIds.includes(option.id);
+            const selectionOrder = selectedIds.indexOf(option.id) + 1;
+            return (
+              <TouchableOpacity
+                key={option.id}
+                style={[
+                  styles.optionButton,
+                  isSelected && styles.optionButtonSelected,
+                ]}
+                onPress={() => handleOptionSelect(option.id)}
+                activeOpacity={0.7}
+              >
+                <Text
+                  variant="titleSmall"
+                  color={isSelected ? colors.gold.pure : colors.text.primary}
+                >
+                  {option.word}
+                </Text>
+                {isSelected && (
+                  <View style={styles.selectedBadge}>
+                    <Text variant="labelSmall" color={colors.background.primary}>
+                      {selectionOrder}
+                    </Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+    </View>
+  );
+};
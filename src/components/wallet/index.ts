@@ -3,3 +3,5 @@ export { TransactionList } from './TransactionList';
 export { QRDisplay } from './QRCode';
 export { IncomingPaymentOverlay } from './IncomingPaymentOverlay';
 
+export { Slip39ShareEntry } from './Slip39ShareEntry';
+export { WordOrderPuzzle, puzzleSelectedWords } from './WordOrderPuzzle';
@@ -1 +1,2 @@
 export { BREEZ_CONFIG } from './breez';
+export { RATE_CONFIG } from './rates';
@@ -0,0 +1,46 @@
+/**
+ * Exchange rate configuration.
+ *
+ * Configure via environment variables (base URLs can point at a local mock server):
+ * - EXPO_PUBLIC_RATE_PROVIDERS=breez,coinspace,mempool,coingecko (priority order)
+ * - EXPO_PUBLIC_RATE_COINSPACE_URL=https://price.coin.space
+ * - EXPO_PUBLIC_RATE_MEMPOOL_URL=https://mempool.space
+ * - EXPO_PUBLIC_RATE_COINGECKO_URL=https://api.coingecko.com
+ * - EXPO_PUBLIC_RATE_HISTORY_PROVIDERS=cryptocompare,coingecko (daily prices, priority order)
+ * - EXPO_PUBLIC_RATE_CRYPTOCOMPARE_URL=https://min-api.cryptocompare.com
+ * - EXPO_PUBLIC_RATE_CACHE_TTL_SECS=60
+ * - EXPO_PUBLIC_RATE_TIMEOUT_MS=8000
+ */
+
+export type RateProviderId = 'breez' | 'coinspace' | 'mempool' | 'coingecko';
+export type PriceHistoryProviderId = 'cryptocompare' | 'coingecko';
+
+const DEFAULT_PROVIDERS: RateProviderId[] = ['breez', 'coinspace', 'mempool', 'coingecko'];
+const DEFAULT_HISTORY_PROVIDERS: PriceHistoryProviderId[] = ['cryptocompare', 'coingecko'];
+
+// Unknown ids are dropped; an empty result falls back to the defaults
+const parseProviders = <T extends string>(value: string | undefined, defaults: T[]): T[] => {
+  if (!value) return defaults;
+  const ids = value
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id): id is T => (defaults as string[]).includes(id));
+  return ids.length > 0 ? ids : defaults;
+};
+
+// Unset, malformed or non-positive values fall back to the default
+const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const RATE_CONFIG = {
+  PROVIDERS: parseProviders(process.env.EXPO_PUBLIC_RATE_PROVIDERS, DEFAULT_PROVIDERS),
+  HISTORY_PROVIDERS: parseProviders(process.env.EXPO_PUBLIC_RATE_HISTORY_PROVIDERS, DEFAULT_HISTORY_PROVIDERS),
+  COINSPACE_URL: process.env.EXPO_PUBLIC_RATE_COINSPACE_URL || 'https://price.coin.space',
+  MEMPOOL_URL: process.env.EXPO_PUBLIC_RATE_MEMPOOL_URL || 'https://mempool.space',
+  COINGECKO_URL: process.env.EXPO_PUBLIC_RATE_COINGECKO_URL || 'https://api.coingecko.com',
+  CRYPTOCOMPARE_URL: process.env.EXPO_PUBLIC_RATE_CRYPTOCOMPARE_URL || 'https://min-api.cryptocompare.com',
+  CACHE_TTL_SECS: parsePositiveInt(process.env.EXPO_PUBLIC_RATE_CACHE_TTL_SECS, 60),
+  TIMEOUT_MS: parsePositiveInt(process.env.EXPO_PUBLIC_RATE_TIMEOUT_MS, 8000),
+};
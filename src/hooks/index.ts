@@ -1 +1,3 @@
 // Hooks — add new hooks here as needed.
+export { usePrimaryAmount } from './usePrimaryAmount';
+export { useTranslation } from './useTranslation';
@@ -0,0 +1,33 @@
+/**
+ * Formats sats in the user's primary display currency.
+ *
+ * Falls back to the bitcoin unit while no fiat price is known, so amounts
+ * never disappear when fiat is primary.
+ */
+
+import { useWalletStore } from '@/stores/walletStore';
+import { formatAmount, formatSignedAmount, formatFiat } from '@/utils/format';
+import type { FormattedAmount } from '@/utils/format';
+
+export function usePrimaryAmount() {
+  const primaryCurrency = useWalletStore((s) => s.settings.primaryCurrency);
+  const bitcoinUnit = useWalletStore((s) => s.settings.bitcoinUnit);
+  const fiatCurrency = useWalletStore((s) => s.settings.fiatCurrency);
+  const btcFiatPrice = useWalletStore((s) => s.btcFiatPrice);
+  const isFiatPrimary = primaryCurrency === 'fiat' && btcFiatPrice != null;
+
+  const format = (sats: bigint, sign?: '+' | '-'): FormattedAmount => {
+    if (isFiatPrimary) {
+      // The currency symbol is part of the value
+      return { value: `${sign ?? ''}${formatFiat(sats, btcFiatPrice, fiatCurrency)}`, unit: '' };
+    }
+    return sign ? formatSignedAmount(sats, sign, bitcoinUnit) : formatAmount(sats, bitcoinUnit);
+  };
+
+  const formatStr = (sats: bigint, sign?: '+' | '-'): string => {
+    const f = format(sats, sign);
+    return f.unit ? `${f.value} ${f.unit}` : f.value;
+  };
+
+  return { isFiatPrimary, format, formatStr };
+}
@@ -0,0 +1,22 @@
+/**
+ * Translates UI strings in the language chosen in settings.
+ *
+ * Components re-render when the language setting changes.
+ */
+
+import { useCallback } from 'react';
+import { useWalletStore } from '@/stores/walletStore';
+import { resolveLanguage, translate } from '@/i18n';
+import type { Translate } from '@/i18n';
+
+export function useTranslation() {
+  const setting = useWalletStore((s) => s.settings.language);
+  const language = resolveLanguage(setting);
+
+  const t = useCallback<Translate>(
+    (key, params) => translate(language, key, params),
+    [language]
+  );
+
+  return { t, language };
+}
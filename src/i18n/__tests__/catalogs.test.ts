@@ -0,0 +1,117 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join, relative } from 'path';
+import ts from 'typescript';
+import { en } from '../en';
+import { es } from '../es';
+import { pt } from '../pt';
+import type { Language, Message, Messages } from '../types';
+
+const TRANSLATIONS: [Language, Messages][] = [['es', es], ['pt', pt]];
+
+const placeholders = (message: Message): string[] => {
+  const forms = typeof message === 'string' ? [message] : Object.values(message);
+  const names = new Set(forms.flatMap((form) => [...(form ?? '').matchAll(/\{(\w+)\}/g)].map((m) => m[1])));
+  return [...names].sort();
+};
+
+describe('English catalog', () => {
+  it.each(Object.entries(en).filter(([, message]) => typeof message !== 'string'))(
+    '%s counts with {count} in every form',
+    (_key, message) => {
+      for (const form of Object.values(message as Exclude<Message, string>)) {
+        expect(form).toContain('{count}');
+      }
+    }
+  );
+});
+
+describe.each(TRANSLATIONS)('%s catalog', (language, catalog) => {
+  // Forms a language does not define fall back to `other`, e.g. Spanish "many" for a million
+  const forms: string[] = new Intl.PluralRules(language).resolvedOptions().pluralCategories;
+
+  it('has exactly the English keys', () => {
+    expect(Object.keys(catalog).sort()).toEqual(Object.keys(en).sort());
+  });
+
+  it.each(Object.keys(en) as (keyof typeof en)[])('%s matches the English message shape', (key) => {
+    const source = en[key] as Message;
+    const message = catalog[key];
+    expect(typeof message).toBe(typeof source);
+    expect(placeholders(message)).toEqual(placeholders(source));
+    if (typeof message !== 'string') {
+      expect(Object.keys(message)).toContain('other');
+      expect(forms).toEqual(expect.arrayContaining(Object.keys(message)));
+    }
+  });
+});
+
+const ROOT = join(__dirname, '../../..');
+const SCREEN_DIRS = ['app', 'src/components'];
+
+// Props and calls whose text reaches the user
+const TEXT_PROPS = new Set(['title', 'label', 'placeholder', 'message', 'hint', 'accessibilityLabel', 'accessibilityHint']);
+// Names and symbols that read the same in every language
+const UNTRANSLATED = new Set(['Starr', 'Lightning']);
+
+const sourceFiles = (dir: string): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return entry.name === '__tests__' ? [] : sourceFiles(path);
+    return entry.name.endsWith('.tsx') ? [path] : [];
+  });
+
+const isWording = (text: string): boolean => /\p{L}/u.test(text) && !UNTRANSLATED.has(text.trim());
+
+// String literals an expression evaluates to, through conditionals and fallbacks
+const literals = (node: ts.Expression): ts.Node[] => {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateExpression(node)) return [node];
+  if (ts.isParenthesizedExpression(node)) return literals(node.expression);
+  if (ts.isConditionalExpression(node)) return [...literals(node.whenTrue), ...literals(node.whenFalse)];
+  if (ts.isBinaryExpression(node) && node.operatorToken.kind !== ts.SyntaxKind.EqualsEqualsEqualsToken) {
+    return [...literals(node.left), ...literals(node.right)];
+  }
+  return [];
+};
+
+const literalText = (node: ts.Node): string =>
+  ts.isTemplateExpression(node) ? node.head.text + node.templateSpans.map((span) => span.literal.text).join('') : (node as ts.StringLiteral).text;
+
+const untranslatedText = (file: string): string[] => {
+  const source = ts.createSourceFile(file, readFileSync(file, 'utf8'), ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+  const found: string[] = [];
+  const report = (node: ts.Node, text: string) => {
+    const { line } = source.getLineAndCharacterOfPosition(node.getStart());
+    found.push(`${relative(ROOT, file)}:${line + 1} ${JSON.stringify(text.trim())}`);
+  };
+  const reportLiterals = (node: ts.Expression) => {
+    for (const literal of literals(node)) {
+      if (isWording(literalText(literal))) report(literal, literalText(literal));
+    }
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isJsxText(node) && isWording(node.text)) {
+      report(node, node.text);
+    } else if (ts.isJsxExpression(node) && node.expression && !ts.isJsxAttribute(node.parent)) {
+      reportLiterals(node.expression);
+    } else if (ts.isJsxAttribute(node) && TEXT_PROPS.has(node.name.getText()) && node.initializer) {
+      const value = node.initializer;
+      if (ts.isStringLiteral(value)) {
+        if (isWording(value.text)) report(value, value.text);
+      } else if (ts.isJsxExpression(value) && value.expression) {
+        reportLiterals(value.expression);
+      }
+    } else if (ts.isCallExpression(node) && node.expression.getText() === 'Alert.alert') {
+      node.arguments.slice(0, 2).forEach(reportLiterals);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+  return found;
+};
+
+describe('screens and components', () => {
+  it.each(SCREEN_DIRS)('%s shows no text outside the catalogs', (dir) => {
+    expect(sourceFiles(join(ROOT, dir)).flatMap(untranslatedText)).toEqual([]);
+  });
+});
@@ -0,0 +1,675 @@
+/**
+ * English (source catalog)
+ *
+ * Keys are grouped by screen. Other catalogs must define every key here.
+ */
+
+import type { Message } from './types';
+
+export const en = {
+  // Common
+  'common.cancel': 'Cancel',
+  'common.error': 'Error',
+  'common.ok': 'OK',
+  'common.goBack': 'Go Back',
+  'common.close': 'Close',
+  'common.done': 'Done',
+  'common.back': 'Back',
+  'common.continue': 'Continue',
+  'common.save': 'Save',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.copied': 'Copied',
+  'common.satsAmount': '{amount} sats',
+  'common.satsRange': '{min} – {max} sats',
+  'common.viewPayment': 'View payment',
+  'common.add': 'Add',
+  'common.sharingUnavailable': 'Sharing is not available on this device',
+  'common.retry': 'Retry',
+  'common.share': 'Share',
+  'common.copy': 'Copy',
+
+  // Tabs
+  'tabs.wallet': 'Wallet',
+  'tabs.history': 'History',
+  'tabs.settings': 'Settings',
+
+  // Onboarding: welcome
+  'onboarding.tagline': 'Lightning Wallet',
+  'onboarding.instantTitle': 'Instant Payments',
+  'onboarding.instantBody': 'Send and receive Bitcoin in seconds',
+  'onboarding.custodyTitle': 'Non-Custodial',
+  'onboarding.custodyBody': 'You control your keys, your coins',
+  'onboarding.securityTitle': 'Biometric Security',
+  'onboarding.securityBody': 'Protected by native device authentication',
+  'onboarding.create': 'Create New Wallet',
+  'onboarding.import': 'Import Existing Wallet',
+  'onboarding.restore': 'Restore from backup file',
+  'onboarding.terms': 'By continuing, you agree to our Terms of Service',
+
+  // Onboarding: create
+  'create.generating': 'Generating your wallet...',
+  'create.title': 'Your Recovery Phrase',
+  'create.subtitle': 'Write down these {count} words in order. This is the ONLY way to recover your wallet.',
+  'create.warningTitle': 'Important Security Warning',
+  'create.warningBody': 'Never share your recovery phrase. Anyone with these words can steal your Bitcoin.',
+  'create.revealPrompt': 'Tap "Reveal" to show your recovery phrase',
+  'create.revealHint': 'Make sure no one is watching your screen',
+  'create.ackLoss': 'I understand that if I lose this phrase, I lose access to my Bitcoin',
+  'create.ackStorage': 'I will store this phrase securely and never share it',
+  'create.reveal': 'Reveal Recovery Phrase',
+  'create.written': "I've Written It Down",
+  'create.passphraseToggle': 'Add a passphrase (advanced)',
+  'create.useShares': 'Back up as SLIP-39 shares instead',
+
+  // Onboarding: backup verification
+  'backup.title': 'Verify Your Backup',
+  'backup.subtitle': "Select the correct words in the order shown to verify you've saved your recovery phrase",
+  'backup.promptLabel': 'Select these words in order:',
+  'backup.slotPlaceholder': 'Tap a word below...',
+  'backup.optionsLabel': 'Choose from these words:',
+  'backup.hint': 'Tap words in the correct order. Tap again to deselect.',
+  'backup.verify': 'Verify & Continue',
+  'backup.incorrect': 'Incorrect words or wrong order. Please check your recovery phrase and try again.',
+  'backup.saveFailed': 'Failed to save wallet. Please try again.',
+  'backup.passphraseLabel': 'Re-enter your passphrase',
+  'backup.passphraseIncorrect': 'That is not the passphrase you chose. Please try again.',
+
+  // Onboarding: import
+  'import.title': 'Import Wallet',
+  'import.subtitle': 'Enter your {count}-word recovery phrase to restore your wallet',
+  'import.missingWords': 'Please fill in all {count} words',
+  'import.wordCount': 'Number of words',
+  'import.unknownWord': 'Word {index} ("{word}") is not in the BIP39 word list. Check its spelling.',
+  'import.checksum': 'Every word is valid, but the checksum does not match. A word is probably wrong or out of order; the last word carries the checksum, so check it first.',
+  'import.failed': 'Failed to import wallet. Please try again.',
+  'import.tip': 'Tip: You can paste your entire recovery phrase and it will automatically fill in all fields',
+  'import.submit': 'Import Wallet',
+  'import.passphraseToggle': 'This wallet uses a passphrase',
+  'import.emptyTitle': 'No funds found',
+  'import.emptyBody': 'This recovery phrase and passphrase opened a wallet with no balance or payment history. A mistyped passphrase opens a different, empty wallet.',
+  'import.reenterPassphrase': 'Re-enter passphrase',
+  'import.openAnyway': 'Open anyway',
+  'import.modePhrase': 'Recovery phrase',
+  'import.modeShares': 'SLIP-39 shares',
+  'import.sharesSubtitle': 'Enter enough SLIP-39 shares to rebuild your recovery phrase',
+  'import.sharesCompatibility': 'Only shares created in this app restore here. Shares from a Trezor or another SLIP-39 wallet rebuild a different wallet.',
+
+  // SLIP-39 shares
+  'shares.title': 'Split into shares',
+  'shares.subtitle': 'Split your recovery phrase into SLIP-39 shares held by different people. No single share can restore the wallet.',
+  'shares.shareCount': 'Number of shares',
+  'shares.threshold': 'Shares needed to restore',
+  'shares.setupHint': 'Any {threshold} of the {count} shares will restore the wallet. Losing more than {count} minus {threshold} shares loses the wallet.',
+  'shares.create': 'Create shares',
+  'shares.createFailed': 'Could not create the shares. Please try again.',
+  'shares.recordTitle': 'Share {index} of {count}',
+  'shares.recordSubtitle': 'Write this share down and hand it to its holder. Any {threshold} of the {count} shares restore the wallet.',
+  'shares.recorded': 'I have written down share {index} and checked every word',
+  'shares.next': 'Next share',
+  'shares.toVerify': 'Verify shares',
+  'shares.verifyTitle': 'Verify your shares',
+  'shares.verifySubtitle': { one: 'Enter {count} share from your written copies to prove they restore the wallet', other: 'Enter {count} shares from your written copies to prove they restore the wallet' },
+  'shares.verifyFailed': 'These shares do not rebuild this wallet\'s recovery phrase. Check them against what you wrote down.',
+  'shares.shareLabel': 'Share {index}',
+  'shares.placeholder': 'Type or paste the share\'s words',
+  'shares.add': 'Add another share',
+  'shares.remove': 'Remove share',
+  'shares.incomplete': 'This share is incomplete.',
+  'shares.unknownWord': 'Word {index} ("{word}") is not in the SLIP-39 word list. Check its spelling.',
+  'shares.length': { one: 'A share has 20, 23, 27, 30 or 33 words; this one has {count}.', other: 'A share has 20, 23, 27, 30 or 33 words; this one has {count}.' },
+  'shares.checksum': 'This share\'s checksum does not match. A word is probably wrong or out of order.',
+  'shares.invalid': 'This is not a valid SLIP-39 share.',
+  'shares.mismatch': 'These shares come from different backups.',
+  'shares.groups': 'Multi-group SLIP-39 backups are not supported.',
+  'shares.duplicate': 'The same share was entered twice.',
+  'shares.enterFirst': 'Enter a share to see how many are needed.',
+  'shares.needMore': { one: '{have} of {count} share entered', other: '{have} of {count} shares entered' },
+  'shares.quorum': 'Enough shares to rebuild the recovery phrase.',
+  'shares.combineFailed': 'These shares do not combine into a valid recovery phrase. One of them is probably wrong.',
+  'recoveryPhrase.title': 'Recovery Phrase',
+  'recoveryPhrase.authPrompt': 'Authenticate to view your recovery phrase',
+  'recoveryPhrase.warning': 'Anyone with these words can take your Bitcoin. Never share them or type them into a website.',
+  'recoveryPhrase.passphrase': 'Passphrase',
+  'recoveryPhrase.passphraseHint': 'This wallet also needs its passphrase to be restored.',
+  'recoveryPhrase.loadFailed': 'Could not read your recovery phrase.',
+  'recoveryPhrase.retry': 'Try Again',
+  'backupCheck.title': 'Backup Check',
+  'backupCheck.subtitle': 'Pick the words from your written backup to confirm it is still complete and readable',
+  'backupCheck.authPrompt': 'Authenticate to check your backup',
+  'backupCheck.check': 'Check Backup',
+  'backupCheck.passed': 'Your backup checks out',
+  'backupCheck.passedHint': { one: "We'll remind you again in {count} day.", other: "We'll remind you again in {count} days." },
+  'backupCheck.done': 'Done',
+  'backupCheck.reminderTitle': 'Check your backup',
+  'backupCheck.reminderNever': "You haven't checked your recovery phrase backup yet.",
+  'backupCheck.reminderStale': 'Last checked {date}. Make sure your backup is still safe.',
+  'shares.compatibility': "These shares hold your recovery phrase's entropy as the SLIP-39 master secret. Restore them only in this app: a Trezor or another SLIP-39 wallet would open a different, empty wallet from them.",
+
+  // Backup file
+  'backupFile.title': 'Backup file',
+  'backupFile.contents': 'The backup holds your settings, contacts, payment labels, invoice history, fiat rates and LNURL logins, encrypted with a password. Payments themselves are restored from the network by your recovery phrase.',
+  'backupFile.password': 'Backup password',
+  'backupFile.confirmPassword': 'Confirm backup password',
+  'backupFile.passwordHint': 'There is no way to recover this password. Without it the backup cannot be opened.',
+  'backupFile.passwordTooShort': { one: 'Use at least {count} character', other: 'Use at least {count} characters' },
+  'backupFile.passwordMismatch': 'Passwords do not match',
+  'backupFile.includeSeed': 'Include recovery phrase',
+  'backupFile.includeSeedHint': 'Restores the whole wallet from the file alone. Anyone with the file and the password can then spend your bitcoin.',
+  'backupFile.authPrompt': 'Authenticate to back up your recovery phrase',
+  'backupFile.export': 'Export backup',
+  'backupFile.encrypting': 'Encrypting...',
+  'backupFile.exported': 'Backup exported. Keep it somewhere other than this phone.',
+  'backupFile.exportFailed': 'Could not export the backup. Please try again.',
+  'backupFile.restoreTitle': 'Restore backup',
+  'backupFile.restoreSubtitle': 'Choose a Starr backup file and enter its password',
+  'backupFile.chooseFile': 'Choose backup file',
+  'backupFile.fileSelected': 'Backup file selected. Tap to choose another.',
+  'backupFile.readFailed': 'Could not read that file.',
+  'backupFile.restore': 'Restore',
+  'backupFile.decrypting': 'Decrypting...',
+  'backupFile.restoreFailed': 'Could not restore the backup. Please try again.',
+  'backupFile.restoredTitle': 'Data restored',
+  'backupFile.restoredNoSeed': 'This backup does not include the recovery phrase. Enter it next to open your wallet.',
+  'backupFile.notBackup': 'This is not a Starr backup file.',
+  'backupFile.newerVersion': 'This backup was made by a newer version of Starr. Update the app to restore it.',
+  'backupFile.wrongPassword': 'Wrong password, or the backup file is damaged.',
+
+  // Passphrase
+  'passphrase.label': 'Passphrase',
+  'passphrase.confirmLabel': 'Confirm passphrase',
+  'passphrase.hint': 'An extra word only you know. Without it, your recovery phrase restores a different, empty wallet.',
+  'passphrase.mismatch': 'Passphrases do not match',
+  'passphrase.show': 'Show',
+  'passphrase.hide': 'Hide',
+
+  // Keychain
+  'keychain.prompt': 'Authenticate to access your wallet',
+  'keychain.promptContinue': 'Authenticate to continue',
+  'keychain.noBiometrics': 'Please set up biometrics (fingerprint or face) in your device settings to secure your wallet.',
+  'keychain.noHardware': 'This device does not support biometric authentication.',
+  'keychain.biometricsChanged': 'Your biometric data has changed. Please remove and re-add biometrics in device settings.',
+  'keychain.authFailed': 'Authentication failed. Please try again.',
+  'keychain.passphraseMissing': 'Your wallet passphrase is missing from secure storage. Restore the wallet with your recovery phrase and passphrase.',
+
+  // Send
+  'send.type.bolt11_invoice': 'Lightning invoice',
+  'send.type.bitcoin_address': 'Bitcoin address',
+  'send.type.silent_payment_address': 'Silent payment address',
+  'send.type.bip21': 'Payment URI (BIP21)',
+  'send.type.spark_address': 'Spark address',
+  'send.type.spark_invoice': 'Spark invoice',
+  'send.type.lnurl_pay': 'LNURL-Pay',
+  'send.type.lnurl_withdraw': 'LNURL-Withdraw',
+  'send.type.bolt12_offer': 'BOLT12 offer',
+  'send.type.lnurl_auth': 'LNURL-Auth login',
+  'send.type.unknown': 'Unknown',
+  'send.type.lightning_address': 'Lightning address',
+  'send.title': 'Send Payment',
+  'send.requestLabel': 'Payment request',
+  'send.requestPlaceholder': 'Invoice, address, or LNURL...',
+  'send.scan': 'Scan QR Code',
+  'send.chooseContact': 'Choose Contact',
+  'send.paying': 'Paying {name}',
+  'send.detecting': 'Detecting type...',
+  'send.type': 'Type',
+  'send.to': 'To',
+  'send.description': 'Description',
+  'send.amount': 'Amount',
+  'send.expiry': 'Expiry',
+  'send.expiryMinutes': '{count} min',
+  'send.label': 'Label',
+  'send.message': 'Message',
+  'send.requestedAmount': 'Requested amount',
+  'send.payWith': 'Pay with',
+  'send.estimatingFee': 'Estimating fee...',
+  'send.methodFee': 'Fee {amount}',
+  'send.enterAmountForFee': 'Enter amount for fee',
+  'send.feeUnavailable': 'Fee unavailable',
+  'send.silentPaymentUnsupported': 'Paying silent payment addresses is not supported yet. Ask the recipient for a regular Bitcoin address instead.',
+  'send.token': 'Token',
+  'send.tokenNotHeld': 'Not held in this wallet',
+  'send.requested': 'Requested',
+  'send.address': 'Address',
+  'send.domain': 'Domain',
+  'send.range': 'Range',
+  'send.issuer': 'Issuer',
+  'send.bolt12Unsupported': 'Paying BOLT12 offers is not supported yet. Ask the recipient for a Lightning invoice instead.',
+  'send.loginRequest': 'This is a login request. Continue to review it.',
+  'send.from': 'From',
+  'send.withdrawVoucher': 'This is a withdraw voucher. Continue to claim the funds into your wallet.',
+  'send.amountToSend': 'Amount to send',
+  'send.amountToSendToken': 'Amount to send ({ticker})',
+  'send.available': 'Available: {amount}',
+  'send.max': 'Max',
+  'send.comment': 'Comment (optional)',
+  'send.commentPlaceholder': 'Add a message...',
+  'send.confirmTitle': 'Confirm payment',
+  'send.fee': 'Fee',
+  'send.speed.slow': 'Slow',
+  'send.speed.medium': 'Medium',
+  'send.speed.fast': 'Fast',
+  'send.targetMinutes': '~{count} min',
+  'send.targetHours': '~{count} h',
+  'send.targetDays': { one: '~{count} day', other: '~{count} days' },
+  'send.feesIncluded': 'Sending your whole balance: the fee comes out of it, so the recipient gets the amount above.',
+  'send.send': 'Send',
+  'send.sending': 'Sending...',
+  'send.enterRequest': 'Enter payment request',
+  'send.errorNoRequest': 'Please enter an invoice or address',
+  'send.errorUnrecognized': 'Unrecognized payment request',
+  'send.errorTokenNotHeld': 'This invoice requests a token you do not hold',
+  'send.errorNoAmount': 'Please enter an amount',
+  'send.errorInsufficient': 'Insufficient balance',
+  'send.errorInsufficientWithFee': 'Insufficient balance to cover amount and network fee',
+  'send.sentTitle': 'Payment sent',
+  'send.sentMessage': 'Successfully sent {amount}',
+  'send.saveRecipient': 'Successfully sent {amount}\n\nSave this recipient to your contacts?',
+  'send.notNow': 'Not now',
+
+  // Receive
+  'receive.expired': 'Expired',
+  'receive.expiresIn': { one: 'Expires in {count} minute', other: 'Expires in {count} minutes' },
+  'receive.title': 'Receive Payment',
+  'receive.requests': 'Requests',
+  'receive.mode.unified': 'Unified',
+  'receive.mode.lightning': 'Lightning',
+  'receive.mode.onchain': 'On-chain',
+  'receive.mode.spark': 'Spark',
+  'receive.route.lightning': 'Lightning',
+  'receive.route.spark': 'Spark',
+  'receive.route.onchain': 'on-chain',
+  'receive.unifiedIntro': 'One QR code any wallet can pay: Lightning, Spark or on-chain.',
+  'receive.amountLabel': 'Amount to receive',
+  'receive.labelOptional': 'Label (optional)',
+  'receive.descriptionOptional': 'Description (optional)',
+  'receive.purposePlaceholder': "What's this payment for?",
+  'receive.creating': 'Creating...',
+  'receive.createRequest': 'Create Request',
+  'receive.createInvoice': 'Create Invoice',
+  'receive.sats': 'sats',
+  'receive.paid': 'Paid',
+  'receive.incoming': 'Payment incoming',
+  'receive.receivedVia': 'Received via {route}',
+  'receive.scanAnyWallet': 'Scan with any Bitcoin wallet',
+  'receive.waiting': 'Waiting for payment · Lightning {expiry}',
+  'receive.copyRequest': 'Copy request',
+  'receive.newRequest': 'Create New Request',
+  'receive.onchainIntro': 'Receive Bitcoin to your on-chain address. Funds may take time to confirm and will appear after confirmation.',
+  'receive.gettingAddress': 'Getting address...',
+  'receive.retry': 'Retry',
+  'receive.scanBitcoin': 'Scan to send Bitcoin',
+  'receive.copyAddress': 'Copy address',
+  'receive.sparkIntro': 'Receive from other Spark users. Your Spark address is static and can be shared.',
+  'receive.gettingSparkAddress': 'Getting Spark address...',
+  'receive.scanSpark': 'Scan to send via Spark',
+  'receive.copySparkAddress': 'Copy Spark address',
+  'receive.lightningIntro': 'Create a Lightning invoice to receive Bitcoin',
+  'receive.invoiceCreated': 'Invoice Created',
+  'receive.scanToPay': 'Scan to pay',
+  'receive.newInvoice': 'Create New Invoice',
+  'receive.unclaimedTitle': 'Unclaimed on-chain deposits',
+  'receive.unclaimedEmpty': 'No unclaimed deposits. When you receive Bitcoin to your on-chain address and auto-claim fails (e.g. low fee), they will appear here so you can claim manually.',
+  'receive.amount': 'Amount',
+  'receive.claimFee': 'Claim fee',
+  'receive.claim': 'Claim',
+  'receive.claiming': 'Claiming...',
+  'receive.claimTitle': 'Claim deposit',
+  'receive.claimAmount': 'Amount: {amount}',
+  'receive.claimAmountFee': 'Amount: {amount}\nFee: {fee}',
+  'receive.claimed': 'Deposit claimed',
+  'receive.claimedMessage': 'The funds have been added to your balance.',
+  'receive.claimFailed': 'Claim failed',
+  'receive.claimFailedMessage': 'Could not claim deposit. Try again later.',
+  'receive.requestCopied': 'Payment request copied to clipboard.',
+  'receive.addressCopied': 'Address copied to clipboard.',
+  'receive.sparkAddressCopied': 'Spark address copied to clipboard.',
+  'receive.addressFailed': 'Failed to get address',
+  'receive.sparkAddressFailed': 'Failed to get Spark address',
+  'receive.invalidAmount': 'Please enter a valid amount',
+  'receive.requestFailed': 'Failed to create payment request',
+  'receive.invoiceFailed': 'Failed to create invoice',
+
+  // Settings
+  'settings.title': 'Settings',
+  'settings.display': 'Display',
+  'settings.bitcoinUnit': 'Bitcoin Unit',
+  'settings.unit.BTC': 'Bitcoin',
+  'settings.unit.BTC.description': 'Display as BTC (0.00100000)',
+  'settings.unit.SATS': 'Satoshis',
+  'settings.unit.SATS.description': 'Display as sats (100,000)',
+  'settings.unit.BIP177': 'Bitcoin (BIP-177)',
+  'settings.unit.BIP177.description': 'Display as whole ₿ units (₿100,000)',
+  'settings.fiatCurrency': 'Fiat Currency',
+  'settings.searchCurrencies': 'Search currencies',
+  'settings.loadingCurrencies': 'Loading currencies...',
+  'settings.noMatchingCurrencies': 'No matching currencies',
+  'settings.language': 'Language',
+  'settings.language.system': 'System',
+  'settings.language.systemDescription': 'Follow device language',
+  'settings.theme': 'Theme',
+  'settings.selectTheme': 'Select Theme',
+  'settings.theme.dark': 'Dark',
+  'settings.theme.dark.description': 'Deep space dark theme',
+  'settings.theme.light': 'Light',
+  'settings.theme.light.description': 'Clean and bright theme',
+  'settings.theme.system': 'System',
+  'settings.theme.system.description': 'Follow device settings',
+  'settings.contacts': 'Contacts',
+  'settings.addressBook': 'Address book',
+  'settings.noContacts': 'No contacts yet',
+  'settings.contactCount': { one: '{count} contact', other: '{count} contacts' },
+  'settings.security': 'Security',
+  'settings.viewPhrase': 'View recovery phrase',
+  'settings.viewPhraseSubtitle': 'Requires authentication',
+  'settings.backupCheck': 'Backup health check',
+  'settings.backupCheckNever': 'Never checked',
+  'settings.backupCheckLast': 'Last checked {date}',
+  'settings.backup': 'Backup',
+  'settings.encryptedBackup': 'Encrypted backup file',
+  'settings.encryptedBackupSubtitle': 'Settings, contacts, labels and invoices',
+  'settings.connectedServices': 'Connected services',
+  'settings.lnurlLogins': 'LNURL logins',
+  'settings.noServices': 'No services yet',
+  'settings.serviceCount': { one: '{count} service', other: '{count} services' },
+  'settings.lnurlHint': 'Services you have logged in to with this wallet. Each service sees a different key.',
+  'settings.lnurlEmpty': 'Scan an LNURL-Auth QR code on a supported service to log in.',
+  'settings.lnurlLast.register': 'Last register {date}',
+  'settings.lnurlLast.login': 'Last login {date}',
+  'settings.lnurlLast.link': 'Last link {date}',
+  'settings.lnurlLast.auth': 'Last auth {date}',
+  'settings.forgetService': 'Forget service',
+  'settings.forgetServiceBody': 'Remove {domain} from your login history? This only forgets it on this device; logging in again will use the same identity.',
+  'settings.forget': 'Forget',
+  'settings.deposits': 'Deposits',
+  'settings.maxClaimFee': 'Max fee for auto-claim',
+  'settings.maxClaimFeeHint': 'Maximum fee the wallet will pay to automatically claim on-chain deposits. Takes effect after next unlock.',
+  'settings.fee.conservative': 'Conservative',
+  'settings.fee.conservative.description': '1 sats/vbyte (default)',
+  'settings.fee.conservative.subtitle': 'Conservative (1 sats/vbyte)',
+  'settings.fee.network_recommended': 'Network recommended',
+  'settings.fee.network_recommended.description': 'Fastest fee + leeway',
+  'settings.fee.network_recommended.subtitle': 'Network recommended (+{leeway} sats/vbyte)',
+  'settings.fee.rate': 'Custom rate',
+  'settings.fee.rate.description': 'Max sats per vbyte',
+  'settings.fee.rate.subtitle': 'Custom rate ({rate} sats/vbyte)',
+  'settings.fee.fixed': 'Custom max sats',
+  'settings.fee.fixed.description': 'Max total fee in sats',
+  'settings.fee.fixed.subtitle': 'Custom max ({amount} sats)',
+  'settings.fee.disabled': 'Disabled',
+  'settings.fee.disabled.description': 'No automatic claiming',
+  'settings.leeway': 'Leeway (sats/vbyte)',
+  'settings.satsPerVbyte': 'Sats per vbyte',
+  'settings.maxFeeSats': 'Max fee (sats)',
+  'settings.developer': 'Developer',
+  'settings.about': 'About',
+  'settings.aboutStarr': 'About Starr',
+  'settings.version': 'Version {version}',
+  'settings.aboutBody': 'Version {version}\n\nStarr is a non-custodial Lightning wallet built for simplicity and security.',
+  'settings.careers': 'Careers',
+  'settings.viewOnGithub': 'View on GitHub',
+  'settings.terms': 'Terms of Service',
+  'settings.privacy': 'Privacy Policy',
+  'settings.support': 'Support',
+  'settings.supportSubtitle': 'Get help with Starr',
+  'settings.getSupport': 'Get Support',
+  'settings.supportBody': 'How would you like to get help?',
+  'settings.supportPage': 'Visit Support Page',
+  'settings.emailSupport': 'Email Support',
+  'settings.linkUnsupported': 'Unable to open this link.',
+  'settings.linkFailed': 'Failed to open link.',
+  'settings.dangerZone': 'Danger zone',
+  'settings.deleteWallet': 'Delete Wallet',
+
+  // Payments
+  'payment.received': 'Received',
+  'payment.sent': 'Sent',
+  'payment.status.pending': 'Pending',
+  'payment.status.completed': 'Completed',
+  'payment.status.failed': 'Failed',
+  'category.income': 'Income',
+  'category.shopping': 'Shopping',
+  'category.food': 'Food & drink',
+  'category.bills': 'Bills',
+  'category.travel': 'Travel',
+  'category.transfer': 'Transfer',
+  'category.other': 'Other',
+  'payment.title': 'Payment',
+  'payment.detailsTitle': 'Payment details',
+  'payment.loading': 'Loading payment...',
+  'payment.missingId': 'Missing payment id',
+  'payment.notFound': 'Payment not found',
+  'payment.loadFailed': 'Failed to load payment',
+  'payment.backToHistory': 'Back to History',
+  'payment.valueThen': '{amount} then',
+  'payment.valueNow': ' · {amount} now',
+  'payment.staleRate': ' (stale rate)',
+  'payment.status': 'Status',
+  'payment.date': 'Date',
+  'payment.completed': 'Completed',
+  'payment.fee': 'Fee',
+  'payment.token': 'Token',
+  'payment.paidRequest': 'Paid request',
+  'payment.hash': 'Payment hash',
+  'payment.invoice': 'Invoice',
+  'payment.labels': 'Labels',
+  'payment.from': 'From',
+  'payment.to': 'To',
+  'payment.fromParty': 'From {name}',
+  'payment.toParty': 'To {name}',
+  'payment.counterpartyPlaceholder': 'Who was this with?',
+  'payment.category': 'Category',
+  'payment.note': 'Note',
+  'payment.notePlaceholder': 'Add a note',
+  'payment.labelsHint': 'Add a note, category or counterparty. Labels stay on this device.',
+
+  // History
+  'history.loadingMore': 'Loading more...',
+  'history.empty': 'No transactions yet',
+  'history.emptyHint': 'Your Lightning payments will appear here',
+  'history.title': 'Transaction history',
+  'history.transactionCount': { one: '{count} transaction', other: '{count} transactions' },
+  'history.matchCount': { one: '{count} match', other: '{count} matches' },
+  'history.searchPlaceholder': 'Search notes, amounts, invoices...',
+  'history.filterType': 'Type',
+  'history.filterStatus': 'Status',
+  'history.filterDate': 'Date range',
+  'history.filterCategory': 'Category',
+  'history.all': 'All',
+  'history.allTime': 'All time',
+  'history.last7Days': 'Last 7 days',
+  'history.last30Days': 'Last 30 days',
+
+  // Wallet
+  'balance.total': 'Total Balance',
+  'balance.switchCurrencyHint': 'Switches the primary currency between bitcoin and fiat',
+  'incoming.title': 'Payment received',
+  'incoming.dismissLabel': 'Dismiss payment received message',
+  'incoming.dismissHint': 'Tap anywhere to dismiss',
+
+  // LNURL-Withdraw
+  'withdraw.title': 'Claim Funds',
+  'withdraw.missingRequest': 'Missing withdraw request',
+  'withdraw.notWithdraw': 'This is not an LNURL-Withdraw request',
+  'withdraw.enterAmount': 'Please enter an amount',
+  'withdraw.reading': 'Reading withdraw request...',
+  'withdraw.unrecognized': 'Unrecognized withdraw request',
+  'withdraw.requested': 'Withdrawal requested',
+  'withdraw.received': 'Funds received',
+  'withdraw.pendingHint': '{domain} has not paid yet. The payment will appear in your history once it arrives.',
+  'withdraw.paidBy': 'Paid by {domain}',
+  'withdraw.from': 'From',
+  'withdraw.description': 'Description',
+  'withdraw.amount': 'Amount',
+  'withdraw.range': 'Range',
+  'withdraw.amountLabel': 'Amount to withdraw',
+  'withdraw.confirm': 'Confirm withdrawal',
+  'withdraw.youReceive': 'You receive',
+  'withdraw.claim': 'Claim',
+  'withdraw.claiming': 'Claiming...',
+
+  // LNURL-Auth
+  'lnurlAuth.register.title': 'Register',
+  'lnurlAuth.register.done': 'Registered',
+  'lnurlAuth.register.prompt': '{domain} is asking you to register with your wallet.',
+  'lnurlAuth.login.title': 'Log in',
+  'lnurlAuth.login.done': 'Logged in',
+  'lnurlAuth.login.prompt': '{domain} is asking you to log in with your wallet.',
+  'lnurlAuth.link.title': 'Link wallet',
+  'lnurlAuth.link.button': 'Link',
+  'lnurlAuth.link.done': 'Wallet linked',
+  'lnurlAuth.link.prompt': '{domain} is asking you to link your wallet.',
+  'lnurlAuth.auth.title': 'Authenticate',
+  'lnurlAuth.auth.done': 'Authenticated',
+  'lnurlAuth.auth.prompt': '{domain} is asking you to authenticate with your wallet.',
+  'lnurlAuth.missingRequest': 'Missing login request',
+  'lnurlAuth.notAuth': 'This is not an LNURL-Auth request',
+  'lnurlAuth.unrecognized': 'Unrecognized login request',
+  'lnurlAuth.returnTo': 'You can return to {domain}.',
+  'lnurlAuth.domain': 'Domain',
+  'lnurlAuth.action': 'Action',
+  'lnurlAuth.previous': { one: 'You have authenticated here {count} time before.', other: 'You have authenticated here {count} times before.' },
+  'lnurlAuth.firstTime': 'First time with this service. A new key is derived for this domain only; no funds are moved.',
+
+  // Contacts
+  'contacts.title': 'Contacts',
+  'contacts.searchPlaceholder': 'Search contacts',
+  'contacts.noAddress': 'No address',
+  'contacts.empty': 'No contacts yet',
+  'contacts.noMatches': 'No matching contacts',
+  'contacts.destination.lightning': 'Lightning',
+  'contacts.destination.spark': 'Spark',
+  'contacts.destination.bitcoin': 'Bitcoin',
+  'contact.title': 'Contact',
+  'contact.new': 'New contact',
+  'contact.edit': 'Edit contact',
+  'contact.name': 'Name',
+  'contact.lightningAddress': 'Lightning address',
+  'contact.lightningPlaceholder': 'name@domain.com',
+  'contact.sparkAddress': 'Spark address',
+  'contact.bitcoinAddress': 'Bitcoin address',
+  'contact.notes': 'Notes',
+  'contact.nameRequired': 'Please enter a name',
+  'contact.addressRequired': 'Add at least one address',
+  'contact.deleteTitle': 'Delete contact',
+  'contact.deleteMessage': 'Remove {name} from your contacts?',
+  'contact.notFound': 'Contact not found',
+  'contact.pay': 'Pay',
+  'contact.payments': 'Payments',
+
+  // Export
+  'export.title': 'Export history',
+  'export.dateRange': 'Date range',
+  'export.thisMonth': 'This month',
+  'export.lastMonth': 'Last month',
+  'export.thisYear': 'This year',
+  'export.lastYear': 'Last year',
+  'export.format': 'Format',
+  'export.csvDescription': 'Koinly / CoinTracker columns',
+  'export.jsonDescription': 'Full detail for your own tools',
+  'export.includes': 'Includes completed payments with date, amounts in BTC and sats, {currency} value at the time of each payment, fees, type, payment hash and your notes.',
+  'export.exported': { one: 'Exported {count} transaction.', other: 'Exported {count} transactions.' },
+  'export.failed': 'Export failed',
+  'export.export': 'Export',
+  'export.custom': 'Custom',
+  'export.from': 'From',
+  'export.to': 'To (included)',
+  'export.datePlaceholder': 'YYYY-MM-DD',
+  'export.invalidDate': 'Enter both dates as YYYY-MM-DD',
+  'export.endBeforeStart': 'The end date is before the start date',
+
+  // Payment requests
+  'requests.title': 'Payment requests',
+  'requests.outstanding': 'Outstanding',
+  'requests.status.open': 'Open',
+  'requests.status.paid': 'Paid',
+  'requests.status.expired': 'Expired',
+  'requests.untitled': 'Payment request',
+  'requests.created': '{status} · created {time}',
+  'requests.emptyOutstanding': 'No outstanding requests',
+  'requests.empty': 'No payment requests yet',
+  'requests.detailTitle': 'Payment request',
+  'requests.notFound': 'Request not found',
+  'requests.removeTitle': 'Remove request',
+  'requests.removeMessage': 'This only removes it from this list. An open invoice can still be paid.',
+  'requests.remove': 'Remove',
+  'requests.removeFromList': 'Remove from list',
+  'requests.scanToPay': 'Scan to pay',
+  'requests.status': 'Status',
+  'requests.memo': 'Memo',
+  'requests.createdAt': 'Created',
+  'requests.expires': 'Expires',
+  'requests.paidAt': 'Paid',
+  'requests.invoice': 'Invoice',
+
+  // Home
+  'home.initFailed': 'Failed to Initialize Wallet',
+  'home.createNew': 'Create New Wallet',
+  'home.connecting': 'Connecting to Lightning Network...',
+  'home.send': 'Send',
+  'home.receive': 'Receive',
+  'home.recentActivity': 'Recent Activity',
+  'home.seeAll': 'See All',
+  'home.empty': 'No payments yet',
+  'home.emptyHint': 'Send or receive your first Lightning payment',
+
+  // Delete wallet
+  'deleteWallet.authPrompt': 'Authenticate to delete wallet',
+  'deleteWallet.authFailedTitle': 'Authentication Failed',
+  'deleteWallet.authFailed': 'You must authenticate to delete your wallet.',
+  'deleteWallet.confirmWord': 'DELETE',
+  'deleteWallet.incorrectTitle': 'Incorrect',
+  'deleteWallet.incorrect': 'Please type "{word}" to confirm deletion.',
+  'deleteWallet.failedTitle': 'Deletion Failed',
+  'deleteWallet.failed': 'Failed to delete wallet data. Please try again.',
+  'deleteWallet.deleting': 'Deleting wallet...',
+  'deleteWallet.subtitle': 'This action is permanent and cannot be undone.',
+  'deleteWallet.loseAccessTitle': 'You Will Lose Access Forever',
+  'deleteWallet.loseAccess': "If you haven't backed up your recovery phrase, all your Bitcoin will be permanently lost.",
+  'deleteWallet.checkBackupTitle': 'Check Your Backup First',
+  'deleteWallet.checkBackup': 'Before deleting, make sure you have your recovery phrase written down and stored safely.',
+  'deleteWallet.checklist': 'Before you continue:',
+  'deleteWallet.checkBackedUp': 'I have backed up my recovery phrase',
+  'deleteWallet.checkIrreversible': 'I understand this action is irreversible',
+  'deleteWallet.checkRestore': 'I know I can restore my wallet using my recovery phrase',
+  'deleteWallet.finalTitle': 'Final Warning',
+  'deleteWallet.final': 'Type "{word}" below to confirm you want to permanently delete your wallet.',
+  'deleteWallet.typeToConfirm': 'Type "{word}" to confirm:',
+  'deleteWallet.continue': 'I Understand, Continue',
+  'deleteWallet.deletePermanently': 'Delete Wallet Permanently',
+
+  // Notifications
+  'notifications.title': 'Notifications',
+  'notifications.empty': 'No notifications yet',
+  'notifications.emptyHint': 'Incoming and outgoing payment notifications will appear here.',
+
+  // Lock screen
+  'lock.prompt': 'Unlock Starr Wallet',
+  'lock.locked': 'Wallet is locked',
+  'lock.unlock': 'Unlock',
+
+  // Scanner
+  'scan.title': 'Scan QR Code',
+  'scan.clipboardEmptyTitle': 'Clipboard Empty',
+  'scan.clipboardEmpty': 'No text found in clipboard',
+  'scan.clipboardFailed': 'Failed to read from clipboard',
+  'scan.checkingPermission': 'Checking camera permission...',
+  'scan.permissionTitle': 'Camera Access Required',
+  'scan.permissionBody': 'We need camera access to scan QR codes for Lightning payments',
+  'scan.grantPermission': 'Grant Permission',
+  'scan.hint': 'Point your camera at a Lightning invoice QR code',
+  'scan.paste': 'Paste from Clipboard',
+  'scan.again': 'Scan Again',
+  'scan.torch': 'Flashlight',
+
+  // QR code
+  'qr.shareTitle': 'Lightning Invoice',
+
+  // Amount entry
+  'amount.label': 'Amount',
+  'amount.unitHint': 'Entering amount in {unit}. Tap to switch.',
+  'amount.rounded': '= {amount} (rounded to the nearest sat)',
+  'amount.max': 'Max: {amount}',
+  'amount.useMax': 'Use max',
+  'amount.useMaxLabel': 'Use maximum amount',
+} satisfies Record<string, Message>;
@@ -0,0 +1,673 @@
+/**
+ * Spanish
+ */
+
+import type { Messages } from './types';
+
+export const es: Messages = {
+  // Common
+  'common.cancel': 'Cancelar',
+  'common.error': 'Error',
+  'common.ok': 'Aceptar',
+  'common.goBack': 'Volver',
+  'common.close': 'Cerrar',
+  'common.done': 'Listo',
+  'common.back': 'Atrás',
+  'common.continue': 'Continuar',
+  'common.save': 'Guardar',
+  'common.edit': 'Editar',
+  'common.delete': 'Eliminar',
+  'common.copied': 'Copiado',
+  'common.satsAmount': '{amount} sats',
+  'common.satsRange': '{min} – {max} sats',
+  'common.viewPayment': 'Ver pago',
+  'common.add': 'Añadir',
+  'common.sharingUnavailable': 'No se puede compartir en este dispositivo',
+  'common.retry': 'Reintentar',
+  'common.share': 'Compartir',
+  'common.copy': 'Copiar',
+
+  // Tabs
+  'tabs.wallet': 'Cartera',
+  'tabs.history': 'Historial',
+  'tabs.settings': 'Ajustes',
+
+  // Onboarding: welcome
+  'onboarding.tagline': 'Cartera Lightning',
+  'onboarding.instantTitle': 'Pagos instantáneos',
+  'onboarding.instantBody': 'Envía y recibe bitcoin en segundos',
+  'onboarding.custodyTitle': 'Sin custodia',
+  'onboarding.custodyBody': 'Tú controlas tus claves y tus monedas',
+  'onboarding.securityTitle': 'Seguridad biométrica',
+  'onboarding.securityBody': 'Protegida por la autenticación nativa del dispositivo',
+  'onboarding.create': 'Crear cartera nueva',
+  'onboarding.import': 'Importar cartera existente',
+  'onboarding.restore': 'Restaurar desde archivo de copia',
+  'onboarding.terms': 'Al continuar, aceptas nuestros Términos de servicio',
+
+  // Onboarding: create
+  'create.generating': 'Generando tu cartera...',
+  'create.title': 'Tu frase de recuperación',
+  'create.subtitle': 'Anota estas {count} palabras en orden. Es la ÚNICA forma de recuperar tu cartera.',
+  'create.warningTitle': 'Aviso de seguridad importante',
+  'create.warningBody': 'Nunca compartas tu frase de recuperación. Cualquiera con estas palabras puede robar tus bitcoin.',
+  'create.revealPrompt': 'Toca "Mostrar" para ver tu frase de recuperación',
+  'create.revealHint': 'Asegúrate de que nadie esté mirando tu pantalla',
+  'create.ackLoss': 'Entiendo que si pierdo esta frase, pierdo el acceso a mis bitcoin',
+  'create.ackStorage': 'Guardaré esta frase de forma segura y nunca la compartiré',
+  'create.reveal': 'Mostrar frase de recuperación',
+  'create.written': 'Ya la he anotado',
+  'create.passphraseToggle': 'Añadir una contraseña adicional (avanzado)',
+  'create.useShares': 'Hacer copia en partes SLIP-39',
+
+  // Onboarding: backup verification
+  'backup.title': 'Verifica tu copia de seguridad',
+  'backup.subtitle': 'Selecciona las palabras correctas en el orden indicado para comprobar que has guardado tu frase de recuperación',
+  'backup.promptLabel': 'Selecciona estas palabras en orden:',
+  'backup.slotPlaceholder': 'Toca una palabra abajo...',
+  'backup.optionsLabel': 'Elige entre estas palabras:',
+  'backup.hint': 'Toca las palabras en el orden correcto. Vuelve a tocar para deseleccionar.',
+  'backup.verify': 'Verificar y continuar',
+  'backup.incorrect': 'Palabras incorrectas u orden equivocado. Revisa tu frase de recuperación e inténtalo de nuevo.',
+  'backup.saveFailed': 'No se pudo guardar la cartera. Inténtalo de nuevo.',
+  'backup.passphraseLabel': 'Vuelve a introducir tu contraseña adicional',
+  'backup.passphraseIncorrect': 'Esa no es la contraseña adicional que elegiste. Inténtalo de nuevo.',
+
+  // Onboarding: import
+  'import.title': 'Importar cartera',
+  'import.subtitle': 'Introduce tu frase de recuperación de {count} palabras para restaurar tu cartera',
+  'import.missingWords': 'Completa las {count} palabras',
+  'import.wordCount': 'Número de palabras',
+  'import.unknownWord': 'La palabra {index} ("{word}") no está en la lista de palabras BIP39. Revisa cómo está escrita.',
+  'import.checksum': 'Todas las palabras son válidas, pero la suma de verificación no coincide. Probablemente una palabra es incorrecta o está fuera de orden; la última palabra contiene la suma de verificación, así que revísala primero.',
+  'import.failed': 'No se pudo importar la cartera. Inténtalo de nuevo.',
+  'import.tip': 'Consejo: puedes pegar la frase de recuperación completa y se rellenarán todos los campos automáticamente',
+  'import.submit': 'Importar cartera',
+  'import.passphraseToggle': 'Esta cartera usa una contraseña adicional',
+  'import.emptyTitle': 'No se encontraron fondos',
+  'import.emptyBody': 'Esta frase de recuperación y contraseña adicional abrieron una cartera sin saldo ni historial de pagos. Una contraseña adicional mal escrita abre una cartera distinta y vacía.',
+  'import.reenterPassphrase': 'Volver a introducir la contraseña',
+  'import.openAnyway': 'Abrir de todos modos',
+  'import.modePhrase': 'Frase de recuperación',
+  'import.modeShares': 'Partes SLIP-39',
+  'import.sharesSubtitle': 'Introduce suficientes partes SLIP-39 para reconstruir tu frase de recuperación',
+  'import.sharesCompatibility': 'Aquí solo se restauran las partes creadas en esta app. Las partes de un Trezor u otra cartera SLIP-39 reconstruyen una cartera distinta.',
+
+  // SLIP-39 shares
+  'shares.title': 'Dividir en partes',
+  'shares.subtitle': 'Divide tu frase de recuperación en partes SLIP-39 guardadas por distintas personas. Ninguna parte por sí sola puede restaurar la cartera.',
+  'shares.shareCount': 'Número de partes',
+  'shares.threshold': 'Partes necesarias para restaurar',
+  'shares.setupHint': 'Cualesquiera {threshold} de las {count} partes restauran la cartera. Perder más de {count} menos {threshold} partes supone perder la cartera.',
+  'shares.create': 'Crear partes',
+  'shares.createFailed': 'No se pudieron crear las partes. Inténtalo de nuevo.',
+  'shares.recordTitle': 'Parte {index} de {count}',
+  'shares.recordSubtitle': 'Anota esta parte y entrégala a quien la guardará. Cualesquiera {threshold} de las {count} partes restauran la cartera.',
+  'shares.recorded': 'He anotado la parte {index} y he comprobado cada palabra',
+  'shares.next': 'Siguiente parte',
+  'shares.toVerify': 'Verificar partes',
+  'shares.verifyTitle': 'Verifica tus partes',
+  'shares.verifySubtitle': { one: 'Introduce {count} parte de tus copias escritas para comprobar que restauran la cartera', other: 'Introduce {count} partes de tus copias escritas para comprobar que restauran la cartera' },
+  'shares.verifyFailed': 'Estas partes no reconstruyen la frase de recuperación de esta cartera. Compáralas con lo que anotaste.',
+  'shares.shareLabel': 'Parte {index}',
+  'shares.placeholder': 'Escribe o pega las palabras de la parte',
+  'shares.add': 'Añadir otra parte',
+  'shares.remove': 'Quitar parte',
+  'shares.incomplete': 'Esta parte está incompleta.',
+  'shares.unknownWord': 'La palabra {index} ("{word}") no está en la lista de palabras SLIP-39. Revisa cómo está escrita.',
+  'shares.length': { one: 'Una parte tiene 20, 23, 27, 30 o 33 palabras; esta tiene {count}.', other: 'Una parte tiene 20, 23, 27, 30 o 33 palabras; esta tiene {count}.' },
+  'shares.checksum': 'La suma de verificación de esta parte no coincide. Probablemente una palabra es incorrecta o está fuera de orden.',
+  'shares.invalid': 'Esta no es una parte SLIP-39 válida.',
+  'shares.mismatch': 'Estas partes proceden de copias distintas.',
+  'shares.groups': 'Las copias SLIP-39 de varios grupos no son compatibles.',
+  'shares.duplicate': 'Se ha introducido la misma parte dos veces.',
+  'shares.enterFirst': 'Introduce una parte para ver cuántas se necesitan.',
+  'shares.needMore': { one: '{have} de {count} parte introducida', other: '{have} de {count} partes introducidas' },
+  'shares.quorum': 'Partes suficientes para reconstruir la frase de recuperación.',
+  'shares.combineFailed': 'Estas partes no forman una frase de recuperación válida. Probablemente una de ellas es incorrecta.',
+  'recoveryPhrase.title': 'Frase de recuperación',
+  'recoveryPhrase.authPrompt': 'Autentícate para ver tu frase de recuperación',
+  'recoveryPhrase.warning': 'Cualquiera con estas palabras puede quedarse con tus bitcoin. Nunca las compartas ni las escribas en un sitio web.',
+  'recoveryPhrase.passphrase': 'Contraseña adicional',
+  'recoveryPhrase.passphraseHint': 'Para restaurar esta cartera también necesitas su contraseña adicional.',
+  'recoveryPhrase.loadFailed': 'No se pudo leer tu frase de recuperación.',
+  'recoveryPhrase.retry': 'Reintentar',
+  'backupCheck.title': 'Revisión de la copia',
+  'backupCheck.subtitle': 'Elige las palabras de tu copia escrita para confirmar que sigue completa y legible',
+  'backupCheck.authPrompt': 'Autentícate para revisar tu copia de seguridad',
+  'backupCheck.check': 'Revisar copia',
+  'backupCheck.passed': 'Tu copia de seguridad está bien',
+  'backupCheck.passedHint': { one: 'Te lo volveremos a recordar dentro de {count} día.', other: 'Te lo volveremos a recordar dentro de {count} días.' },
+  'backupCheck.done': 'Listo',
+  'backupCheck.reminderTitle': 'Revisa tu copia de seguridad',
+  'backupCheck.reminderNever': 'Aún no has revisado la copia de tu frase de recuperación.',
+  'backupCheck.reminderStale': 'Última revisión: {date}. Asegúrate de que tu copia sigue a salvo.',
+  'shares.compatibility': 'Estas partes guardan la entropía de tu frase de recuperación como secreto maestro SLIP-39. Restáuralas solo en esta app: un Trezor u otra cartera SLIP-39 abriría con ellas una cartera distinta y vacía.',
+
+  // Backup file
+  'backupFile.title': 'Archivo de copia',
+  'backupFile.contents': 'La copia contiene tus ajustes, contactos, etiquetas de pagos, historial de facturas, tipos de cambio e inicios de sesión LNURL, cifrados con una contraseña. Los pagos en sí se recuperan de la red con tu frase de recuperación.',
+  'backupFile.password': 'Contraseña de la copia',
+  'backupFile.confirmPassword': 'Confirmar contraseña de la copia',
+  'backupFile.passwordHint': 'No hay forma de recuperar esta contraseña. Sin ella no se puede abrir la copia.',
+  'backupFile.passwordTooShort': { one: 'Usa al menos {count} carácter', other: 'Usa al menos {count} caracteres' },
+  'backupFile.passwordMismatch': 'Las contraseñas no coinciden',
+  'backupFile.includeSeed': 'Incluir frase de recuperación',
+  'backupFile.includeSeedHint': 'Restaura toda la cartera solo con el archivo. Cualquiera con el archivo y la contraseña podrá gastar tus bitcoin.',
+  'backupFile.authPrompt': 'Autentícate para hacer copia de tu frase de recuperación',
+  'backupFile.export': 'Exportar copia',
+  'backupFile.encrypting': 'Cifrando...',
+  'backupFile.exported': 'Copia exportada. Guárdala en un lugar distinto de este teléfono.',
+  'backupFile.exportFailed': 'No se pudo exportar la copia. Inténtalo de nuevo.',
+  'backupFile.restoreTitle': 'Restaurar copia',
+  'backupFile.restoreSubtitle': 'Elige un archivo de copia de Starr e introduce su contraseña',
+  'backupFile.chooseFile': 'Elegir archivo de copia',
+  'backupFile.fileSelected': 'Archivo de copia seleccionado. Toca para elegir otro.',
+  'backupFile.readFailed': 'No se pudo leer ese archivo.',
+  'backupFile.restore': 'Restaurar',
+  'backupFile.decrypting': 'Descifrando...',
+  'backupFile.restoreFailed': 'No se pudo restaurar la copia. Inténtalo de nuevo.',
+  'backupFile.restoredTitle': 'Datos restaurados',
+  'backupFile.restoredNoSeed': 'Esta copia no incluye la frase de recuperación. Introdúcela a continuación para abrir tu cartera.',
+  'backupFile.notBackup': 'Este no es un archivo de copia de Starr.',
+  'backupFile.newerVersion': 'Esta copia se hizo con una versión más reciente de Starr. Actualiza la app para restaurarla.',
+  'backupFile.wrongPassword': 'Contraseña incorrecta o archivo de copia dañado.',
+
+  // Passphrase
+  'passphrase.label': 'Contraseña adicional',
+  'passphrase.confirmLabel': 'Confirmar contraseña adicional',
+  'passphrase.hint': 'Una palabra extra que solo tú conoces. Sin ella, tu frase de recuperación restaura una cartera distinta y vacía.',
+  'passphrase.mismatch': 'Las contraseñas no coinciden',
+  'passphrase.show': 'Mostrar',
+  'passphrase.hide': 'Ocultar',
+
+  // Keychain
+  'keychain.prompt': 'Autentícate para acceder a tu cartera',
+  'keychain.promptContinue': 'Autentícate para continuar',
+  'keychain.noBiometrics': 'Configura la biometría (huella o rostro) en los ajustes del dispositivo para proteger tu cartera.',
+  'keychain.noHardware': 'Este dispositivo no admite autenticación biométrica.',
+  'keychain.biometricsChanged': 'Tus datos biométricos han cambiado. Elimina y vuelve a añadir la biometría en los ajustes del dispositivo.',
+  'keychain.authFailed': 'La autenticación ha fallado. Inténtalo de nuevo.',
+  'keychain.passphraseMissing': 'Falta la contraseña adicional de tu cartera en el almacenamiento seguro. Restaura la cartera con tu frase de recuperación y tu contraseña adicional.',
+
+  // Send
+  'send.type.bolt11_invoice': 'Factura Lightning',
+  'send.type.bitcoin_address': 'Dirección de Bitcoin',
+  'send.type.silent_payment_address': 'Dirección de pago silencioso',
+  'send.type.bip21': 'URI de pago (BIP21)',
+  'send.type.spark_address': 'Dirección de Spark',
+  'send.type.spark_invoice': 'Factura de Spark',
+  'send.type.lnurl_pay': 'LNURL-Pay',
+  'send.type.lnurl_withdraw': 'LNURL-Withdraw',
+  'send.type.bolt12_offer': 'Oferta BOLT12',
+  'send.type.lnurl_auth': 'Inicio de sesión LNURL-Auth',
+  'send.type.unknown': 'Desconocido',
+  'send.type.lightning_address': 'Dirección Lightning',
+  'send.title': 'Enviar pago',
+  'send.requestLabel': 'Solicitud de pago',
+  'send.requestPlaceholder': 'Factura, dirección o LNURL...',
+  'send.scan': 'Escanear código QR',
+  'send.chooseContact': 'Elegir contacto',
+  'send.paying': 'Pagando a {name}',
+  'send.detecting': 'Detectando tipo...',
+  'send.type': 'Tipo',
+  'send.to': 'Para',
+  'send.description': 'Descripción',
+  'send.amount': 'Importe',
+  'send.expiry': 'Caducidad',
+  'send.expiryMinutes': '{count} min',
+  'send.label': 'Etiqueta',
+  'send.message': 'Mensaje',
+  'send.requestedAmount': 'Importe solicitado',
+  'send.payWith': 'Pagar con',
+  'send.estimatingFee': 'Calculando comisión...',
+  'send.methodFee': 'Comisión {amount}',
+  'send.enterAmountForFee': 'Introduce un importe para ver la comisión',
+  'send.feeUnavailable': 'Comisión no disponible',
+  'send.silentPaymentUnsupported': 'Todavía no se pueden pagar direcciones de pago silencioso. Pide al destinatario una dirección Bitcoin normal.',
+  'send.token': 'Token',
+  'send.tokenNotHeld': 'No está en esta billetera',
+  'send.requested': 'Solicitado',
+  'send.address': 'Dirección',
+  'send.domain': 'Dominio',
+  'send.range': 'Rango',
+  'send.issuer': 'Emisor',
+  'send.bolt12Unsupported': 'Todavía no se pueden pagar ofertas BOLT12. Pide al destinatario una factura Lightning.',
+  'send.loginRequest': 'Es una solicitud de inicio de sesión. Continúa para revisarla.',
+  'send.from': 'De',
+  'send.withdrawVoucher': 'Es un vale de retiro. Continúa para reclamar los fondos en tu billetera.',
+  'send.amountToSend': 'Importe a enviar',
+  'send.amountToSendToken': 'Importe a enviar ({ticker})',
+  'send.available': 'Disponible: {amount}',
+  'send.max': 'Máx.',
+  'send.comment': 'Comentario (opcional)',
+  'send.commentPlaceholder': 'Añade un mensaje...',
+  'send.confirmTitle': 'Confirmar pago',
+  'send.fee': 'Comisión',
+  'send.speed.slow': 'Lenta',
+  'send.speed.medium': 'Media',
+  'send.speed.fast': 'Rápida',
+  'send.targetMinutes': '~{count} min',
+  'send.targetHours': '~{count} h',
+  'send.targetDays': { one: '~{count} día', other: '~{count} días' },
+  'send.feesIncluded': 'Envías todo tu saldo: la comisión sale de él, así que el destinatario recibe el importe de arriba.',
+  'send.send': 'Enviar',
+  'send.sending': 'Enviando...',
+  'send.enterRequest': 'Introduce una solicitud de pago',
+  'send.errorNoRequest': 'Introduce una factura o dirección',
+  'send.errorUnrecognized': 'Solicitud de pago no reconocida',
+  'send.errorTokenNotHeld': 'Esta factura solicita un token que no tienes',
+  'send.errorNoAmount': 'Introduce un importe',
+  'send.errorInsufficient': 'Saldo insuficiente',
+  'send.errorInsufficientWithFee': 'Saldo insuficiente para cubrir el importe y la comisión de red',
+  'send.sentTitle': 'Pago enviado',
+  'send.sentMessage': 'Se enviaron {amount} correctamente',
+  'send.saveRecipient': 'Se enviaron {amount} correctamente\n\n¿Guardar este destinatario en tus contactos?',
+  'send.notNow': 'Ahora no',
+
+  // Receive
+  'receive.expired': 'Caducada',
+  'receive.expiresIn': { one: 'Caduca en {count} minuto', other: 'Caduca en {count} minutos' },
+  'receive.title': 'Recibir pago',
+  'receive.requests': 'Solicitudes',
+  'receive.mode.unified': 'Unificado',
+  'receive.mode.lightning': 'Lightning',
+  'receive.mode.onchain': 'On-chain',
+  'receive.mode.spark': 'Spark',
+  'receive.route.lightning': 'Lightning',
+  'receive.route.spark': 'Spark',
+  'receive.route.onchain': 'on-chain',
+  'receive.unifiedIntro': 'Un código QR que cualquier billetera puede pagar: Lightning, Spark u on-chain.',
+  'receive.amountLabel': 'Importe a recibir',
+  'receive.labelOptional': 'Etiqueta (opcional)',
+  'receive.descriptionOptional': 'Descripción (opcional)',
+  'receive.purposePlaceholder': '¿Para qué es este pago?',
+  'receive.creating': 'Creando...',
+  'receive.createRequest': 'Crear solicitud',
+  'receive.createInvoice': 'Crear factura',
+  'receive.sats': 'sats',
+  'receive.paid': 'Pagado',
+  'receive.incoming': 'Pago en camino',
+  'receive.receivedVia': 'Recibido por {route}',
+  'receive.scanAnyWallet': 'Escanea con cualquier billetera Bitcoin',
+  'receive.waiting': 'Esperando el pago · Lightning {expiry}',
+  'receive.copyRequest': 'Copiar solicitud',
+  'receive.newRequest': 'Crear nueva solicitud',
+  'receive.onchainIntro': 'Recibe Bitcoin en tu dirección on-chain. Los fondos pueden tardar en confirmarse y aparecerán tras la confirmación.',
+  'receive.gettingAddress': 'Obteniendo dirección...',
+  'receive.retry': 'Reintentar',
+  'receive.scanBitcoin': 'Escanea para enviar Bitcoin',
+  'receive.copyAddress': 'Copiar dirección',
+  'receive.sparkIntro': 'Recibe de otros usuarios de Spark. Tu dirección Spark es fija y se puede compartir.',
+  'receive.gettingSparkAddress': 'Obteniendo dirección Spark...',
+  'receive.scanSpark': 'Escanea para enviar por Spark',
+  'receive.copySparkAddress': 'Copiar dirección Spark',
+  'receive.lightningIntro': 'Crea una factura Lightning para recibir Bitcoin',
+  'receive.invoiceCreated': 'Factura creada',
+  'receive.scanToPay': 'Escanea para pagar',
+  'receive.newInvoice': 'Crear nueva factura',
+  'receive.unclaimedTitle': 'Depósitos on-chain sin reclamar',
+  'receive.unclaimedEmpty': 'No hay depósitos sin reclamar. Si recibes Bitcoin en tu dirección on-chain y la reclamación automática falla (p. ej. por comisión baja), aparecerán aquí para reclamarlos manualmente.',
+  'receive.amount': 'Importe',
+  'receive.claimFee': 'Comisión de reclamación',
+  'receive.claim': 'Reclamar',
+  'receive.claiming': 'Reclamando...',
+  'receive.claimTitle': 'Reclamar depósito',
+  'receive.claimAmount': 'Importe: {amount}',
+  'receive.claimAmountFee': 'Importe: {amount}\nComisión: {fee}',
+  'receive.claimed': 'Depósito reclamado',
+  'receive.claimedMessage': 'Los fondos se han añadido a tu saldo.',
+  'receive.claimFailed': 'La reclamación falló',
+  'receive.claimFailedMessage': 'No se pudo reclamar el depósito. Inténtalo más tarde.',
+  'receive.requestCopied': 'Solicitud de pago copiada al portapapeles.',
+  'receive.addressCopied': 'Dirección copiada al portapapeles.',
+  'receive.sparkAddressCopied': 'Dirección Spark copiada al portapapeles.',
+  'receive.addressFailed': 'No se pudo obtener la dirección',
+  'receive.sparkAddressFailed': 'No se pudo obtener la dirección Spark',
+  'receive.invalidAmount': 'Introduce un importe válido',
+  'receive.requestFailed': 'No se pudo crear la solicitud de pago',
+  'receive.invoiceFailed': 'No se pudo crear la factura',
+
+  // Settings
+  'settings.title': 'Ajustes',
+  'settings.display': 'Visualización',
+  'settings.bitcoinUnit': 'Unidad de bitcoin',
+  'settings.unit.BTC': 'Bitcoin',
+  'settings.unit.BTC.description': 'Mostrar en BTC (0,00100000)',
+  'settings.unit.SATS': 'Satoshis',
+  'settings.unit.SATS.description': 'Mostrar en sats (100.000)',
+  'settings.unit.BIP177': 'Bitcoin (BIP-177)',
+  'settings.unit.BIP177.description': 'Mostrar en unidades enteras de ₿ (₿100.000)',
+  'settings.fiatCurrency': 'Moneda fiat',
+  'settings.searchCurrencies': 'Buscar monedas',
+  'settings.loadingCurrencies': 'Cargando monedas...',
+  'settings.noMatchingCurrencies': 'Ninguna moneda coincide',
+  'settings.language': 'Idioma',
+  'settings.language.system': 'Sistema',
+  'settings.language.systemDescription': 'Usar el idioma del dispositivo',
+  'settings.theme': 'Tema',
+  'settings.selectTheme': 'Seleccionar tema',
+  'settings.theme.dark': 'Oscuro',
+  'settings.theme.dark.description': 'Tema oscuro de espacio profundo',
+  'settings.theme.light': 'Claro',
+  'settings.theme.light.description': 'Tema limpio y luminoso',
+  'settings.theme.system': 'Sistema',
+  'settings.theme.system.description': 'Usar los ajustes del dispositivo',
+  'settings.contacts': 'Contactos',
+  'settings.addressBook': 'Libreta de direcciones',
+  'settings.noContacts': 'Aún no hay contactos',
+  'settings.contactCount': { one: '{count} contacto', other: '{count} contactos' },
+  'settings.security': 'Seguridad',
+  'settings.viewPhrase': 'Ver frase de recuperación',
+  'settings.viewPhraseSubtitle': 'Requiere autenticación',
+  'settings.backupCheck': 'Revisión de la copia',
+  'settings.backupCheckNever': 'Nunca revisada',
+  'settings.backupCheckLast': 'Última revisión: {date}',
+  'settings.backup': 'Copia de seguridad',
+  'settings.encryptedBackup': 'Archivo de copia cifrado',
+  'settings.encryptedBackupSubtitle': 'Ajustes, contactos, etiquetas y facturas',
+  'settings.connectedServices': 'Servicios conectados',
+  'settings.lnurlLogins': 'Inicios de sesión LNURL',
+  'settings.noServices': 'Aún no hay servicios',
+  'settings.serviceCount': { one: '{count} servicio', other: '{count} servicios' },
+  'settings.lnurlHint': 'Servicios en los que has iniciado sesión con esta cartera. Cada servicio ve una clave distinta.',
+  'settings.lnurlEmpty': 'Escanea un código QR LNURL-Auth en un servicio compatible para iniciar sesión.',
+  'settings.lnurlLast.register': 'Último registro: {date}',
+  'settings.lnurlLast.login': 'Último inicio de sesión: {date}',
+  'settings.lnurlLast.link': 'Última vinculación: {date}',
+  'settings.lnurlLast.auth': 'Última autenticación: {date}',
+  'settings.forgetService': 'Olvidar servicio',
+  'settings.forgetServiceBody': '¿Quitar {domain} de tu historial de inicios de sesión? Solo se olvida en este dispositivo; al volver a iniciar sesión se usará la misma identidad.',
+  'settings.forget': 'Olvidar',
+  'settings.deposits': 'Depósitos',
+  'settings.maxClaimFee': 'Comisión máxima de reclamación automática',
+  'settings.maxClaimFeeHint': 'Comisión máxima que pagará la cartera para reclamar automáticamente los depósitos on-chain. Se aplica tras el próximo desbloqueo.',
+  'settings.fee.conservative': 'Conservadora',
+  'settings.fee.conservative.description': '1 sats/vbyte (predeterminada)',
+  'settings.fee.conservative.subtitle': 'Conservadora (1 sats/vbyte)',
+  'settings.fee.network_recommended': 'Recomendada por la red',
+  'settings.fee.network_recommended.description': 'Comisión más rápida + margen',
+  'settings.fee.network_recommended.subtitle': 'Recomendada por la red (+{leeway} sats/vbyte)',
+  'settings.fee.rate': 'Tasa personalizada',
+  'settings.fee.rate.description': 'Máximo de sats por vbyte',
+  'settings.fee.rate.subtitle': 'Tasa personalizada ({rate} sats/vbyte)',
+  'settings.fee.fixed': 'Máximo de sats personalizado',
+  'settings.fee.fixed.description': 'Comisión total máxima en sats',
+  'settings.fee.fixed.subtitle': 'Máximo personalizado ({amount} sats)',
+  'settings.fee.disabled': 'Desactivada',
+  'settings.fee.disabled.description': 'Sin reclamación automática',
+  'settings.leeway': 'Margen (sats/vbyte)',
+  'settings.satsPerVbyte': 'Sats por vbyte',
+  'settings.maxFeeSats': 'Comisión máxima (sats)',
+  'settings.developer': 'Desarrollador',
+  'settings.about': 'Acerca de',
+  'settings.aboutStarr': 'Acerca de Starr',
+  'settings.version': 'Versión {version}',
+  'settings.aboutBody': 'Versión {version}\n\nStarr es una cartera Lightning sin custodia diseñada para ser sencilla y segura.',
+  'settings.careers': 'Empleo',
+  'settings.viewOnGithub': 'Ver en GitHub',
+  'settings.terms': 'Términos de servicio',
+  'settings.privacy': 'Política de privacidad',
+  'settings.support': 'Soporte',
+  'settings.supportSubtitle': 'Obtén ayuda con Starr',
+  'settings.getSupport': 'Obtener soporte',
+  'settings.supportBody': '¿Cómo quieres obtener ayuda?',
+  'settings.supportPage': 'Visitar la página de soporte',
+  'settings.emailSupport': 'Escribir a soporte',
+  'settings.linkUnsupported': 'No se puede abrir este enlace.',
+  'settings.linkFailed': 'No se pudo abrir el enlace.',
+  'settings.dangerZone': 'Zona de peligro',
+  'settings.deleteWallet': 'Eliminar cartera',
+
+  // Payments
+  'payment.received': 'Recibido',
+  'payment.sent': 'Enviado',
+  'payment.status.pending': 'Pendiente',
+  'payment.status.completed': 'Completado',
+  'payment.status.failed': 'Fallido',
+  'category.income': 'Ingresos',
+  'category.shopping': 'Compras',
+  'category.food': 'Comida y bebida',
+  'category.bills': 'Facturas',
+  'category.travel': 'Viajes',
+  'category.transfer': 'Transferencia',
+  'category.other': 'Otros',
+  'payment.title': 'Pago',
+  'payment.detailsTitle': 'Detalles del pago',
+  'payment.loading': 'Cargando pago...',
+  'payment.missingId': 'Falta el id del pago',
+  'payment.notFound': 'Pago no encontrado',
+  'payment.loadFailed': 'No se pudo cargar el pago',
+  'payment.backToHistory': 'Volver al historial',
+  'payment.valueThen': '{amount} entonces',
+  'payment.valueNow': ' · {amount} ahora',
+  'payment.staleRate': ' (tipo desactualizado)',
+  'payment.status': 'Estado',
+  'payment.date': 'Fecha',
+  'payment.completed': 'Completado',
+  'payment.fee': 'Comisión',
+  'payment.token': 'Token',
+  'payment.paidRequest': 'Solicitud pagada',
+  'payment.hash': 'Hash del pago',
+  'payment.invoice': 'Factura',
+  'payment.labels': 'Etiquetas',
+  'payment.from': 'De',
+  'payment.to': 'Para',
+  'payment.fromParty': 'De {name}',
+  'payment.toParty': 'Para {name}',
+  'payment.counterpartyPlaceholder': '¿Con quién fue?',
+  'payment.category': 'Categoría',
+  'payment.note': 'Nota',
+  'payment.notePlaceholder': 'Añade una nota',
+  'payment.labelsHint': 'Añade una nota, categoría o contraparte. Las etiquetas se quedan en este dispositivo.',
+
+  // History
+  'history.loadingMore': 'Cargando más...',
+  'history.empty': 'Aún no hay transacciones',
+  'history.emptyHint': 'Tus pagos Lightning aparecerán aquí',
+  'history.title': 'Historial de transacciones',
+  'history.transactionCount': { one: '{count} transacción', other: '{count} transacciones' },
+  'history.matchCount': { one: '{count} resultado', other: '{count} resultados' },
+  'history.searchPlaceholder': 'Buscar notas, importes, facturas...',
+  'history.filterType': 'Tipo',
+  'history.filterStatus': 'Estado',
+  'history.filterDate': 'Periodo',
+  'history.filterCategory': 'Categoría',
+  'history.all': 'Todos',
+  'history.allTime': 'Todo',
+  'history.last7Days': 'Últimos 7 días',
+  'history.last30Days': 'Últimos 30 días',
+
+  // Wallet
+  'balance.total': 'Saldo total',
+  'balance.switchCurrencyHint': 'Cambia la moneda principal entre bitcoin y fiat',
+  'incoming.title': 'Pago recibido',
+  'incoming.dismissLabel': 'Cerrar el aviso de pago recibido',
+  'incoming.dismissHint': 'Toca en cualquier parte para cerrar',
+
+  // LNURL-Withdraw
+  'withdraw.title': 'Reclamar fondos',
+  'withdraw.missingRequest': 'Falta la solicitud de retiro',
+  'withdraw.notWithdraw': 'Esto no es una solicitud LNURL-Withdraw',
+  'withdraw.enterAmount': 'Introduce un importe',
+  'withdraw.reading': 'Leyendo la solicitud de retiro...',
+  'withdraw.unrecognized': 'Solicitud de retiro no reconocida',
+  'withdraw.requested': 'Retiro solicitado',
+  'withdraw.received': 'Fondos recibidos',
+  'withdraw.pendingHint': '{domain} aún no ha pagado. El pago aparecerá en tu historial cuando llegue.',
+  'withdraw.paidBy': 'Pagado por {domain}',
+  'withdraw.from': 'De',
+  'withdraw.description': 'Descripción',
+  'withdraw.amount': 'Importe',
+  'withdraw.range': 'Rango',
+  'withdraw.amountLabel': 'Importe a retirar',
+  'withdraw.confirm': 'Confirmar retiro',
+  'withdraw.youReceive': 'Recibes',
+  'withdraw.claim': 'Reclamar',
+  'withdraw.claiming': 'Reclamando...',
+
+  // LNURL-Auth
+  'lnurlAuth.register.title': 'Registrarse',
+  'lnurlAuth.register.done': 'Registrado',
+  'lnurlAuth.register.prompt': '{domain} te pide registrarte con tu billetera.',
+  'lnurlAuth.login.title': 'Iniciar sesión',
+  'lnurlAuth.login.done': 'Sesión iniciada',
+  'lnurlAuth.login.prompt': '{domain} te pide iniciar sesión con tu billetera.',
+  'lnurlAuth.link.title': 'Vincular billetera',
+  'lnurlAuth.link.button': 'Vincular',
+  'lnurlAuth.link.done': 'Billetera vinculada',
+  'lnurlAuth.link.prompt': '{domain} te pide vincular tu billetera.',
+  'lnurlAuth.auth.title': 'Autenticarse',
+  'lnurlAuth.auth.done': 'Autenticado',
+  'lnurlAuth.auth.prompt': '{domain} te pide autenticarte con tu billetera.',
+  'lnurlAuth.missingRequest': 'Falta la solicitud de inicio de sesión',
+  'lnurlAuth.notAuth': 'Esto no es una solicitud LNURL-Auth',
+  'lnurlAuth.unrecognized': 'Solicitud de inicio de sesión no reconocida',
+  'lnurlAuth.returnTo': 'Puedes volver a {domain}.',
+  'lnurlAuth.domain': 'Dominio',
+  'lnurlAuth.action': 'Acción',
+  'lnurlAuth.previous': { one: 'Ya te has autenticado aquí {count} vez.', other: 'Ya te has autenticado aquí {count} veces.' },
+  'lnurlAuth.firstTime': 'Primera vez con este servicio. Se deriva una clave nueva solo para este dominio; no se mueven fondos.',
+
+  // Contacts
+  'contacts.title': 'Contactos',
+  'contacts.searchPlaceholder': 'Buscar contactos',
+  'contacts.noAddress': 'Sin dirección',
+  'contacts.empty': 'Aún no hay contactos',
+  'contacts.noMatches': 'Ningún contacto coincide',
+  'contacts.destination.lightning': 'Lightning',
+  'contacts.destination.spark': 'Spark',
+  'contacts.destination.bitcoin': 'Bitcoin',
+  'contact.title': 'Contacto',
+  'contact.new': 'Nuevo contacto',
+  'contact.edit': 'Editar contacto',
+  'contact.name': 'Nombre',
+  'contact.lightningAddress': 'Dirección Lightning',
+  'contact.lightningPlaceholder': 'nombre@dominio.com',
+  'contact.sparkAddress': 'Dirección Spark',
+  'contact.bitcoinAddress': 'Dirección Bitcoin',
+  'contact.notes': 'Notas',
+  'contact.nameRequired': 'Introduce un nombre',
+  'contact.addressRequired': 'Añade al menos una dirección',
+  'contact.deleteTitle': 'Eliminar contacto',
+  'contact.deleteMessage': '¿Quitar a {name} de tus contactos?',
+  'contact.notFound': 'Contacto no encontrado',
+  'contact.pay': 'Pagar',
+  'contact.payments': 'Pagos',
+
+  // Export
+  'export.title': 'Exportar historial',
+  'export.dateRange': 'Rango de fechas',
+  'export.thisMonth': 'Este mes',
+  'export.lastMonth': 'Mes pasado',
+  'export.thisYear': 'Este año',
+  'export.lastYear': 'Año pasado',
+  'export.format': 'Formato',
+  'export.csvDescription': 'Columnas de Koinly / CoinTracker',
+  'export.jsonDescription': 'Todo el detalle para tus propias herramientas',
+  'export.includes': 'Incluye los pagos completados con fecha, importes en BTC y sats, valor en {currency} en el momento de cada pago, comisiones, tipo, hash del pago y tus notas.',
+  'export.exported': { one: 'Se exportó {count} transacción.', other: 'Se exportaron {count} transacciones.' },
+  'export.failed': 'La exportación falló',
+  'export.export': 'Exportar',
+  'export.custom': 'Personalizado',
+  'export.from': 'Desde',
+  'export.to': 'Hasta (incluido)',
+  'export.datePlaceholder': 'AAAA-MM-DD',
+  'export.invalidDate': 'Introduce ambas fechas como AAAA-MM-DD',
+  'export.endBeforeStart': 'La fecha final es anterior a la inicial',
+
+  // Payment requests
+  'requests.title': 'Solicitudes de pago',
+  'requests.outstanding': 'Pendientes',
+  'requests.status.open': 'Abierta',
+  'requests.status.paid': 'Pagada',
+  'requests.status.expired': 'Caducada',
+  'requests.untitled': 'Solicitud de pago',
+  'requests.created': '{status} · creada {time}',
+  'requests.emptyOutstanding': 'No hay solicitudes pendientes',
+  'requests.empty': 'Aún no hay solicitudes de pago',
+  'requests.detailTitle': 'Solicitud de pago',
+  'requests.notFound': 'Solicitud no encontrada',
+  'requests.removeTitle': 'Quitar solicitud',
+  'requests.removeMessage': 'Solo se quita de esta lista. Una factura abierta todavía se puede pagar.',
+  'requests.remove': 'Quitar',
+  'requests.removeFromList': 'Quitar de la lista',
+  'requests.scanToPay': 'Escanea para pagar',
+  'requests.status': 'Estado',
+  'requests.memo': 'Nota',
+  'requests.createdAt': 'Creada',
+  'requests.expires': 'Caduca',
+  'requests.paidAt': 'Pagada',
+  'requests.invoice': 'Factura',
+
+  // Home
+  'home.initFailed': 'No se pudo iniciar la cartera',
+  'home.createNew': 'Crear cartera nueva',
+  'home.connecting': 'Conectando a la red Lightning...',
+  'home.send': 'Enviar',
+  'home.receive': 'Recibir',
+  'home.recentActivity': 'Actividad reciente',
+  'home.seeAll': 'Ver todo',
+  'home.empty': 'Aún no hay pagos',
+  'home.emptyHint': 'Envía o recibe tu primer pago Lightning',
+
+  // Delete wallet
+  'deleteWallet.authPrompt': 'Autentícate para eliminar la cartera',
+  'deleteWallet.authFailedTitle': 'Autenticación fallida',
+  'deleteWallet.authFailed': 'Debes autenticarte para eliminar tu cartera.',
+  'deleteWallet.confirmWord': 'ELIMINAR',
+  'deleteWallet.incorrectTitle': 'Incorrecto',
+  'deleteWallet.incorrect': 'Escribe "{word}" para confirmar la eliminación.',
+  'deleteWallet.failedTitle': 'La eliminación falló',
+  'deleteWallet.failed': 'No se pudieron eliminar los datos de la cartera. Inténtalo de nuevo.',
+  'deleteWallet.deleting': 'Eliminando la cartera...',
+  'deleteWallet.subtitle': 'Esta acción es permanente y no se puede deshacer.',
+  'deleteWallet.loseAccessTitle': 'Perderás el acceso para siempre',
+  'deleteWallet.loseAccess': 'Si no has guardado una copia de tu frase de recuperación, perderás todos tus bitcoins para siempre.',
+  'deleteWallet.checkBackupTitle': 'Revisa tu copia de seguridad primero',
+  'deleteWallet.checkBackup': 'Antes de eliminar, asegúrate de tener tu frase de recuperación anotada y guardada en un lugar seguro.',
+  'deleteWallet.checklist': 'Antes de continuar:',
+  'deleteWallet.checkBackedUp': 'He guardado una copia de mi frase de recuperación',
+  'deleteWallet.checkIrreversible': 'Entiendo que esta acción es irreversible',
+  'deleteWallet.checkRestore': 'Sé que puedo restaurar mi cartera con mi frase de recuperación',
+  'deleteWallet.finalTitle': 'Última advertencia',
+  'deleteWallet.final': 'Escribe "{word}" abajo para confirmar que quieres eliminar tu cartera para siempre.',
+  'deleteWallet.typeToConfirm': 'Escribe "{word}" para confirmar:',
+  'deleteWallet.continue': 'Entiendo, continuar',
+  'deleteWallet.deletePermanently': 'Eliminar la cartera para siempre',
+
+  // Notifications
+  'notifications.title': 'Notificaciones',
+  'notifications.empty': 'Aún no hay notificaciones',
+  'notifications.emptyHint': 'Aquí aparecerán las notificaciones de pagos entrantes y salientes.',
+
+  // Lock screen
+  'lock.prompt': 'Desbloquear Starr Wallet',
+  'lock.locked': 'La cartera está bloqueada',
+  'lock.unlock': 'Desbloquear',
+
+  // Scanner
+  'scan.title': 'Escanear código QR',
+  'scan.clipboardEmptyTitle': 'Portapapeles vacío',
+  'scan.clipboardEmpty': 'No hay texto en el portapapeles',
+  'scan.clipboardFailed': 'No se pudo leer el portapapeles',
+  'scan.checkingPermission': 'Comprobando el permiso de la cámara...',
+  'scan.permissionTitle': 'Se necesita acceso a la cámara',
+  'scan.permissionBody': 'Necesitamos acceso a la cámara para escanear códigos QR de pagos Lightning',
+  'scan.grantPermission': 'Conceder permiso',
+  'scan.hint': 'Apunta la cámara a un código QR de factura Lightning',
+  'scan.paste': 'Pegar del portapapeles',
+  'scan.again': 'Escanear de nuevo',
+  'scan.torch': 'Linterna',
+
+  // QR code
+  'qr.shareTitle': 'Factura Lightning',
+
+  // Amount entry
+  'amount.label': 'Importe',
+  'amount.unitHint': 'Introduciendo el importe en {unit}. Toca para cambiar.',
+  'amount.rounded': '= {amount} (redondeado al sat más cercano)',
+  'amount.max': 'Máx.: {amount}',
+  'amount.useMax': 'Usar máximo',
+  'amount.useMaxLabel': 'Usar el importe máximo',
+};
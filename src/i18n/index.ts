@@ -0,0 +1,100 @@
+/**
+ * i18n
+ *
+ * Message catalogs and lookup. English is the source catalog; every other
+ * catalog is typed against its keys, so a missing translation fails the
+ * type-check instead of shipping.
+ */
+
+import { getDeviceLocale } from '@/utils/locale';
+import type { AppLanguage } from '@/types/wallet';
+import { en } from './en';
+import { es } from './es';
+import { pt } from './pt';
+import type { Language, Message, MessageKey, Messages, MessageParams, Translate } from './types';
+
+export type {
+  Language,
+  Message,
+  MessageKey,
+  Messages,
+  MessageParams,
+  PluralMessage,
+  Translate,
+} from './types';
+
+const CATALOGS: Record<Language, Messages> = { en, es, pt };
+
+export const SUPPORTED_LANGUAGES: Language[] = ['en', 'es', 'pt'];
+
+// Each language in its own name, so it can be found whatever the current language
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  es: 'Español',
+  pt: 'Português',
+};
+
+const isLanguage = (value: string): value is Language =>
+  (SUPPORTED_LANGUAGES as string[]).includes(value);
+
+/**
+ * Resolve the language setting: 'system' follows the device locale, falling back to English
+ */
+export const resolveLanguage = (setting: AppLanguage | undefined): Language => {
+  if (setting && setting !== 'system') return setting;
+  const language = getDeviceLocale().split('-')[0].toLowerCase();
+  return isLanguage(language) ? language : 'en';
+};
+
+let activeLanguage: Language = resolveLanguage('system');
+
+/**
+ * Set the language used by `t` outside React (services, alerts built in stores)
+ */
+export const setLanguage = (setting: AppLanguage | undefined): void => {
+  activeLanguage = resolveLanguage(setting);
+};
+
+export const getLanguage = (): Language => activeLanguage;
+
+const pluralRules = new Map<Language, Intl.PluralRules | null>();
+
+const pluralCategory = (language: Language, count: number): Intl.LDMLPluralRule => {
+  if (!pluralRules.has(language)) {
+    try {
+      pluralRules.set(language, new Intl.PluralRules(language));
+    } catch {
+      pluralRules.set(language, null);
+    }
+  }
+  const rules = pluralRules.get(language);
+  if (rules) return rules.select(count);
+  return count === 1 ? 'one' : 'other';
+};
+
+const interpolate = (template: string, params?: MessageParams): string => {
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] != null ? String(params[name]) : match
+  );
+};
+
+const selectMessage = (language: Language, message: Message, params?: MessageParams): string => {
+  if (typeof message === 'string') return message;
+  const count = Number(params?.count ?? 0);
+  return message[pluralCategory(language, count)] ?? message.other;
+};
+
+/**
+ * Translate a key in the given language; `{name}` placeholders are filled from params,
+ * and plural messages pick their form from `params.count`
+ */
+export const translate = (language: Language, key: MessageKey, params?: MessageParams): string => {
+  const message = CATALOGS[language][key] ?? en[key];
+  return interpolate(selectMessage(language, message, params), params);
+};
+
+/**
+ * Translate a key in the active language
+ */
+export const t: Translate = (key, params) => translate(activeLanguage, key, params);
@@ -0,0 +1,673 @@
+/**
+ * Portuguese
+ */
+
+import type { Messages } from './types';
+
+export const pt: Messages = {
+  // Common
+  'common.cancel': 'Cancelar',
+  'common.error': 'Erro',
+  'common.ok': 'OK',
+  'common.goBack': 'Voltar',
+  'common.close': 'Fechar',
+  'common.done': 'Concluído',
+  'common.back': 'Voltar',
+  'common.continue': 'Continuar',
+  'common.save': 'Guardar',
+  'common.edit': 'Editar',
+  'common.delete': 'Eliminar',
+  'common.copied': 'Copiado',
+  'common.satsAmount': '{amount} sats',
+  'common.satsRange': '{min} – {max} sats',
+  'common.viewPayment': 'Ver pagamento',
+  'common.add': 'Adicionar',
+  'common.sharingUnavailable': 'A partilha não está disponível neste dispositivo',
+  'common.retry': 'Tentar novamente',
+  'common.share': 'Partilhar',
+  'common.copy': 'Copiar',
+
+  // Tabs
+  'tabs.wallet': 'Carteira',
+  'tabs.history': 'Histórico',
+  'tabs.settings': 'Definições',
+
+  // Onboarding: welcome
+  'onboarding.tagline': 'Carteira Lightning',
+  'onboarding.instantTitle': 'Pagamentos instantâneos',
+  'onboarding.instantBody': 'Envie e receba bitcoin em segundos',
+  'onboarding.custodyTitle': 'Sem custódia',
+  'onboarding.custodyBody': 'Controla as suas chaves e as suas moedas',
+  'onboarding.securityTitle': 'Segurança biométrica',
+  'onboarding.securityBody': 'Protegida pela autenticação nativa do dispositivo',
+  'onboarding.create': 'Criar nova carteira',
+  'onboarding.import': 'Importar carteira existente',
+  'onboarding.restore': 'Restaurar a partir de ficheiro de cópia',
+  'onboarding.terms': 'Ao continuar, aceita os nossos Termos de serviço',
+
+  // Onboarding: create
+  'create.generating': 'A gerar a sua carteira...',
+  'create.title': 'A sua frase de recuperação',
+  'create.subtitle': 'Anote estas {count} palavras em ordem. Esta é a ÚNICA forma de recuperar a sua carteira.',
+  'create.warningTitle': 'Aviso de segurança importante',
+  'create.warningBody': 'Nunca partilhe a sua frase de recuperação. Qualquer pessoa com estas palavras pode roubar os seus bitcoin.',
+  'create.revealPrompt': 'Toque em "Mostrar" para ver a sua frase de recuperação',
+  'create.revealHint': 'Certifique-se de que ninguém está a olhar para o seu ecrã',
+  'create.ackLoss': 'Entendo que, se perder esta frase, perco o acesso aos meus bitcoin',
+  'create.ackStorage': 'Vou guardar esta frase em segurança e nunca a partilhar',
+  'create.reveal': 'Mostrar frase de recuperação',
+  'create.written': 'Já a anotei',
+  'create.passphraseToggle': 'Adicionar uma frase-passe (avançado)',
+  'create.useShares': 'Fazer cópia em partes SLIP-39',
+
+  // Onboarding: backup verification
+  'backup.title': 'Verifique a sua cópia de segurança',
+  'backup.subtitle': 'Selecione as palavras corretas na ordem indicada para confirmar que guardou a sua frase de recuperação',
+  'backup.promptLabel': 'Selecione estas palavras em ordem:',
+  'backup.slotPlaceholder': 'Toque numa palavra abaixo...',
+  'backup.optionsLabel': 'Escolha entre estas palavras:',
+  'backup.hint': 'Toque nas palavras pela ordem correta. Toque novamente para desmarcar.',
+  'backup.verify': 'Verificar e continuar',
+  'backup.incorrect': 'Palavras incorretas ou ordem errada. Verifique a sua frase de recuperação e tente novamente.',
+  'backup.saveFailed': 'Não foi possível guardar a carteira. Tente novamente.',
+  'backup.passphraseLabel': 'Introduza novamente a sua frase-passe',
+  'backup.passphraseIncorrect': 'Essa não é a frase-passe que escolheu. Tente novamente.',
+
+  // Onboarding: import
+  'import.title': 'Importar carteira',
+  'import.subtitle': 'Introduza a sua frase de recuperação de {count} palavras para restaurar a sua carteira',
+  'import.missingWords': 'Preencha todas as {count} palavras',
+  'import.wordCount': 'Número de palavras',
+  'import.unknownWord': 'A palavra {index} ("{word}") não está na lista de palavras BIP39. Verifique a ortografia.',
+  'import.checksum': 'Todas as palavras são válidas, mas a soma de verificação não corresponde. Provavelmente uma palavra está errada ou fora de ordem; a última palavra contém a soma de verificação, por isso verifique-a primeiro.',
+  'import.failed': 'Não foi possível importar a carteira. Tente novamente.',
+  'import.tip': 'Dica: pode colar a frase de recuperação completa e todos os campos serão preenchidos automaticamente',
+  'import.submit': 'Importar carteira',
+  'import.passphraseToggle': 'Esta carteira usa uma frase-passe',
+  'import.emptyTitle': 'Nenhum fundo encontrado',
+  'import.emptyBody': 'Esta frase de recuperação e frase-passe abriram uma carteira sem saldo nem histórico de pagamentos. Uma frase-passe mal escrita abre uma carteira diferente e vazia.',
+  'import.reenterPassphrase': 'Introduzir novamente a frase-passe',
+  'import.openAnyway': 'Abrir mesmo assim',
+  'import.modePhrase': 'Frase de recuperação',
+  'import.modeShares': 'Partes SLIP-39',
+  'import.sharesSubtitle': 'Introduza partes SLIP-39 suficientes para reconstruir a sua frase de recuperação',
+  'import.sharesCompatibility': 'Aqui só se restauram partes criadas nesta app. Partes de um Trezor ou de outra carteira SLIP-39 reconstroem uma carteira diferente.',
+
+  // SLIP-39 shares
+  'shares.title': 'Dividir em partes',
+  'shares.subtitle': 'Divida a sua frase de recuperação em partes SLIP-39 guardadas por pessoas diferentes. Nenhuma parte sozinha pode restaurar a carteira.',
+  'shares.shareCount': 'Número de partes',
+  'shares.threshold': 'Partes necessárias para restaurar',
+  'shares.setupHint': 'Quaisquer {threshold} das {count} partes restauram a carteira. Perder mais de {count} menos {threshold} partes significa perder a carteira.',
+  'shares.create': 'Criar partes',
+  'shares.createFailed': 'Não foi possível criar as partes. Tente novamente.',
+  'shares.recordTitle': 'Parte {index} de {count}',
+  'shares.recordSubtitle': 'Anote esta parte e entregue-a a quem a vai guardar. Quaisquer {threshold} das {count} partes restauram a carteira.',
+  'shares.recorded': 'Anotei a parte {index} e verifiquei cada palavra',
+  'shares.next': 'Parte seguinte',
+  'shares.toVerify': 'Verificar partes',
+  'shares.verifyTitle': 'Verifique as suas partes',
+  'shares.verifySubtitle': { one: 'Introduza {count} parte das suas cópias escritas para confirmar que restauram a carteira', other: 'Introduza {count} partes das suas cópias escritas para confirmar que restauram a carteira' },
+  'shares.verifyFailed': 'Estas partes não reconstroem a frase de recuperação desta carteira. Compare-as com o que anotou.',
+  'shares.shareLabel': 'Parte {index}',
+  'shares.placeholder': 'Escreva ou cole as palavras da parte',
+  'shares.add': 'Adicionar outra parte',
+  'shares.remove': 'Remover parte',
+  'shares.incomplete': 'Esta parte está incompleta.',
+  'shares.unknownWord': 'A palavra {index} ("{word}") não está na lista de palavras SLIP-39. Verifique a ortografia.',
+  'shares.length': { one: 'Uma parte tem 20, 23, 27, 30 ou 33 palavras; esta tem {count}.', other: 'Uma parte tem 20, 23, 27, 30 ou 33 palavras; esta tem {count}.' },
+  'shares.checksum': 'A soma de verificação desta parte não corresponde. Provavelmente uma palavra está errada ou fora de ordem.',
+  'shares.invalid': 'Esta não é uma parte SLIP-39 válida.',
+  'shares.mismatch': 'Estas partes pertencem a cópias diferentes.',
+  'shares.groups': 'As cópias SLIP-39 com vários grupos não são suportadas.',
+  'shares.duplicate': 'A mesma parte foi introduzida duas vezes.',
+  'shares.enterFirst': 'Introduza uma parte para ver quantas são necessárias.',
+  'shares.needMore': { one: '{have} de {count} parte introduzida', other: '{have} de {count} partes introduzidas' },
+  'shares.quorum': 'Partes suficientes para reconstruir a frase de recuperação.',
+  'shares.combineFailed': 'Estas partes não formam uma frase de recuperação válida. Provavelmente uma delas está errada.',
+  'recoveryPhrase.title': 'Frase de recuperação',
+  'recoveryPhrase.authPrompt': 'Autentique-se para ver a sua frase de recuperação',
+  'recoveryPhrase.warning': 'Qualquer pessoa com estas palavras pode ficar com os seus bitcoin. Nunca as partilhe nem as escreva num site.',
+  'recoveryPhrase.passphrase': 'Frase-passe',
+  'recoveryPhrase.passphraseHint': 'Para restaurar esta carteira também precisa da sua frase-passe.',
+  'recoveryPhrase.loadFailed': 'Não foi possível ler a sua frase de recuperação.',
+  'recoveryPhrase.retry': 'Tentar novamente',
+  'backupCheck.title': 'Verificação da cópia',
+  'backupCheck.subtitle': 'Escolha as palavras da sua cópia escrita para confirmar que continua completa e legível',
+  'backupCheck.authPrompt': 'Autentique-se para verificar a sua cópia de segurança',
+  'backupCheck.check': 'Verificar cópia',
+  'backupCheck.passed': 'A sua cópia de segurança está em ordem',
+  'backupCheck.passedHint': { one: 'Voltaremos a lembrá-lo daqui a {count} dia.', other: 'Voltaremos a lembrá-lo daqui a {count} dias.' },
+  'backupCheck.done': 'Concluído',
+  'backupCheck.reminderTitle': 'Verifique a sua cópia de segurança',
+  'backupCheck.reminderNever': 'Ainda não verificou a cópia da sua frase de recuperação.',
+  'backupCheck.reminderStale': 'Última verificação: {date}. Confirme que a sua cópia continua em segurança.',
+  'shares.compatibility': 'Estas partes guardam a entropia da sua frase de recuperação como segredo mestre SLIP-39. Restaure-as apenas nesta app: um Trezor ou outra carteira SLIP-39 abriria com elas uma carteira diferente e vazia.',
+
+  // Backup file
+  'backupFile.title': 'Ficheiro de cópia',
+  'backupFile.contents': 'A cópia contém as suas definições, contactos, etiquetas de pagamentos, histórico de faturas, taxas de câmbio e inícios de sessão LNURL, encriptados com uma palavra-passe. Os pagamentos em si são recuperados da rede com a sua frase de recuperação.',
+  'backupFile.password': 'Palavra-passe da cópia',
+  'backupFile.confirmPassword': 'Confirmar palavra-passe da cópia',
+  'backupFile.passwordHint': 'Não há forma de recuperar esta palavra-passe. Sem ela a cópia não pode ser aberta.',
+  'backupFile.passwordTooShort': { one: 'Use pelo menos {count} carácter', other: 'Use pelo menos {count} caracteres' },
+  'backupFile.passwordMismatch': 'As palavras-passe não coincidem',
+  'backupFile.includeSeed': 'Incluir frase de recuperação',
+  'backupFile.includeSeedHint': 'Restaura a carteira inteira apenas com o ficheiro. Qualquer pessoa com o ficheiro e a palavra-passe poderá gastar os seus bitcoin.',
+  'backupFile.authPrompt': 'Autentique-se para fazer cópia da sua frase de recuperação',
+  'backupFile.export': 'Exportar cópia',
+  'backupFile.encrypting': 'A encriptar...',
+  'backupFile.exported': 'Cópia exportada. Guarde-a num local diferente deste telemóvel.',
+  'backupFile.exportFailed': 'Não foi possível exportar a cópia. Tente novamente.',
+  'backupFile.restoreTitle': 'Restaurar cópia',
+  'backupFile.restoreSubtitle': 'Escolha um ficheiro de cópia do Starr e introduza a palavra-passe',
+  'backupFile.chooseFile': 'Escolher ficheiro de cópia',
+  'backupFile.fileSelected': 'Ficheiro de cópia selecionado. Toque para escolher outro.',
+  'backupFile.readFailed': 'Não foi possível ler esse ficheiro.',
+  'backupFile.restore': 'Restaurar',
+  'backupFile.decrypting': 'A desencriptar...',
+  'backupFile.restoreFailed': 'Não foi possível restaurar a cópia. Tente novamente.',
+  'backupFile.restoredTitle': 'Dados restaurados',
+  'backupFile.restoredNoSeed': 'Esta cópia não inclui a frase de recuperação. Introduza-a a seguir para abrir a sua carteira.',
+  'backupFile.notBackup': 'Este não é um ficheiro de cópia do Starr.',
+  'backupFile.newerVersion': 'Esta cópia foi feita com uma versão mais recente do Starr. Atualize a aplicação para a restaurar.',
+  'backupFile.wrongPassword': 'Palavra-passe errada ou ficheiro de cópia danificado.',
+
+  // Passphrase
+  'passphrase.label': 'Frase-passe',
+  'passphrase.confirmLabel': 'Confirmar frase-passe',
+  'passphrase.hint': 'Uma palavra extra conhecida só por si. Sem ela, a sua frase de recuperação restaura uma carteira diferente e vazia.',
+  'passphrase.mismatch': 'As frases-passe não coincidem',
+  'passphrase.show': 'Mostrar',
+  'passphrase.hide': 'Ocultar',
+
+  // Keychain
+  'keychain.prompt': 'Autentique-se para aceder à sua carteira',
+  'keychain.promptContinue': 'Autentique-se para continuar',
+  'keychain.noBiometrics': 'Configure a biometria (impressão digital ou rosto) nas definições do dispositivo para proteger a sua carteira.',
+  'keychain.noHardware': 'Este dispositivo não suporta autenticação biométrica.',
+  'keychain.biometricsChanged': 'Os seus dados biométricos mudaram. Remova e volte a adicionar a biometria nas definições do dispositivo.',
+  'keychain.authFailed': 'A autenticação falhou. Tente novamente.',
+  'keychain.passphraseMissing': 'A frase-passe da sua carteira não está no armazenamento seguro. Restaure a carteira com a sua frase de recuperação e frase-passe.',
+
+  // Send
+  'send.type.bolt11_invoice': 'Fatura Lightning',
+  'send.type.bitcoin_address': 'Endereço Bitcoin',
+  'send.type.silent_payment_address': 'Endereço de pagamento silencioso',
+  'send.type.bip21': 'URI de pagamento (BIP21)',
+  'send.type.spark_address': 'Endereço Spark',
+  'send.type.spark_invoice': 'Fatura Spark',
+  'send.type.lnurl_pay': 'LNURL-Pay',
+  'send.type.lnurl_withdraw': 'LNURL-Withdraw',
+  'send.type.bolt12_offer': 'Oferta BOLT12',
+  'send.type.lnurl_auth': 'Início de sessão LNURL-Auth',
+  'send.type.unknown': 'Desconhecido',
+  'send.type.lightning_address': 'Endereço Lightning',
+  'send.title': 'Enviar pagamento',
+  'send.requestLabel': 'Pedido de pagamento',
+  'send.requestPlaceholder': 'Fatura, endereço ou LNURL...',
+  'send.scan': 'Digitalizar código QR',
+  'send.chooseContact': 'Escolher contacto',
+  'send.paying': 'A pagar a {name}',
+  'send.detecting': 'A detetar o tipo...',
+  'send.type': 'Tipo',
+  'send.to': 'Para',
+  'send.description': 'Descrição',
+  'send.amount': 'Montante',
+  'send.expiry': 'Validade',
+  'send.expiryMinutes': '{count} min',
+  'send.label': 'Etiqueta',
+  'send.message': 'Mensagem',
+  'send.requestedAmount': 'Montante pedido',
+  'send.payWith': 'Pagar com',
+  'send.estimatingFee': 'A calcular a comissão...',
+  'send.methodFee': 'Comissão {amount}',
+  'send.enterAmountForFee': 'Introduza um montante para ver a comissão',
+  'send.feeUnavailable': 'Comissão indisponível',
+  'send.silentPaymentUnsupported': 'Ainda não é possível pagar a endereços de pagamento silencioso. Peça ao destinatário um endereço Bitcoin normal.',
+  'send.token': 'Token',
+  'send.tokenNotHeld': 'Não existe nesta carteira',
+  'send.requested': 'Pedido',
+  'send.address': 'Endereço',
+  'send.domain': 'Domínio',
+  'send.range': 'Intervalo',
+  'send.issuer': 'Emissor',
+  'send.bolt12Unsupported': 'Ainda não é possível pagar ofertas BOLT12. Peça ao destinatário uma fatura Lightning.',
+  'send.loginRequest': 'Este é um pedido de início de sessão. Continue para o rever.',
+  'send.from': 'De',
+  'send.withdrawVoucher': 'Este é um vale de levantamento. Continue para receber os fundos na sua carteira.',
+  'send.amountToSend': 'Montante a enviar',
+  'send.amountToSendToken': 'Montante a enviar ({ticker})',
+  'send.available': 'Disponível: {amount}',
+  'send.max': 'Máx.',
+  'send.comment': 'Comentário (opcional)',
+  'send.commentPlaceholder': 'Adicione uma mensagem...',
+  'send.confirmTitle': 'Confirmar pagamento',
+  'send.fee': 'Comissão',
+  'send.speed.slow': 'Lenta',
+  'send.speed.medium': 'Média',
+  'send.speed.fast': 'Rápida',
+  'send.targetMinutes': '~{count} min',
+  'send.targetHours': '~{count} h',
+  'send.targetDays': { one: '~{count} dia', other: '~{count} dias' },
+  'send.feesIncluded': 'Está a enviar todo o saldo: a comissão sai dele, por isso o destinatário recebe o montante acima.',
+  'send.send': 'Enviar',
+  'send.sending': 'A enviar...',
+  'send.enterRequest': 'Introduza um pedido de pagamento',
+  'send.errorNoRequest': 'Introduza uma fatura ou endereço',
+  'send.errorUnrecognized': 'Pedido de pagamento não reconhecido',
+  'send.errorTokenNotHeld': 'Esta fatura pede um token que não tem',
+  'send.errorNoAmount': 'Introduza um montante',
+  'send.errorInsufficient': 'Saldo insuficiente',
+  'send.errorInsufficientWithFee': 'Saldo insuficiente para cobrir o montante e a comissão de rede',
+  'send.sentTitle': 'Pagamento enviado',
+  'send.sentMessage': '{amount} enviados com sucesso',
+  'send.saveRecipient': '{amount} enviados com sucesso\n\nGuardar este destinatário nos seus contactos?',
+  'send.notNow': 'Agora não',
+
+  // Receive
+  'receive.expired': 'Expirada',
+  'receive.expiresIn': { one: 'Expira em {count} minuto', other: 'Expira em {count} minutos' },
+  'receive.title': 'Receber pagamento',
+  'receive.requests': 'Pedidos',
+  'receive.mode.unified': 'Unificado',
+  'receive.mode.lightning': 'Lightning',
+  'receive.mode.onchain': 'On-chain',
+  'receive.mode.spark': 'Spark',
+  'receive.route.lightning': 'Lightning',
+  'receive.route.spark': 'Spark',
+  'receive.route.onchain': 'on-chain',
+  'receive.unifiedIntro': 'Um código QR que qualquer carteira pode pagar: Lightning, Spark ou on-chain.',
+  'receive.amountLabel': 'Montante a receber',
+  'receive.labelOptional': 'Etiqueta (opcional)',
+  'receive.descriptionOptional': 'Descrição (opcional)',
+  'receive.purposePlaceholder': 'Para que é este pagamento?',
+  'receive.creating': 'A criar...',
+  'receive.createRequest': 'Criar pedido',
+  'receive.createInvoice': 'Criar fatura',
+  'receive.sats': 'sats',
+  'receive.paid': 'Pago',
+  'receive.incoming': 'Pagamento a caminho',
+  'receive.receivedVia': 'Recebido via {route}',
+  'receive.scanAnyWallet': 'Digitalize com qualquer carteira Bitcoin',
+  'receive.waiting': 'A aguardar pagamento · Lightning {expiry}',
+  'receive.copyRequest': 'Copiar pedido',
+  'receive.newRequest': 'Criar novo pedido',
+  'receive.onchainIntro': 'Receba Bitcoin no seu endereço on-chain. Os fundos podem demorar a confirmar e vão aparecer após a confirmação.',
+  'receive.gettingAddress': 'A obter endereço...',
+  'receive.retry': 'Tentar novamente',
+  'receive.scanBitcoin': 'Digitalize para enviar Bitcoin',
+  'receive.copyAddress': 'Copiar endereço',
+  'receive.sparkIntro': 'Receba de outros utilizadores Spark. O seu endereço Spark é fixo e pode ser partilhado.',
+  'receive.gettingSparkAddress': 'A obter endereço Spark...',
+  'receive.scanSpark': 'Digitalize para enviar via Spark',
+  'receive.copySparkAddress': 'Copiar endereço Spark',
+  'receive.lightningIntro': 'Crie uma fatura Lightning para receber Bitcoin',
+  'receive.invoiceCreated': 'Fatura criada',
+  'receive.scanToPay': 'Digitalize para pagar',
+  'receive.newInvoice': 'Criar nova fatura',
+  'receive.unclaimedTitle': 'Depósitos on-chain por receber',
+  'receive.unclaimedEmpty': 'Não há depósitos por receber. Se receber Bitcoin no seu endereço on-chain e a receção automática falhar (p. ex. comissão baixa), vão aparecer aqui para os receber manualmente.',
+  'receive.amount': 'Montante',
+  'receive.claimFee': 'Comissão de receção',
+  'receive.claim': 'Receber',
+  'receive.claiming': 'A receber...',
+  'receive.claimTitle': 'Receber depósito',
+  'receive.claimAmount': 'Montante: {amount}',
+  'receive.claimAmountFee': 'Montante: {amount}\nComissão: {fee}',
+  'receive.claimed': 'Depósito recebido',
+  'receive.claimedMessage': 'Os fundos foram adicionados ao seu saldo.',
+  'receive.claimFailed': 'A receção falhou',
+  'receive.claimFailedMessage': 'Não foi possível receber o depósito. Tente mais tarde.',
+  'receive.requestCopied': 'Pedido de pagamento copiado para a área de transferência.',
+  'receive.addressCopied': 'Endereço copiado para a área de transferência.',
+  'receive.sparkAddressCopied': 'Endereço Spark copiado para a área de transferência.',
+  'receive.addressFailed': 'Não foi possível obter o endereço',
+  'receive.sparkAddressFailed': 'Não foi possível obter o endereço Spark',
+  'receive.invalidAmount': 'Introduza um montante válido',
+  'receive.requestFailed': 'Não foi possível criar o pedido de pagamento',
+  'receive.invoiceFailed': 'Não foi possível criar a fatura',
+
+  // Settings
+  'settings.title': 'Definições',
+  'settings.display': 'Apresentação',
+  'settings.bitcoinUnit': 'Unidade de bitcoin',
+  'settings.unit.BTC': 'Bitcoin',
+  'settings.unit.BTC.description': 'Mostrar em BTC (0,00100000)',
+  'settings.unit.SATS': 'Satoshis',
+  'settings.unit.SATS.description': 'Mostrar em sats (100.000)',
+  'settings.unit.BIP177': 'Bitcoin (BIP-177)',
+  'settings.unit.BIP177.description': 'Mostrar em unidades inteiras de ₿ (₿100.000)',
+  'settings.fiatCurrency': 'Moeda fiduciária',
+  'settings.searchCurrencies': 'Pesquisar moedas',
+  'settings.loadingCurrencies': 'A carregar moedas...',
+  'settings.noMatchingCurrencies': 'Nenhuma moeda corresponde',
+  'settings.language': 'Idioma',
+  'settings.language.system': 'Sistema',
+  'settings.language.systemDescription': 'Usar o idioma do dispositivo',
+  'settings.theme': 'Tema',
+  'settings.selectTheme': 'Selecionar tema',
+  'settings.theme.dark': 'Escuro',
+  'settings.theme.dark.description': 'Tema escuro do espaço profundo',
+  'settings.theme.light': 'Claro',
+  'settings.theme.light.description': 'Tema limpo e luminoso',
+  'settings.theme.system': 'Sistema',
+  'settings.theme.system.description': 'Usar as definições do dispositivo',
+  'settings.contacts': 'Contactos',
+  'settings.addressBook': 'Livro de endereços',
+  'settings.noContacts': 'Ainda não há contactos',
+  'settings.contactCount': { one: '{count} contacto', other: '{count} contactos' },
+  'settings.security': 'Segurança',
+  'settings.viewPhrase': 'Ver frase de recuperação',
+  'settings.viewPhraseSubtitle': 'Requer autenticação',
+  'settings.backupCheck': 'Verificação da cópia',
+  'settings.backupCheckNever': 'Nunca verificada',
+  'settings.backupCheckLast': 'Última verificação: {date}',
+  'settings.backup': 'Cópia de segurança',
+  'settings.encryptedBackup': 'Ficheiro de cópia encriptado',
+  'settings.encryptedBackupSubtitle': 'Definições, contactos, etiquetas e faturas',
+  'settings.connectedServices': 'Serviços ligados',
+  'settings.lnurlLogins': 'Inícios de sessão LNURL',
+  'settings.noServices': 'Ainda não há serviços',
+  'settings.serviceCount': { one: '{count} serviço', other: '{count} serviços' },
+  'settings.lnurlHint': 'Serviços em que iniciou sessão com esta carteira. Cada serviço vê uma chave diferente.',
+  'settings.lnurlEmpty': 'Leia um código QR LNURL-Auth num serviço compatível para iniciar sessão.',
+  'settings.lnurlLast.register': 'Último registo: {date}',
+  'settings.lnurlLast.login': 'Último início de sessão: {date}',
+  'settings.lnurlLast.link': 'Última associação: {date}',
+  'settings.lnurlLast.auth': 'Última autenticação: {date}',
+  'settings.forgetService': 'Esquecer serviço',
+  'settings.forgetServiceBody': 'Remover {domain} do seu histórico de inícios de sessão? Só é esquecido neste dispositivo; ao iniciar sessão novamente será usada a mesma identidade.',
+  'settings.forget': 'Esquecer',
+  'settings.deposits': 'Depósitos',
+  'settings.maxClaimFee': 'Taxa máxima de reclamação automática',
+  'settings.maxClaimFeeHint': 'Taxa máxima que a carteira pagará para reclamar automaticamente depósitos on-chain. Aplica-se após o próximo desbloqueio.',
+  'settings.fee.conservative': 'Conservadora',
+  'settings.fee.conservative.description': '1 sats/vbyte (predefinida)',
+  'settings.fee.conservative.subtitle': 'Conservadora (1 sats/vbyte)',
+  'settings.fee.network_recommended': 'Recomendada pela rede',
+  'settings.fee.network_recommended.description': 'Taxa mais rápida + margem',
+  'settings.fee.network_recommended.subtitle': 'Recomendada pela rede (+{leeway} sats/vbyte)',
+  'settings.fee.rate': 'Taxa personalizada',
+  'settings.fee.rate.description': 'Máximo de sats por vbyte',
+  'settings.fee.rate.subtitle': 'Taxa personalizada ({rate} sats/vbyte)',
+  'settings.fee.fixed': 'Máximo de sats personalizado',
+  'settings.fee.fixed.description': 'Taxa total máxima em sats',
+  'settings.fee.fixed.subtitle': 'Máximo personalizado ({amount} sats)',
+  'settings.fee.disabled': 'Desativada',
+  'settings.fee.disabled.description': 'Sem reclamação automática',
+  'settings.leeway': 'Margem (sats/vbyte)',
+  'settings.satsPerVbyte': 'Sats por vbyte',
+  'settings.maxFeeSats': 'Taxa máxima (sats)',
+  'settings.developer': 'Programador',
+  'settings.about': 'Sobre',
+  'settings.aboutStarr': 'Sobre o Starr',
+  'settings.version': 'Versão {version}',
+  'settings.aboutBody': 'Versão {version}\n\nO Starr é uma carteira Lightning sem custódia criada para ser simples e segura.',
+  'settings.careers': 'Carreiras',
+  'settings.viewOnGithub': 'Ver no GitHub',
+  'settings.terms': 'Termos de serviço',
+  'settings.privacy': 'Política de privacidade',
+  'settings.support': 'Suporte',
+  'settings.supportSubtitle': 'Obtenha ajuda com o Starr',
+  'settings.getSupport': 'Obter suporte',
+  'settings.supportBody': 'Como gostaria de obter ajuda?',
+  'settings.supportPage': 'Visitar a página de suporte',
+  'settings.emailSupport': 'Enviar e-mail ao suporte',
+  'settings.linkUnsupported': 'Não é possível abrir esta ligação.',
+  'settings.linkFailed': 'Não foi possível abrir a ligação.',
+  'settings.dangerZone': 'Zona de perigo',
+  'settings.deleteWallet': 'Eliminar carteira',
+
+  // Payments
+  'payment.received': 'Recebido',
+  'payment.sent': 'Enviado',
+  'payment.status.pending': 'Pendente',
+  'payment.status.completed': 'Concluído',
+  'payment.status.failed': 'Falhado',
+  'category.income': 'Receitas',
+  'category.shopping': 'Compras',
+  'category.food': 'Comida e bebida',
+  'category.bills': 'Contas',
+  'category.travel': 'Viagens',
+  'category.transfer': 'Transferência',
+  'category.other': 'Outros',
+  'payment.title': 'Pagamento',
+  'payment.detailsTitle': 'Detalhes do pagamento',
+  'payment.loading': 'A carregar pagamento...',
+  'payment.missingId': 'Falta o id do pagamento',
+  'payment.notFound': 'Pagamento não encontrado',
+  'payment.loadFailed': 'Não foi possível carregar o pagamento',
+  'payment.backToHistory': 'Voltar ao histórico',
+  'payment.valueThen': '{amount} na altura',
+  'payment.valueNow': ' · {amount} agora',
+  'payment.staleRate': ' (taxa desatualizada)',
+  'payment.status': 'Estado',
+  'payment.date': 'Data',
+  'payment.completed': 'Concluído',
+  'payment.fee': 'Comissão',
+  'payment.token': 'Token',
+  'payment.paidRequest': 'Pedido pago',
+  'payment.hash': 'Hash do pagamento',
+  'payment.invoice': 'Fatura',
+  'payment.labels': 'Etiquetas',
+  'payment.from': 'De',
+  'payment.to': 'Para',
+  'payment.fromParty': 'De {name}',
+  'payment.toParty': 'Para {name}',
+  'payment.counterpartyPlaceholder': 'Com quem foi?',
+  'payment.category': 'Categoria',
+  'payment.note': 'Nota',
+  'payment.notePlaceholder': 'Adicione uma nota',
+  'payment.labelsHint': 'Adicione uma nota, categoria ou contraparte. As etiquetas ficam neste dispositivo.',
+
+  // History
+  'history.loadingMore': 'A carregar mais...',
+  'history.empty': 'Ainda não há transações',
+  'history.emptyHint': 'Os seus pagamentos Lightning vão aparecer aqui',
+  'history.title': 'Histórico de transações',
+  'history.transactionCount': { one: '{count} transação', other: '{count} transações' },
+  'history.matchCount': { one: '{count} resultado', other: '{count} resultados' },
+  'history.searchPlaceholder': 'Pesquisar notas, montantes, faturas...',
+  'history.filterType': 'Tipo',
+  'history.filterStatus': 'Estado',
+  'history.filterDate': 'Período',
+  'history.filterCategory': 'Categoria',
+  'history.all': 'Todos',
+  'history.allTime': 'Sempre',
+  'history.last7Days': 'Últimos 7 dias',
+  'history.last30Days': 'Últimos 30 dias',
+
+  // Wallet
+  'balance.total': 'Saldo total',
+  'balance.switchCurrencyHint': 'Alterna a moeda principal entre bitcoin e fiduciária',
+  'incoming.title': 'Pagamento recebido',
+  'incoming.dismissLabel': 'Fechar o aviso de pagamento recebido',
+  'incoming.dismissHint': 'Toque em qualquer lado para fechar',
+
+  // LNURL-Withdraw
+  'withdraw.title': 'Receber fundos',
+  'withdraw.missingRequest': 'Falta o pedido de levantamento',
+  'withdraw.notWithdraw': 'Isto não é um pedido LNURL-Withdraw',
+  'withdraw.enterAmount': 'Introduza um montante',
+  'withdraw.reading': 'A ler o pedido de levantamento...',
+  'withdraw.unrecognized': 'Pedido de levantamento não reconhecido',
+  'withdraw.requested': 'Levantamento pedido',
+  'withdraw.received': 'Fundos recebidos',
+  'withdraw.pendingHint': '{domain} ainda não pagou. O pagamento vai aparecer no seu histórico quando chegar.',
+  'withdraw.paidBy': 'Pago por {domain}',
+  'withdraw.from': 'De',
+  'withdraw.description': 'Descrição',
+  'withdraw.amount': 'Montante',
+  'withdraw.range': 'Intervalo',
+  'withdraw.amountLabel': 'Montante a levantar',
+  'withdraw.confirm': 'Confirmar levantamento',
+  'withdraw.youReceive': 'Recebe',
+  'withdraw.claim': 'Receber',
+  'withdraw.claiming': 'A receber...',
+
+  // LNURL-Auth
+  'lnurlAuth.register.title': 'Registar',
+  'lnurlAuth.register.done': 'Registado',
+  'lnurlAuth.register.prompt': '{domain} está a pedir que se registe com a sua carteira.',
+  'lnurlAuth.login.title': 'Iniciar sessão',
+  'lnurlAuth.login.done': 'Sessão iniciada',
+  'lnurlAuth.login.prompt': '{domain} está a pedir que inicie sessão com a sua carteira.',
+  'lnurlAuth.link.title': 'Associar carteira',
+  'lnurlAuth.link.button': 'Associar',
+  'lnurlAuth.link.done': 'Carteira associada',
+  'lnurlAuth.link.prompt': '{domain} está a pedir que associe a sua carteira.',
+  'lnurlAuth.auth.title': 'Autenticar',
+  'lnurlAuth.auth.done': 'Autenticado',
+  'lnurlAuth.auth.prompt': '{domain} está a pedir que se autentique com a sua carteira.',
+  'lnurlAuth.missingRequest': 'Falta o pedido de início de sessão',
+  'lnurlAuth.notAuth': 'Isto não é um pedido LNURL-Auth',
+  'lnurlAuth.unrecognized': 'Pedido de início de sessão não reconhecido',
+  'lnurlAuth.returnTo': 'Pode voltar a {domain}.',
+  'lnurlAuth.domain': 'Domínio',
+  'lnurlAuth.action': 'Ação',
+  'lnurlAuth.previous': { one: 'Já se autenticou aqui {count} vez.', other: 'Já se autenticou aqui {count} vezes.' },
+  'lnurlAuth.firstTime': 'Primeira vez com este serviço. É derivada uma chave nova apenas para este domínio; não são movidos fundos.',
+
+  // Contacts
+  'contacts.title': 'Contactos',
+  'contacts.searchPlaceholder': 'Pesquisar contactos',
+  'contacts.noAddress': 'Sem endereço',
+  'contacts.empty': 'Ainda não há contactos',
+  'contacts.noMatches': 'Nenhum contacto corresponde',
+  'contacts.destination.lightning': 'Lightning',
+  'contacts.destination.spark': 'Spark',
+  'contacts.destination.bitcoin': 'Bitcoin',
+  'contact.title': 'Contacto',
+  'contact.new': 'Novo contacto',
+  'contact.edit': 'Editar contacto',
+  'contact.name': 'Nome',
+  'contact.lightningAddress': 'Endereço Lightning',
+  'contact.lightningPlaceholder': 'nome@dominio.com',
+  'contact.sparkAddress': 'Endereço Spark',
+  'contact.bitcoinAddress': 'Endereço Bitcoin',
+  'contact.notes': 'Notas',
+  'contact.nameRequired': 'Introduza um nome',
+  'contact.addressRequired': 'Adicione pelo menos um endereço',
+  'contact.deleteTitle': 'Eliminar contacto',
+  'contact.deleteMessage': 'Remover {name} dos seus contactos?',
+  'contact.notFound': 'Contacto não encontrado',
+  'contact.pay': 'Pagar',
+  'contact.payments': 'Pagamentos',
+
+  // Export
+  'export.title': 'Exportar histórico',
+  'export.dateRange': 'Intervalo de datas',
+  'export.thisMonth': 'Este mês',
+  'export.lastMonth': 'Mês passado',
+  'export.thisYear': 'Este ano',
+  'export.lastYear': 'Ano passado',
+  'export.format': 'Formato',
+  'export.csvDescription': 'Colunas do Koinly / CoinTracker',
+  'export.jsonDescription': 'Todo o detalhe para as suas próprias ferramentas',
+  'export.includes': 'Inclui os pagamentos concluídos com data, montantes em BTC e sats, valor em {currency} no momento de cada pagamento, comissões, tipo, hash do pagamento e as suas notas.',
+  'export.exported': { one: 'Foi exportada {count} transação.', other: 'Foram exportadas {count} transações.' },
+  'export.failed': 'A exportação falhou',
+  'export.export': 'Exportar',
+  'export.custom': 'Personalizado',
+  'export.from': 'De',
+  'export.to': 'Até (incluído)',
+  'export.datePlaceholder': 'AAAA-MM-DD',
+  'export.invalidDate': 'Introduza as duas datas como AAAA-MM-DD',
+  'export.endBeforeStart': 'A data final é anterior à inicial',
+
+  // Payment requests
+  'requests.title': 'Pedidos de pagamento',
+  'requests.outstanding': 'Pendentes',
+  'requests.status.open': 'Aberto',
+  'requests.status.paid': 'Pago',
+  'requests.status.expired': 'Expirado',
+  'requests.untitled': 'Pedido de pagamento',
+  'requests.created': '{status} · criado {time}',
+  'requests.emptyOutstanding': 'Não há pedidos pendentes',
+  'requests.empty': 'Ainda não há pedidos de pagamento',
+  'requests.detailTitle': 'Pedido de pagamento',
+  'requests.notFound': 'Pedido não encontrado',
+  'requests.removeTitle': 'Remover pedido',
+  'requests.removeMessage': 'Apenas o remove desta lista. Uma fatura aberta ainda pode ser paga.',
+  'requests.remove': 'Remover',
+  'requests.removeFromList': 'Remover da lista',
+  'requests.scanToPay': 'Digitalize para pagar',
+  'requests.status': 'Estado',
+  'requests.memo': 'Nota',
+  'requests.createdAt': 'Criado',
+  'requests.expires': 'Expira',
+  'requests.paidAt': 'Pago',
+  'requests.invoice': 'Fatura',
+
+  // Home
+  'home.initFailed': 'Não foi possível iniciar a carteira',
+  'home.createNew': 'Criar nova carteira',
+  'home.connecting': 'A ligar à rede Lightning...',
+  'home.send': 'Enviar',
+  'home.receive': 'Receber',
+  'home.recentActivity': 'Atividade recente',
+  'home.seeAll': 'Ver tudo',
+  'home.empty': 'Ainda não há pagamentos',
+  'home.emptyHint': 'Envie ou receba o seu primeiro pagamento Lightning',
+
+  // Delete wallet
+  'deleteWallet.authPrompt': 'Autentique-se para eliminar a carteira',
+  'deleteWallet.authFailedTitle': 'A autenticação falhou',
+  'deleteWallet.authFailed': 'Tem de se autenticar para eliminar a sua carteira.',
+  'deleteWallet.confirmWord': 'ELIMINAR',
+  'deleteWallet.incorrectTitle': 'Incorreto',
+  'deleteWallet.incorrect': 'Escreva "{word}" para confirmar a eliminação.',
+  'deleteWallet.failedTitle': 'A eliminação falhou',
+  'deleteWallet.failed': 'Não foi possível eliminar os dados da carteira. Tente novamente.',
+  'deleteWallet.deleting': 'A eliminar a carteira...',
+  'deleteWallet.subtitle': 'Esta ação é permanente e não pode ser desfeita.',
+  'deleteWallet.loseAccessTitle': 'Perderá o acesso para sempre',
+  'deleteWallet.loseAccess': 'Se não guardou uma cópia da sua frase de recuperação, todos os seus bitcoins serão perdidos para sempre.',
+  'deleteWallet.checkBackupTitle': 'Verifique primeiro a sua cópia de segurança',
+  'deleteWallet.checkBackup': 'Antes de eliminar, confirme que tem a sua frase de recuperação escrita e guardada em segurança.',
+  'deleteWallet.checklist': 'Antes de continuar:',
+  'deleteWallet.checkBackedUp': 'Guardei uma cópia da minha frase de recuperação',
+  'deleteWallet.checkIrreversible': 'Compreendo que esta ação é irreversível',
+  'deleteWallet.checkRestore': 'Sei que posso restaurar a minha carteira com a minha frase de recuperação',
+  'deleteWallet.finalTitle': 'Último aviso',
+  'deleteWallet.final': 'Escreva "{word}" abaixo para confirmar que quer eliminar a sua carteira para sempre.',
+  'deleteWallet.typeToConfirm': 'Escreva "{word}" para confirmar:',
+  'deleteWallet.continue': 'Compreendo, continuar',
+  'deleteWallet.deletePermanently': 'Eliminar a carteira para sempre',
+
+  // Notifications
+  'notifications.title': 'Notificações',
+  'notifications.empty': 'Ainda não há notificações',
+  'notifications.emptyHint': 'As notificações de pagamentos recebidos e enviados aparecerão aqui.',
+
+  // Lock screen
+  'lock.prompt': 'Desbloquear a Starr Wallet',
+  'lock.locked': 'A carteira está bloqueada',
+  'lock.unlock': 'Desbloquear',
+
+  // Scanner
+  'scan.title': 'Ler código QR',
+  'scan.clipboardEmptyTitle': 'Área de transferência vazia',
+  'scan.clipboardEmpty': 'Não há texto na área de transferência',
+  'scan.clipboardFailed': 'Não foi possível ler a área de transferência',
+  'scan.checkingPermission': 'A verificar a permissão da câmara...',
+  'scan.permissionTitle': 'É necessário acesso à câmara',
+  'scan.permissionBody': 'Precisamos de acesso à câmara para ler códigos QR de pagamentos Lightning',
+  'scan.grantPermission': 'Conceder permissão',
+  'scan.hint': 'Aponte a câmara para um código QR de fatura Lightning',
+  'scan.paste': 'Colar da área de transferência',
+  'scan.again': 'Ler novamente',
+  'scan.torch': 'Lanterna',
+
+  // QR code
+  'qr.shareTitle': 'Fatura Lightning',
+
+  // Amount entry
+  'amount.label': 'Montante',
+  'amount.unitHint': 'A introduzir o montante em {unit}. Toque para mudar.',
+  'amount.rounded': '= {amount} (arredondado ao sat mais próximo)',
+  'amount.max': 'Máx.: {amount}',
+  'amount.useMax': 'Usar máximo',
+  'amount.useMaxLabel': 'Usar o montante máximo',
+};
@@ -0,0 +1,25 @@
+/**
+ * i18n Types
+ */
+
+import type { en } from './en';
+
+export type Language = 'en' | 'es' | 'pt';
+
+/**
+ * Plural forms keyed by CLDR category; `other` is required as the fallback
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof en;
+
+/**
+ * A complete catalog: every key of the English source catalog
+ */
+export type Messages = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
@@ -0,0 +1,207 @@
+/**
+ * Backup Service
+ *
+ * Encrypted backup file of the wallet's local data — settings, contacts,
+ * payment labels, invoice history, fiat rates and LNURL logins — and
+ * optionally the seed. The password is stretched with scrypt and the
+ * payload sealed with AES-256-GCM; the header is authenticated with it,
+ * so the KDF parameters cannot be tampered with either.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { format as formatDate } from 'date-fns';
+import { t } from '@/i18n';
+import type { BackupResult, WalletBackupData } from '@/types/wallet';
+
+const BACKUP_FORMAT = 'starr-backup';
+
+// Bump when the envelope or payload changes shape; older versions stay readable
+export const BACKUP_VERSION = 1;
+
+// Persisted stores carried in a backup. The payment index is left out: it is
+// a cache of the SDK's history and rebuilds itself after restore.
+const BACKUP_STORE_KEYS = [
+  'starr-wallet-settings',
+  'starr-contacts',
+  'starr-payment-labels',
+  'starr-payment-requests',
+  'starr-payment-rates',
+  'starr-lnurl-auth',
+] as const;
+
+// scrypt at 32 MiB; stored per file so it can be raised without breaking old backups
+const KDF_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+export const MIN_BACKUP_PASSWORD_LENGTH = 8;
+
+interface BackupHeader {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  kdf: { name: 'scrypt'; N: number; r: number; p: number; salt: string };
+  cipher: { name: 'aes-256-gcm'; iv: string };
+}
+
+interface BackupEnvelope extends BackupHeader {
+  data: string; // base64 ciphertext with the GCM tag appended
+}
+
+const toBase64 = (bytes: Uint8Array): string => Buffer.from(bytes).toString('base64');
+const fromBase64 = (value: string): Uint8Array => new Uint8Array(Buffer.from(value, 'base64'));
+const utf8Base64 = (value: string): string => Buffer.from(value, 'utf8').toString('base64');
+
+// Header fields in a fixed order, used as GCM additional data
+const headerAad = (header: BackupHeader): string =>
+  utf8Base64(JSON.stringify({
+    format: header.format,
+    version: header.version,
+    kdf: header.kdf,
+    cipher: header.cipher,
+  }));
+
+const deriveKey = async (password: string, kdf: BackupHeader['kdf']): Promise<Crypto.AESEncryptionKey> => {
+  const keyBytes = await scryptAsync(password.normalize('NFKC'), fromBase64(kdf.salt), {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    dkLen: KEY_BYTES,
+  });
+  return Crypto.AESEncryptionKey.import(keyBytes);
+};
+
+const parseEnvelope = (content: string): BackupEnvelope => {
+  let envelope: Partial<BackupEnvelope>;
+  try {
+    envelope = JSON.parse(content);
+  } catch {
+    throw new Error(t('backupFile.notBackup'));
+  }
+  if (envelope?.format !== BACKUP_FORMAT || !envelope.kdf || !envelope.cipher || !envelope.data) {
+    throw new Error(t('backupFile.notBackup'));
+  }
+  if (typeof envelope.version !== 'number' || envelope.version > BACKUP_VERSION) {
+    throw new Error(t('backupFile.newerVersion'));
+  }
+  if (envelope.kdf.name !== 'scrypt' || envelope.cipher.name !== 'aes-256-gcm') {
+    throw new Error(t('backupFile.notBackup'));
+  }
+  return envelope as BackupEnvelope;
+};
+
+class BackupServiceImpl {
+  /**
+   * Snapshot the persisted stores as they are on disk.
+   */
+  async collectStores(): Promise<Record<string, string>> {
+    const values = await AsyncStorage.getMany([...BACKUP_STORE_KEYS]);
+    const stores: Record<string, string> = {};
+    for (const [key, value] of Object.entries(values)) {
+      if (value != null) stores[key] = value;
+    }
+    return stores;
+  }
+
+  /**
+   * Write restored store snapshots back to disk. The stores must be
+   * rehydrated afterwards to pick them up.
+   */
+  async restoreStores(stores: Record<string, string>): Promise<void> {
+    const known = new Set<string>(BACKUP_STORE_KEYS);
+    const entries = Object.entries(stores).filter(([key]) => known.has(key));
+    if (entries.length > 0) {
+      await AsyncStorage.setMany(Object.fromEntries(entries));
+    }
+  }
+
+  /**
+   * Encrypt a backup with the password into the versioned file format.
+   */
+  async encrypt(data: WalletBackupData, password: string): Promise<string> {
+    const header: BackupHeader = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      kdf: { name: 'scrypt', ...KDF_PARAMS, salt: toBase64(Crypto.getRandomBytes(SALT_BYTES)) },
+      cipher: { name: 'aes-256-gcm', iv: toBase64(Crypto.getRandomBytes(12)) },
+    };
+    const key = await deriveKey(password, header.kdf);
+    const sealed = await Crypto.aesEncryptAsync(utf8Base64(JSON.stringify(data)), key, {
+      nonce: { bytes: header.cipher.iv },
+      additionalData: headerAad(header),
+    });
+    const envelope: BackupEnvelope = {
+      ...header,
+      data: await sealed.ciphertext({ includeTag: true, encoding: 'base64' }),
+    };
+    return JSON.stringify(envelope, null, 2);
+  }
+
+  /**
+   * Decrypt a backup file's contents. A wrong password and a modified file
+   * both fail the GCM tag check and are reported the same way.
+   */
+  async decrypt(content: string, password: string): Promise<WalletBackupData> {
+    const envelope = parseEnvelope(content);
+    const key = await deriveKey(password, envelope.kdf);
+    let plaintext: string;
+    try {
+      const sealed = Crypto.AESSealedData.fromParts(envelope.cipher.iv, envelope.data);
+      plaintext = await Crypto.aesDecryptAsync(sealed, key, {
+        output: 'base64',
+        additionalData: headerAad(envelope),
+      });
+    } catch {
+      throw new Error(t('backupFile.wrongPassword'));
+    }
+    const data = JSON.parse(Buffer.from(plaintext, 'base64').toString('utf8')) as WalletBackupData;
+    return { ...data, stores: data.stores ?? {} };
+  }
+
+  /**
+   * Encrypt a backup and write it to a file in the cache directory.
+   */
+  async exportBackup(data: WalletBackupData, password: string): Promise<BackupResult> {
+    const content = await this.encrypt(data, password);
+    const filename = `starr-backup-${formatDate(new Date(data.createdAt), 'yyyy-MM-dd-HHmm')}.json`;
+    const file = new File(Paths.cache, filename);
+    file.create({ overwrite: true });
+    file.write(content);
+    return { uri: file.uri, filename };
+  }
+
+  /**
+   * Share the written file itself, so Android gets a .json file rather than
+   * its contents pasted as text.
+   */
+  async shareBackup(result: BackupResult): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error(t('common.sharingUnavailable'));
+    }
+    await Sharing.shareAsync(result.uri, {
+      mimeType: 'application/json',
+      UTI: 'public.json',
+      dialogTitle: result.filename,
+    });
+  }
+
+  /**
+   * Let the user pick a backup file and return its contents, or null if cancelled.
+   */
+  async pickBackupFile(): Promise<string | null> {
+    let picked: File | File[];
+    try {
+      picked = await File.pickFileAsync(undefined, 'application/json');
+    } catch {
+      // The picker rejects when it is dismissed
+      return null;
+    }
+    const file = Array.isArray(picked) ? picked[0] : picked;
+    return file ? file.text() : null;
+  }
+}
+
+export const BackupService = new BackupServiceImpl();
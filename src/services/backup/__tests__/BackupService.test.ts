@@ -0,0 +1,138 @@
+import { t } from '@/i18n';
+import { BackupService, BACKUP_VERSION } from '../BackupService';
+import type { WalletBackupData } from '@/types/wallet';
+
+const mockStorage = new Map<string, string>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  __esModule: true,
+  default: {
+    getMany: async (keys: string[]) => Object.fromEntries(keys.map((key) => [key, mockStorage.get(key) ?? null])),
+    setMany: async (entries: Record<string, string>) => {
+      for (const [key, value] of Object.entries(entries)) mockStorage.set(key, value);
+    },
+  },
+}));
+
+// Expo's web implementation of the AES module runs on Node's SubtleCrypto
+jest.mock('expo-crypto/build/aes/ExpoCryptoAES', () =>
+  jest.requireActual('expo-crypto/build/aes/ExpoCryptoAES.web')
+);
+
+jest.mock('expo-crypto', () => ({
+  ...jest.requireActual('expo-crypto'),
+  getRandomBytes: (count: number) =>
+    new Uint8Array(jest.requireActual<typeof import('crypto')>('crypto').randomBytes(count)),
+}));
+
+const PASSWORD = 'correct horse battery';
+
+const backupData = (withSeed: boolean): WalletBackupData => ({
+  createdAt: 1_700_000_000_000,
+  stores: {
+    'starr-contacts': JSON.stringify({ state: { contacts: [{ id: '1', name: 'Alice' }] }, version: 0 }),
+    'starr-payment-labels': JSON.stringify({ state: { labels: { abc: { note: 'Café ☕' } } }, version: 0 }),
+  },
+  ...(withSeed && {
+    seed: {
+      mnemonic: 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+      passphrase: 'extra words',
+    },
+  }),
+});
+
+const editEnvelope = (content: string, edit: (envelope: Record<string, unknown>) => void): string => {
+  const envelope = JSON.parse(content);
+  edit(envelope);
+  return JSON.stringify(envelope);
+};
+
+// scrypt runs at the production cost, so one backup of each kind is shared
+let withSeed: string;
+let withoutSeed: string;
+
+beforeAll(async () => {
+  withSeed = await BackupService.encrypt(backupData(true), PASSWORD);
+  withoutSeed = await BackupService.encrypt(backupData(false), PASSWORD);
+});
+
+beforeEach(() => {
+  mockStorage.clear();
+});
+
+describe('encrypt / decrypt', () => {
+  it('round-trips a backup with the seed', async () => {
+    await expect(BackupService.decrypt(withSeed, PASSWORD)).resolves.toEqual(backupData(true));
+  });
+
+  it('round-trips a backup without the seed', async () => {
+    const restored = await BackupService.decrypt(withoutSeed, PASSWORD);
+
+    expect(restored).toEqual(backupData(false));
+    expect(restored.seed).toBeUndefined();
+  });
+
+  it('keeps the payload out of the file in the clear', () => {
+    expect(withSeed).not.toContain('abandon');
+    expect(withoutSeed).not.toContain('Alice');
+    expect(JSON.parse(withSeed)).toMatchObject({ format: 'starr-backup', version: BACKUP_VERSION });
+  });
+
+  it('rejects a wrong password', async () => {
+    await expect(BackupService.decrypt(withoutSeed, 'wrong horse battery')).rejects.toThrow(
+      t('backupFile.wrongPassword')
+    );
+  });
+
+  it('rejects a header edited after encryption', async () => {
+    // Still a readable version and the same key, so only the authenticated header catches it
+    const edited = editEnvelope(withoutSeed, (envelope) => {
+      envelope.version = 0;
+    });
+
+    await expect(BackupService.decrypt(edited, PASSWORD)).rejects.toThrow(t('backupFile.wrongPassword'));
+  });
+
+  it('rejects modified ciphertext', async () => {
+    const edited = editEnvelope(withoutSeed, (envelope) => {
+      const data = Buffer.from(envelope.data as string, 'base64');
+      data[0] ^= 0x01;
+      envelope.data = data.toString('base64');
+    });
+
+    await expect(BackupService.decrypt(edited, PASSWORD)).rejects.toThrow(t('backupFile.wrongPassword'));
+  });
+
+  it('rejects a backup from a newer app version', async () => {
+    const edited = editEnvelope(withoutSeed, (envelope) => {
+      envelope.version = BACKUP_VERSION + 1;
+    });
+
+    await expect(BackupService.decrypt(edited, PASSWORD)).rejects.toThrow(t('backupFile.newerVersion'));
+  });
+
+  it('rejects files that are not backups', async () => {
+    await expect(BackupService.decrypt('not json', PASSWORD)).rejects.toThrow(t('backupFile.notBackup'));
+    await expect(BackupService.decrypt('{"format":"other"}', PASSWORD)).rejects.toThrow(
+      t('backupFile.notBackup')
+    );
+  });
+});
+
+describe('collectStores / restoreStores', () => {
+  it('snapshots the backed-up stores and skips the payment index', async () => {
+    mockStorage.set('starr-contacts', '{"contacts":[]}');
+    mockStorage.set('starr-payment-index', '{"entries":[]}');
+
+    await expect(BackupService.collectStores()).resolves.toEqual({ 'starr-contacts': '{"contacts":[]}' });
+  });
+
+  it('only writes back known stores', async () => {
+    await BackupService.restoreStores({
+      'starr-lnurl-auth': '{"domains":[]}',
+      'some-other-key': 'ignored',
+    });
+
+    expect(Object.fromEntries(mockStorage)).toEqual({ 'starr-lnurl-auth': '{"domains":[]}' });
+  });
+});
@@ -0,0 +1 @@
+export { BackupService, BACKUP_VERSION, MIN_BACKUP_PASSWORD_LENGTH } from './BackupService';
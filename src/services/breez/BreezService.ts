@@ -7,28 +7,44 @@ import type {
   Invoice,
   TransactionStatus,
   ParsedInput,
+  Bip21MethodInput,
+  Bip21PaymentMethod,
   PrepareSendResult,
+  SendOptions,
+  SendMaxResult,
+  TokenBalance,
+  TokenInfo,
+  PrepareWithdrawResult,
+  PaymentRoute,
+  LnurlAuthAction,
+  OnchainFeeSpeed,
+  OnchainFeeTier,
+  WithdrawResult,
   ListPaymentsFilter,
   MaxDepositClaimFeeSetting,
   UnclaimedDeposit,
 } from '@/types/wallet';
 
 // Unsupported SDK input types (parsed but not actionable):
-// - LnurlWithdraw: not needed for this wallet
-// - LnurlAuth: no authentication use-case
-// - Bolt12Offer / Bolt12Invoice / Bolt12InvoiceRequest: BOLT12 not yet supported
-// - SilentPaymentAddress: not yet supported
+// - Bolt12Invoice / Bolt12InvoiceRequest: BOLT12 not yet supported
+// - Bolt12Offer: mapped for display only; the SDK cannot pay or create offers yet
+// - SilentPaymentAddress: mapped for display only; cooperative exits are built by the
+//   Spark service provider, which cannot derive a BIP-352 output
 // - Url: generic URL, not a payment type
 import {
   connect,
   defaultConfig,
   DepositClaimError_Tags,
+  FeePolicy,
   initLogging,
   InputType_Tags,
   ListPaymentsRequest as SdkListPaymentsRequest,
+  LnurlCallbackStatus_Tags,
   LnurlPayRequest,
+  LnurlWithdrawRequest,
   MaxFee,
   Network,
+  OnchainConfirmationSpeed,
   PaymentDetails_Tags,
   PaymentStatus,
   PaymentType,
@@ -36,18 +52,24 @@ import {
   ReceivePaymentMethod,
   Seed,
   SendPaymentMethod_Tags,
+  SendPaymentOptions,
   SdkEvent_Tags,
   type BreezSdkInterface,
   type DepositClaimError,
   type InputType,
   type ListPaymentsRequest,
+  type LnurlAuthRequestDetails,
   type LnurlPayRequestDetails,
+  type LnurlWithdrawRequestDetails,
   type MaxFee as MaxFeeType,
   type Payment,
   type PrepareSendPaymentResponse,
+  type SendOnchainFeeQuote,
   type LogEntry,
   type SdkEvent,
+  type TokenMetadata,
 } from '@breeztech/breez-sdk-spark-react-native';
+import { msatToSatCeil, msatToSatFloor } from '@/utils/format';
 
 /** Extract a readable message from Breez SDK errors (SdkError / UniffiError). */
 export function formatSdkError(err: unknown): string {
@@ -76,6 +98,22 @@ export interface BreezServiceConfig {
 
 const DEFAULT_STORAGE_DIR_NAME = 'breez-sdk-spark';
 
+// How long lnurlWithdraw waits for the service to pay our invoice.
+const WITHDRAW_COMPLETION_TIMEOUT_SECS = 30;
+
+// Approximate confirmation targets behind the SDK's slow/medium/fast on-chain quotes.
+const ONCHAIN_TARGET_BLOCKS: Record<OnchainFeeSpeed, number> = {
+  slow: 144,
+  medium: 6,
+  fast: 1,
+};
+
+const CONFIRMATION_SPEEDS: Record<OnchainFeeSpeed, OnchainConfirmationSpeed> = {
+  slow: OnchainConfirmationSpeed.Slow,
+  medium: OnchainConfirmationSpeed.Medium,
+  fast: OnchainConfirmationSpeed.Fast,
+};
+
 class BreezServiceImpl {
   private sdk: BreezSdkInterface | null = null;
   private sdkEventListenerId: string | null = null;
@@ -83,7 +121,7 @@ class BreezServiceImpl {
 
   private eventListeners: Map<string, Set<(...args: any[]) => void>> = new Map();
 
-  async initialize(mnemonic: string, config: BreezServiceConfig): Promise<void> {
+  async initialize(mnemonic: string, config: BreezServiceConfig, passphrase?: string): Promise<void> {
     if (this.isInitialized) return;
 
     const { apiKey, network, workingDir, syncIntervalSecs, maxDepositClaimFee } = config;
@@ -122,7 +160,7 @@ class BreezServiceImpl {
       }
     }
 
-    const seed = Seed.Mnemonic.new({ mnemonic, passphrase: undefined });
+    const seed = Seed.Mnemonic.new({ mnemonic, passphrase: passphrase || undefined });
     const sdk = await connect({
       config: sdkConfig,
       seed,
@@ -181,10 +219,60 @@ class BreezServiceImpl {
       // Spark SDK does not expose pending incoming/outgoing balances.
       pendingIncoming: 0n,
       pendingOutgoing: 0n,
+      tokenBalances: this.mapTokenBalances(info.tokenBalances),
       lastUpdated: new Date(),
     };
   }
 
+  /**
+   * Identity public key of the connected wallet, the same for every device
+   * restored from its seed and passphrase.
+   */
+  async getWalletId(): Promise<string> {
+    const sdk = this.requireSdk();
+    const info = await sdk.getInfo({ ensureSynced: false });
+    return info.identityPubkey;
+  }
+
+  /**
+   * Whether the connected wallet has no balance and no payment history after a
+   * full sync. A mistyped BIP39 passphrase derives a different wallet that looks
+   * exactly like this.
+   */
+  async isWalletEmpty(): Promise<boolean> {
+    const sdk = this.requireSdk();
+    await sdk.syncWallet({});
+    this.emit('sync');
+
+    const info = await sdk.getInfo({ ensureSynced: true });
+    if (info.balanceSats > 0n) return false;
+
+    const response = await sdk.listPayments(this.toSdkListPaymentsRequest({ limit: 1, offset: 0 }));
+    return response.payments.length === 0;
+  }
+
+  /**
+   * BTC price in every fiat currency Breez quotes, keyed by upper-case ISO code.
+   */
+  async listFiatRates(): Promise<Record<string, number>> {
+    const sdk = this.requireSdk();
+    const response = await sdk.listFiatRates();
+    const rates: Record<string, number> = {};
+    for (const rate of response.rates) {
+      rates[rate.coin.toUpperCase()] = rate.value;
+    }
+    return rates;
+  }
+
+  /**
+   * Upper-case ISO codes of the fiat currencies Breez has rates for.
+   */
+  async listFiatCurrencies(): Promise<string[]> {
+    const sdk = this.requireSdk();
+    const response = await sdk.listFiatCurrencies();
+    return response.currencies.map((currency) => currency.id.toUpperCase());
+  }
+
   async createInvoice(
     amountSats: bigint,
     description?: string,
@@ -230,7 +318,12 @@ class BreezServiceImpl {
     return response.paymentRequest;
   }
 
-  async sendPayment(input: string, amountSats?: bigint, comment?: string): Promise<LightningPayment> {
+  async sendPayment(
+    input: string,
+    amountSats?: bigint,
+    comment?: string,
+    options?: SendOptions,
+  ): Promise<LightningPayment> {
     const sdk = this.requireSdk();
     const raw = input.trim();
     const parsed = await sdk.parse(raw);
@@ -262,11 +355,11 @@ class BreezServiceImpl {
     }
 
     // Standard flow: Bolt11, Bitcoin address, Spark address, Spark invoice
-    const prepareResponse = await this.prepareSendPaymentResponse(raw, amountSats);
+    const prepareResponse = await this.prepareSendPaymentResponse(raw, amountSats, options);
 
     const response = await sdk.sendPayment({
       prepareResponse,
-      options: undefined,
+      options: this.sendPaymentOptions(prepareResponse, options),
       idempotencyKey: this.generateIdempotencyKey(),
     });
 
@@ -318,6 +411,7 @@ class BreezServiceImpl {
     input: string,
     amountSats?: bigint,
     comment?: string,
+    options?: SendOptions,
   ): Promise<PrepareSendResult> {
     const sdk = this.requireSdk();
     const raw = input.trim();
@@ -350,52 +444,168 @@ class BreezServiceImpl {
     }
 
     // Standard flow
-    const prepareResponse = await this.prepareSendPaymentResponse(raw, amountSats);
+    const prepareResponse = await this.prepareSendPaymentResponse(raw, amountSats, options);
     const method = prepareResponse.paymentMethod;
+    // With fees included the fee comes out of the requested amount
+    const netOfFee = (feeSats: bigint): bigint =>
+      options?.feesIncluded && amountSats != null ? amountSats - feeSats : prepareResponse.amount;
 
     if (method.tag === SendPaymentMethod_Tags.Bolt11Invoice) {
       const details = method.inner;
       const fee = (details.lightningFeeSats ?? 0n) + (details.sparkTransferFeeSats ?? 0n);
       return {
         paymentMethod: 'lightning',
-        amountSats: prepareResponse.amount,
+        amountSats: netOfFee(fee),
         feeSats: fee,
+        feesIncluded: options?.feesIncluded,
         description: details.invoiceDetails.description,
       };
     }
 
     if (method.tag === SendPaymentMethod_Tags.BitcoinAddress) {
-      const feeQuote = method.inner.feeQuote?.speedMedium?.userFeeSat;
-      if (feeQuote == null) {
+      const tiers = this.mapOnchainFeeTiers(method.inner.feeQuote);
+      const speed = options?.confirmationSpeed ?? 'medium';
+      const selected = tiers.find((tier) => tier.speed === speed);
+      if (selected == null) {
         throw new Error('Could not estimate on-chain fee. Please try again.');
       }
       return {
         paymentMethod: 'onchain',
-        amountSats: prepareResponse.amount,
-        feeSats: feeQuote,
+        amountSats: netOfFee(selected.feeSats),
+        feeSats: selected.feeSats,
+        feesIncluded: options?.feesIncluded,
+        onchainFeeTiers: tiers,
       };
     }
 
     if (method.tag === SendPaymentMethod_Tags.SparkAddress) {
       return {
         paymentMethod: 'spark_transfer',
-        amountSats: prepareResponse.amount,
+        amountSats: netOfFee(method.inner.fee),
         feeSats: method.inner.fee,
+        feesIncluded: options?.feesIncluded,
+        tokenIdentifier: method.inner.tokenIdentifier ?? undefined,
       };
     }
 
     if (method.tag === SendPaymentMethod_Tags.SparkInvoice) {
       return {
         paymentMethod: 'spark_transfer',
-        amountSats: prepareResponse.amount,
+        amountSats: netOfFee(method.inner.fee),
         feeSats: method.inner.fee,
+        feesIncluded: options?.feesIncluded,
         description: method.inner.sparkInvoiceDetails.description,
+        tokenIdentifier: method.inner.tokenIdentifier ?? undefined,
       };
     }
 
     throw new Error('Unsupported payment method');
   }
 
+  /**
+   * Largest amount that can be sent to `input` with the current balance.
+   * Direct sends quote the whole balance with fees included, so the SDK takes
+   * the fee out of the amount. LNURL-Pay has no fee policy: its invoice is for
+   * a fixed amount, so one fee quote is subtracted from the balance instead.
+   */
+  async getMaxSendAmount(input: string, options?: SendOptions): Promise<SendMaxResult> {
+    const sdk = this.requireSdk();
+    const raw = input.trim();
+    const parsed = await sdk.parse(raw);
+    const info = await sdk.getInfo({ ensureSynced: false });
+
+    if (options?.tokenIdentifier) {
+      // Token transfers pay no fee in the token itself
+      return { amountSats: info.tokenBalances.get(options.tokenIdentifier)?.balance ?? 0n, feesIncluded: false };
+    }
+
+    if (parsed.tag === InputType_Tags.Bolt11Invoice && parsed.inner[0].amountMsat != null) {
+      throw new Error('This invoice has a fixed amount');
+    }
+
+    if (parsed.tag === InputType_Tags.LnurlPay || parsed.tag === InputType_Tags.LightningAddress) {
+      const payRequest: LnurlPayRequestDetails =
+        parsed.tag === InputType_Tags.LightningAddress
+          ? parsed.inner[0].payRequest
+          : parsed.inner[0];
+      const minSats = msatToSatCeil(payRequest.minSendable);
+      const maxSats = msatToSatFloor(payRequest.maxSendable);
+      const quoteSats = info.balanceSats < maxSats ? info.balanceSats : maxSats;
+      if (quoteSats < minSats) {
+        throw new Error('Balance is too low to cover the amount and fees');
+      }
+      const prepared = await this.quoteMaxSend(() => this.prepareSendPayment(raw, quoteSats, undefined, options));
+      const amountSats = prepared.amountSats + prepared.feeSats <= info.balanceSats
+        ? prepared.amountSats
+        : info.balanceSats - prepared.feeSats;
+      if (amountSats < minSats) {
+        throw new Error('Balance is too low to cover the amount and fees');
+      }
+      return { amountSats, feesIncluded: false };
+    }
+
+    if (info.balanceSats <= 0n) {
+      throw new Error('Balance is too low to cover the amount and fees');
+    }
+    await this.quoteMaxSend(() =>
+      this.prepareSendPayment(raw, info.balanceSats, undefined, { ...options, feesIncluded: true })
+    );
+    return { amountSats: info.balanceSats, feesIncluded: true };
+  }
+
+  // The SDK refuses to quote amounts it cannot pay, e.g. when the fee no longer fits
+  private async quoteMaxSend(prepare: () => Promise<PrepareSendResult>): Promise<PrepareSendResult> {
+    try {
+      return await prepare();
+    } catch (err) {
+      console.warn('[BreezService] Send max quote failed:', err);
+      throw new Error('Balance is too low to cover the amount and fees');
+    }
+  }
+
+  async prepareWithdraw(input: string, amountSats: bigint): Promise<PrepareWithdrawResult> {
+    const sdk = this.requireSdk();
+    const parsed = await sdk.parse(input.trim());
+    const details = this.requireLnurlWithdraw(parsed);
+    return this.validateWithdrawAmount(details, amountSats);
+  }
+
+  async withdraw(input: string, amountSats: bigint): Promise<WithdrawResult> {
+    const sdk = this.requireSdk();
+    const parsed = await sdk.parse(input.trim());
+    const details = this.requireLnurlWithdraw(parsed);
+    this.validateWithdrawAmount(details, amountSats);
+
+    const response = await sdk.lnurlWithdraw(LnurlWithdrawRequest.new({
+      amountSats,
+      withdrawRequest: details,
+      completionTimeoutSecs: WITHDRAW_COMPLETION_TIMEOUT_SECS,
+    }));
+
+    return {
+      amountSats,
+      paymentRequest: response.paymentRequest,
+      payment: response.payment ? this.mapPayment(response.payment) : undefined,
+    };
+  }
+
+  /**
+   * Sign an LNURL-Auth challenge with the wallet's per-domain linking key.
+   * Throws with the service's reason when it rejects the login.
+   */
+  async lnurlAuth(input: string): Promise<void> {
+    const sdk = this.requireSdk();
+    const parsed = await sdk.parse(input.trim());
+    if (parsed.tag !== InputType_Tags.LnurlAuth) {
+      throw new Error('Not an LNURL-Auth request');
+    }
+
+    const status = await sdk.lnurlAuth(parsed.inner[0]);
+    if (status.tag === LnurlCallbackStatus_Tags.ErrorStatus) {
+      throw new Error(status.inner.errorDetails.reason);
+    }
+  }
+
   async listPayments(filter?: ListPaymentsFilter): Promise<LightningPayment[]> {
     const sdk = this.requireSdk();
 
@@ -589,22 +799,52 @@ class BreezServiceImpl {
     });
   }
 
+  private mapOnchainFeeTiers(feeQuote: SendOnchainFeeQuote | undefined): OnchainFeeTier[] {
+    if (!feeQuote) return [];
+    return [
+      { speed: 'slow', feeSats: feeQuote.speedSlow.userFeeSat, targetBlocks: ONCHAIN_TARGET_BLOCKS.slow },
+      { speed: 'medium', feeSats: feeQuote.speedMedium.userFeeSat, targetBlocks: ONCHAIN_TARGET_BLOCKS.medium },
+      { speed: 'fast', feeSats: feeQuote.speedFast.userFeeSat, targetBlocks: ONCHAIN_TARGET_BLOCKS.fast },
+    ];
+  }
+
+  private sendPaymentOptions(
+    prepareResponse: PrepareSendPaymentResponse,
+    options?: SendOptions
+  ): SendPaymentOptions | undefined {
+    if (prepareResponse.paymentMethod.tag !== SendPaymentMethod_Tags.BitcoinAddress) {
+      return undefined;
+    }
+    return SendPaymentOptions.BitcoinAddress.new({
+      confirmationSpeed: CONFIRMATION_SPEEDS[options?.confirmationSpeed ?? 'medium'],
+    });
+  }
+
   private async prepareSendPaymentResponse(
     paymentRequest: string,
-    amountSats?: bigint
+    amountSats?: bigint,
+    options?: SendOptions
   ): Promise<PrepareSendPaymentResponse> {
     const sdk = this.requireSdk();
 
     return sdk.prepareSendPayment({
       paymentRequest,
       amount: amountSats != null ? amountSats : undefined,
-      tokenIdentifier: undefined,
+      tokenIdentifier: options?.tokenIdentifier,
       conversionOptions: undefined,
-      feePolicy: undefined,
+      feePolicy: options?.feesIncluded ? FeePolicy.FeesIncluded : FeePolicy.FeesExcluded,
     });
   }
 
   private assertSendAmount(parsed: InputType, amountSats?: bigint): void {
+    if (parsed.tag === InputType_Tags.Bolt12Offer) {
+      throw new Error('BOLT12 offers are not supported yet. Ask the recipient for a Lightning invoice instead.');
+    }
+
+    if (parsed.tag === InputType_Tags.SilentPaymentAddress) {
+      throw new Error('Silent payment addresses are not supported yet. Ask the recipient for a regular Bitcoin address instead.');
+    }
+
     if (amountSats != null && amountSats <= 0n) {
       throw new Error('Amount must be greater than zero');
     }
@@ -621,6 +861,56 @@ class BreezServiceImpl {
     }
   }
 
+  private requireLnurlWithdraw(parsed: InputType): LnurlWithdrawRequestDetails {
+    if (parsed.tag !== InputType_Tags.LnurlWithdraw) {
+      throw new Error('Not an LNURL-Withdraw request');
+    }
+    return parsed.inner[0];
+  }
+
+  private validateWithdrawAmount(
+    details: LnurlWithdrawRequestDetails,
+    amountSats: bigint
+  ): PrepareWithdrawResult {
+    const minWithdrawableSats = msatToSatCeil(details.minWithdrawable);
+    const maxWithdrawableSats = msatToSatFloor(details.maxWithdrawable);
+
+    if (amountSats <= 0n) {
+      throw new Error('Amount must be greater than zero');
+    }
+    if (amountSats < minWithdrawableSats) {
+      throw new Error(`Minimum withdrawable amount is ${minWithdrawableSats} sats`);
+    }
+    if (amountSats > maxWithdrawableSats) {
+      throw new Error(`Maximum withdrawable amount is ${maxWithdrawableSats} sats`);
+    }
+
+    return {
+      domain: this.domainFromUrl(details.callback),
+      amountSats,
+      minWithdrawableSats,
+      maxWithdrawableSats,
+      description: details.defaultDescription || undefined,
+    };
+  }
+
+  private mapLnurlAuthAction(details: LnurlAuthRequestDetails): LnurlAuthAction {
+    switch (details.action) {
+      case 'register':
+      case 'login':
+      case 'link':
+        return details.action;
+      default:
+        return 'auth';
+    }
+  }
+
+  private domainFromUrl(url: string): string {
+    // RN's URL polyfill does not implement `hostname`, so parse it by hand.
+    const match = /^[a-z][a-z0-9+.-]*:\/\/(?:[^@/?#]*@)?([^/:?#]+)/i.exec(url);
+    return match ? match[1].toLowerCase() : url;
+  }
+
   private mapParsedInput(input: InputType, raw: string): ParsedInput {
     switch (input.tag) {
       case InputType_Tags.Bolt11Invoice: {
@@ -640,6 +930,11 @@ class BreezServiceImpl {
           type: 'bitcoin_address',
           address: input.inner[0].address,
         };
+      case InputType_Tags.SilentPaymentAddress:
+        return {
+          type: 'silent_payment_address',
+          address: input.inner[0].address,
+        };
       case InputType_Tags.SparkAddress:
         return {
           type: 'spark_address',
@@ -677,21 +972,78 @@ class BreezServiceImpl {
           maxSendable: details.payRequest.maxSendable,
         };
       }
+      case InputType_Tags.LnurlWithdraw: {
+        const details = input.inner[0];
+        return {
+          type: 'lnurl_withdraw',
+          domain: this.domainFromUrl(details.callback),
+          defaultDescription: details.defaultDescription,
+          minWithdrawable: details.minWithdrawable,
+          maxWithdrawable: details.maxWithdrawable,
+        };
+      }
+      case InputType_Tags.Bolt12Offer: {
+        const details = input.inner[0];
+        return {
+          type: 'bolt12_offer',
+          offer: details.offer.offer,
+          description: details.description ?? undefined,
+          issuer: details.issuer ?? undefined,
+          signingPubkey: details.signingPubkey ?? undefined,
+        };
+      }
+      case InputType_Tags.LnurlAuth: {
+        const details = input.inner[0];
+        return {
+          type: 'lnurl_auth',
+          domain: details.domain,
+          action: this.mapLnurlAuthAction(details),
+          url: details.url,
+        };
+      }
       case InputType_Tags.Bip21: {
         const details = input.inner[0];
+        const methods: Bip21PaymentMethod[] = [];
         for (const paymentMethod of details.paymentMethods) {
-          const mapped = this.mapParsedInput(paymentMethod, raw);
-          if (mapped.type !== 'unknown') {
-            return mapped;
-          }
+          const method = this.mapBip21Method(paymentMethod);
+          if (method) methods.push(method);
         }
-        return { type: 'unknown', raw };
+        if (methods.length === 0) {
+          return { type: 'unknown', raw };
+        }
+        return {
+          type: 'bip21',
+          uri: details.uri,
+          amountSats: details.amountSat ?? undefined,
+          label: details.label ?? undefined,
+          message: details.message ?? undefined,
+          methods,
+        };
       }
       default:
         return { type: 'unknown', raw };
     }
   }
 
+  private mapBip21Method(input: InputType): Bip21PaymentMethod | undefined {
+    let request: string;
+    switch (input.tag) {
+      case InputType_Tags.Bolt11Invoice:
+        request = input.inner[0].invoice.bolt11;
+        break;
+      case InputType_Tags.BitcoinAddress:
+      case InputType_Tags.SparkAddress:
+        request = input.inner[0].address;
+        break;
+      case InputType_Tags.SparkInvoice:
+        request = input.inner[0].invoice;
+        break;
+      default:
+        return undefined;
+    }
+    return { request, input: this.mapParsedInput(input, request) as Bip21MethodInput };
+  }
+
   private mapPayment(payment: Payment): LightningPayment {
     const type = payment.paymentType === PaymentType.Receive ? 'receive' : 'send';
     const status = this.mapPaymentStatus(payment.status);
@@ -701,6 +1053,8 @@ class BreezServiceImpl {
     let invoice: string | undefined;
     let paymentHash = payment.id;
     let preimage: string | undefined;
+    let token: LightningPayment['token'];
+    let route: PaymentRoute | undefined;
 
     if (payment.details) {
       switch (payment.details.tag) {
@@ -709,6 +1063,7 @@ class BreezServiceImpl {
           invoice = payment.details.inner.invoice;
           paymentHash = payment.details.inner.htlcDetails.paymentHash;
           preimage = payment.details.inner.htlcDetails.preimage ?? undefined;
+          route = 'lightning';
           break;
         case PaymentDetails_Tags.Spark:
           description = payment.details.inner.invoiceDetails?.description ?? undefined;
@@ -717,17 +1072,25 @@ class BreezServiceImpl {
             paymentHash = payment.details.inner.htlcDetails.paymentHash;
             preimage = payment.details.inner.htlcDetails.preimage ?? undefined;
           }
+          route = 'spark';
           break;
         case PaymentDetails_Tags.Token:
           description = payment.details.inner.invoiceDetails?.description ?? undefined;
           invoice = payment.details.inner.invoiceDetails?.invoice;
           paymentHash = payment.details.inner.txHash;
+          token = {
+            ...this.mapTokenInfo(payment.details.inner.metadata),
+            amount: payment.amount,
+          };
+          route = 'spark';
           break;
         case PaymentDetails_Tags.Withdraw:
           paymentHash = payment.details.inner.txId;
+          route = 'onchain';
           break;
         case PaymentDetails_Tags.Deposit:
           paymentHash = payment.details.inner.txId;
+          route = 'onchain';
           break;
       }
     }
@@ -736,8 +1099,10 @@ class BreezServiceImpl {
       id: payment.id,
       type,
       status,
-      amountSats: payment.amount,
+      amountSats: token ? 0n : payment.amount,
       feeSats: payment.fees > 0n ? payment.fees : undefined,
+      token,
+      route,
       description,
       invoice,
       paymentHash,
@@ -747,6 +1112,28 @@ class BreezServiceImpl {
     };
   }
 
+  private mapTokenInfo(metadata: TokenMetadata): TokenInfo {
+    return {
+      identifier: metadata.identifier,
+      name: metadata.name,
+      ticker: metadata.ticker,
+      decimals: Number(metadata.decimals),
+    };
+  }
+
+  private mapTokenBalances(
+    balances: Map<string, { balance: bigint; tokenMetadata: TokenMetadata }>
+  ): Record<string, TokenBalance> {
+    const result: Record<string, TokenBalance> = {};
+    for (const [identifier, entry] of balances) {
+      result[identifier] = {
+        ...this.mapTokenInfo(entry.tokenMetadata),
+        balance: entry.balance,
+      };
+    }
+    return result;
+  }
+
   private mapPaymentStatus(status: PaymentStatus): TransactionStatus {
     switch (status) {
       case PaymentStatus.Completed:
@@ -0,0 +1,182 @@
+/**
+ * Export Service
+ *
+ * Writes completed payments to a CSV or JSON file for accounting and hands
+ * the file to the share sheet. Pending and failed payments never moved funds,
+ * so they are left out rather than imported as trades.
+ * The CSV uses Koinly's universal columns (also accepted by CoinTracker),
+ * followed by wallet-specific columns those tools ignore.
+ */
+
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { format as formatDate } from 'date-fns';
+import { BreezService } from '@/services/breez';
+import { t } from '@/i18n';
+import { satsToBtc, tokenValueToDecimal, fiatFractionDigits } from '@/utils/format';
+import type {
+  ExportFormat,
+  ExportOptions,
+  ExportResult,
+  LightningPayment,
+  ListPaymentsFilter,
+} from '@/types/wallet';
+
+// Page size when walking listPayments for the export range
+const EXPORT_PAGE_SIZE = 100;
+
+const FILE_TYPES: Record<ExportFormat, { mimeType: string; UTI: string }> = {
+  csv: { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' },
+  json: { mimeType: 'application/json', UTI: 'public.json' },
+};
+
+const CSV_HEADER = [
+  'Date',
+  'Sent Amount',
+  'Sent Currency',
+  'Received Amount',
+  'Received Currency',
+  'Fee Amount',
+  'Fee Currency',
+  'Net Worth Amount',
+  'Net Worth Currency',
+  'Label',
+  'Description',
+  'TxHash',
+  'Amount (sats)',
+  'Fee (sats)',
+  'Type',
+  'Status',
+  'Category',
+  'Counterparty',
+  'Note',
+];
+
+interface ExportRow {
+  id: string;
+  date: string; // ISO 8601
+  type: LightningPayment['type'];
+  status: LightningPayment['status'];
+  amount: string; // BTC or token units
+  currency: string;
+  amountSats: string;
+  feeSats: string;
+  fiatValue?: string;
+  fiatCurrency: string;
+  paymentHash: string;
+  description?: string;
+  category?: string;
+  counterparty?: string;
+  note?: string;
+}
+
+/** Quote a CSV field when it contains a delimiter, quote or newline. */
+const csvField = (value: string | undefined): string => {
+  if (value == null) return '';
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+class ExportServiceImpl {
+  /**
+   * Collect every completed payment in the range and write it to a file in the cache directory.
+   */
+  async exportHistory(options: ExportOptions): Promise<ExportResult> {
+    const payments = await this.collectPayments(options);
+    const btcPrices = (await options.resolveBtcPrices?.(payments)) ?? {};
+    const rows = payments.map((payment) => this.toRow(payment, options, btcPrices[payment.id]));
+    const content = options.format === 'csv' ? this.toCsv(rows) : JSON.stringify(rows, null, 2);
+
+    const filename = `starr-transactions-${formatDate(new Date(), 'yyyy-MM-dd-HHmm')}.${options.format}`;
+    const file = new File(Paths.cache, filename);
+    file.create({ overwrite: true });
+    file.write(content);
+
+    return { uri: file.uri, filename, format: options.format, count: rows.length };
+  }
+
+  /**
+   * Share the written file itself, so the receiving app gets a real .csv or .json.
+   */
+  async shareExport(result: ExportResult): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error(t('common.sharingUnavailable'));
+    }
+    await Sharing.shareAsync(result.uri, { ...FILE_TYPES[result.format], dialogTitle: result.filename });
+  }
+
+  private async collectPayments(options: ExportOptions): Promise<LightningPayment[]> {
+    const payments: LightningPayment[] = [];
+    for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+      const filter: ListPaymentsFilter = {
+        fromTimestamp: options.fromTimestamp,
+        toTimestamp: options.toTimestamp,
+        offset,
+        limit: EXPORT_PAGE_SIZE,
+        sortAscending: true,
+      };
+      const page = await BreezService.listPayments(filter);
+      payments.push(...page.filter((payment) => payment.status === 'completed'));
+      if (page.length < EXPORT_PAGE_SIZE) break;
+    }
+    return payments;
+  }
+
+  private toRow(payment: LightningPayment, options: ExportOptions, btcPrice: number | undefined): ExportRow {
+    const label = options.labels?.[payment.id];
+    const fiatValue = btcPrice != null && !payment.token
+      ? ((Number(payment.amountSats) / 100_000_000) * btcPrice).toFixed(fiatFractionDigits(options.fiatCurrency))
+      : undefined;
+
+    return {
+      id: payment.id,
+      date: payment.timestamp.toISOString(),
+      type: payment.type,
+      status: payment.status,
+      amount: payment.token
+        ? tokenValueToDecimal(payment.token.amount, payment.token.decimals)
+        : satsToBtc(payment.amountSats),
+      currency: payment.token?.ticker ?? 'BTC',
+      amountSats: payment.amountSats.toString(),
+      feeSats: (payment.feeSats ?? 0n).toString(),
+      fiatValue,
+      fiatCurrency: options.fiatCurrency,
+      paymentHash: payment.paymentHash,
+      description: payment.description,
+      category: label?.category,
+      counterparty: label?.counterparty,
+      note: label?.note,
+    };
+  }
+
+  private toCsv(rows: ExportRow[]): string {
+    const lines = rows.map((row) => {
+      const isSend = row.type === 'send';
+      const fee = BigInt(row.feeSats);
+      return [
+        // Koinly expects "YYYY-MM-DD HH:mm:ss UTC"
+        `${row.date.slice(0, 19).replace('T', ' ')} UTC`,
+        isSend ? row.amount : '',
+        isSend ? row.currency : '',
+        isSend ? '' : row.amount,
+        isSend ? '' : row.currency,
+        fee > 0n ? satsToBtc(fee) : '',
+        fee > 0n ? 'BTC' : '',
+        row.fiatValue,
+        row.fiatValue != null ? row.fiatCurrency : '',
+        '',
+        row.description,
+        row.paymentHash,
+        row.amountSats,
+        row.feeSats,
+        row.type,
+        row.status,
+        row.category,
+        row.counterparty,
+        row.note,
+      ].map(csvField).join(',');
+    });
+    return [CSV_HEADER.join(','), ...lines].join('\n') + '\n';
+  }
+}
+
+export const ExportService = new ExportServiceImpl();
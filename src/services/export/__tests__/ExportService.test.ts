@@ -0,0 +1,87 @@
+import { ExportService } from '../ExportService';
+import type { LightningPayment } from '@/types/wallet';
+
+const mockListPayments = jest.fn();
+const mockWritten = new Map<string, string>();
+
+jest.mock('@/services/breez', () => ({
+  BreezService: {
+    listPayments: (filter: unknown) => mockListPayments(filter),
+  },
+}));
+
+jest.mock('expo-file-system', () => ({
+  Paths: { cache: 'file:///cache' },
+  File: class {
+    uri: string;
+    constructor(dir: string, name: string) {
+      this.uri = `${dir}/${name}`;
+    }
+    create() {}
+    write(content: string) {
+      mockWritten.set(this.uri, content);
+    }
+  },
+}));
+
+jest.mock('expo-sharing', () => ({}));
+
+const payment = (id: string, overrides: Partial<LightningPayment> = {}): LightningPayment => ({
+  id,
+  type: 'receive',
+  status: 'completed',
+  amountSats: 150_000n,
+  paymentHash: `hash-${id}`,
+  timestamp: new Date('2026-09-15T10:30:00Z'),
+  ...overrides,
+});
+
+beforeEach(() => {
+  mockListPayments.mockReset();
+  mockWritten.clear();
+});
+
+describe('exportHistory', () => {
+  it('writes only completed payments, with Koinly columns for sends and receives', async () => {
+    mockListPayments.mockResolvedValue([
+      payment('received'),
+      payment('sent', { type: 'send', amountSats: 20_000n, feeSats: 12n, description: 'Coffee, oat milk' }),
+      payment('pending', { status: 'pending' }),
+      payment('failed', { type: 'send', status: 'failed' }),
+    ]);
+
+    const result = await ExportService.exportHistory({
+      format: 'csv',
+      fiatCurrency: 'EUR',
+      resolveBtcPrices: async () => ({ received: 60000 }),
+    });
+    const [header, ...rows] = mockWritten.get(result.uri)!.trimEnd().split('\n');
+
+    expect(result.count).toBe(2);
+    expect(header.startsWith('Date,Sent Amount,Sent Currency,Received Amount,Received Currency')).toBe(true);
+    expect(rows).toEqual([
+      '2026-09-15 10:30:00 UTC,,,0.00150000,BTC,,,90.00,EUR,,,hash-received,150000,0,receive,completed,,,',
+      '2026-09-15 10:30:00 UTC,0.00020000,BTC,,,0.00000012,BTC,,,,"Coffee, oat milk",hash-sent,20000,12,send,completed,,,',
+    ]);
+  });
+
+  it('pages through the whole range', async () => {
+    const firstPage = Array.from({ length: 100 }, (_, i) => payment(`p${i}`));
+    mockListPayments.mockResolvedValueOnce(firstPage).mockResolvedValueOnce([payment('last')]);
+
+    const result = await ExportService.exportHistory({
+      format: 'json',
+      fromTimestamp: 1_780_000_000,
+      toTimestamp: 1_790_000_000,
+      fiatCurrency: 'USD',
+    });
+
+    expect(result.count).toBe(101);
+    expect(mockListPayments).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      offset: 100,
+      fromTimestamp: 1_780_000_000,
+      toTimestamp: 1_790_000_000,
+    }));
+    expect(JSON.parse(mockWritten.get(result.uri)!)).toHaveLength(101);
+  });
+});
@@ -0,0 +1 @@
+export { ExportService } from './ExportService';
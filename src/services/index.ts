@@ -1,2 +1,5 @@
 export { BreezService } from './breez';
 export { KeychainService } from './keychain';
+export { ExportService } from './export';
+export { BackupService } from './backup';
+export { PriceHistoryService, RateService } from './prices';
@@ -6,7 +6,8 @@
  * - Android: Keystore with hardware-backed security
  *
  * The mnemonic is stored with `requireAuthentication: true` — every read
- * triggers a native OS biometric / device-passcode prompt.
+ * triggers a native OS biometric / device-passcode prompt. An optional BIP39
+ * passphrase is stored the same way under its own key.
  *
  * CRITICAL SECURITY NOTES:
  * - The mnemonic is the ONLY way to recover funds
@@ -17,10 +18,13 @@ import * as SecureStore from 'expo-secure-store';
 import * as LocalAuthentication from 'expo-local-authentication';
 import * as Crypto from 'expo-crypto';
 import * as bip39 from 'bip39';
+import { t } from '@/i18n';
 
 // Storage keys
 const KEYS = {
   MNEMONIC: 'starr_mnemonic',
+  PASSPHRASE: 'starr_passphrase',
+  HAS_PASSPHRASE: 'starr_has_passphrase',
   WALLET_CREATED: 'starr_wallet_created',
 } as const;
 
@@ -30,26 +34,27 @@ const BASE_OPTIONS: SecureStore.SecureStoreOptions = {
 };
 
 // Auth-guarded options — native biometric / device-passcode on every read.
-const AUTH_OPTIONS: SecureStore.SecureStoreOptions = {
+// Built per call so the prompt follows the current language.
+const authOptions = (): SecureStore.SecureStoreOptions => ({
   keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
   requireAuthentication: true,
-  authenticationPrompt: 'Authenticate to access your wallet',
-};
+  authenticationPrompt: t('keychain.prompt'),
+});
 
 /** Convert SecureStore / auth errors into user-friendly Error. */
 function humanizeSecureStoreError(err: unknown): Error {
   const msg = err instanceof Error ? err.message : String(err);
   if (msg.includes('No biometrics are currently enrolled')) {
-    return new Error('Please set up biometrics (fingerprint or face) in your device settings to secure your wallet.');
+    return new Error(t('keychain.noBiometrics'));
   }
   if (msg.includes('No hardware available')) {
-    return new Error('This device does not support biometric authentication.');
+    return new Error(t('keychain.noHardware'));
   }
   if (msg.includes('permanently invalidated')) {
-    return new Error('Your biometric data has changed. Please remove and re-add biometrics in device settings.');
+    return new Error(t('keychain.biometricsChanged'));
   }
   if (msg.includes('Authenticate') || msg.includes('authentication')) {
-    return new Error('Authentication failed. Please try again.');
+    return new Error(t('keychain.authFailed'));
   }
   return err instanceof Error ? err : new Error(msg);
 }
@@ -62,11 +67,11 @@ class KeychainServiceImpl {
   async requireAuthentication(): Promise<void> {
     const hasHardware = await LocalAuthentication.hasHardwareAsync();
     if (!hasHardware) {
-      throw new Error('This device does not support biometric authentication.');
+      throw new Error(t('keychain.noHardware'));
     }
     const isEnrolled = await LocalAuthentication.isEnrolledAsync();
     if (!isEnrolled) {
-      throw new Error('Please set up biometrics (fingerprint or face) in your device settings to secure your wallet.');
+      throw new Error(t('keychain.noBiometrics'));
     }
   }
 
@@ -95,13 +100,13 @@ class KeychainServiceImpl {
   }
 
   /**
-   * Store the mnemonic securely.
-   * The key is stored with `requireAuthentication` — on iOS auth is only
+   * Store the mnemonic, and the BIP39 passphrase if there is one, securely.
+   * The keys are stored with `requireAuthentication` — on iOS auth is only
    * required on read; on Android it is required on both read and write.
    *
    * CRITICAL: This is the most sensitive operation in the wallet.
    */
-  async storeMnemonic(mnemonic: string): Promise<void> {
+  async storeMnemonic(mnemonic: string, passphrase?: string): Promise<void> {
     if (!this.validateMnemonic(mnemonic)) {
       throw new Error('Invalid mnemonic');
     }
@@ -109,10 +114,17 @@ class KeychainServiceImpl {
     await this.requireAuthentication();
 
     try {
-      await SecureStore.setItemAsync(KEYS.MNEMONIC, mnemonic, AUTH_OPTIONS);
+      await SecureStore.setItemAsync(KEYS.MNEMONIC, mnemonic, authOptions());
+      if (passphrase) {
+        await SecureStore.setItemAsync(KEYS.PASSPHRASE, passphrase, authOptions());
+      } else {
+        await SecureStore.deleteItemAsync(KEYS.PASSPHRASE, authOptions());
+      }
     } catch (err) {
       throw humanizeSecureStoreError(err);
     }
+    // Non-secret flag so wallets without a passphrase skip a second auth prompt
+    await SecureStore.setItemAsync(KEYS.HAS_PASSPHRASE, passphrase ? 'true' : 'false', BASE_OPTIONS);
     await SecureStore.setItemAsync(KEYS.WALLET_CREATED, 'true', BASE_OPTIONS);
 
     console.log('[KeychainService] Mnemonic stored securely');
@@ -123,8 +135,8 @@ class KeychainServiceImpl {
    */
   async getMnemonic(promptMessage?: string): Promise<string> {
     const options: SecureStore.SecureStoreOptions = promptMessage
-      ? { ...AUTH_OPTIONS, authenticationPrompt: promptMessage }
-      : AUTH_OPTIONS;
+      ? { ...authOptions(), authenticationPrompt: promptMessage }
+      : authOptions();
 
     let mnemonic: string | null;
     try {
@@ -138,13 +150,38 @@ class KeychainServiceImpl {
     return mnemonic;
   }
 
+  /**
+   * Retrieve the BIP39 passphrase, or undefined when the wallet has none.
+   * Triggers native biometric / device-passcode prompt only if one is stored.
+   */
+  async getPassphrase(promptMessage?: string): Promise<string | undefined> {
+    const hasPassphrase = await SecureStore.getItemAsync(KEYS.HAS_PASSPHRASE, BASE_OPTIONS);
+    if (hasPassphrase !== 'true') return undefined;
+
+    const options: SecureStore.SecureStoreOptions = promptMessage
+      ? { ...authOptions(), authenticationPrompt: promptMessage }
+      : authOptions();
+
+    let passphrase: string | null;
+    try {
+      passphrase = await SecureStore.getItemAsync(KEYS.PASSPHRASE, options);
+    } catch (err) {
+      throw humanizeSecureStoreError(err);
+    }
+    // Opening without it would silently load a different, empty wallet
+    if (!passphrase) {
+      throw new Error(t('keychain.passphraseMissing'));
+    }
+    return passphrase;
+  }
+
   /**
    * Authenticate user via biometric or device passcode.
    */
   async authenticateUser(promptMessage?: string): Promise<boolean> {
     const result = await LocalAuthentication.authenticateAsync({
-      promptMessage: promptMessage || 'Authenticate to continue',
-      cancelLabel: 'Cancel',
+      promptMessage: promptMessage || t('keychain.promptContinue'),
+      cancelLabel: t('common.cancel'),
       disableDeviceFallback: false,
     });
 
@@ -157,7 +194,9 @@ class KeychainServiceImpl {
    */
   async clearAllData(): Promise<void> {
     await Promise.all([
-      SecureStore.deleteItemAsync(KEYS.MNEMONIC, AUTH_OPTIONS),
+      SecureStore.deleteItemAsync(KEYS.MNEMONIC, authOptions()),
+      SecureStore.deleteItemAsync(KEYS.PASSPHRASE, authOptions()),
+      SecureStore.deleteItemAsync(KEYS.HAS_PASSPHRASE, BASE_OPTIONS),
       SecureStore.deleteItemAsync(KEYS.WALLET_CREATED, BASE_OPTIONS),
     ]);
 
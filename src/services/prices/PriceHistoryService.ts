@@ -0,0 +1,105 @@
+/**
+ * Price History Service
+ *
+ * Daily BTC prices in any fiat currency, used to value payments that
+ * happened before we captured a live rate. Days are UTC days, which is how
+ * both providers bucket their daily prices. Providers are tried in the order
+ * set by RATE_CONFIG; swap them with setProviders.
+ */
+
+import { RATE_CONFIG } from '@/config';
+import type { PriceHistoryProviderId } from '@/config/rates';
+import { fetchJson } from './RateService';
+
+export interface PriceHistoryProvider {
+  name: string;
+  /** Fiat per BTC on the given UTC day (yyyy-MM-dd), or null when the provider has no data. */
+  getPrice: (currency: string, day: string) => Promise<number | null>;
+}
+
+// A day no provider had is asked for again after this long
+const MISS_TTL_MS = 10 * 60 * 1000;
+
+const positive = (value: unknown): number | null =>
+  typeof value === 'number' && value > 0 ? value : null;
+
+/** UTC calendar day of a date, as yyyy-MM-dd. */
+const utcDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const createCryptoCompareHistoryProvider = (baseUrl: string): PriceHistoryProvider => ({
+  name: 'CryptoCompare',
+  getPrice: async (currency, day) => {
+    const ts = Date.parse(`${day}T00:00:00Z`) / 1000;
+    const data = await fetchJson(
+      `${baseUrl}/data/pricehistorical?fsym=BTC&tsyms=${currency}&ts=${ts}`
+    ) as { BTC?: Record<string, unknown> };
+    return positive(data?.BTC?.[currency]);
+  },
+});
+
+export const createCoinGeckoHistoryProvider = (baseUrl: string): PriceHistoryProvider => ({
+  name: 'CoinGecko',
+  getPrice: async (currency, day) => {
+    const [year, month, date] = day.split('-');
+    const data = await fetchJson(
+      `${baseUrl}/api/v3/coins/bitcoin/history?date=${date}-${month}-${year}&localization=false`
+    ) as { market_data?: { current_price?: Record<string, unknown> } };
+    return positive(data?.market_data?.current_price?.[currency.toLowerCase()]);
+  },
+});
+
+const buildProvider = (id: PriceHistoryProviderId): PriceHistoryProvider => {
+  switch (id) {
+    case 'cryptocompare':
+      return createCryptoCompareHistoryProvider(RATE_CONFIG.CRYPTOCOMPARE_URL);
+    case 'coingecko':
+      return createCoinGeckoHistoryProvider(RATE_CONFIG.COINGECKO_URL);
+  }
+};
+
+class PriceHistoryServiceImpl {
+  private providers: PriceHistoryProvider[] = RATE_CONFIG.HISTORY_PROVIDERS.map(buildProvider);
+  // Daily prices never change, so each currency and day is fetched once per session.
+  // Lookups in flight are shared, so a batch of payments on one day makes one request.
+  private cache = new Map<string, { lookup: Promise<number | null>; missedAt?: number }>();
+
+  setProviders(providers: PriceHistoryProvider[]): void {
+    this.providers = providers;
+    this.cache.clear();
+  }
+
+  /**
+   * Fiat per BTC on the UTC day of `date`, or null when no provider has it.
+   */
+  getPrice(currency: string, date: Date): Promise<number | null> {
+    const day = utcDay(date);
+    const key = `${currency}:${day}`;
+    const cached = this.cache.get(key);
+    if (cached && (cached.missedAt == null || Date.now() - cached.missedAt < MISS_TTL_MS)) {
+      return cached.lookup;
+    }
+
+    const entry: { lookup: Promise<number | null>; missedAt?: number } = {
+      lookup: this.fetchPrice(currency, day).then((price) => {
+        if (price == null) entry.missedAt = Date.now();
+        return price;
+      }),
+    };
+    this.cache.set(key, entry);
+    return entry.lookup;
+  }
+
+  private async fetchPrice(currency: string, day: string): Promise<number | null> {
+    for (const provider of this.providers) {
+      try {
+        const price = await provider.getPrice(currency, day);
+        if (price != null) return price;
+      } catch (error) {
+        console.warn(`[PriceHistory] ${provider.name} failed:`, error);
+      }
+    }
+    return null;
+  }
+}
+
+export const PriceHistoryService = new PriceHistoryServiceImpl();
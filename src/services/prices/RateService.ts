@@ -0,0 +1,213 @@
+/**
+ * Rate Service
+ *
+ * Current BTC price in a fiat currency. Providers are tried in the order set
+ * by RATE_CONFIG; the last good quote per currency is cached in AsyncStorage
+ * so fiat amounts survive a provider outage or no connection, marked stale.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BreezService } from '@/services/breez';
+import { RATE_CONFIG } from '@/config';
+import type { RateProviderId } from '@/config/rates';
+import type { FiatRateQuote } from '@/types/wallet';
+
+export interface RateProvider {
+  id: string;
+  /** Fiat per BTC, or null when the provider does not quote this currency. */
+  getRate: (currency: string) => Promise<number | null>;
+  /** Currency codes the provider quotes; omitted when it has no listing endpoint. */
+  listCurrencies?: () => Promise<string[]>;
+}
+
+const CACHE_KEY = 'starr-fiat-rates';
+const CURRENCIES_KEY = 'starr-fiat-currencies';
+
+// Offered when no provider can list its currencies and nothing is cached
+const FALLBACK_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'CNY', 'INR', 'MXN', 'BRL', 'KRW'];
+
+// Three-letter codes providers quote that are not fiat currencies (crypto, metals, SDR)
+const NON_FIAT_CODES = new Set(['BTC', 'ETH', 'LTC', 'BCH', 'BNB', 'EOS', 'XRP', 'XLM', 'DOT', 'YFI', 'SOL', 'XAG', 'XAU', 'XDR']);
+
+const isFiatCode = (code: string): boolean => /^[A-Z]{3}$/.test(code) && !NON_FIAT_CODES.has(code);
+// Quotes older than this are shown as stale even if no provider failed
+const STALE_AFTER_MS = 15 * 60 * 1000;
+
+type RateCache = Record<string, { price: number; fetchedAt: number; provider: string }>;
+
+/** fetch + JSON with a timeout, so a hanging host falls through to the next provider. */
+export async function fetchJson(url: string): Promise<unknown> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), RATE_CONFIG.TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) throw new Error(`HTTP ${response.status} from ${url}`);
+    return await response.json();
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const positive = (value: unknown): number | null =>
+  typeof value === 'number' && value > 0 ? value : null;
+
+export const createCoinSpaceProvider = (baseUrl: string): RateProvider => ({
+  id: 'coinspace',
+  getRate: async (currency) => {
+    const data = await fetchJson(
+      `${baseUrl}/api/v1/public/prices?cryptoIds=bitcoin@bitcoin&fiat=${currency.toLowerCase()}`
+    ) as { price?: unknown }[];
+    return positive(data?.[0]?.price);
+  },
+});
+
+export const createMempoolProvider = (baseUrl: string): RateProvider => ({
+  id: 'mempool',
+  getRate: async (currency) => {
+    const data = await fetchJson(`${baseUrl}/api/v1/prices`) as Record<string, unknown>;
+    return positive(data?.[currency.toUpperCase()]);
+  },
+  listCurrencies: async () => {
+    const data = await fetchJson(`${baseUrl}/api/v1/prices`) as Record<string, unknown>;
+    return Object.keys(data ?? {}).filter((key) => typeof data[key] === 'number' && key !== 'time');
+  },
+});
+
+export const createCoinGeckoProvider = (baseUrl: string): RateProvider => ({
+  id: 'coingecko',
+  getRate: async (currency) => {
+    const code = currency.toLowerCase();
+    const data = await fetchJson(
+      `${baseUrl}/api/v3/simple/price?ids=bitcoin&vs_currencies=${code}`
+    ) as { bitcoin?: Record<string, unknown> };
+    return positive(data?.bitcoin?.[code]);
+  },
+  listCurrencies: async () => {
+    const data = await fetchJson(`${baseUrl}/api/v3/simple/supported_vs_currencies`);
+    return Array.isArray(data) ? data.filter((code): code is string => typeof code === 'string') : [];
+  },
+});
+
+// Needs an initialized SDK; before that it throws and the next provider is used
+export const breezRateProvider: RateProvider = {
+  id: 'breez',
+  getRate: async (currency) => {
+    const rates = await BreezService.listFiatRates();
+    return positive(rates[currency.toUpperCase()]);
+  },
+  listCurrencies: () => BreezService.listFiatCurrencies(),
+};
+
+const buildProvider = (id: RateProviderId): RateProvider => {
+  switch (id) {
+    case 'breez':
+      return breezRateProvider;
+    case 'coinspace':
+      return createCoinSpaceProvider(RATE_CONFIG.COINSPACE_URL);
+    case 'mempool':
+      return createMempoolProvider(RATE_CONFIG.MEMPOOL_URL);
+    case 'coingecko':
+      return createCoinGeckoProvider(RATE_CONFIG.COINGECKO_URL);
+  }
+};
+
+class RateServiceImpl {
+  private providers: RateProvider[] = RATE_CONFIG.PROVIDERS.map(buildProvider);
+  private cache: RateCache | null = null;
+
+  setProviders(providers: RateProvider[]): void {
+    this.providers = providers;
+  }
+
+  /**
+   * BTC price in `currency`. Serves the cache within its TTL, otherwise asks
+   * each provider in turn and falls back to the last cached quote.
+   *
+   * @throws Error when no provider answers and nothing is cached
+   */
+  async getRate(currency: string, options?: { force?: boolean }): Promise<FiatRateQuote> {
+    const code = currency.toUpperCase();
+    const cache = await this.loadCache();
+    const cached = cache[code];
+    const now = Date.now();
+
+    if (cached && !options?.force && now - cached.fetchedAt < RATE_CONFIG.CACHE_TTL_SECS * 1000) {
+      return { ...cached, currency: code, isStale: false };
+    }
+
+    for (const provider of this.providers) {
+      try {
+        const price = await provider.getRate(code);
+        if (price == null) continue;
+        const entry = { price, fetchedAt: Date.now(), provider: provider.id };
+        cache[code] = entry;
+        await this.saveCache(cache);
+        return { ...entry, currency: code, isStale: false };
+      } catch (error) {
+        console.warn(`[RateService] ${provider.id} failed:`, error);
+      }
+    }
+
+    if (cached) {
+      return { ...cached, currency: code, isStale: now - cached.fetchedAt > STALE_AFTER_MS };
+    }
+    throw new Error(`No exchange rate available for ${code}`);
+  }
+
+  /**
+   * Every fiat currency at least one provider quotes, sorted by code.
+   * Falls back to the last successful listing, then to a built-in short list.
+   */
+  async listCurrencies(): Promise<string[]> {
+    const codes = new Set<string>();
+    for (const provider of this.providers) {
+      if (!provider.listCurrencies) continue;
+      try {
+        for (const code of await provider.listCurrencies()) {
+          const upper = code.toUpperCase();
+          if (isFiatCode(upper)) codes.add(upper);
+        }
+      } catch (error) {
+        console.warn(`[RateService] ${provider.id} currency list failed:`, error);
+      }
+    }
+
+    if (codes.size > 0) {
+      const list = [...codes].sort();
+      AsyncStorage.setItem(CURRENCIES_KEY, JSON.stringify(list)).catch((error) => {
+        console.warn('[RateService] Failed to write currency list:', error);
+      });
+      return list;
+    }
+
+    try {
+      const raw = await AsyncStorage.getItem(CURRENCIES_KEY);
+      if (raw) return JSON.parse(raw) as string[];
+    } catch (error) {
+      console.warn('[RateService] Failed to read currency list:', error);
+    }
+    return FALLBACK_CURRENCIES;
+  }
+
+  private async loadCache(): Promise<RateCache> {
+    if (this.cache) return this.cache;
+    try {
+      const raw = await AsyncStorage.getItem(CACHE_KEY);
+      this.cache = raw ? (JSON.parse(raw) as RateCache) : {};
+    } catch (error) {
+      console.warn('[RateService] Failed to read rate cache:', error);
+      this.cache = {};
+    }
+    return this.cache;
+  }
+
+  private async saveCache(cache: RateCache): Promise<void> {
+    try {
+      await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(cache));
+    } catch (error) {
+      console.warn('[RateService] Failed to write rate cache:', error);
+    }
+  }
+}
+
+export const RateService = new RateServiceImpl();
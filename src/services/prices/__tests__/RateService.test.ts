@@ -0,0 +1,227 @@
+import { RATE_CONFIG } from '@/config';
+import type { RateProvider } from '../RateService';
+
+const mockStorage = new Map<string, string>();
+const mockListFiatRates = jest.fn();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  __esModule: true,
+  default: {
+    getItem: async (key: string) => mockStorage.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      mockStorage.set(key, value);
+    },
+  },
+}));
+
+jest.mock('@/services/breez', () => ({
+  BreezService: {
+    listFiatRates: () => mockListFiatRates(),
+    listFiatCurrencies: async () => [],
+  },
+}));
+
+const fetchMock = jest.fn();
+global.fetch = fetchMock;
+
+const jsonResponse = (body: unknown, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body,
+});
+
+// The service keeps its cache in memory, so every test gets a fresh instance
+const loadRateService = (): typeof import('../RateService') => {
+  let mod: typeof import('../RateService') | undefined;
+  jest.isolateModules(() => {
+    mod = jest.requireActual<typeof import('../RateService')>('../RateService');
+  });
+  return mod!;
+};
+
+const fixedProvider = (id: string, getRate: RateProvider['getRate']): RateProvider => ({
+  id,
+  getRate: jest.fn(getRate),
+});
+
+beforeEach(() => {
+  mockStorage.clear();
+  mockListFiatRates.mockReset();
+  fetchMock.mockReset();
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('providers', () => {
+  it('parses the coin.space price list', async () => {
+    const { createCoinSpaceProvider } = loadRateService();
+    fetchMock.mockResolvedValue(jsonResponse([{ price: 61000.5 }]));
+
+    await expect(createCoinSpaceProvider('http://mock').getRate('EUR')).resolves.toBe(61000.5);
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'http://mock/api/v1/public/prices?cryptoIds=bitcoin@bitcoin&fiat=eur'
+    );
+  });
+
+  it('parses mempool prices and lists only its currency keys', async () => {
+    const { createMempoolProvider } = loadRateService();
+    fetchMock.mockResolvedValue(jsonResponse({ time: 1700000000, USD: 65000, EUR: 60000 }));
+    const provider = createMempoolProvider('http://mock');
+
+    await expect(provider.getRate('usd')).resolves.toBe(65000);
+    await expect(provider.getRate('JPY')).resolves.toBeNull();
+    await expect(provider.listCurrencies!()).resolves.toEqual(['USD', 'EUR']);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://mock/api/v1/prices');
+  });
+
+  it('parses CoinGecko simple prices and currency lists', async () => {
+    const { createCoinGeckoProvider } = loadRateService();
+    const provider = createCoinGeckoProvider('http://mock');
+
+    fetchMock.mockResolvedValueOnce(jsonResponse({ bitcoin: { gbp: 52000 } }));
+    await expect(provider.getRate('GBP')).resolves.toBe(52000);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://mock/api/v3/simple/price?ids=bitcoin&vs_currencies=gbp');
+
+    fetchMock.mockResolvedValueOnce(jsonResponse(['usd', 'eur', 42]));
+    await expect(provider.listCurrencies!()).resolves.toEqual(['usd', 'eur']);
+  });
+
+  it('reads Breez fiat rates by upper-case code', async () => {
+    const { breezRateProvider } = loadRateService();
+    mockListFiatRates.mockResolvedValue({ CHF: 57000 });
+
+    await expect(breezRateProvider.getRate('chf')).resolves.toBe(57000);
+    await expect(breezRateProvider.getRate('USD')).resolves.toBeNull();
+  });
+
+  it('treats zero, negative and missing prices as no quote', async () => {
+    const { createCoinSpaceProvider } = loadRateService();
+    const provider = createCoinSpaceProvider('http://mock');
+
+    fetchMock.mockResolvedValueOnce(jsonResponse([{ price: 0 }]));
+    await expect(provider.getRate('USD')).resolves.toBeNull();
+    fetchMock.mockResolvedValueOnce(jsonResponse([{ price: -1 }]));
+    await expect(provider.getRate('USD')).resolves.toBeNull();
+    fetchMock.mockResolvedValueOnce(jsonResponse([]));
+    await expect(provider.getRate('USD')).resolves.toBeNull();
+  });
+
+  it('rejects on an HTTP error status', async () => {
+    const { createMempoolProvider } = loadRateService();
+    fetchMock.mockResolvedValue(jsonResponse({}, 503));
+
+    await expect(createMempoolProvider('http://mock').getRate('USD')).rejects.toThrow('HTTP 503');
+  });
+});
+
+describe('RateService.getRate', () => {
+  it('tries providers in order until one quotes the currency', async () => {
+    const { RateService } = loadRateService();
+    const failing = fixedProvider('failing', async () => {
+      throw new Error('down');
+    });
+    const missing = fixedProvider('missing', async () => null);
+    const working = fixedProvider('working', async () => 64000);
+    const unused = fixedProvider('unused', async () => 1);
+    RateService.setProviders([failing, missing, working, unused]);
+
+    const quote = await RateService.getRate('usd');
+
+    expect(quote).toMatchObject({ price: 64000, currency: 'USD', provider: 'working', isStale: false });
+    expect(failing.getRate).toHaveBeenCalledWith('USD');
+    expect(missing.getRate).toHaveBeenCalledWith('USD');
+    expect(unused.getRate).not.toHaveBeenCalled();
+  });
+
+  it('falls through to the next provider when one times out', async () => {
+    jest.useFakeTimers();
+    const { RateService, createMempoolProvider } = loadRateService();
+    fetchMock.mockImplementation((_url: string, init: { signal: AbortSignal }) =>
+      new Promise((_resolve, reject) => {
+        init.signal.addEventListener('abort', () => reject(new Error('aborted')));
+      })
+    );
+    RateService.setProviders([
+      createMempoolProvider('http://hanging'),
+      fixedProvider('backup', async () => 63000),
+    ]);
+
+    const pending = RateService.getRate('USD');
+    await jest.advanceTimersByTimeAsync(RATE_CONFIG.TIMEOUT_MS);
+
+    await expect(pending).resolves.toMatchObject({ price: 63000, provider: 'backup' });
+  });
+
+  it('serves the cache within the TTL and refetches after it', async () => {
+    const { RateService } = loadRateService();
+    const provider = fixedProvider('live', async () => 60000);
+    RateService.setProviders([provider]);
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+    await RateService.getRate('USD');
+    now.mockReturnValue(1_000_000 + RATE_CONFIG.CACHE_TTL_SECS * 1000 - 1);
+    await RateService.getRate('USD');
+    expect(provider.getRate).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(1_000_000 + RATE_CONFIG.CACHE_TTL_SECS * 1000);
+    await RateService.getRate('USD');
+    expect(provider.getRate).toHaveBeenCalledTimes(2);
+  });
+
+  it('bypasses the cache when forced', async () => {
+    const { RateService } = loadRateService();
+    const provider = fixedProvider('live', async () => 60000);
+    RateService.setProviders([provider]);
+
+    await RateService.getRate('USD');
+    await RateService.getRate('USD', { force: true });
+    expect(provider.getRate).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to the last cached quote when every provider fails, stale after 15 minutes', async () => {
+    const { RateService } = loadRateService();
+    let price: number | null = 59000;
+    RateService.setProviders([fixedProvider('flaky', async () => price)]);
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    await RateService.getRate('EUR');
+
+    price = null;
+    now.mockReturnValue(1_000_000 + 10 * 60 * 1000);
+    await expect(RateService.getRate('EUR')).resolves.toMatchObject({
+      price: 59000,
+      provider: 'flaky',
+      isStale: false,
+    });
+
+    now.mockReturnValue(1_000_000 + 16 * 60 * 1000);
+    await expect(RateService.getRate('EUR')).resolves.toMatchObject({ price: 59000, isStale: true });
+  });
+
+  it('uses a quote persisted by an earlier session', async () => {
+    mockStorage.set('starr-fiat-rates', JSON.stringify({
+      USD: { price: 58000, fetchedAt: 1_000_000, provider: 'mempool' },
+    }));
+    const { RateService } = loadRateService();
+    RateService.setProviders([fixedProvider('down', async () => {
+      throw new Error('offline');
+    })]);
+    jest.spyOn(Date, 'now').mockReturnValue(1_000_000 + 60 * 60 * 1000);
+
+    await expect(RateService.getRate('USD')).resolves.toMatchObject({
+      price: 58000,
+      provider: 'mempool',
+      isStale: true,
+    });
+  });
+
+  it('throws when no provider answers and nothing is cached', async () => {
+    const { RateService } = loadRateService();
+    RateService.setProviders([fixedProvider('none', async () => null)]);
+
+    await expect(RateService.getRate('USD')).rejects.toThrow('No exchange rate available for USD');
+  });
+});
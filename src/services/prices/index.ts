@@ -0,0 +1,10 @@
+export { PriceHistoryService } from './PriceHistoryService';
+export type { PriceHistoryProvider } from './PriceHistoryService';
+export {
+  RateService,
+  breezRateProvider,
+  createCoinSpaceProvider,
+  createMempoolProvider,
+  createCoinGeckoProvider,
+} from './RateService';
+export type { RateProvider } from './RateService';
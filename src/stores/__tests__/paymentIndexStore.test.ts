@@ -0,0 +1,148 @@
+import type { LightningPayment } from '@/types/wallet';
+
+const mockStorage = new Map<string, string>();
+const mockSetMany = jest.fn();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  __esModule: true,
+  default: {
+    getItem: async (key: string) => mockStorage.get(key) ?? null,
+    getMany: async (keys: string[]) => Object.fromEntries(keys.map((key) => [key, mockStorage.get(key) ?? null])),
+    setMany: async (entries: Record<string, string>) => {
+      mockSetMany(Object.keys(entries));
+      for (const [key, value] of Object.entries(entries)) mockStorage.set(key, value);
+    },
+    removeMany: async (keys: string[]) => {
+      keys.forEach((key) => mockStorage.delete(key));
+    },
+  },
+}));
+
+jest.mock('@/services/breez', () => ({ BreezService: {} }));
+
+const payment = (id: string, isoDate: string): LightningPayment => ({
+  id,
+  type: 'receive',
+  status: 'completed',
+  amountSats: 21000n,
+  paymentHash: `hash-${id}`,
+  invoice: `lnbc210u1${id}`,
+  timestamp: new Date(isoDate),
+});
+
+// The store hydrates when it is created, so every test loads a fresh copy
+const loadStore = async (): Promise<typeof import('../paymentIndexStore')> => {
+  let mod: typeof import('../paymentIndexStore') | undefined;
+  jest.isolateModules(() => {
+    mod = jest.requireActual<typeof import('../paymentIndexStore')>('../paymentIndexStore');
+  });
+  await mod!.usePaymentIndexStore.persist.rehydrate();
+  return mod!;
+};
+
+// Persisting runs after the state update
+const flushWrites = () => new Promise((resolve) => setImmediate(resolve));
+
+beforeEach(() => {
+  mockStorage.clear();
+  mockSetMany.mockReset();
+});
+
+describe('payment index persistence', () => {
+  it('stores each month of payments under its own key', async () => {
+    const { usePaymentIndexStore } = await loadStore();
+    usePaymentIndexStore.getState().bindWallet('wallet-1');
+    usePaymentIndexStore.getState().indexPayments([
+      payment('a', '2026-09-30T23:59:00Z'),
+      payment('b', '2026-10-01T00:01:00Z'),
+    ]);
+    await flushWrites();
+
+    expect([...mockStorage.keys()].sort()).toEqual([
+      'starr-payment-index',
+      'starr-payment-index:2026-09',
+      'starr-payment-index:2026-10',
+    ]);
+    expect(mockStorage.get('starr-payment-index')).not.toContain('lnbc');
+    expect(Object.keys(JSON.parse(mockStorage.get('starr-payment-index:2026-10')!))).toEqual(['b']);
+  });
+
+  it('rewrites only the month a payment event touches', async () => {
+    const { usePaymentIndexStore } = await loadStore();
+    usePaymentIndexStore.getState().bindWallet('wallet-1');
+    usePaymentIndexStore.getState().indexPayments([
+      payment('a', '2026-09-10T12:00:00Z'),
+      payment('b', '2026-10-10T12:00:00Z'),
+    ]);
+    await flushWrites();
+    mockSetMany.mockClear();
+
+    usePaymentIndexStore.getState().indexPayments([payment('c', '2026-10-11T12:00:00Z')]);
+    await flushWrites();
+
+    expect(mockSetMany).toHaveBeenCalledTimes(1);
+    expect(mockSetMany).toHaveBeenCalledWith(['starr-payment-index:2026-10']);
+  });
+
+  it('reloads the index from its month keys', async () => {
+    const first = await loadStore();
+    first.usePaymentIndexStore.getState().bindWallet('wallet-1');
+    first.usePaymentIndexStore.getState().indexPayments([
+      payment('a', '2026-09-10T12:00:00Z'),
+      payment('b', '2026-10-10T12:00:00Z'),
+    ]);
+    await flushWrites();
+
+    const { usePaymentIndexStore, fromIndexedPayment } = await loadStore();
+    const { walletId, payments } = usePaymentIndexStore.getState();
+
+    expect(walletId).toBe('wallet-1');
+    expect(Object.keys(payments).sort()).toEqual(['a', 'b']);
+    expect(fromIndexedPayment(payments.a)).toEqual(payment('a', '2026-09-10T12:00:00Z'));
+  });
+
+  it('reads an index saved under a single key and splits it on the next write', async () => {
+    mockStorage.set('starr-payment-index', JSON.stringify({
+      state: {
+        walletId: 'wallet-1',
+        isBackfilled: true,
+        payments: {
+          a: {
+            id: 'a',
+            type: 'send',
+            status: 'completed',
+            amountSats: '1000',
+            paymentHash: 'hash-a',
+            timestamp: Date.parse('2026-08-01T00:00:00Z'),
+          },
+        },
+      },
+      version: 0,
+    }));
+
+    const { usePaymentIndexStore } = await loadStore();
+    expect(Object.keys(usePaymentIndexStore.getState().payments)).toEqual(['a']);
+
+    usePaymentIndexStore.getState().indexPayments([payment('b', '2026-10-10T12:00:00Z')]);
+    await flushWrites();
+
+    expect(JSON.parse(mockStorage.get('starr-payment-index')!)).toEqual({
+      walletId: 'wallet-1',
+      isBackfilled: true,
+      months: ['starr-payment-index:2026-08', 'starr-payment-index:2026-10'],
+      version: 0,
+    });
+  });
+
+  it('removes the month keys when the index is cleared', async () => {
+    const { usePaymentIndexStore } = await loadStore();
+    usePaymentIndexStore.getState().bindWallet('wallet-1');
+    usePaymentIndexStore.getState().indexPayments([payment('a', '2026-09-10T12:00:00Z')]);
+    await flushWrites();
+
+    usePaymentIndexStore.getState().clear();
+    await flushWrites();
+
+    expect([...mockStorage.keys()]).toEqual(['starr-payment-index']);
+  });
+});
@@ -0,0 +1,88 @@
+import { matchesUnifiedRequest, usePaymentRequestStore } from '../paymentRequestStore';
+import type { LightningPayment, PaymentRequestRecord } from '@/types/wallet';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  __esModule: true,
+  default: {
+    getItem: async () => null,
+    setItem: async () => {},
+    removeItem: async () => {},
+  },
+}));
+
+const CREATED_AT = 1_700_000_000_000;
+const EXPIRES_AT = CREATED_AT + 60 * 60 * 1000;
+
+const request = (overrides: Partial<PaymentRequestRecord> = {}): PaymentRequestRecord => ({
+  paymentHash: 'hash-1',
+  bolt11: 'lnbc1',
+  amountSats: '50000',
+  uri: 'bitcoin:bc1q?amount=0.0005',
+  createdAt: CREATED_AT,
+  expiresAt: EXPIRES_AT,
+  ...overrides,
+});
+
+const receipt = (overrides: Partial<LightningPayment> = {}): LightningPayment => ({
+  id: 'payment-1',
+  type: 'receive',
+  status: 'completed',
+  amountSats: 50000n,
+  route: 'onchain',
+  paymentHash: 'other-hash',
+  timestamp: new Date(CREATED_AT + 10 * 60 * 1000),
+  ...overrides,
+});
+
+describe('matchesUnifiedRequest', () => {
+  it('matches an exact Spark transfer inside the request window', () => {
+    expect(matchesUnifiedRequest(request(), receipt({ route: 'spark' }))).toBe(true);
+    expect(matchesUnifiedRequest(request(), receipt({ route: 'spark', amountSats: 50001n }))).toBe(false);
+  });
+
+  it('matches an on-chain deposit short of the amount by at most the claim fee', () => {
+    expect(matchesUnifiedRequest(request(), receipt({ amountSats: 49000n }), 1000n)).toBe(true);
+    expect(matchesUnifiedRequest(request(), receipt({ amountSats: 48999n }), 1000n)).toBe(false);
+    expect(matchesUnifiedRequest(request(), receipt({ amountSats: 49800n, feeSats: 200n }), 1000n)).toBe(true);
+    expect(matchesUnifiedRequest(request(), receipt({ amountSats: 49000n, feeSats: 200n }), 1000n)).toBe(false);
+  });
+
+  it('ignores a larger deposit to the reused address', () => {
+    expect(matchesUnifiedRequest(request(), receipt({ amountSats: 50001n }), 1000n)).toBe(false);
+    expect(matchesUnifiedRequest(request(), receipt({ amountSats: 2_000_000n }), 1000n)).toBe(false);
+  });
+
+  it('ignores receipts from before the request or after it expires', () => {
+    expect(matchesUnifiedRequest(request(), receipt({ timestamp: new Date(CREATED_AT - 1) }))).toBe(false);
+    expect(matchesUnifiedRequest(request(), receipt({ timestamp: new Date(EXPIRES_AT + 1) }))).toBe(false);
+    expect(matchesUnifiedRequest(request(), receipt({ route: 'spark', timestamp: new Date(EXPIRES_AT + 1) }))).toBe(
+      false
+    );
+  });
+
+  it('ignores requests without a unified URI or amount', () => {
+    expect(matchesUnifiedRequest(request({ uri: undefined }), receipt())).toBe(false);
+    expect(matchesUnifiedRequest(request({ amountSats: undefined }), receipt())).toBe(false);
+  });
+});
+
+describe('matchPayments', () => {
+  beforeEach(() => {
+    usePaymentRequestStore.setState({ requests: [] });
+  });
+
+  it('settles the oldest open unified request with the matching receipt only', () => {
+    const older = request({ paymentHash: 'older' });
+    const newer = request({ paymentHash: 'newer', createdAt: CREATED_AT + 1000 });
+    usePaymentRequestStore.setState({ requests: [newer, older] });
+
+    usePaymentRequestStore.getState().matchPayments(
+      [receipt({ id: 'unrelated', amountSats: 900_000n }), receipt({ id: 'match', amountSats: 49500n })],
+      1000n
+    );
+
+    const byHash = Object.fromEntries(usePaymentRequestStore.getState().requests.map((r) => [r.paymentHash, r]));
+    expect(byHash.older).toMatchObject({ paymentId: 'match', route: 'onchain' });
+    expect(byHash.newer.paymentId).toBeUndefined();
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Contacts Store
+ *
+ * Local address book. Each contact remembers the ids of payments sent to it,
+ * so its history can be rebuilt from listPayments.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import type { MessageKey } from '@/i18n';
+import type { Contact, ContactInput } from '@/types/wallet';
+
+interface ContactsState {
+  contacts: Contact[];
+
+  addContact: (input: ContactInput) => Contact;
+  updateContact: (id: string, input: ContactInput) => void;
+  removeContact: (id: string) => void;
+  recordPayment: (id: string, paymentId: string) => void;
+  clear: () => void;
+}
+
+const normalize = (value: string): string => value.trim().toLowerCase();
+
+const cleanInput = (input: ContactInput): ContactInput => ({
+  name: input.name.trim(),
+  lightningAddress: input.lightningAddress?.trim() || undefined,
+  sparkAddress: input.sparkAddress?.trim() || undefined,
+  bitcoinAddress: input.bitcoinAddress?.trim() || undefined,
+  notes: input.notes?.trim() || undefined,
+});
+
+export const contactInitials = (name: string): string => {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  const first = words[0][0];
+  const last = words.length > 1 ? words[words.length - 1][0] : '';
+  return (first + last).toUpperCase();
+};
+
+/** Addresses of a contact, in the order we prefer to pay them. */
+export const contactDestinations = (contact: Contact): { label: MessageKey; value: string }[] => {
+  const destinations: { label: MessageKey; value: string }[] = [];
+  if (contact.lightningAddress) {
+    destinations.push({ label: 'contacts.destination.lightning', value: contact.lightningAddress });
+  }
+  if (contact.sparkAddress) destinations.push({ label: 'contacts.destination.spark', value: contact.sparkAddress });
+  if (contact.bitcoinAddress) {
+    destinations.push({ label: 'contacts.destination.bitcoin', value: contact.bitcoinAddress });
+  }
+  return destinations;
+};
+
+export const findContactByDestination = (contacts: Contact[], destination: string): Contact | undefined => {
+  const target = normalize(destination);
+  return contacts.find((c) => contactDestinations(c).some((d) => normalize(d.value) === target));
+};
+
+export const useContactsStore = create<ContactsState>()(persist(
+  (set) => ({
+    contacts: [],
+
+    addContact: (input: ContactInput) => {
+      const contact: Contact = {
+        ...cleanInput(input),
+        id: Crypto.randomUUID(),
+        paymentIds: [],
+        createdAt: Date.now(),
+      };
+      set((state) => ({
+        contacts: [...state.contacts, contact].sort((a, b) => a.name.localeCompare(b.name)),
+      }));
+      return contact;
+    },
+
+    updateContact: (id: string, input: ContactInput) => {
+      set((state) => ({
+        contacts: state.contacts
+          .map((c) => (c.id === id ? { ...c, ...cleanInput(input) } : c))
+          .sort((a, b) => a.name.localeCompare(b.name)),
+      }));
+    },
+
+    removeContact: (id: string) => {
+      set((state) => ({
+        contacts: state.contacts.filter((c) => c.id !== id),
+      }));
+    },
+
+    recordPayment: (id: string, paymentId: string) => {
+      set((state) => ({
+        contacts: state.contacts.map((c) =>
+          c.id === id && !c.paymentIds.includes(paymentId)
+            ? { ...c, paymentIds: [paymentId, ...c.paymentIds] }
+            : c
+        ),
+      }));
+    },
+
+    clear: () => {
+      set({ contacts: [] });
+    },
+  }),
+  {
+    name: 'starr-contacts',
+    storage: createJSONStorage(() => AsyncStorage),
+    partialize: (state) => ({ contacts: state.contacts }),
+  },
+));
@@ -1,2 +1,7 @@
 export { useWalletStore } from './walletStore';
-
+export { useLnurlAuthStore } from './lnurlAuthStore';
+export { usePaymentRequestStore, getPaymentRequestStatus } from './paymentRequestStore';
+export { useContactsStore } from './contactsStore';
+export { usePaymentLabelStore } from './paymentLabelStore';
+export { usePaymentIndexStore, searchPayments } from './paymentIndexStore';
+export { usePaymentRateStore, getPaymentRate } from './paymentRateStore';
@@ -0,0 +1,54 @@
+/**
+ * LNURL-Auth Store
+ *
+ * Local history of domains the wallet has logged in to via LNURL-Auth.
+ * Revoking an entry only forgets it on this device; the linking key is
+ * derived from the seed, so logging in again yields the same identity.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { LnurlAuthAction, LnurlAuthDomain } from '@/types/wallet';
+
+interface LnurlAuthState {
+  domains: LnurlAuthDomain[];
+
+  recordAuth: (domain: string, action: LnurlAuthAction) => void;
+  revokeDomain: (domain: string) => void;
+  clear: () => void;
+}
+
+export const useLnurlAuthStore = create<LnurlAuthState>()(persist(
+  (set) => ({
+    domains: [],
+
+    recordAuth: (domain: string, action: LnurlAuthAction) => {
+      const now = Date.now();
+      set((state) => {
+        const existing = state.domains.find((d) => d.domain === domain);
+        const entry: LnurlAuthDomain = existing
+          ? { ...existing, lastAction: action, lastAuthAt: now, count: existing.count + 1 }
+          : { domain, lastAction: action, firstAuthAt: now, lastAuthAt: now, count: 1 };
+        return {
+          domains: [entry, ...state.domains.filter((d) => d.domain !== domain)],
+        };
+      });
+    },
+
+    revokeDomain: (domain: string) => {
+      set((state) => ({
+        domains: state.domains.filter((d) => d.domain !== domain),
+      }));
+    },
+
+    clear: () => {
+      set({ domains: [] });
+    },
+  }),
+  {
+    name: 'starr-lnurl-auth',
+    storage: createJSONStorage(() => AsyncStorage),
+    partialize: (state) => ({ domains: state.domains }),
+  },
+));
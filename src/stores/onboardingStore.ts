@@ -1,11 +1,12 @@
 /**
  * Onboarding Store
  *
- * Ephemeral in-memory store for passing the mnemonic between
- * create → backup screens.
+ * Ephemeral in-memory store for passing the mnemonic (and optional BIP39
+ * passphrase) between create → backup screens.
  */
 
 let mnemonic: string[] | null = null;
+let passphrase: string | null = null;
 
 export function setMnemonic(value: string[]): void {
   mnemonic = value;
@@ -16,3 +17,13 @@ export function consumeMnemonic(): string[] | null {
   mnemonic = null;
   return value;
 }
+
+export function setPassphrase(value: string | null): void {
+  passphrase = value;
+}
+
+export function consumePassphrase(): string | null {
+  const value = passphrase;
+  passphrase = null;
+  return value;
+}
@@ -0,0 +1,243 @@
+/**
+ * Payment Index Store
+ *
+ * Local copy of every payment for searching history offline and across all
+ * pages. Kept current from listPayments pages and the 'payment' event, and
+ * backfilled newest-first by syncIndex. Bound to one wallet: opening another
+ * starts the index over. Persisted one month per AsyncStorage key, so large
+ * histories stay under the per-entry size limit.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { PersistStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BreezService } from '@/services/breez';
+import { satsToBtc, tokenValueToDecimal } from '@/utils/format';
+import type { IndexedPayment, LightningPayment, PaymentLabel } from '@/types/wallet';
+
+// Page size when backfilling the index from listPayments
+const SYNC_PAGE_SIZE = 100;
+
+const STORAGE_KEY = 'starr-payment-index';
+
+interface PaymentIndexState {
+  // Wallet the indexed payments belong to (BreezService.getWalletId)
+  walletId: string | null;
+  payments: Record<string, IndexedPayment>;
+  // True once a sync has walked back to the oldest payment
+  isBackfilled: boolean;
+  isSyncing: boolean;
+
+  bindWallet: (walletId: string) => void;
+  indexPayments: (payments: LightningPayment[]) => void;
+  syncIndex: () => Promise<void>;
+  clear: () => void;
+}
+
+type PersistedIndex = Pick<PaymentIndexState, 'walletId' | 'payments' | 'isBackfilled'>;
+
+// What the store's own key holds; the payments live under one key per month
+interface IndexManifest {
+  walletId: string | null;
+  isBackfilled: boolean;
+  months: string[];
+  version?: number;
+}
+
+/** Key holding the payments of the UTC month of `timestamp`, e.g. starr-payment-index:2026-10. */
+const monthKey = (timestamp: number): string => `${STORAGE_KEY}:${new Date(timestamp).toISOString().slice(0, 7)}`;
+
+// Last value written or read per key, so a payment event only rewrites its own month
+const persisted = new Map<string, string>();
+
+const monthlyStorage: PersistStorage<PersistedIndex> = {
+  getItem: async (name) => {
+    const raw = await AsyncStorage.getItem(name);
+    if (!raw) return null;
+    const stored = JSON.parse(raw) as IndexManifest | { state: PersistedIndex; version?: number };
+    // Before the split the whole index lived under this key; the next write splits it
+    if ('state' in stored) return stored;
+
+    persisted.set(name, raw);
+    const months = await AsyncStorage.getMany(stored.months);
+    const payments: Record<string, IndexedPayment> = {};
+    for (const [key, value] of Object.entries(months)) {
+      if (value == null) continue;
+      persisted.set(key, value);
+      Object.assign(payments, JSON.parse(value));
+    }
+    return {
+      state: { walletId: stored.walletId, isBackfilled: stored.isBackfilled, payments },
+      version: stored.version,
+    };
+  },
+
+  setItem: async (name, { state, version }) => {
+    const months: Record<string, Record<string, IndexedPayment>> = {};
+    for (const entry of Object.values(state.payments)) {
+      (months[monthKey(entry.timestamp)] ??= {})[entry.id] = entry;
+    }
+    const manifest: IndexManifest = {
+      walletId: state.walletId,
+      isBackfilled: state.isBackfilled,
+      months: Object.keys(months),
+      version,
+    };
+    const values: Record<string, string> = { [name]: JSON.stringify(manifest) };
+    for (const [key, payments] of Object.entries(months)) {
+      values[key] = JSON.stringify(payments);
+    }
+
+    const changed = Object.fromEntries(Object.entries(values).filter(([key, value]) => persisted.get(key) !== value));
+    const emptied = [...persisted.keys()].filter((key) => !(key in values));
+    for (const [key, value] of Object.entries(changed)) persisted.set(key, value);
+    emptied.forEach((key) => persisted.delete(key));
+
+    if (emptied.length > 0) await AsyncStorage.removeMany(emptied);
+    if (Object.keys(changed).length > 0) await AsyncStorage.setMany(changed);
+  },
+
+  removeItem: async (name) => {
+    const keys = new Set([name, ...persisted.keys()]);
+    persisted.clear();
+    await AsyncStorage.removeMany([...keys]);
+  },
+};
+
+const toIndexedPayment = (payment: LightningPayment): IndexedPayment => ({
+  ...payment,
+  amountSats: payment.amountSats.toString(),
+  feeSats: payment.feeSats?.toString(),
+  token: payment.token ? { ...payment.token, amount: payment.token.amount.toString() } : undefined,
+  timestamp: payment.timestamp.getTime(),
+  completedAt: payment.completedAt?.getTime(),
+});
+
+export const fromIndexedPayment = (entry: IndexedPayment): LightningPayment => ({
+  ...entry,
+  amountSats: BigInt(entry.amountSats),
+  feeSats: entry.feeSats != null ? BigInt(entry.feeSats) : undefined,
+  token: entry.token ? { ...entry.token, amount: BigInt(entry.token.amount) } : undefined,
+  timestamp: new Date(entry.timestamp),
+  completedAt: entry.completedAt != null ? new Date(entry.completedAt) : undefined,
+});
+
+const isUnchanged = (entry: IndexedPayment | undefined, payment: LightningPayment): boolean =>
+  entry != null && entry.status === payment.status;
+
+// Amounts match on the raw sats, the BTC decimal and token values; "21,000" and "21 000" both match 21000
+const amountMatches = (entry: IndexedPayment, term: string): boolean => {
+  const numeric = term.replace(/[,_\s]/g, '');
+  if (!/^\d*\.?\d+$/.test(numeric)) return false;
+  if (entry.token) {
+    return tokenValueToDecimal(BigInt(entry.token.amount), entry.token.decimals).includes(numeric);
+  }
+  if (numeric.includes('.')) return satsToBtc(BigInt(entry.amountSats)).includes(numeric);
+  return entry.amountSats.includes(numeric);
+};
+
+/**
+ * Payments whose description, invoice, hash, preimage, amount or local label
+ * match every word of the query, newest first.
+ */
+export const searchPayments = (
+  payments: Record<string, IndexedPayment>,
+  labels: Record<string, PaymentLabel>,
+  query: string
+): LightningPayment[] => {
+  const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+  return Object.values(payments)
+    .filter((entry) => {
+      const label = labels[entry.id];
+      const text = [
+        entry.description,
+        entry.invoice,
+        entry.paymentHash,
+        entry.preimage,
+        entry.token?.ticker,
+        label?.note,
+        label?.counterparty,
+      ]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+      return terms.every((term) => text.includes(term) || amountMatches(entry, term));
+    })
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .map(fromIndexedPayment);
+};
+
+export const usePaymentIndexStore = create<PaymentIndexState>()(persist(
+  (set, get) => ({
+    walletId: null,
+    payments: {},
+    isBackfilled: false,
+    isSyncing: false,
+
+    bindWallet: (walletId: string) => {
+      if (get().walletId === walletId) return;
+      set({ walletId, payments: {}, isBackfilled: false });
+    },
+
+    indexPayments: (payments: LightningPayment[]) => {
+      if (payments.length === 0) return;
+      set((state) => {
+        const next = { ...state.payments };
+        for (const payment of payments) {
+          next[payment.id] = toIndexedPayment(payment);
+        }
+        return { payments: next };
+      });
+    },
+
+    syncIndex: async () => {
+      if (get().isSyncing) return;
+      set({ isSyncing: true });
+      try {
+        const seen = new Set<string>();
+        for (let offset = 0; ; offset += SYNC_PAGE_SIZE) {
+          const page = await BreezService.listPayments({
+            limit: SYNC_PAGE_SIZE,
+            offset,
+            sortAscending: false,
+          });
+          const { payments: known, isBackfilled } = get();
+          // After a full backfill, a page that is already indexed as-is means older pages are too
+          const caughtUp = isBackfilled && page.every((p) => isUnchanged(known[p.id], p));
+          get().indexPayments(page);
+          page.forEach((p) => seen.add(p.id));
+          if (page.length < SYNC_PAGE_SIZE) {
+            set({ isBackfilled: true });
+            break;
+          }
+          if (caughtUp) break;
+        }
+        // Stopping early skips older pages, so payments indexed as pending there are looked up directly
+        const pending = Object.values(get().payments).filter((p) => p.status === 'pending' && !seen.has(p.id));
+        for (const entry of pending) {
+          const payment = await BreezService.getPayment(entry.id);
+          if (payment && !isUnchanged(entry, payment)) get().indexPayments([payment]);
+        }
+      } catch (error) {
+        console.error('[PaymentIndex] Sync failed:', error);
+      } finally {
+        set({ isSyncing: false });
+      }
+    },
+
+    clear: () => {
+      set({ walletId: null, payments: {}, isBackfilled: false });
+    },
+  }),
+  {
+    name: STORAGE_KEY,
+    storage: monthlyStorage,
+    partialize: (state) => ({
+      walletId: state.walletId,
+      payments: state.payments,
+      isBackfilled: state.isBackfilled,
+    }),
+  },
+));
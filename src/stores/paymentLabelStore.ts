@@ -0,0 +1,75 @@
+/**
+ * Payment Label Store
+ *
+ * Notes, category tags and counterparties the user attaches to payments.
+ * The SDK only keeps the invoice description, so these live here keyed by
+ * payment id.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { PaymentCategory, PaymentLabel, PaymentLabelInput } from '@/types/wallet';
+import type { MessageKey } from '@/i18n';
+
+interface PaymentLabelState {
+  labels: Record<string, PaymentLabel>;
+
+  setLabel: (paymentId: string, input: PaymentLabelInput) => void;
+  removeLabel: (paymentId: string) => void;
+  clear: () => void;
+}
+
+export const PAYMENT_CATEGORY_LABELS: Record<PaymentCategory, MessageKey> = {
+  income: 'category.income',
+  shopping: 'category.shopping',
+  food: 'category.food',
+  bills: 'category.bills',
+  travel: 'category.travel',
+  transfer: 'category.transfer',
+  other: 'category.other',
+};
+
+export const PAYMENT_CATEGORIES = Object.keys(PAYMENT_CATEGORY_LABELS) as PaymentCategory[];
+
+export const usePaymentLabelStore = create<PaymentLabelState>()(persist(
+  (set) => ({
+    labels: {},
+
+    setLabel: (paymentId: string, input: PaymentLabelInput) => {
+      const label: PaymentLabel = {
+        note: input.note?.trim() || undefined,
+        category: input.category,
+        counterparty: input.counterparty?.trim() || undefined,
+        updatedAt: Date.now(),
+      };
+      set((state) => {
+        const labels = { ...state.labels };
+        // An emptied label is dropped rather than kept as a blank entry
+        if (label.note || label.category || label.counterparty) {
+          labels[paymentId] = label;
+        } else {
+          delete labels[paymentId];
+        }
+        return { labels };
+      });
+    },
+
+    removeLabel: (paymentId: string) => {
+      set((state) => {
+        const labels = { ...state.labels };
+        delete labels[paymentId];
+        return { labels };
+      });
+    },
+
+    clear: () => {
+      set({ labels: {} });
+    },
+  }),
+  {
+    name: 'starr-payment-labels',
+    storage: createJSONStorage(() => AsyncStorage),
+    partialize: (state) => ({ labels: state.labels }),
+  },
+));
@@ -0,0 +1,92 @@
+/**
+ * Payment Rate Store
+ *
+ * BTC price per payment id and fiat currency at the time the payment
+ * happened. Live rates are captured as payments arrive; older payments are
+ * backfilled from PriceHistoryService.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PriceHistoryService } from '@/services/prices';
+import type { LightningPayment, PaymentFiatRate } from '@/types/wallet';
+
+interface PaymentRateState {
+  // payment id -> fiat currency -> rate
+  rates: Record<string, Record<string, PaymentFiatRate>>;
+
+  captureRate: (paymentId: string, currency: string, btcPrice: number) => void;
+  ensureRates: (payments: LightningPayment[], currency: string) => Promise<Record<string, number>>;
+  clear: () => void;
+}
+
+export const getPaymentRate = (
+  rates: PaymentRateState['rates'],
+  paymentId: string,
+  currency: string
+): PaymentFiatRate | undefined => rates[paymentId]?.[currency];
+
+const setRate = (
+  rates: PaymentRateState['rates'],
+  paymentId: string,
+  currency: string,
+  rate: PaymentFiatRate
+): PaymentRateState['rates'] => ({
+  ...rates,
+  [paymentId]: { ...rates[paymentId], [currency]: rate },
+});
+
+export const usePaymentRateStore = create<PaymentRateState>()(persist(
+  (set, get) => ({
+    rates: {},
+
+    captureRate: (paymentId: string, currency: string, btcPrice: number) => {
+      // The first capture wins; a later status update must not move it to a newer price
+      if (getPaymentRate(get().rates, paymentId, currency)) return;
+      set((state) => ({
+        rates: setRate(state.rates, paymentId, currency, {
+          btcPrice,
+          source: 'captured',
+          recordedAt: Date.now(),
+        }),
+      }));
+    },
+
+    /**
+     * BTC prices for the given payments, backfilling any that are missing.
+     * Token payments have no sats value and are skipped.
+     */
+    ensureRates: async (payments: LightningPayment[], currency: string) => {
+      const prices: Record<string, number> = {};
+      for (const payment of payments) {
+        if (payment.token) continue;
+        const known = getPaymentRate(get().rates, payment.id, currency);
+        if (known) {
+          prices[payment.id] = known.btcPrice;
+          continue;
+        }
+        const btcPrice = await PriceHistoryService.getPrice(currency, payment.timestamp);
+        if (btcPrice == null) continue;
+        prices[payment.id] = btcPrice;
+        set((state) => ({
+          rates: setRate(state.rates, payment.id, currency, {
+            btcPrice,
+            source: 'history',
+            recordedAt: Date.now(),
+          }),
+        }));
+      }
+      return prices;
+    },
+
+    clear: () => {
+      set({ rates: {} });
+    },
+  }),
+  {
+    name: 'starr-payment-rates',
+    storage: createJSONStorage(() => AsyncStorage),
+    partialize: (state) => ({ rates: state.rates }),
+  },
+));
@@ -0,0 +1,178 @@
+/**
+ * Payment Request Store
+ *
+ * Ledger of invoices created by this wallet. Incoming payments are matched
+ * by payment hash so each request knows which receipt settled it. Unified
+ * requests can also be paid to the wallet's Spark or on-chain address, so
+ * those receipts are matched here too, whichever screen is open.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { MessageKey } from '@/i18n';
+import type {
+  Invoice,
+  LightningPayment,
+  MaxDepositClaimFeeSetting,
+  PaymentRequestRecord,
+  PaymentRequestStatus,
+} from '@/types/wallet';
+
+// A deposit claim spends one taproot output into one taproot output
+const DEPOSIT_CLAIM_VBYTES = 111n;
+
+interface PaymentRequestState {
+  requests: PaymentRequestRecord[];
+
+  addRequest: (invoice: Invoice, uri?: string) => void;
+  // claimFeeCapSats bounds the claim fee taken from on-chain deposits
+  matchPayments: (payments: LightningPayment[], claimFeeCapSats?: bigint) => void;
+  removeRequest: (paymentHash: string) => void;
+  clear: () => void;
+}
+
+export const PAYMENT_REQUEST_STATUS_LABELS: Record<PaymentRequestStatus, MessageKey> = {
+  open: 'requests.status.open',
+  paid: 'requests.status.paid',
+  expired: 'requests.status.expired',
+};
+
+export const getPaymentRequestStatus = (
+  request: PaymentRequestRecord,
+  now: number = Date.now()
+): PaymentRequestStatus => {
+  if (request.paymentId) return 'paid';
+  return request.expiresAt <= now ? 'expired' : 'open';
+};
+
+/**
+ * Most the SDK may spend claiming a deposit under the given setting, or
+ * undefined when the cap follows the network fee rate or claims are manual.
+ */
+export const maxDepositClaimFeeSats = (setting: MaxDepositClaimFeeSetting): bigint | undefined => {
+  switch (setting.type) {
+    case 'conservative':
+      return DEPOSIT_CLAIM_VBYTES;
+    case 'rate':
+      return BigInt(setting.satPerVbyte ?? 10) * DEPOSIT_CLAIM_VBYTES;
+    case 'fixed':
+      return BigInt(setting.amountSats ?? 1000);
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Whether a Spark or on-chain receipt pays a unified request. Those addresses
+ * are reusable and carry no reference to the request, so the receipt has to
+ * arrive between the request's creation and expiry with a matching amount:
+ * Spark transfers arrive exact, on-chain deposits arrive net of a claim fee
+ * no larger than the cap.
+ */
+export const matchesUnifiedRequest = (
+  request: PaymentRequestRecord,
+  payment: LightningPayment,
+  claimFeeCapSats?: bigint
+): boolean => {
+  if (!request.uri || !request.amountSats || request.paymentId) return false;
+  if (payment.type !== 'receive' || payment.status === 'failed' || payment.token) return false;
+  const paidAt = payment.timestamp.getTime();
+  if (paidAt < request.createdAt || paidAt > request.expiresAt) return false;
+  const amountSats = BigInt(request.amountSats);
+
+  if (payment.route === 'spark') {
+    return payment.amountSats === amountSats;
+  }
+  if (payment.route === 'onchain') {
+    // Prefer the fee the SDK reports; older records may not carry it
+    const claimFee = payment.feeSats ?? claimFeeCapSats ?? 0n;
+    return payment.amountSats <= amountSats && payment.amountSats + claimFee >= amountSats;
+  }
+  return false;
+};
+
+export const usePaymentRequestStore = create<PaymentRequestState>()(persist(
+  (set, get) => ({
+    requests: [],
+
+    addRequest: (invoice: Invoice, uri?: string) => {
+      const record: PaymentRequestRecord = {
+        paymentHash: invoice.paymentHash,
+        bolt11: invoice.bolt11,
+        amountSats: invoice.amountSats?.toString(),
+        memo: invoice.description,
+        uri,
+        createdAt: invoice.createdAt.getTime(),
+        expiresAt: invoice.expiresAt.getTime(),
+      };
+      set((state) => ({
+        requests: [record, ...state.requests.filter((r) => r.paymentHash !== invoice.paymentHash)],
+      }));
+    },
+
+    matchPayments: (payments: LightningPayment[], claimFeeCapSats?: bigint) => {
+      const { requests } = get();
+      const open = requests.filter((r) => !r.paymentId);
+      if (open.length === 0) return;
+
+      const settled = new Map<string, LightningPayment>();
+      for (const payment of payments) {
+        if (payment.type === 'receive' && payment.status === 'completed') {
+          settled.set(payment.paymentHash, payment);
+        }
+      }
+      const used = new Set(requests.map((r) => r.paymentId).filter(Boolean));
+      const matches = new Map<string, LightningPayment>();
+      for (const request of open) {
+        const payment = settled.get(request.paymentHash);
+        if (payment && !used.has(payment.id)) {
+          matches.set(request.paymentHash, payment);
+          used.add(payment.id);
+        }
+      }
+      // Oldest request first, each receipt settles at most one request
+      const unified = open
+        .filter((r) => r.uri && !matches.has(r.paymentHash))
+        .sort((a, b) => a.createdAt - b.createdAt);
+      for (const request of unified) {
+        const payment = [...settled.values()].find(
+          (p) => !used.has(p.id) && matchesUnifiedRequest(request, p, claimFeeCapSats)
+        );
+        if (payment) {
+          matches.set(request.paymentHash, payment);
+          used.add(payment.id);
+        }
+      }
+      if (matches.size === 0) return;
+
+      set((state) => ({
+        requests: state.requests.map((r) => {
+          const payment = r.paymentId ? undefined : matches.get(r.paymentHash);
+          if (!payment) return r;
+          return {
+            ...r,
+            paymentId: payment.id,
+            paidAt: (payment.completedAt ?? payment.timestamp).getTime(),
+            route: payment.route,
+          };
+        }),
+      }));
+    },
+
+    removeRequest: (paymentHash: string) => {
+      set((state) => ({
+        requests: state.requests.filter((r) => r.paymentHash !== paymentHash),
+      }));
+    },
+
+    clear: () => {
+      set({ requests: [] });
+    },
+  }),
+  {
+    name: 'starr-payment-requests',
+    storage: createJSONStorage(() => AsyncStorage),
+    partialize: (state) => ({ requests: state.requests }),
+  },
+));
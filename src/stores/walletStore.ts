@@ -9,7 +9,15 @@ import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { BreezService } from '@/services/breez';
+import { RateService } from '@/services/prices';
 import { BREEZ_CONFIG } from '@/config';
+import { buildBip21Uri } from '@/utils/bip21';
+import { usePaymentRequestStore, maxDepositClaimFeeSats } from './paymentRequestStore';
+import { usePaymentIndexStore } from './paymentIndexStore';
+import { usePaymentRateStore } from './paymentRateStore';
+import { usePaymentLabelStore } from './paymentLabelStore';
+import { useContactsStore } from './contactsStore';
+import { useLnurlAuthStore } from './lnurlAuthStore';
 import type {
   Balance,
   LightningPayment,
@@ -17,6 +25,9 @@ import type {
   WalletSettings,
   ListPaymentsFilter,
   UnclaimedDeposit,
+  WithdrawResult,
+  SendOptions,
+  UnifiedReceiveRequest,
 } from '@/types/wallet';
 
 const DEFAULT_PAYMENT_FILTER: ListPaymentsFilter = {
@@ -26,6 +37,21 @@ const DEFAULT_PAYMENT_FILTER: ListPaymentsFilter = {
 
 let paymentListener: ((payment: LightningPayment) => void) | null = null;
 
+// Remember the live fiat rate as the value of a payment when it happened
+const captureFiatRate = (payment: LightningPayment): void => {
+  const { btcFiatPrice, btcFiatPriceCurrency, settings } = useWalletStore.getState();
+  if (payment.token || btcFiatPrice == null) return;
+  // Right after a currency switch the price is still quoted in the old currency
+  if (btcFiatPriceCurrency !== settings.fiatCurrency) return;
+  usePaymentRateStore.getState().captureRate(payment.id, btcFiatPriceCurrency, btcFiatPrice);
+};
+
+// Settle payment requests, allowing for the claim fee taken from deposits
+const matchPaymentRequests = (payments: LightningPayment[]): void => {
+  const { settings } = useWalletStore.getState();
+  usePaymentRequestStore.getState().matchPayments(payments, maxDepositClaimFeeSats(settings.maxDepositClaimFee));
+};
+
 // Wallet state interface
 interface WalletState {
   // Initialization
@@ -57,12 +83,19 @@ interface WalletState {
 
   // Price
   btcFiatPrice: number | null;
+  // Currency btcFiatPrice is quoted in
+  btcFiatPriceCurrency: string | null;
+  // True when the price is an old cached quote because no rate provider answered
+  isFiatPriceStale: boolean;
 
   // Settings
   settings: WalletSettings;
 
   // Actions
-  initializeWallet: (mnemonic: string) => Promise<void>;
+  initializeWallet: (mnemonic: string, passphrase?: string) => Promise<void>;
+  closeWallet: () => Promise<void>;
+  // Forget everything kept on this device for the wallet; the keychain is cleared separately
+  clearWalletData: () => void;
 
   refreshBalance: () => Promise<void>;
   refreshRecentPayments: () => Promise<void>;
@@ -74,7 +107,14 @@ interface WalletState {
   createInvoice: (amountSats: bigint, description?: string) => Promise<Invoice>;
   getOnchainReceiveAddress: () => Promise<string>;
   getSparkReceiveAddress: () => Promise<string>;
-  sendPayment: (input: string, amountSats?: bigint, comment?: string) => Promise<LightningPayment>;
+  createUnifiedRequest: (amountSats: bigint, label?: string) => Promise<UnifiedReceiveRequest>;
+  sendPayment: (
+    input: string,
+    amountSats?: bigint,
+    comment?: string,
+    options?: SendOptions
+  ) => Promise<LightningPayment>;
+  withdrawLnurl: (input: string, amountSats: bigint) => Promise<WithdrawResult>;
   dismissIncomingPayment: () => void;
 
   updateSettings: (settings: Partial<WalletSettings>) => void;
@@ -87,9 +127,12 @@ interface WalletState {
 const defaultSettings: WalletSettings = {
   bitcoinUnit: 'SATS',
   fiatCurrency: 'USD',
+  primaryCurrency: 'bitcoin',
+  language: 'system',
   maxDepositClaimFee: {
     type: 'conservative',
   },
+  lastBackupCheckAt: null,
 };
 
 export const useWalletStore = create<WalletState>()(persist(
@@ -118,11 +161,13 @@ export const useWalletStore = create<WalletState>()(persist(
     isLoadingUnclaimed: false,
 
     btcFiatPrice: null,
+    btcFiatPriceCurrency: null,
+    isFiatPriceStale: false,
 
     settings: defaultSettings,
 
     // Initialize wallet with Breez SDK
-    initializeWallet: async (mnemonic: string) => {
+    initializeWallet: async (mnemonic: string, passphrase?: string) => {
       set({ isInitializing: true, initError: null });
 
       try {
@@ -132,9 +177,10 @@ export const useWalletStore = create<WalletState>()(persist(
           network: BREEZ_CONFIG.NETWORK,
           syncIntervalSecs: BREEZ_CONFIG.SYNC_INTERVAL_SECS,
           maxDepositClaimFee: get().settings.maxDepositClaimFee,
-        });
+        }, passphrase);
 
-        const [balance, recentPayments] = await Promise.all([
+        const [walletId, balance, recentPayments] = await Promise.all([
+          BreezService.getWalletId(),
           BreezService.getBalance(),
           BreezService.listPayments({
             limit: 5,
@@ -169,10 +215,18 @@ export const useWalletStore = create<WalletState>()(persist(
               incomingPayment: shouldShowIncoming ? payment : state.incomingPayment,
             };
           });
+          matchPaymentRequests([payment]);
+          usePaymentIndexStore.getState().indexPayments([payment]);
+          captureFiatRate(payment);
           get().refreshBalance();
         };
         BreezService.on('payment', paymentListener);
 
+        usePaymentIndexStore.getState().bindWallet(walletId);
+        matchPaymentRequests(recentPayments);
+        usePaymentIndexStore.getState().indexPayments(recentPayments);
+        // Backfill the search index in background (non-blocking)
+        usePaymentIndexStore.getState().syncIndex();
         set({
           isInitializing: false,
           isInitialized: true,
@@ -190,6 +244,37 @@ export const useWalletStore = create<WalletState>()(persist(
       }
     },
 
+    // Disconnect, e.g. to reopen with a different passphrase before onboarding finishes
+    closeWallet: async () => {
+      if (paymentListener) {
+        BreezService.off('payment', paymentListener);
+        paymentListener = null;
+      }
+      await BreezService.shutdown();
+      set({
+        isInitialized: false,
+        initError: null,
+        balance: null,
+        recentPayments: [],
+        payments: [],
+      });
+    },
+
+    clearWalletData: () => {
+      usePaymentIndexStore.getState().clear();
+      usePaymentLabelStore.getState().clear();
+      useContactsStore.getState().clear();
+      usePaymentRequestStore.getState().clear();
+      usePaymentRateStore.getState().clear();
+      useLnurlAuthStore.getState().clear();
+      set((state) => ({
+        incomingPayment: null,
+        lastPresentedIncomingPaymentId: null,
+        unclaimedDeposits: [],
+        settings: { ...state.settings, lastBackupCheckAt: null },
+      }));
+    },
+
     // Refresh balance
     refreshBalance: async () => {
       set({ isLoadingBalance: true });
@@ -211,6 +296,8 @@ export const useWalletStore = create<WalletState>()(persist(
           sortAscending: false,
         });
         recentPayments.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+        matchPaymentRequests(recentPayments);
+        usePaymentIndexStore.getState().indexPayments(recentPayments);
         set({
           recentPayments: recentPayments.slice(0, 5),
           isLoadingRecentPayments: false,
@@ -249,6 +336,8 @@ export const useWalletStore = create<WalletState>()(persist(
           offset: append ? payments.length : 0,
         };
         const page = await BreezService.listPayments(requestFilter);
+        matchPaymentRequests(page);
+        usePaymentIndexStore.getState().indexPayments(page);
 
         set((state) => {
           const nextPayments = append ? [...state.payments] : [];
@@ -314,10 +403,42 @@ export const useWalletStore = create<WalletState>()(persist(
       return BreezService.getSparkReceiveAddress();
     },
 
+    createUnifiedRequest: async (amountSats: bigint, label?: string) => {
+      set({ isCreatingInvoice: true });
+      try {
+        const [invoice, onchainAddress, sparkAddress] = await Promise.all([
+          BreezService.createInvoice(amountSats, label),
+          BreezService.getOnchainReceiveAddress(),
+          BreezService.getSparkReceiveAddress(),
+        ]);
+        const uri = buildBip21Uri(onchainAddress, {
+          amountSats,
+          label,
+          lightning: invoice.bolt11,
+          spark: sparkAddress,
+        });
+        usePaymentRequestStore.getState().addRequest(invoice, uri);
+        set({ isCreatingInvoice: false });
+        return {
+          uri,
+          amountSats,
+          label,
+          invoice,
+          onchainAddress,
+          sparkAddress,
+          createdAt: invoice.createdAt,
+        };
+      } catch (error) {
+        set({ isCreatingInvoice: false });
+        throw error;
+      }
+    },
+
     createInvoice: async (amountSats: bigint, description?: string) => {
       set({ isCreatingInvoice: true });
       try {
         const invoice = await BreezService.createInvoice(amountSats, description);
+        usePaymentRequestStore.getState().addRequest(invoice);
         set({ isCreatingInvoice: false });
         return invoice;
       } catch (error) {
@@ -326,12 +447,20 @@ export const useWalletStore = create<WalletState>()(persist(
       }
     },
 
-    sendPayment: async (input: string, amountSats?: bigint, comment?: string) => {
-      const payment = await BreezService.sendPayment(input, amountSats, comment);
+    sendPayment: async (input: string, amountSats?: bigint, comment?: string, options?: SendOptions) => {
+      const payment = await BreezService.sendPayment(input, amountSats, comment, options);
+      usePaymentIndexStore.getState().indexPayments([payment]);
+      captureFiatRate(payment);
       get().refreshBalance();
       return payment;
     },
 
+    withdrawLnurl: async (input: string, amountSats: bigint) => {
+      const result = await BreezService.withdraw(input, amountSats);
+      get().refreshBalance();
+      return result;
+    },
+
     dismissIncomingPayment: () => {
       set((state) => ({
         lastPresentedIncomingPaymentId: state.incomingPayment?.id ?? state.lastPresentedIncomingPaymentId,
@@ -353,15 +482,10 @@ export const useWalletStore = create<WalletState>()(persist(
     fetchBtcPrice: async () => {
       const { fiatCurrency } = get().settings;
       try {
-        const response = await fetch(
-          `https://price.coin.space/api/v1/public/prices?cryptoIds=bitcoin@bitcoin&fiat=${fiatCurrency.toLowerCase()}`
-        );
-        if (!response.ok) throw new Error(`Price API ${response.status}`);
-        const data = await response.json();
-        const price = data?.[0]?.price;
-        if (typeof price === 'number' && price > 0) {
-          set({ btcFiatPrice: price });
-        }
+        const quote = await RateService.getRate(fiatCurrency);
+        // Ignore a quote for a currency the user has since switched away from
+        if (quote.currency !== get().settings.fiatCurrency) return;
+        set({ btcFiatPrice: quote.price, btcFiatPriceCurrency: quote.currency, isFiatPriceStale: quote.isStale });
       } catch (error) {
         console.error('[WalletStore] Failed to fetch BTC price:', error);
       }
@@ -13,10 +13,25 @@ export interface Balance {
   // Spark SDK does not expose pending incoming/outgoing balances.
   pendingIncoming: bigint;
   pendingOutgoing: bigint;
+  // Spark token balances keyed by token identifier
+  tokenBalances: Record<string, TokenBalance>;
   // Last updated timestamp
   lastUpdated: Date;
 }
 
+// Spark token (asset) metadata
+export interface TokenInfo {
+  identifier: string;
+  name: string;
+  ticker: string;
+  decimals: number;
+}
+
+export interface TokenBalance extends TokenInfo {
+  // Balance in the token's base units (divide by 10^decimals for display)
+  balance: bigint;
+}
+
 // Transaction types
 export type TransactionStatus = 'pending' | 'completed' | 'failed';
 
@@ -25,8 +40,13 @@ export interface LightningPayment {
   id: string;
   type: 'send' | 'receive';
   status: TransactionStatus;
+  // For token payments this is 0n; the amount lives in `token.amount`
   amountSats: bigint;
   feeSats?: bigint;
+  // Set for Spark token transfers
+  token?: TokenInfo & { amount: bigint };
+  // How the funds moved; undefined when the SDK reports no details
+  route?: PaymentRoute;
   description?: string;
   invoice?: string;
   paymentHash: string;
@@ -35,6 +55,8 @@ export interface LightningPayment {
   completedAt?: Date;
 }
 
+export type PaymentRoute = 'lightning' | 'spark' | 'onchain';
+
 // Invoice for receiving payments
 export interface Invoice {
   bolt11: string;
@@ -45,6 +67,17 @@ export interface Invoice {
   createdAt: Date;
 }
 
+// Single BIP21 request payable over Lightning, Spark or on-chain
+export interface UnifiedReceiveRequest {
+  uri: string;
+  amountSats: bigint;
+  label?: string;
+  invoice: Invoice;
+  onchainAddress: string;
+  sparkAddress: string;
+  createdAt: Date;
+}
+
 // Unclaimed on-chain deposit (from Breez listUnclaimedDeposits)
 export interface UnclaimedDeposit {
   txid: string;
@@ -72,6 +105,12 @@ export interface ParsedBitcoinAddress {
   address: string;
 }
 
+// BIP-352 silent payment address (sp1…); recognised for display, the SDK cannot pay it yet
+export interface ParsedSilentPaymentAddress {
+  type: 'silent_payment_address';
+  address: string;
+}
+
 export interface ParsedSparkAddress {
   type: 'spark_address';
   address: string;
@@ -95,20 +134,234 @@ export interface ParsedLnurlPay {
   maxSendable: bigint; // millisats
 }
 
+export interface ParsedLnurlWithdraw {
+  type: 'lnurl_withdraw';
+  domain: string;
+  defaultDescription: string;
+  minWithdrawable: bigint; // millisats
+  maxWithdrawable: bigint; // millisats
+}
+
+export interface ParsedBolt12Offer {
+  type: 'bolt12_offer';
+  offer: string;
+  description?: string;
+  issuer?: string;
+  signingPubkey?: string;
+}
+
+export type LnurlAuthAction = 'register' | 'login' | 'link' | 'auth';
+
+export interface ParsedLnurlAuth {
+  type: 'lnurl_auth';
+  domain: string;
+  action: LnurlAuthAction;
+  url: string;
+}
+
+// Payment methods a BIP21 URI can carry, each payable on its own
+export type Bip21MethodInput =
+  | ParsedBolt11
+  | ParsedBitcoinAddress
+  | ParsedSparkAddress
+  | ParsedSparkInvoice;
+
+export interface Bip21PaymentMethod {
+  // Standalone payment request for this method (invoice or address)
+  request: string;
+  input: Bip21MethodInput;
+}
+
+export interface ParsedBip21 {
+  type: 'bip21';
+  uri: string;
+  amountSats?: bigint;
+  label?: string;
+  message?: string;
+  methods: Bip21PaymentMethod[];
+}
+
 export type ParsedInput =
   | ParsedBolt11
   | ParsedBitcoinAddress
   | ParsedSparkAddress
   | ParsedSparkInvoice
+  | ParsedSilentPaymentAddress
+  | ParsedBip21
   | ParsedLnurlPay
+  | ParsedLnurlWithdraw
+  | ParsedBolt12Offer
+  | ParsedLnurlAuth
   | { type: 'unknown'; raw: string };
 
 // --- Prepare send payment (Breez SDK prepareSendPayment / prepareLnurlPay)
 export interface PrepareSendResult {
   paymentMethod: 'lightning' | 'spark_transfer' | 'onchain' | 'lnurl_pay';
+  // Token base units when tokenIdentifier is set
   amountSats: bigint;
   feeSats: bigint;
   description?: string;
+  tokenIdentifier?: string;
+  // On-chain only: every fee tier quoted by the SDK; feeSats is the selected one
+  onchainFeeTiers?: OnchainFeeTier[];
+  // Send max: the fee comes out of the amount, so amountSats is what the recipient gets
+  feesIncluded?: boolean;
+}
+
+export type OnchainFeeSpeed = 'slow' | 'medium' | 'fast';
+
+export interface OnchainFeeTier {
+  speed: OnchainFeeSpeed;
+  feeSats: bigint;
+  // Rough confirmation target; the SDK does not report one per quote
+  targetBlocks: number;
+}
+
+// Extra options for prepareSendPayment / sendPayment
+export interface SendOptions {
+  // Send a Spark token instead of sats; amounts are then in token base units
+  tokenIdentifier?: string;
+  // On-chain confirmation speed (defaults to medium)
+  confirmationSpeed?: OnchainFeeSpeed;
+  // Take the fee out of the amount instead of adding it (send max)
+  feesIncluded?: boolean;
+}
+
+export interface SendMaxResult {
+  amountSats: bigint;
+  // The amount is the whole balance and must be sent with fees included
+  feesIncluded: boolean;
+}
+
+// --- LNURL-Withdraw (Breez SDK lnurlWithdraw)
+export interface PrepareWithdrawResult {
+  domain: string;
+  amountSats: bigint;
+  minWithdrawableSats: bigint;
+  maxWithdrawableSats: bigint;
+  description?: string;
+}
+
+export interface WithdrawResult {
+  amountSats: bigint;
+  paymentRequest: string;
+  // Missing when the service has not paid the invoice before the SDK timed out
+  payment?: LightningPayment;
+}
+
+// --- LNURL-Auth login history (local only; forgetting a domain does not notify it)
+export interface LnurlAuthDomain {
+  domain: string;
+  lastAction: LnurlAuthAction;
+  firstAuthAt: number; // unix ms
+  lastAuthAt: number; // unix ms
+  count: number;
+}
+
+// --- Payment request ledger (invoices we created, persisted locally)
+export type PaymentRequestStatus = 'open' | 'paid' | 'expired';
+
+export interface PaymentRequestRecord {
+  paymentHash: string;
+  bolt11: string;
+  amountSats?: string; // decimal string; bigint is not JSON-serializable
+  memo?: string;
+  uri?: string; // unified BIP21 URI when created from the Unified tab
+  createdAt: number; // unix ms
+  expiresAt: number; // unix ms
+  paidAt?: number; // unix ms
+  paymentId?: string; // payment that settled it
+  route?: PaymentRoute; // how that payment arrived
+}
+
+// --- Contacts (local address book)
+export interface Contact {
+  id: string;
+  name: string;
+  lightningAddress?: string;
+  sparkAddress?: string;
+  bitcoinAddress?: string;
+  notes?: string;
+  paymentIds: string[]; // sends made to this contact, newest first
+  createdAt: number; // unix ms
+}
+
+export type ContactInput = Pick<Contact, 'name' | 'lightningAddress' | 'sparkAddress' | 'bitcoinAddress' | 'notes'>;
+
+// --- Payment labels (local metadata keyed by payment id)
+export type PaymentCategory = 'income' | 'shopping' | 'food' | 'bills' | 'travel' | 'transfer' | 'other';
+
+export interface PaymentLabel {
+  note?: string;
+  category?: PaymentCategory;
+  counterparty?: string;
+  updatedAt: number; // unix ms
+}
+
+export type PaymentLabelInput = Pick<PaymentLabel, 'note' | 'category' | 'counterparty'>;
+
+// --- Payment search index (JSON-safe copy of LightningPayment, persisted locally)
+export interface IndexedPayment extends Omit<LightningPayment, 'amountSats' | 'feeSats' | 'token' | 'timestamp' | 'completedAt'> {
+  amountSats: string; // decimal string; bigint is not JSON-serializable
+  feeSats?: string;
+  token?: TokenInfo & { amount: string };
+  timestamp: number; // unix ms
+  completedAt?: number; // unix ms
+}
+
+// --- Current exchange rate
+export interface FiatRateQuote {
+  currency: string;
+  price: number; // fiat per BTC
+  fetchedAt: number; // unix ms
+  provider: string;
+  // Served from cache after every provider failed, and older than the stale threshold
+  isStale: boolean;
+}
+
+// --- Fiat value of a payment at the time it happened
+export interface PaymentFiatRate {
+  btcPrice: number; // fiat per BTC
+  source: 'captured' | 'history'; // live rate when the payment happened, or backfilled
+  recordedAt: number; // unix ms
+}
+
+// --- History export (accounting)
+export type ExportFormat = 'csv' | 'json';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  fromTimestamp?: number; // unix seconds
+  toTimestamp?: number; // unix seconds
+  fiatCurrency: string;
+  // BTC price per payment id at the time it happened; payments without one export with no fiat value
+  resolveBtcPrices?: (payments: LightningPayment[]) => Promise<Record<string, number>>;
+  labels?: Record<string, PaymentLabel>;
+}
+
+export interface ExportResult {
+  uri: string;
+  filename: string;
+  format: ExportFormat;
+  count: number;
+}
+
+// --- Encrypted wallet backup (local data, optionally the seed)
+export interface WalletBackupSeed {
+  mnemonic: string;
+  passphrase?: string;
+}
+
+export interface WalletBackupData {
+  createdAt: number; // unix ms
+  // Persisted store JSON as written by zustand, keyed by AsyncStorage name
+  stores: Record<string, string>;
+  seed?: WalletBackupSeed;
+}
+
+export interface BackupResult {
+  uri: string;
+  filename: string;
 }
 
 // --- List payments request (filters + pagination)
@@ -123,21 +376,11 @@ export interface ListPaymentsFilter {
 }
 
 // Currency types
-export type BitcoinUnit = 'BTC' | 'SATS';
-
-export type FiatCurrency =
-  | 'USD'
-  | 'EUR'
-  | 'GBP'
-  | 'JPY'
-  | 'CAD'
-  | 'AUD'
-  | 'CHF'
-  | 'CNY'
-  | 'INR'
-  | 'MXN'
-  | 'BRL'
-  | 'KRW';
+// BIP177 shows the integer base unit as ₿ (₿1,000 is 1,000 sats)
+export type BitcoinUnit = 'BTC' | 'SATS' | 'BIP177';
+
+// Upper-case ISO 4217 code; the choices come from the rate providers (RateService.listCurrencies)
+export type FiatCurrency = string;
 
 // Max deposit claim fee for automatic on-chain claim (Breez SDK config.maxDepositClaimFee)
 // See: https://sdk-doc-spark.breez.technology/guide/onchain_claims.html#setting-a-max-fee-for-automatic-claims
@@ -159,11 +402,22 @@ export interface MaxDepositClaimFeeSetting {
 }
 
 // Settings
+// Which currency amounts lead with; the other is shown underneath
+export type PrimaryCurrency = 'bitcoin' | 'fiat';
+
+// UI language; 'system' follows the device locale
+export type AppLanguage = 'system' | 'en' | 'es' | 'pt';
+
 export interface WalletSettings {
   // Display
   bitcoinUnit: BitcoinUnit;
   fiatCurrency: FiatCurrency;
+  primaryCurrency: PrimaryCurrency;
+  language: AppLanguage;
 
   // On-chain: max fee for automatic deposit claiming
   maxDepositClaimFee: MaxDepositClaimFeeSetting;
+
+  // Backup: when the recovery phrase was last verified, or null if never
+  lastBackupCheckAt: number | null;
 }
@@ -0,0 +1,31 @@
+import { formatSats, formatBtc, formatTokenValue } from '../format';
+
+let mockLocale = 'en-US';
+
+jest.mock('../locale', () => ({
+  getDeviceLocale: () => mockLocale,
+}));
+
+describe('digit grouping', () => {
+  it.each(['en-US', 'de-DE', 'fr-FR', 'es-ES', 'pl-PL', 'en-IN', 'ja-JP'])(
+    'matches Intl for %s, including values above 2^53',
+    (locale) => {
+      mockLocale = locale;
+      const format = new Intl.NumberFormat(locale, { maximumFractionDigits: 0 });
+      for (const value of [0n, 7n, 1234n, 12345n, 1234567n, 2n ** 53n + 1n, 2n ** 64n, 10n ** 30n + 7n]) {
+        expect(formatSats(value)).toBe(format.format(value));
+      }
+    }
+  );
+
+  it('keeps every digit of large token amounts', () => {
+    mockLocale = 'en-US';
+    expect(formatTokenValue(123456789012345678901234n, 6)).toBe('123,456,789,012,345,678.901234');
+    expect(formatTokenValue(9007199254740993000000n, 6)).toBe('9,007,199,254,740,993');
+  });
+
+  it('groups the whole BTC part in the device locale', () => {
+    mockLocale = 'de-DE';
+    expect(formatBtc(123456789000000n)).toBe('1.234.567,89000000');
+  });
+});
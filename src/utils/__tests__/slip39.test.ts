@@ -0,0 +1,178 @@
+import * as bip39 from 'bip39';
+import {
+  SLIP39_SHARE_LENGTHS,
+  checkSlip39Shares,
+  combineSlip39Shares,
+  generateSlip39Shares,
+  mnemonicToSlip39Shares,
+  parseSlip39Share,
+  slip39SharesToMnemonic,
+} from '../slip39';
+import type { Slip39Share } from '../slip39';
+// Official SLIP-0039 test vectors (trezor/python-shamir-mnemonic, MIT):
+// [description, mnemonics, master secret hex or '' when invalid, xprv]
+import vectors from './fixtures/slip39-vectors.json';
+
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: (count: number) =>
+    new Uint8Array(jest.requireActual<typeof import('crypto')>('crypto').randomBytes(count)),
+}));
+
+// The vectors encrypt their master secrets with this passphrase
+const VECTOR_PASSPHRASE = 'TREZOR';
+
+type Failure = { share: string } | { set: string } | 'digest';
+
+/** What recovering a set of share phrases gives: the secret in hex, or where it stopped. */
+const recover = (mnemonics: string[], passphrase = VECTOR_PASSPHRASE): string | Failure => {
+  const shares: Slip39Share[] = [];
+  for (const mnemonic of mnemonics) {
+    const parsed = parseSlip39Share(mnemonic.split(' '));
+    if ('issue' in parsed) return { share: parsed.issue.type };
+    shares.push(parsed.share);
+  }
+  const issue = checkSlip39Shares(shares);
+  if (issue) return { set: issue.type };
+  try {
+    return Buffer.from(combineSlip39Shares(shares, passphrase)).toString('hex');
+  } catch {
+    return 'digest';
+  }
+};
+
+const parseShares = (phrases: string[]): Slip39Share[] =>
+  phrases.map((phrase) => {
+    const parsed = parseSlip39Share(phrase.split(' '));
+    if ('issue' in parsed) throw new Error(`Unexpected share issue: ${parsed.issue.type}`);
+    return parsed.share;
+  });
+
+const cases = (vectors as [string, string[], string, string][]).map(([description, mnemonics, secret]) => ({
+  number: Number(description.split('.')[0]),
+  description,
+  mnemonics,
+  secret,
+}));
+
+// Where each invalid vector is caught, by vector number
+const INVALID: Record<number, Failure> = {
+  2: { share: 'checksum' },
+  21: { share: 'checksum' },
+  3: { share: 'padding' },
+  22: { share: 'padding' },
+  39: { share: 'length' },
+  40: { share: 'length' },
+  5: { set: 'need_more' },
+  24: { set: 'need_more' },
+  6: { set: 'mismatch' },
+  7: { set: 'mismatch' },
+  10: { set: 'mismatch' },
+  12: { set: 'mismatch' },
+  25: { set: 'mismatch' },
+  26: { set: 'mismatch' },
+  29: { set: 'mismatch' },
+  31: { set: 'mismatch' },
+  11: { set: 'duplicate' },
+  30: { set: 'duplicate' },
+  13: 'digest',
+  32: 'digest',
+};
+
+// Backups with more than one group are recognised but not combined
+const isMultiGroup = (mnemonics: string[]): boolean =>
+  mnemonics.some((mnemonic) => {
+    const parsed = parseSlip39Share(mnemonic.split(' '));
+    return 'share' in parsed && parsed.share.groupCount > 1;
+  });
+
+describe('SLIP-39 test vectors', () => {
+  const valid = cases.filter((c) => c.secret && !isMultiGroup(c.mnemonics));
+  const multiGroup = cases.filter((c) => isMultiGroup(c.mnemonics));
+  const invalid = cases.filter((c) => !c.secret && !isMultiGroup(c.mnemonics));
+
+  it('knows where every invalid vector is caught', () => {
+    expect(invalid.map((c) => c.number).sort((a, b) => a - b)).toEqual(
+      Object.keys(INVALID).map(Number).sort((a, b) => a - b)
+    );
+  });
+
+  it.each(valid.map((c) => [c.description, c] as const))('recovers %s', (_description, c) => {
+    expect(recover(c.mnemonics)).toBe(c.secret);
+  });
+
+  it.each(invalid.map((c) => [c.description, c] as const))('rejects %s', (_description, c) => {
+    expect(recover(c.mnemonics)).toEqual(INVALID[c.number]);
+  });
+
+  it.each(multiGroup.map((c) => [c.description, c] as const))('reports groups for %s', (_description, c) => {
+    expect(recover(c.mnemonics)).toEqual({ set: 'groups' });
+  });
+
+  it('needs the passphrase the secret was encrypted with', () => {
+    const [first] = valid;
+    expect(recover(first.mnemonics, '')).not.toBe(first.secret);
+  });
+});
+
+describe('generateSlip39Shares', () => {
+  const SETTINGS: [threshold: number, count: number][] = [
+    [1, 1],
+    [2, 2],
+    [2, 3],
+    [3, 5],
+    [5, 16],
+  ];
+
+  describe.each([16, 32])('%i-byte secrets', (bytes) => {
+    const secret = new Uint8Array(bytes).map((_, i) => (i * 37 + 11) & 0xff);
+
+    it.each(SETTINGS)('round-trips %i-of-%i from any quorum', (threshold, count) => {
+      const phrases = generateSlip39Shares(secret, threshold, count);
+      const shares = parseShares(phrases);
+
+      expect(phrases).toHaveLength(count);
+      expect(SLIP39_SHARE_LENGTHS).toContain(phrases[0].split(' ').length);
+      expect(combineSlip39Shares(shares.slice(0, threshold))).toEqual(secret);
+      expect(combineSlip39Shares(shares.slice(-threshold).reverse())).toEqual(secret);
+    });
+
+    it('needs a full quorum', () => {
+      const shares = parseShares(generateSlip39Shares(secret, 3, 5));
+
+      expect(checkSlip39Shares(shares.slice(0, 2))).toEqual({ type: 'need_more', have: 2, threshold: 3 });
+    });
+  });
+
+  it('keeps shares from different backups apart', () => {
+    const secret = new Uint8Array(16).fill(7);
+    const [a] = parseShares(generateSlip39Shares(secret, 2, 3));
+    const [b] = parseShares(generateSlip39Shares(secret, 3, 5));
+
+    expect(checkSlip39Shares([a, b])).toEqual({ type: 'mismatch' });
+  });
+
+  it('rejects invalid settings', () => {
+    const secret = new Uint8Array(16);
+    expect(() => generateSlip39Shares(secret, 0, 3)).toThrow();
+    expect(() => generateSlip39Shares(secret, 4, 3)).toThrow();
+    expect(() => generateSlip39Shares(secret, 2, 17)).toThrow();
+    expect(() => generateSlip39Shares(new Uint8Array(15), 2, 3)).toThrow();
+  });
+
+  it('rejects a threshold of 1 with more than one share, as the reference implementation does', () => {
+    const secret = new Uint8Array(16);
+    expect(() => generateSlip39Shares(secret, 1, 2)).toThrow('threshold of 1');
+    expect(() => generateSlip39Shares(secret, 1, 1)).not.toThrow();
+  });
+});
+
+describe('recovery phrase shares', () => {
+  it.each([
+    ['12-word', 'legal winner thank year wave sausage worth useful legal winner thank yellow'],
+    ['24-word', bip39.entropyToMnemonic('f585c11aec520db57dd353c69554b21a89b20fb0650966fa0a9d6f74fd989d8f')],
+  ])('rebuilds a %s phrase', (_label, mnemonic) => {
+    const shares = parseShares(mnemonicToSlip39Shares(mnemonic, 2, 3));
+
+    expect(slip39SharesToMnemonic([shares[2], shares[0]])).toBe(mnemonic);
+  });
+});
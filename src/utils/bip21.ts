@@ -0,0 +1,26 @@
+import { satsToBtc } from './format';
+
+interface Bip21Params {
+  amountSats?: bigint;
+  label?: string;
+  message?: string;
+  lightning?: string;
+  spark?: string;
+}
+
+/**
+ * Build a BIP21 `bitcoin:` URI. Lightning and Spark requests ride along as
+ * extra parameters so a single QR works for any wallet type.
+ */
+export const buildBip21Uri = (address: string, params: Bip21Params = {}): string => {
+  const query: string[] = [];
+  if (params.amountSats != null && params.amountSats > 0n) {
+    // BIP21 amounts are decimal BTC without trailing zeros
+    query.push(`amount=${satsToBtc(params.amountSats).replace(/\.?0+$/, '')}`);
+  }
+  if (params.label) query.push(`label=${encodeURIComponent(params.label)}`);
+  if (params.message) query.push(`message=${encodeURIComponent(params.message)}`);
+  if (params.lightning) query.push(`lightning=${encodeURIComponent(params.lightning)}`);
+  if (params.spark) query.push(`spark=${encodeURIComponent(params.spark)}`);
+  return query.length > 0 ? `bitcoin:${address}?${query.join('&')}` : `bitcoin:${address}`;
+};
@@ -1,13 +1,55 @@
 /**
  * Formatting utilities for the wallet
+ *
+ * Display helpers follow the device locale; satsToBtc, tokenValueToDecimal and
+ * parseTokenAmount use plain "." decimals for input fields, search and exports.
  */
 import type { BitcoinUnit } from '@/types/wallet';
+import { getDeviceLocale } from './locale';
+
+interface DigitGrouping {
+  separator: string;
+  primary: number; // digits in the rightmost group
+  secondary: number; // digits in every group to its left (2 for en-IN lakh grouping)
+  minDigits: number; // shortest integer that gets grouped (5 for es and pl)
+}
+
+const digitGrouping = (): DigitGrouping => {
+  const format = new Intl.NumberFormat(getDeviceLocale(), { maximumFractionDigits: 0 });
+  const parts = format.formatToParts(1234567890);
+  const groups = parts.filter((part) => part.type === 'integer').map((part) => part.value.length);
+  const primary = groups[groups.length - 1] ?? 3;
+  return {
+    separator: parts.find((part) => part.type === 'group')?.value ?? '',
+    primary,
+    secondary: groups.length > 2 ? groups[groups.length - 2] : primary,
+    minDigits: format.formatToParts(1000).some((part) => part.type === 'group') ? primary + 1 : primary + 2,
+  };
+};
+
+// Groups the digit string itself: token amounts can be far above Number.MAX_SAFE_INTEGER
+const groupInteger = (value: bigint): string => {
+  if (value < 0n) return `-${groupInteger(-value)}`;
+  const digits = value.toString();
+  const { separator, primary, secondary, minDigits } = digitGrouping();
+  if (!separator || digits.length < minDigits) return digits;
+  const groups = [digits.slice(-primary)];
+  for (let end = digits.length - primary; end > 0; end -= secondary) {
+    groups.unshift(digits.slice(Math.max(0, end - secondary), end));
+  }
+  return groups.join(separator);
+};
+
+const decimalSeparator = (): string => {
+  const parts = new Intl.NumberFormat(getDeviceLocale()).formatToParts(1.5);
+  return parts.find((part) => part.type === 'decimal')?.value ?? '.';
+};
 
 /**
- * Format satoshis with thousands separator
+ * Format satoshis with the locale's thousands separator
  */
 export const formatSats = (sats: bigint): string => {
-  return sats.toLocaleString('en-US');
+  return groupInteger(sats);
 };
 
 export interface FormattedAmount {
@@ -17,14 +59,19 @@ export interface FormattedAmount {
 
 export const formatAmount = (sats: bigint, unit: BitcoinUnit): FormattedAmount => {
   if (unit === 'BTC') {
-    return { value: satsToBtc(sats), unit: 'BTC' };
+    return { value: formatBtc(sats), unit: 'BTC' };
+  }
+  if (unit === 'BIP177') {
+    // BIP-177: the base unit is called bitcoin and written as an integer after ₿
+    return { value: `₿${formatSats(sats)}`, unit: '' };
   }
   return { value: formatSats(sats), unit: 'sats' };
 };
 
+const joinAmount = (f: FormattedAmount): string => (f.unit ? `${f.value} ${f.unit}` : f.value);
+
 export const formatAmountStr = (sats: bigint, unit: BitcoinUnit): string => {
-  const f = formatAmount(sats, unit);
-  return `${f.value} ${f.unit}`;
+  return joinAmount(formatAmount(sats, unit));
 };
 
 export const formatSignedAmount = (
@@ -44,12 +91,19 @@ export const formatSignedAmountStr = (
   sign: '+' | '-',
   unit: BitcoinUnit
 ): string => {
-  const f = formatAmount(sats, unit);
-  return `${sign}${f.value} ${f.unit}`;
+  return joinAmount(formatSignedAmount(sats, sign, unit));
 };
 
 /**
- * Format satoshis to BTC decimal string (always positive, sign handled by caller)
+ * Format satoshis as BTC with 8 decimals in the device locale, e.g. "1.234,56789000"
+ */
+export const formatBtc = (sats: bigint): string => {
+  const frac = (sats % 100_000_000n).toString().padStart(8, '0');
+  return `${groupInteger(sats / 100_000_000n)}${decimalSeparator()}${frac}`;
+};
+
+/**
+ * Format satoshis to a plain BTC decimal string with "." (always positive, sign handled by caller)
  */
 export const satsToBtc = (sats: bigint): string => {
   const whole = sats / 100_000_000n;
@@ -57,6 +111,49 @@ export const satsToBtc = (sats: bigint): string => {
   return `${whole.toString()}.${frac}`;
 };
 
+const tokenFraction = (amount: bigint, decimals: number): string => {
+  if (decimals <= 0) return '';
+  const divisor = 10n ** BigInt(decimals);
+  return (amount % divisor).toString().padStart(decimals, '0').replace(/0+$/, '');
+};
+
+/**
+ * Format a token amount given in base units in the device locale, e.g. 1234500 with 4 decimals → "123.45"
+ */
+export const formatTokenValue = (amount: bigint, decimals: number): string => {
+  const whole = groupInteger(amount / 10n ** BigInt(decimals));
+  const frac = tokenFraction(amount, decimals);
+  return frac ? `${whole}${decimalSeparator()}${frac}` : whole;
+};
+
+/**
+ * Token amount in base units as a plain decimal string with no grouping, e.g. "1234.5"
+ */
+export const tokenValueToDecimal = (amount: bigint, decimals: number): string => {
+  const whole = (amount / 10n ** BigInt(decimals)).toString();
+  const frac = tokenFraction(amount, decimals);
+  return frac ? `${whole}.${frac}` : whole;
+};
+
+/**
+ * Format a token amount with its ticker, e.g. "123.45 USDB"
+ */
+export const formatTokenAmount = (amount: bigint, decimals: number, ticker: string): string => {
+  return `${formatTokenValue(amount, decimals)} ${ticker}`;
+};
+
+/**
+ * Parse a decimal token amount string into base units. Returns undefined when invalid
+ * or when it has more fractional digits than the token supports.
+ */
+export const parseTokenAmount = (value: string, decimals: number): bigint | undefined => {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(value.trim());
+  if (!match || (!match[1] && !match[2])) return undefined;
+  const frac = match[2] ?? '';
+  if (frac.length > decimals) return undefined;
+  return BigInt(match[1] || '0') * 10n ** BigInt(decimals) + BigInt(frac.padEnd(decimals, '0') || '0');
+};
+
 /**
  * Convert millisats to sats with ceiling rounding
  */
@@ -64,14 +161,58 @@ export const msatToSatCeil = (msat: bigint): bigint => {
   return (msat + 999n) / 1000n;
 };
 
+/**
+ * Convert millisats to sats with floor rounding
+ */
+export const msatToSatFloor = (msat: bigint): bigint => {
+  return msat / 1000n;
+};
+
 /**
  * Convert sats to fiat string using BTC price
  */
 export const formatFiat = (sats: bigint, btcPrice: number, fiatCurrency: string): string => {
   const btcValue = Number(sats) / 100_000_000;
   const fiatValue = btcValue * btcPrice;
-  return new Intl.NumberFormat('en-US', {
+  return new Intl.NumberFormat(getDeviceLocale(), {
     style: 'currency',
     currency: fiatCurrency,
   }).format(fiatValue);
 };
+
+/**
+ * Minor units of a fiat currency from Intl, e.g. 2 for USD and 0 for JPY
+ */
+export const fiatFractionDigits = (currency: string): number => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+};
+
+/**
+ * Narrow currency symbol from Intl, e.g. "$" for USD or "₦" for NGN; the code when Intl has none
+ */
+export const fiatCurrencySymbol = (currency: string): string => {
+  try {
+    const parts = new Intl.NumberFormat(getDeviceLocale(), {
+      style: 'currency',
+      currency,
+      currencyDisplay: 'narrowSymbol',
+    }).formatToParts(0);
+    return parts.find((part) => part.type === 'currency')?.value ?? currency;
+  } catch {
+    return currency;
+  }
+};
+
+/**
+ * English currency name from Intl, e.g. "Argentine Peso"; the code when the runtime has no display names
+ */
+export const fiatCurrencyName = (currency: string): string => {
+  try {
+    if (typeof Intl.DisplayNames === 'function') {
+      return new Intl.DisplayNames(['en'], { type: 'currency' }).of(currency) ?? currency;
+    }
+  } catch {
+    // Fall through to the code
+  }
+  return currency;
+};
@@ -1,2 +1,9 @@
 export * from './format';
 
+export * from './locale';
+
+export * from './bip21';
+
+export * from './mnemonic';
+
+export * from './slip39';
@@ -0,0 +1,80 @@
+/**
+ * Device locale for number and date formatting
+ */
+import { format, formatDistanceToNow, type Locale } from 'date-fns';
+import { de } from 'date-fns/locale/de';
+import { enGB } from 'date-fns/locale/en-GB';
+import { enUS } from 'date-fns/locale/en-US';
+import { es } from 'date-fns/locale/es';
+import { fr } from 'date-fns/locale/fr';
+import { it } from 'date-fns/locale/it';
+import { ja } from 'date-fns/locale/ja';
+import { ko } from 'date-fns/locale/ko';
+import { nl } from 'date-fns/locale/nl';
+import { pl } from 'date-fns/locale/pl';
+import { pt } from 'date-fns/locale/pt';
+import { ptBR } from 'date-fns/locale/pt-BR';
+import { ru } from 'date-fns/locale/ru';
+import { tr } from 'date-fns/locale/tr';
+import { zhCN } from 'date-fns/locale/zh-CN';
+
+// Exact BCP 47 tags first, then bare languages
+const DATE_LOCALES: Record<string, Locale> = {
+  'en-GB': enGB,
+  'pt-BR': ptBR,
+  'zh-CN': zhCN,
+  en: enUS,
+  de,
+  es,
+  fr,
+  it,
+  ja,
+  ko,
+  nl,
+  pl,
+  pt,
+  ru,
+  tr,
+  zh: zhCN,
+};
+
+let deviceLocale: string | null = null;
+
+/**
+ * BCP 47 tag of the device locale, e.g. "de-DE"; "en-US" when the runtime cannot tell
+ */
+export const getDeviceLocale = (): string => {
+  if (deviceLocale == null) {
+    try {
+      deviceLocale = Intl.DateTimeFormat().resolvedOptions().locale || 'en-US';
+    } catch {
+      deviceLocale = 'en-US';
+    }
+  }
+  return deviceLocale;
+};
+
+/**
+ * date-fns locale matching the device locale, falling back to its language, then en-US
+ */
+export const getDateLocale = (): Locale => {
+  const tag = getDeviceLocale();
+  const [language, region] = tag.split('-');
+  return DATE_LOCALES[region ? `${language}-${region.toUpperCase()}` : language]
+    ?? DATE_LOCALES[language]
+    ?? enUS;
+};
+
+/**
+ * date-fns `format` in the device locale, e.g. formatDate(date, 'PPp')
+ */
+export const formatDate = (date: Date | number, pattern: string): string => {
+  return format(date, pattern, { locale: getDateLocale() });
+};
+
+/**
+ * Relative time in the device locale, e.g. "5 minutes ago"
+ */
+export const formatTimeAgo = (date: Date | number): string => {
+  return formatDistanceToNow(date, { addSuffix: true, locale: getDateLocale() });
+};
@@ -0,0 +1,98 @@
+/**
+ * BIP39 recovery phrase helpers for word-by-word entry
+ */
+
+import * as bip39 from 'bip39';
+
+// Word counts for 128 to 256 bits of entropy
+export const MNEMONIC_LENGTHS = [12, 15, 18, 21, 24] as const;
+export type MnemonicLength = (typeof MNEMONIC_LENGTHS)[number];
+
+const WORDLIST = bip39.wordlists.english;
+const WORDS = new Set(WORDLIST);
+
+export const isMnemonicLength = (count: number): count is MnemonicLength =>
+  (MNEMONIC_LENGTHS as readonly number[]).includes(count);
+
+export const isMnemonicWord = (word: string): boolean => WORDS.has(word);
+
+/**
+ * Wordlist entries starting with a prefix, for autocomplete
+ */
+export const suggestMnemonicWords = (prefix: string, limit = 4): string[] => {
+  if (!prefix) return [];
+  const suggestions: string[] = [];
+  for (const word of WORDLIST) {
+    if (word.startsWith(prefix)) {
+      suggestions.push(word);
+      if (suggestions.length >= limit) break;
+    }
+  }
+  return suggestions;
+};
+
+export type MnemonicIssue =
+  | { type: 'missing'; count: number }
+  | { type: 'unknown_word'; index: number; word: string }
+  | { type: 'checksum' };
+
+/**
+ * First problem with an entered phrase, or null when it is a valid BIP39 mnemonic.
+ * Once every word is on the list, the only thing left to fail is the checksum
+ * carried in the last word.
+ */
+export const checkMnemonic = (words: string[]): MnemonicIssue | null => {
+  const missing = words.filter((word) => !word).length;
+  if (missing > 0) return { type: 'missing', count: missing };
+
+  const unknown = words.findIndex((word) => !WORDS.has(word));
+  if (unknown >= 0) return { type: 'unknown_word', index: unknown, word: words[unknown] };
+
+  if (!bip39.validateMnemonic(words.join(' '))) return { type: 'checksum' };
+  return null;
+};
+
+export interface MnemonicPuzzle {
+  // Positions the user has to fill, in ascending order
+  indices: number[];
+  // Shuffled answers plus decoys, keyed by their position in the phrase
+  options: { id: number; word: string }[];
+}
+
+const PUZZLE_PROMPTS = 3;
+const PUZZLE_OPTIONS = 9;
+
+function shuffle<T>(arr: T[]): T[] {
+  const a = [...arr];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
+
+/**
+ * Word-order puzzle proving the phrase was written down: pick the words at a
+ * few random positions, in order, from a shuffled set that includes decoys.
+ */
+export const createMnemonicPuzzle = (words: string[]): MnemonicPuzzle | null => {
+  if (!isMnemonicLength(words.length)) return null;
+  const shuffled = shuffle(words.map((_, i) => i));
+  const indices = shuffled.slice(0, PUZZLE_PROMPTS).sort((a, b) => a - b);
+  const options = shuffle(shuffled.slice(0, PUZZLE_OPTIONS).map((i) => ({ id: i, word: words[i] })));
+  return { indices, options };
+};
+
+export const isMnemonicPuzzleSolved = (
+  puzzle: MnemonicPuzzle,
+  words: string[],
+  selectedWords: string[]
+): boolean =>
+  selectedWords.length === puzzle.indices.length &&
+  selectedWords.every((word, i) => word === words[puzzle.indices[i]]);
+
+// How long a passed backup check counts before the home tab asks for another
+export const BACKUP_CHECK_INTERVAL_DAYS = 90;
+
+export const isBackupCheckDue = (lastCheckAt: number | null, now = Date.now()): boolean =>
+  lastCheckAt == null || now - lastCheckAt > BACKUP_CHECK_INTERVAL_DAYS * 24 * 60 * 60 * 1000;
@@ -0,0 +1,389 @@
+/**
+ * SLIP-39 Shamir backup of the wallet seed
+ *
+ * Splits BIP39 entropy into M-of-N share phrases and rebuilds it from a
+ * quorum, following https://github.com/satoshilabs/slips/blob/master/slip-0039.md.
+ * Backups made here use a single group; shares from multi-group backups are
+ * recognised but not combined.
+ */
+
+import * as bip39 from 'bip39';
+import * as Crypto from 'expo-crypto';
+import { hmac } from '@noble/hashes/hmac';
+import { pbkdf2 } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha256';
+import { concatBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { SLIP39_WORDLIST } from './slip39Wordlist';
+
+const RADIX_BITS = 10;
+const ID_BITS = 15;
+const HEADER_WORDS = 4; // id, ext, e, GI, Gt, g, I, t
+const CHECKSUM_WORDS = 3;
+const DIGEST_LENGTH = 4;
+const BASE_ITERATION_COUNT = 10000;
+const ROUND_COUNT = 4;
+const DIGEST_INDEX = 254;
+const SECRET_INDEX = 255;
+
+export const SLIP39_MAX_SHARES = 16;
+
+// Extendable backups (the current default) leave the identifier out of the encryption salt
+const CUSTOMIZATION = { legacy: 'shamir', extendable: 'shamir_extendable' };
+
+// Iterations are 10000 << e; e = 1 matches the reference implementation's default
+const DEFAULT_ITERATION_EXPONENT = 1;
+
+const WORD_INDEX = new Map<string, number>(SLIP39_WORDLIST.map((word, index) => [word, index]));
+
+export const isSlip39Word = (word: string): boolean => WORD_INDEX.has(word);
+
+// Share phrase lengths for 128 to 256-bit secrets
+export const SLIP39_SHARE_LENGTHS = [20, 23, 27, 30, 33] as const;
+
+export interface Slip39Share {
+  identifier: number;
+  extendable: boolean;
+  iterationExponent: number;
+  groupIndex: number;
+  groupThreshold: number;
+  groupCount: number;
+  memberIndex: number;
+  memberThreshold: number;
+  value: Uint8Array;
+}
+
+export type Slip39ShareIssue =
+  | { type: 'missing'; count: number }
+  | { type: 'unknown_word'; index: number; word: string }
+  | { type: 'length' }
+  | { type: 'checksum' }
+  | { type: 'padding' };
+
+export type Slip39SetIssue =
+  | { type: 'mismatch' }
+  | { type: 'groups' }
+  | { type: 'duplicate' }
+  | { type: 'need_more'; have: number; threshold: number };
+
+// --- GF(256) arithmetic over the Rijndael polynomial x^8 + x^4 + x^3 + x + 1
+
+const EXP = new Uint8Array(255);
+const LOG = new Uint8Array(256);
+for (let i = 0, poly = 1; i < 255; i++) {
+  EXP[i] = poly;
+  LOG[poly] = i;
+  poly = (poly << 1) ^ poly;
+  if (poly & 0x100) poly ^= 0x11b;
+}
+
+/** Lagrange interpolation of the shares' polynomial at x. */
+const interpolate = (shares: Map<number, Uint8Array>, x: number): Uint8Array => {
+  const known = shares.get(x);
+  if (known) return known;
+
+  const length = shares.values().next().value!.length;
+  let logProduct = 0;
+  for (const index of shares.keys()) logProduct += LOG[index ^ x];
+
+  const result = new Uint8Array(length);
+  for (const [index, value] of shares) {
+    let logBasis = logProduct - LOG[index ^ x];
+    for (const other of shares.keys()) logBasis -= LOG[index ^ other];
+    logBasis = ((logBasis % 255) + 255) % 255;
+    for (let i = 0; i < length; i++) {
+      if (value[i] !== 0) result[i] ^= EXP[(LOG[value[i]] + logBasis) % 255];
+    }
+  }
+  return result;
+};
+
+const shareDigest = (randomPart: Uint8Array, secret: Uint8Array): Uint8Array =>
+  hmac(sha256, randomPart, secret).slice(0, DIGEST_LENGTH);
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean =>
+  a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+const splitSecret = (threshold: number, count: number, secret: Uint8Array): Uint8Array[] => {
+  if (threshold === 1) return Array.from({ length: count }, () => secret);
+
+  const randomCount = threshold - 2;
+  const randomPart = Crypto.getRandomBytes(secret.length - DIGEST_LENGTH);
+  const base = new Map<number, Uint8Array>();
+  const shares: Uint8Array[] = [];
+  for (let i = 0; i < randomCount; i++) {
+    const share = Crypto.getRandomBytes(secret.length);
+    shares.push(share);
+    base.set(i, share);
+  }
+  base.set(DIGEST_INDEX, concatBytes(shareDigest(randomPart, secret), randomPart));
+  base.set(SECRET_INDEX, secret);
+  for (let i = randomCount; i < count; i++) {
+    shares.push(interpolate(base, i));
+  }
+  return shares;
+};
+
+const recoverSecret = (threshold: number, shares: Map<number, Uint8Array>): Uint8Array => {
+  if (threshold === 1) return shares.values().next().value!;
+
+  const secret = interpolate(shares, SECRET_INDEX);
+  const digestShare = interpolate(shares, DIGEST_INDEX);
+  const digest = digestShare.slice(0, DIGEST_LENGTH);
+  if (!bytesEqual(digest, shareDigest(digestShare.slice(DIGEST_LENGTH), secret))) {
+    throw new Error('SLIP-39 share digest does not match');
+  }
+  return secret;
+};
+
+// --- Master secret encryption (4-round Feistel network keyed with PBKDF2)
+
+const crypt = (
+  secret: Uint8Array,
+  passphrase: string,
+  iterationExponent: number,
+  identifier: number,
+  extendable: boolean,
+  encrypt: boolean
+): Uint8Array => {
+  const half = secret.length / 2;
+  let left = secret.slice(0, half);
+  let right = secret.slice(half);
+  const salt = extendable
+    ? new Uint8Array(0)
+    : concatBytes(utf8ToBytes(CUSTOMIZATION.legacy), new Uint8Array([identifier >> 8, identifier & 0xff]));
+  const password = utf8ToBytes(passphrase);
+  const iterations = (BASE_ITERATION_COUNT << iterationExponent) / ROUND_COUNT;
+
+  const rounds = [0, 1, 2, 3];
+  if (!encrypt) rounds.reverse();
+  for (const round of rounds) {
+    const f = pbkdf2(sha256, concatBytes(new Uint8Array([round]), password), concatBytes(salt, right), {
+      c: iterations,
+      dkLen: right.length,
+    });
+    const next = left.map((byte, i) => byte ^ f[i]);
+    left = right;
+    right = next;
+  }
+  return concatBytes(right, left);
+};
+
+// --- RS1024 checksum
+
+const RS1024_GEN = [
+  0xe0e040, 0x1c1c080, 0x3838100, 0x7070200, 0xe0e0009,
+  0x1c0c2412, 0x38086c24, 0x3090fc48, 0x21b1f890, 0x3f3f120,
+];
+
+const rs1024Polymod = (values: number[]): number => {
+  let chk = 1;
+  for (const value of values) {
+    const b = chk >> 20;
+    chk = ((chk & 0xfffff) << 10) ^ value;
+    for (let i = 0; i < 10; i++) {
+      if ((b >> i) & 1) chk ^= RS1024_GEN[i];
+    }
+  }
+  return chk;
+};
+
+const customizationValues = (extendable: boolean): number[] =>
+  Array.from(extendable ? CUSTOMIZATION.extendable : CUSTOMIZATION.legacy, (c) => c.charCodeAt(0));
+
+const rs1024Checksum = (data: number[], extendable: boolean): number[] => {
+  const polymod = rs1024Polymod([...customizationValues(extendable), ...data, 0, 0, 0]) ^ 1;
+  return [2, 1, 0].map((i) => (polymod >> (RADIX_BITS * i)) & 1023);
+};
+
+// --- Share encoding
+
+const bytesToBigInt = (bytes: Uint8Array): bigint =>
+  bytes.reduce((value, byte) => (value << 8n) | BigInt(byte), 0n);
+
+const bigIntToBytes = (value: bigint, length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+};
+
+const encodeShare = (share: Slip39Share): string => {
+  const header =
+    (BigInt(share.identifier) << 25n) |
+    (BigInt(share.extendable ? 1 : 0) << 24n) |
+    (BigInt(share.iterationExponent) << 20n) |
+    (BigInt(share.groupIndex) << 16n) |
+    (BigInt(share.groupThreshold - 1) << 12n) |
+    (BigInt(share.groupCount - 1) << 8n) |
+    (BigInt(share.memberIndex) << 4n) |
+    BigInt(share.memberThreshold - 1);
+  const valueWords = Math.ceil((share.value.length * 8) / RADIX_BITS);
+  const value = bytesToBigInt(share.value);
+
+  const indices: number[] = [];
+  for (let i = HEADER_WORDS - 1; i >= 0; i--) indices.push(Number((header >> BigInt(i * RADIX_BITS)) & 1023n));
+  for (let i = valueWords - 1; i >= 0; i--) indices.push(Number((value >> BigInt(i * RADIX_BITS)) & 1023n));
+  indices.push(...rs1024Checksum(indices, share.extendable));
+  return indices.map((index) => SLIP39_WORDLIST[index]).join(' ');
+};
+
+const decodeShare = (indices: number[]): Slip39Share | Slip39ShareIssue => {
+  const header = indices.slice(0, HEADER_WORDS).reduce((value, index) => (value << 10n) | BigInt(index), 0n);
+  const extendable = ((header >> 24n) & 1n) === 1n;
+  if (rs1024Polymod([...customizationValues(extendable), ...indices]) !== 1) {
+    return { type: 'checksum' };
+  }
+
+  const valueIndices = indices.slice(HEADER_WORDS, -CHECKSUM_WORDS);
+  const valueBits = valueIndices.length * RADIX_BITS;
+  const paddingBits = valueBits % 16;
+  if (paddingBits > 8) return { type: 'padding' };
+  const value = valueIndices.reduce((acc, index) => (acc << 10n) | BigInt(index), 0n);
+  if (value >> BigInt(valueBits - paddingBits) !== 0n) return { type: 'padding' };
+
+  const groupThreshold = Number((header >> 12n) & 15n) + 1;
+  const groupCount = Number((header >> 8n) & 15n) + 1;
+
+  return {
+    identifier: Number(header >> 25n),
+    extendable,
+    iterationExponent: Number((header >> 20n) & 15n),
+    groupIndex: Number((header >> 16n) & 15n),
+    groupThreshold,
+    groupCount,
+    memberIndex: Number((header >> 4n) & 15n),
+    memberThreshold: Number(header & 15n) + 1,
+    value: bigIntToBytes(value, (valueBits - paddingBits) / 8),
+  };
+};
+
+/**
+ * Parse one share phrase, or explain the first problem with it.
+ */
+export const parseSlip39Share = (words: string[]): { share: Slip39Share } | { issue: Slip39ShareIssue } => {
+  const missing = words.filter((word) => !word).length;
+  if (missing > 0) return { issue: { type: 'missing', count: missing } };
+
+  const unknown = words.findIndex((word) => !WORD_INDEX.has(word));
+  if (unknown >= 0) return { issue: { type: 'unknown_word', index: unknown, word: words[unknown] } };
+
+  if (!(SLIP39_SHARE_LENGTHS as readonly number[]).includes(words.length)) {
+    return { issue: { type: 'length' } };
+  }
+
+  const decoded = decodeShare(words.map((word) => WORD_INDEX.get(word)!));
+  return 'type' in decoded ? { issue: decoded } : { share: decoded };
+};
+
+/**
+ * Whether a set of shares belongs to one backup and reaches its threshold;
+ * null when they can be combined.
+ */
+export const checkSlip39Shares = (shares: Slip39Share[]): Slip39SetIssue | null => {
+  if (shares.length === 0) return { type: 'need_more', have: 0, threshold: 0 };
+  if (shares.some((share) => share.groupCount !== 1)) return { type: 'groups' };
+  const [first] = shares;
+  const sameBackup = shares.every((share) =>
+    share.identifier === first.identifier &&
+    share.extendable === first.extendable &&
+    share.iterationExponent === first.iterationExponent &&
+    share.groupIndex === first.groupIndex &&
+    share.groupThreshold === first.groupThreshold &&
+    share.groupCount === first.groupCount &&
+    share.memberThreshold === first.memberThreshold &&
+    share.value.length === first.value.length
+  );
+  if (!sameBackup) return { type: 'mismatch' };
+  if (new Set(shares.map((share) => share.memberIndex)).size !== shares.length) {
+    return { type: 'duplicate' };
+  }
+  if (shares.length < first.memberThreshold) {
+    return { type: 'need_more', have: shares.length, threshold: first.memberThreshold };
+  }
+  return null;
+};
+
+/**
+ * Split a master secret (BIP39 entropy) into `count` share phrases, any
+ * `threshold` of which rebuild it.
+ */
+export const generateSlip39Shares = (
+  masterSecret: Uint8Array,
+  threshold: number,
+  count: number,
+  passphrase = ''
+): string[] => {
+  if (masterSecret.length < 16 || masterSecret.length % 2 !== 0) {
+    throw new Error('SLIP-39 master secret must be at least 128 bits and an even number of bytes');
+  }
+  if (threshold < 1 || threshold > count || count > SLIP39_MAX_SHARES) {
+    throw new Error(`Invalid SLIP-39 threshold ${threshold} of ${count}`);
+  }
+  // As in the reference implementation: several shares with a threshold of 1 would each be the whole secret
+  if (threshold === 1 && count > 1) {
+    throw new Error(`SLIP-39 does not allow a threshold of 1 with ${count} shares; use 1 of 1`);
+  }
+
+  const identifier = Crypto.getRandomBytes(2).reduce((value, byte) => (value << 8) | byte, 0) & ((1 << ID_BITS) - 1);
+  const encrypted = crypt(masterSecret, passphrase, DEFAULT_ITERATION_EXPONENT, identifier, true, true);
+
+  return splitSecret(threshold, count, encrypted).map((value, memberIndex) =>
+    encodeShare({
+      identifier,
+      extendable: true,
+      iterationExponent: DEFAULT_ITERATION_EXPONENT,
+      groupIndex: 0,
+      groupThreshold: 1,
+      groupCount: 1,
+      memberIndex,
+      memberThreshold: threshold,
+      value,
+    })
+  );
+};
+
+/**
+ * Rebuild the master secret from a quorum of shares that passed
+ * `checkSlip39Shares`. Throws if the shares do not combine to a valid secret.
+ */
+export const combineSlip39Shares = (shares: Slip39Share[], passphrase = ''): Uint8Array => {
+  const issue = checkSlip39Shares(shares);
+  if (issue) throw new Error(`Cannot combine SLIP-39 shares: ${issue.type}`);
+
+  const [first] = shares;
+  const members = new Map(shares.slice(0, first.memberThreshold).map((share) => [share.memberIndex, share.value]));
+  const encrypted = recoverSecret(first.memberThreshold, members);
+  return crypt(encrypted, passphrase, first.iterationExponent, first.identifier, first.extendable, false);
+};
+
+/**
+ * Words of a typed or pasted share phrase
+ */
+export const splitSlip39Words = (text: string): string[] =>
+  text.trim().toLowerCase().split(/\s+/).filter(Boolean);
+
+/**
+ * Parse share phrases as entered (blank entries are skipped) and check them as a set
+ */
+export const collectSlip39Shares = (texts: string[]): { shares: Slip39Share[]; issue: Slip39SetIssue | null } => {
+  const shares: Slip39Share[] = [];
+  for (const text of texts) {
+    const parsed = parseSlip39Share(splitSlip39Words(text));
+    if ('share' in parsed) shares.push(parsed.share);
+  }
+  return { shares, issue: checkSlip39Shares(shares) };
+};
+
+/**
+ * Split a BIP39 recovery phrase's entropy into share phrases
+ */
+export const mnemonicToSlip39Shares = (mnemonic: string, threshold: number, count: number): string[] =>
+  generateSlip39Shares(new Uint8Array(Buffer.from(bip39.mnemonicToEntropy(mnemonic), 'hex')), threshold, count);
+
+/**
+ * Rebuild the BIP39 recovery phrase from a quorum of shares
+ */
+export const slip39SharesToMnemonic = (shares: Slip39Share[]): string =>
+  bip39.entropyToMnemonic(Buffer.from(combineSlip39Shares(shares)));